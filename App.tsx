@@ -13,9 +13,18 @@ import { AuthProvider, useAuthContext } from './src/contexts/AuthContext';
 import { useTools } from './src/hooks/useTools';
 import { useToast } from './src/hooks/useToast';
 import { useBookmarks } from './src/hooks/useBookmarks';
-import { isFirebaseConfigured } from './src/lib/firebase';
+import { useToolListParams } from './src/hooks/useToolListParams';
+import { getDataSource } from './src/repositories';
+import { sortTools, compareTools } from './src/utils/toolSort';
+import { createSearchIndex } from './src/utils/searchIndex';
+import { parseSearchQuery, matchesQueryFilters, hasQueryFilters } from './src/utils/searchQuery';
+import { matchesTags, uniqueTags } from './src/utils/tags';
+import { getCategoryNamesWithDescendants } from './src/utils/categoryTree';
+import { isFreePricing } from './src/utils/pricing';
 import { Analytics } from "@vercel/analytics/react"
 import StatisticsModal from './components/StatisticsModal';
+import MySubmissions from './src/components/MySubmissions';
+import EditSuggestionsPanel from './src/components/EditSuggestionsPanel';
 // 내보내기 관련 import 제거
 // import { exportToolsToJson, downloadJsonFile } from './src/utils/exportImport';
  
@@ -101,21 +110,18 @@ const EmptyState: React.FC = () => (
  * 메인 앱 컨텐츠 컴포넌트 (AuthContext 사용)
  */
 const AppContent: React.FC = () => {
-  const { isAuthenticated, user } = useAuthContext();
+  const { isAuthenticated, isTrusted, user, isLoading: isAuthLoading } = useAuthContext();
   
-  // 필터 상태를 하나의 객체로 관리
-  const [filters, setFilters] = useState({
-    freeOnly: false,
-    bookmarkedOnly: false,
-    selectedCategory: '전체',
-    searchTerm: '',
-    isAuthenticated: false,
-  });
-  
-  // 정렬 상태는 별도로 관리 (기존 코드와의 호환성)
-  const [sortOrder, setSortOrder] = useState<SortOption>('updated_desc');
+  // 필터, 정렬, 페이지 상태는 URL 검색 파라미터로 관리 (링크 공유 및 뒤로 가기 복원)
+  const {
+    filters,
+    setFilters,
+    sortOrder,
+    setSortOrder,
+    currentPage,
+    setCurrentPage
+  } = useToolListParams();
   const [isAddToolModalOpen, setIsAddToolModalOpen] = useState(false);
-  const [currentPage, setCurrentPage] = useState(1);
   
   // 리뷰 모달 상태 관리
   const [isReviewModalOpen, setIsReviewModalOpen] = useState(false);
@@ -127,15 +133,13 @@ const AppContent: React.FC = () => {
   // 내보내기 상태 관리 제거
   // const [isExporting, setIsExporting] = useState(false);
   
-  // 인증 상태가 변경될 때 필터 상태 업데이트
+  // 로그인하지 않은 상태에서는 북마크 필터 비활성화
+  // 공유된 URL의 북마크 필터가 인증 확인 전에 지워지지 않도록 로딩이 끝난 뒤에만 적용
   useEffect(() => {
-    setFilters(prev => ({
-      ...prev,
-      isAuthenticated,
-      // 로그인하지 않은 상태에서는 북마크 필터 비활성화
-      bookmarkedOnly: isAuthenticated ? prev.bookmarkedOnly : false
-    }));
-  }, [isAuthenticated]);
+    if (!isAuthLoading && !isAuthenticated) {
+      setFilters(prev => ({ ...prev, bookmarkedOnly: false }), { replace: true });
+    }
+  }, [isAuthLoading, isAuthenticated, setFilters]);
   
   // 페이징 설정
   const ITEMS_PER_PAGE = 40;
@@ -143,8 +147,9 @@ const AppContent: React.FC = () => {
   // 토스트 메시지 관리
   const { toasts, removeToast, showSuccess, showError } = useToast();
   
-  // Firebase 설정 확인
-  const firebaseConfigured = isFirebaseConfigured();
+  // 데이터 소스 확인 (local이면 오프라인 데모 데이터 사용)
+  const dataSource = getDataSource();
+  const isLocalData = dataSource === 'local';
   
   // 사용자 북마크 데이터 가져오기
   const { bookmarkedToolIds, isLoading: isBookmarksLoading, error: bookmarksError, refreshBookmarks } = useBookmarks();
@@ -156,12 +161,67 @@ const AppContent: React.FC = () => {
     console.log('🔖 App - 북마크 에러:', bookmarksError);
   }, [bookmarkedToolIds, isBookmarksLoading, bookmarksError]);
   
-  // Firebase에서 실시간 도구 데이터 가져오기
-  const { data: firebaseTools, isLoading, error, categories, addTool, updateTool, deleteTool } = useTools(filters.selectedCategory, sortOrder);
+  // 저장소에서 실시간 도구 데이터 가져오기
+  // 서버 커서 페이지 모드: 한 페이지 분량씩 필요할 때만 조회
+  const {
+    data: firebaseTools,
+    isLoading,
+    error,
+    categories,
+    categoryItems,
+    categoryTree,
+    tags,
+    addTool,
+    updateTool,
+    deleteTool,
+    totalCount,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    loadAll,
+    refresh
+  } = useTools(filters.selectedCategory, sortOrder, { pageSize: ITEMS_PER_PAGE });
+
+  // 검색창 쿼리 파싱 (category:, rating:>=4, -단어 등)
+  const searchQuery = useMemo(
+    () => parseSearchQuery(filters.searchTerm, { categories }),
+    [filters.searchTerm, categories]
+  );
+
+  // 쿼리에 지정된 카테고리/무료/가격/북마크/정렬은 기존 필터 상태에 반영 (이후 버튼으로 다시 변경 가능)
+  useEffect(() => {
+    const { category, freeOnly, pricingModels, freeTrialOnly, bookmarkedOnly, sortOrder: querySortOrder } = searchQuery;
+    if (
+      category !== undefined || freeOnly !== undefined || pricingModels !== undefined ||
+      freeTrialOnly !== undefined || bookmarkedOnly !== undefined
+    ) {
+      setFilters(prev => ({
+        ...prev,
+        selectedCategory: category ?? prev.selectedCategory,
+        freeOnly: freeOnly ?? prev.freeOnly,
+        pricingModels: pricingModels ?? prev.pricingModels,
+        freeTrialOnly: freeTrialOnly ?? prev.freeTrialOnly,
+        bookmarkedOnly: bookmarkedOnly ?? prev.bookmarkedOnly
+      }), { replace: true });
+    }
+    if (querySortOrder) {
+      setSortOrder(querySortOrder, { replace: true });
+    }
+  }, [searchQuery, setFilters, setSortOrder]);
+
+  // 검색/태그/무료/가격/북마크/쿼리 조건은 클라이언트에서 적용하므로, 활성화되면 남은 페이지를 모두 로드
+  const hasClientFilters = !!searchQuery.text || hasQueryFilters(searchQuery) || filters.tags.length > 0
+    || filters.freeOnly || filters.pricingModels.length > 0 || filters.freeTrialOnly || filters.bookmarkedOnly;
+
+  useEffect(() => {
+    if (hasClientFilters && hasMore) {
+      loadAll();
+    }
+  }, [hasClientFilters, hasMore, loadAll]);
   
   // 디버깅용 로그
-  console.log('🔍 Firebase 데이터 조회 결과:', {
-    firebaseConfigured,
+  console.log('🔍 도구 데이터 조회 결과:', {
+    dataSource,
     firebaseToolsLength: firebaseTools.length,
     isLoading,
     error
@@ -170,6 +230,32 @@ const AppContent: React.FC = () => {
   // 데이터 소스 (Firebase 데이터만 사용)
   const aiToolsData: FirebaseTool[] = firebaseTools;
 
+  // 이름/카테고리/설명/메모 검색 인덱스 (도구 목록이 바뀔 때만 다시 생성)
+  const searchIndex = useMemo(() => createSearchIndex(aiToolsData), [aiToolsData]);
+
+  // 도구 ID별 검색 결과 (자유 검색어가 없으면 null)
+  const searchResults = useMemo(() => {
+    if (!searchQuery.text.trim()) return null;
+    return new Map(searchIndex.search(searchQuery.text).map(result => [result.item.id, result]));
+  }, [searchIndex, searchQuery.text]);
+
+  // '-단어'로 제외할 도구 ID
+  const excludedToolIds = useMemo(() => new Set(
+    searchQuery.excludedTerms.flatMap(term => searchIndex.search(term).map(result => result.item.id))
+  ), [searchIndex, searchQuery.excludedTerms]);
+
+  // 선택한 카테고리와 하위 카테고리 이름 (상위 카테고리를 선택하면 하위 카테고리 도구도 표시)
+  const selectedCategoryNames = useMemo(
+    () => new Set(getCategoryNamesWithDescendants(categoryItems, filters.selectedCategory)),
+    [categoryItems, filters.selectedCategory]
+  );
+
+  // '-category:상위'로 제외하면 하위 카테고리 도구도 제외
+  const queryFilters = useMemo(() => ({
+    ...searchQuery,
+    excludedCategories: searchQuery.excludedCategories.flatMap(name => getCategoryNamesWithDescendants(categoryItems, name))
+  }), [searchQuery, categoryItems]);
+
   // 기존 필터링 및 정렬 로직에 북마크 필터링 추가
   const filteredAndSortedTools = useMemo(() => {
     console.log('🚀 필터링 시작:', { 
@@ -187,27 +273,50 @@ const AppContent: React.FC = () => {
 
     // 카테고리 필터링
     if (filters.selectedCategory !== '전체') {
-      filteredTools = filteredTools.filter(tool => tool.category === filters.selectedCategory);
+      filteredTools = filteredTools.filter(tool => selectedCategoryNames.has(tool.category));
       console.log('📂 카테고리 필터 후:', filteredTools.length, '개');
     }
 
-    // 검색어 필터링
-    if (filters.searchTerm) {
+    // 검색어 필터링 (검색 인덱스에서 일치한 도구만 남김)
+    if (searchResults) {
+      filteredTools = filteredTools.filter(tool => searchResults.has(tool.id));
+      console.log('🔍 검색 필터 후:', filteredTools.length, '개');
+    }
+
+    // 쿼리 조건 (숫자 비교, 제외 조건) 적용
+    if (hasQueryFilters(searchQuery)) {
       filteredTools = filteredTools.filter(tool =>
-        tool.name.toLowerCase().includes(filters.searchTerm.toLowerCase()) ||
-        tool.description.toLowerCase().includes(filters.searchTerm.toLowerCase())
+        !excludedToolIds.has(tool.id) && matchesQueryFilters(tool, queryFilters)
       );
-      console.log('🔍 검색 필터 후:', filteredTools.length, '개');
+      console.log('🧮 쿼리 조건 적용 후:', filteredTools.length, '개');
+    }
+
+    // 태그 필터 적용 (AND: 모두 포함, OR: 하나라도 포함)
+    if (filters.tags.length > 0) {
+      filteredTools = filteredTools.filter(tool => matchesTags(tool.tags, filters.tags, filters.tagMatchMode));
+      console.log('🏷️ 태그 필터 적용 후:', filteredTools.length, '개');
     }
 
-    // 무료 필터 적용
+    // 무료 필터 적용 (무료, 오픈소스)
     if (filters.freeOnly) {
-      filteredTools = filteredTools.filter(tool => tool.plan === '무료');
+      filteredTools = filteredTools.filter(tool => isFreePricing(tool.pricing));
       console.log('💰 무료 필터 적용 후:', filteredTools.length, '개');
     }
+
+    // 가격 모델 필터 적용 (선택한 모델 중 하나)
+    if (filters.pricingModels.length > 0) {
+      filteredTools = filteredTools.filter(tool => !!tool.pricing && filters.pricingModels.includes(tool.pricing.model));
+      console.log('💳 가격 모델 필터 적용 후:', filteredTools.length, '개');
+    }
+
+    // 무료 체험 필터 적용
+    if (filters.freeTrialOnly) {
+      filteredTools = filteredTools.filter(tool => !!tool.pricing?.hasFreeTrial);
+      console.log('🎁 무료 체험 필터 적용 후:', filteredTools.length, '개');
+    }
     
     // 북마크 필터 적용
-    if (filters.bookmarkedOnly && isAuthenticated && firebaseConfigured) {
+    if (filters.bookmarkedOnly && isAuthenticated) {
       console.log('🔖 북마크 필터 적용 전:', filteredTools.length, '개');
       console.log('🔖 북마크된 도구 ID 목록:', bookmarkedToolIds);
       
@@ -230,39 +339,32 @@ const AppContent: React.FC = () => {
       console.log('✅ 북마크 필터링된 도구들:', filteredTools.map(tool => tool.name));
     }
 
+    // 검색 중에는 관련도순, 점수가 같으면 선택한 정렬 옵션 적용
+    if (searchResults) {
+      return [...filteredTools].sort((a, b) =>
+        searchResults.get(b.id)!.score - searchResults.get(a.id)!.score || compareTools(a, b, sortOrder)
+      );
+    }
+
     // 정렬 로직
-    return [...filteredTools].sort((a, b) => {
-      switch (sortOrder) {
-        case 'rating_desc':
-          return b.averageRating - a.averageRating;
-        case 'rating_asc':
-          return a.averageRating - b.averageRating;
-        case 'name_asc':
-          return a.name.localeCompare(b.name);
-        case 'name_desc':
-          return b.name.localeCompare(a.name);
-        case 'created_desc':
-          return b.createdAt.getTime() - a.createdAt.getTime();
-        case 'created_asc':
-          return a.createdAt.getTime() - b.createdAt.getTime();
-        case 'updated_desc':
-          return b.updatedAt.getTime() - a.updatedAt.getTime();
-        case 'updated_asc':
-          return a.updatedAt.getTime() - b.updatedAt.getTime();
-        default:
-          return b.updatedAt.getTime() - a.updatedAt.getTime();
-      }
-    });
+    return sortTools(filteredTools, sortOrder);
   }, [
     filters.selectedCategory,
-    filters.searchTerm,
+    selectedCategoryNames,
+    searchResults,
+    searchQuery,
+    queryFilters,
+    excludedToolIds,
+    filters.tags,
+    filters.tagMatchMode,
     filters.freeOnly,
+    filters.pricingModels,
+    filters.freeTrialOnly,
     filters.bookmarkedOnly,
     sortOrder,
     aiToolsData,
     bookmarkedToolIds,
     isAuthenticated,
-    firebaseConfigured,
     isBookmarksLoading
   ]);
 
@@ -273,13 +375,27 @@ const AppContent: React.FC = () => {
     return filteredAndSortedTools.slice(startIndex, endIndex);
   }, [filteredAndSortedTools, currentPage, ITEMS_PER_PAGE]);
 
+  // 전체 항목 수: 클라이언트 필터가 없으면 서버 집계 결과 사용
+  const totalItems = hasClientFilters
+    ? filteredAndSortedTools.length
+    : Math.max(totalCount, filteredAndSortedTools.length);
+
   // 총 페이지 수 계산
-  const totalPages = Math.ceil(filteredAndSortedTools.length / ITEMS_PER_PAGE);
+  const totalPages = Math.ceil(totalItems / ITEMS_PER_PAGE);
+
+  // 현재 페이지에 필요한 만큼 다음 페이지를 서버에서 로드
+  useEffect(() => {
+    if (!hasClientFilters && hasMore && !isLoadingMore && firebaseTools.length < currentPage * ITEMS_PER_PAGE) {
+      loadMore();
+    }
+  }, [hasClientFilters, hasMore, isLoadingMore, firebaseTools.length, currentPage, loadMore]);
 
-  // 필터나 검색이 변경될 때 첫 페이지로 이동
+  // URL의 페이지가 범위를 벗어나면 마지막 페이지로 보정 (필터 변경 시 페이지 초기화는 useToolListParams에서 처리)
   useEffect(() => {
-    setCurrentPage(1);
-  }, [filters.searchTerm, filters.selectedCategory, sortOrder, filters.freeOnly, filters.bookmarkedOnly]);
+    if (!isLoading && !hasMore && totalPages > 0 && currentPage > totalPages) {
+      setCurrentPage(totalPages, { replace: true });
+    }
+  }, [isLoading, hasMore, totalPages, currentPage, setCurrentPage]);
 
   /**
    * 에러 발생 시 재시도 함수
@@ -291,17 +407,14 @@ const AppContent: React.FC = () => {
 
   /**
    * 새 도구 추가 핸들러
+   * 신뢰할 수 있는 사용자가 아니면 검토 대기 상태로 등록되어 관리자 승인 후 공개됩니다.
    */
   const handleAddTool = async (toolData: ToolInput): Promise<void> => {
     if (!user) {
       throw new Error('로그인이 필요합니다.');
     }
-    
-    if (!firebaseConfigured) {
-      throw new Error('Firebase가 설정되지 않았습니다.');
-    }
 
-    await addTool(toolData, user.uid);
+    await addTool(toolData, user.uid, isTrusted ? 'approved' : 'pending');
   };
 
   /**
@@ -311,10 +424,6 @@ const AppContent: React.FC = () => {
     if (!user) {
       throw new Error('로그인이 필요합니다.');
     }
-    
-    if (!firebaseConfigured) {
-      throw new Error('Firebase가 설정되지 않았습니다.');
-    }
 
     await updateTool(toolId, toolData, user.uid);
   };
@@ -326,10 +435,6 @@ const AppContent: React.FC = () => {
     if (!user) {
       throw new Error('로그인이 필요합니다.');
     }
-    
-    if (!firebaseConfigured) {
-      throw new Error('Firebase가 설정되지 않았습니다.');
-    }
 
     await deleteTool(toolId, user.uid);
   };
@@ -385,7 +490,7 @@ const AppContent: React.FC = () => {
       setFilters(prev => ({ ...prev, selectedCategory: category }));
       
       // 인덱스 오류가 발생할 경우를 대비한 안내 메시지
-      if (category !== '전체' && firebaseConfigured) {
+      if (category !== '전체' && !isLocalData) {
         showSuccess(`'${category}' 카테고리를 적용합니다. 데이터를 불러오는 중...`);
       }
     } catch (error) {
@@ -394,6 +499,13 @@ const AppContent: React.FC = () => {
     }
   };
 
+  /**
+   * 카드의 태그 클릭 핸들러 (선택한 태그 필터에 추가)
+   */
+  const handleTagClick = (tag: string) => {
+    setFilters(prev => ({ ...prev, tags: uniqueTags([...prev.tags, tag]) }));
+  };
+
   /**
    * 사이트 통계 모달 열기 함수
    */
@@ -414,16 +526,16 @@ const AppContent: React.FC = () => {
           </div>
         </div>
 
-        {/* Firebase 설정 안내 (Firebase 미설정 시) */}
-        {!firebaseConfigured && (
+        {/* 로컬 데이터 모드 안내 */}
+        {isLocalData && (
           <div className="mb-8 p-4 bg-amber-50 border border-amber-200 rounded-lg">
             <div className="flex items-center justify-center gap-2 text-amber-700">
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
               </svg>
               <p className="text-sm font-medium">
-                <strong>개발 모드</strong>: Firebase가 설정되지 않아 정적 데이터를 표시하고 있습니다. 
-                실시간 기능을 사용하려면 Firebase를 설정해주세요.
+                <strong>로컬 모드</strong>: 로컬 데모 데이터를 표시하고 있습니다. 
+                변경 사항은 이 브라우저에만 저장되며, 공유하려면 Firebase를 설정해주세요.
               </p>
             </div>
           </div>
@@ -446,13 +558,13 @@ const AppContent: React.FC = () => {
         {/* 새 도구 추가 버튼 제거됨 */}
       </header>
 
-      {/* 에러 상태 처리 (Firebase 설정된 경우에만) */}
-      {firebaseConfigured && error && (
+      {/* 에러 상태 처리 */}
+      {error && (
         <ErrorDisplay error={error} onRetry={handleRetry} />
       )}
 
       {/* 로딩 및 정상 상태 처리 */}
-      {(!firebaseConfigured || !error) && (
+      {!error && (
         <>
           {/* 필터 컨트롤 */}
           <div className="mb-6">
@@ -464,14 +576,24 @@ const AppContent: React.FC = () => {
                   <div className="flex-grow">
                     <FilterControls 
                       categories={categories}
+                      categoryTree={categoryTree}
                       selectedCategory={filters.selectedCategory}
                       onCategoryChange={handleCategoryChange}
                       searchTerm={filters.searchTerm}
                       onSearchChange={(term) => setFilters(prev => ({ ...prev, searchTerm: term }))}
+                      availableTags={tags}
+                      selectedTags={filters.tags}
+                      onSelectedTagsChange={(selectedTags) => setFilters(prev => ({ ...prev, tags: selectedTags }))}
+                      tagMatchMode={filters.tagMatchMode}
+                      onTagMatchModeChange={(mode) => setFilters(prev => ({ ...prev, tagMatchMode: mode }))}
                       sortOrder={sortOrder}
                       onSortChange={(value: string) => setSortOrder(value as SortOption)}
                       freeOnly={filters.freeOnly}
                       onFreeOnlyChange={(value) => setFilters(prev => ({ ...prev, freeOnly: value }))}
+                      pricingModels={filters.pricingModels}
+                      onPricingModelsChange={(pricingModels) => setFilters(prev => ({ ...prev, pricingModels }))}
+                      freeTrialOnly={filters.freeTrialOnly}
+                      onFreeTrialOnlyChange={(value) => setFilters(prev => ({ ...prev, freeTrialOnly: value }))}
                       bookmarkedOnly={filters.bookmarkedOnly}
                       onBookmarkedOnlyChange={handleBookmarkedOnlyChange}
                       isAuthenticated={isAuthenticated}
@@ -502,7 +624,7 @@ const AppContent: React.FC = () => {
                     </FilterControls>
                   </div>
                   <div className="text-sm text-gray-600">
-                    총 {filteredAndSortedTools.length}개의 도구
+                    총 {totalItems}개의 도구
                   </div>
                 </div>
               </div>
@@ -510,36 +632,40 @@ const AppContent: React.FC = () => {
           </div>
 
           {/* 사이트 주요 통계 정보 - 모달로 대체되어 제거 */}
-          {/* {(!firebaseConfigured || (!isLoading && aiToolsData.length > 0)) && (
+          {/* {!isLoading && aiToolsData.length > 0 && (
             <section className="my-8">
               <SiteStatistics data={aiToolsData} />
             </section>
           )} */}
 
+          {/* 검토 대기 중이거나 거부된 내 등록 요청 */}
+          {isAuthenticated && <MySubmissions onSuccess={showSuccess} onError={showError} />}
+          {isAuthenticated && <EditSuggestionsPanel onSuccess={showSuccess} onError={showError} />}
+
           <main>
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-2xl font-bold text-slate-800">도구 목록</h2>
-              {(!firebaseConfigured || !isLoading) && (
+              {!isLoading && (
                 <div className="text-slate-500 font-medium">
                   {totalPages > 1 ? (
                     <span>
-                      전체 {filteredAndSortedTools.length}개 중 {((currentPage - 1) * ITEMS_PER_PAGE) + 1}-{Math.min(currentPage * ITEMS_PER_PAGE, filteredAndSortedTools.length)}개 표시
+                      전체 {totalItems}개 중 {((currentPage - 1) * ITEMS_PER_PAGE) + 1}-{Math.min(currentPage * ITEMS_PER_PAGE, totalItems)}개 표시
                     </span>
                   ) : (
-                    <span>{filteredAndSortedTools.length}개 항목</span>
+                    <span>{totalItems}개 항목</span>
                   )}
                 </div>
               )}
             </div>
 
-            {/* 로딩 상태 (Firebase 설정된 경우에만) */}
-            {firebaseConfigured && isLoading && <ToolListSkeleton />}
+            {/* 로딩 상태 (첫 페이지 또는 아직 로드되지 않은 페이지) */}
+            {(isLoading || (isLoadingMore && paginatedTools.length === 0)) && <ToolListSkeleton />}
 
-            {/* 빈 데이터 상태 (Firebase 설정된 경우에만) */}
-            {firebaseConfigured && !isLoading && aiToolsData.length === 0 && <EmptyState />}
+            {/* 빈 데이터 상태 */}
+            {!isLoading && aiToolsData.length === 0 && <EmptyState />}
 
             {/* 검색 결과 없음 */}
-            {(!firebaseConfigured || !isLoading) && aiToolsData.length > 0 && filteredAndSortedTools.length === 0 && (
+            {!isLoading && !hasMore && !isLoadingMore && aiToolsData.length > 0 && filteredAndSortedTools.length === 0 && (
               <div className="text-center py-12">
                 <svg className="w-16 h-16 text-slate-400 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
@@ -552,7 +678,7 @@ const AppContent: React.FC = () => {
             )}
 
             {/* 도구 목록 */}
-            {(!firebaseConfigured || !isLoading) && filteredAndSortedTools.length > 0 && (
+            {!isLoading && filteredAndSortedTools.length > 0 && (
               <>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
                   {paginatedTools.map((tool, index) => (
@@ -562,7 +688,11 @@ const AppContent: React.FC = () => {
                       onUpdateTool={handleUpdateTool}
                       onDeleteTool={handleDeleteTool}
                       categories={categories}
+                      tags={tags}
+                      onTagClick={handleTagClick}
                       onBookmarkChange={handleBookmarkChange}
+                      onToolChange={refresh}
+                      matches={searchResults?.get(tool.id)?.matches}
                     />
                   ))}
                 </div>
@@ -572,7 +702,7 @@ const AppContent: React.FC = () => {
                   currentPage={currentPage}
                   totalPages={totalPages}
                   onPageChange={setCurrentPage}
-                  totalItems={filteredAndSortedTools.length}
+                  totalItems={totalItems}
                   itemsPerPage={ITEMS_PER_PAGE}
                 />
               </>
@@ -591,9 +721,11 @@ const AppContent: React.FC = () => {
         onClose={() => setIsAddToolModalOpen(false)}
         onAddTool={handleAddTool}
         categories={categories}
+        tags={tags}
         onSuccess={showSuccess}
         onError={showError}
         isAdmin={false} // 메인 페이지에서는 어드민이 아님
+        requiresReview={!isTrusted}
       />
 
       {/* 리뷰 모달 */}
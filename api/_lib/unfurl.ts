@@ -0,0 +1,390 @@
+/**
+ * URL 메타데이터 추출 (/api/unfurl 서버 구현)
+ * 페이지를 가져와 제목, 메타 설명, Open Graph 이미지, 파비콘을 추출합니다.
+ * Vercel 함수(api/unfurl.ts)와 개발 서버 미들웨어(vite.config.ts)가 함께 사용합니다.
+ * - SSRF 방지: http/https 기본 포트만 허용하고, DNS 조회 결과가 사설/예약 IP이면 연결하지 않음 (리디렉션마다 재검사)
+ * - 전체 요청 시간 제한과 응답 크기 제한 (제한을 넘으면 읽은 부분까지만 분석)
+ */
+import type { IncomingMessage, ServerResponse } from 'http';
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+import type { UrlMetadata } from '../../types';
+
+// 리디렉션을 포함한 전체 요청 제한 시간
+const FETCH_TIMEOUT_MS = 5000;
+
+// 읽을 최대 응답 크기 (메타 태그는 보통 문서 앞부분에 있음)
+const MAX_BODY_BYTES = 512 * 1024;
+
+const MAX_REDIRECTS = 3;
+
+// 추출한 텍스트 최대 길이
+const MAX_TEXT_LENGTH = 300;
+
+const ALLOWED_PORTS = ['', '80', '443'];
+
+const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+
+const REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; TechToolkitHub/1.0; +link-preview)',
+  Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.1',
+  'Accept-Language': 'ko,en;q=0.8',
+  'Accept-Encoding': 'identity'
+};
+
+/**
+ * HTTP 상태 코드를 포함한 오류
+ */
+type UnfurlError = Error & { status: number };
+
+const createUnfurlError = (status: number, message: string): UnfurlError =>
+  Object.assign(new Error(message), { status });
+
+const isUnfurlError = (error: unknown): error is UnfurlError =>
+  error instanceof Error && typeof (error as Partial<UnfurlError>).status === 'number';
+
+// 연결을 허용하지 않는 사설/예약 주소 대역
+const BLOCKED_IPV4_SUBNETS: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+];
+
+const BLOCKED_IPV6_SUBNETS: Array<[string, number]> = [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+];
+
+const blockedAddresses = new net.BlockList();
+BLOCKED_IPV4_SUBNETS.forEach(([address, prefix]) => blockedAddresses.addSubnet(address, prefix, 'ipv4'));
+BLOCKED_IPV6_SUBNETS.forEach(([address, prefix]) => blockedAddresses.addSubnet(address, prefix, 'ipv6'));
+
+/**
+ * 사설/예약 IP 주소인지 확인
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  // IPv4 매핑 주소(::ffff:a.b.c.d)는 공인 IP를 가리키더라도 허용하지 않음
+  // (BlockList에 ::ffff:0:0/96을 넣으면 모든 IPv4 주소가 일치하므로 따로 검사)
+  if (family === 6 && address.toLowerCase().startsWith('::ffff:')) return true;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * DNS 조회 결과를 검사하는 lookup 함수
+ * 연결 직전에 조회한 주소를 그대로 사용하므로 검사 후 DNS 응답이 바뀌어도(DNS rebinding) 사설 IP로 연결되지 않습니다.
+ */
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    const list = addresses as dns.LookupAddress[];
+    if (list.length === 0 || list.some(({ address }) => isPrivateAddress(address))) {
+      callback(createUnfurlError(403, '내부 네트워크 주소는 가져올 수 없습니다.'), '', 0);
+      return;
+    }
+    if (options.all) {
+      callback(null, list);
+    } else {
+      callback(null, list[0].address, list[0].family);
+    }
+  });
+};
+
+/**
+ * 요청할 수 있는 URL인지 검사
+ */
+const assertFetchableUrl = (target: URL): void => {
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw createUnfurlError(400, 'http 또는 https 주소만 가져올 수 있습니다.');
+  }
+  if (target.username || target.password) {
+    throw createUnfurlError(400, '인증 정보가 포함된 주소는 가져올 수 없습니다.');
+  }
+  if (!ALLOWED_PORTS.includes(target.port)) {
+    throw createUnfurlError(403, '기본 포트(80, 443) 주소만 가져올 수 있습니다.');
+  }
+
+  const hostname = target.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.local') || hostname.endsWith('.internal')) {
+    throw createUnfurlError(403, '내부 네트워크 주소는 가져올 수 없습니다.');
+  }
+  // IP 주소로 입력하면 DNS 조회를 거치지 않으므로 여기서 검사
+  if (net.isIP(hostname) && isPrivateAddress(hostname)) {
+    throw createUnfurlError(403, '내부 네트워크 주소는 가져올 수 없습니다.');
+  }
+};
+
+/**
+ * 가져온 페이지
+ */
+interface FetchedPage {
+  url: URL;
+  html: string;
+}
+
+/**
+ * 응답 본문을 크기 제한까지 읽어 문자열로 변환
+ */
+const readBody = (response: http.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let finished = false;
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      const charset = /charset=["']?([\w-]+)/i.exec(response.headers['content-type'] || '')?.[1];
+      const body = Buffer.concat(chunks);
+      try {
+        resolve(new TextDecoder(charset || 'utf-8').decode(body));
+      } catch {
+        resolve(body.toString('utf8'));
+      }
+    };
+
+    response.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+      size += chunk.length;
+      if (size >= MAX_BODY_BYTES && !finished) {
+        // 크기 제한에 도달하면 나머지는 받지 않고 읽은 부분까지만 사용
+        response.destroy();
+        finish();
+      }
+    });
+    response.on('end', finish);
+    response.on('error', reject);
+  });
+
+/**
+ * 페이지 요청 한 번 수행
+ * @returns 리디렉션이면 다음 주소, 아니면 HTML
+ */
+const requestPage = (target: URL, signal: AbortSignal): Promise<{ redirect: URL } | { html: string }> =>
+  new Promise((resolve, reject) => {
+    const client = target.protocol === 'https:' ? https : http;
+    const request = client.get(target, { headers: REQUEST_HEADERS, lookup: safeLookup, signal }, response => {
+      const status = response.statusCode || 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        try {
+          resolve({ redirect: new URL(response.headers.location, target) });
+        } catch {
+          reject(createUnfurlError(502, '잘못된 리디렉션 주소입니다.'));
+        }
+        return;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        reject(createUnfurlError(502, `페이지를 가져오지 못했습니다. (HTTP ${status})`));
+        return;
+      }
+
+      const contentType = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+      if (contentType && !HTML_CONTENT_TYPES.includes(contentType)) {
+        response.resume();
+        reject(createUnfurlError(415, 'HTML 페이지가 아닙니다.'));
+        return;
+      }
+
+      readBody(response).then(html => resolve({ html }), reject);
+    });
+
+    request.on('error', reject);
+  });
+
+/**
+ * 리디렉션을 따라가며 페이지 가져오기
+ */
+const fetchPage = async (url: string): Promise<FetchedPage> => {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    throw createUnfurlError(400, '올바른 URL이 아닙니다.');
+  }
+
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+
+  try {
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      assertFetchableUrl(target);
+      const result = await requestPage(target, signal);
+      if ('html' in result) {
+        return { url: target, html: result.html };
+      }
+      target = result.redirect;
+    }
+  } catch (error) {
+    if (signal.aborted) {
+      throw createUnfurlError(504, '페이지 응답 시간이 초과되었습니다.');
+    }
+    throw error;
+  }
+
+  throw createUnfurlError(502, '리디렉션이 너무 많습니다.');
+};
+
+// HTML 엔티티 (자주 쓰이는 이름만 처리하고 나머지는 숫자 엔티티로 처리)
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  middot: '·',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…'
+};
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+/**
+ * 추출한 텍스트 정리 (엔티티 변환, 공백 정리, 길이 제한)
+ */
+const cleanText = (value: string | undefined): string | null => {
+  if (!value) return null;
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim();
+  return text ? text.slice(0, MAX_TEXT_LENGTH) : null;
+};
+
+/**
+ * 상대 주소를 절대 주소로 변환 (http/https만 허용)
+ */
+const resolveUrl = (value: string | undefined, base: URL): string | null => {
+  if (!value) return null;
+  try {
+    const resolved = new URL(decodeEntities(value.trim()), base);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/**
+ * 태그 문자열의 속성 목록 (속성 이름은 소문자)
+ */
+const parseAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const body = tag.replace(/^<\w+/, '').replace(/\/?>$/, '');
+  for (const match of body.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+};
+
+/**
+ * HTML에서 메타데이터 추출
+ */
+export const extractMetadata = (html: string, pageUrl: URL): UrlMetadata => {
+  // 메타 태그는 <head> 안에 있으므로 본문은 분석하지 않음
+  const headEnd = html.search(/<\/head>/i);
+  const head = headEnd >= 0 ? html.slice(0, headEnd) : html;
+
+  const meta: Record<string, string> = {};
+  for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content !== undefined && meta[key] === undefined) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  const icons: Record<string, string> = {};
+  for (const [tag] of head.matchAll(/<link\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const rel = (attributes.rel || '').toLowerCase().split(/\s+/);
+    if (!attributes.href) continue;
+    if (rel.includes('icon') && !icons.icon) icons.icon = attributes.href;
+    if (rel.includes('apple-touch-icon') && !icons.apple) icons.apple = attributes.href;
+  }
+
+  const title = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(head)?.[1];
+
+  return {
+    url: pageUrl.toString(),
+    title: cleanText(meta['og:title'] || meta['twitter:title'] || title),
+    description: cleanText(meta['og:description'] || meta.description || meta['twitter:description']),
+    siteName: cleanText(meta['og:site_name'] || meta['application-name']),
+    image: resolveUrl(meta['og:image:secure_url'] || meta['og:image'] || meta['twitter:image'], pageUrl),
+    favicon: resolveUrl(icons.icon || icons.apple || '/favicon.ico', pageUrl)
+  };
+};
+
+/**
+ * URL의 메타데이터 가져오기
+ */
+export const unfurlUrl = async (url: string): Promise<UrlMetadata> => {
+  const page = await fetchPage(url);
+  return extractMetadata(page.html, page.url);
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * GET /api/unfurl?url=... 요청 처리
+ * 성공하면 UrlMetadata, 실패하면 { error } 를 JSON으로 응답합니다.
+ */
+export const handleUnfurlRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    sendJson(res, 405, { error: 'GET 요청만 지원합니다.' });
+    return;
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost').searchParams.get('url');
+  if (!url) {
+    sendJson(res, 400, { error: 'url 파라미터가 필요합니다.' });
+    return;
+  }
+
+  try {
+    const metadata = await unfurlUrl(url);
+    // 같은 주소는 하루 동안 CDN 캐시 사용
+    res.setHeader('Cache-Control', 'public, s-maxage=86400, stale-while-revalidate=604800');
+    sendJson(res, 200, metadata);
+  } catch (error) {
+    console.error('❌ URL 메타데이터 추출 실패:', url, error);
+    sendJson(res, isUnfurlError(error) ? error.status : 502, {
+      error: isUnfurlError(error) ? error.message : '페이지를 가져오지 못했습니다.'
+    });
+  }
+};
@@ -0,0 +1,10 @@
+/**
+ * Vercel 서버리스 함수: GET /api/unfurl?url=...
+ * 페이지의 제목, 메타 설명, Open Graph 이미지, 파비콘을 추출합니다. (구현은 _lib/unfurl.ts)
+ */
+import type { IncomingMessage, ServerResponse } from 'http';
+import { handleUnfurlRequest } from './_lib/unfurl.js';
+
+export default function handler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  return handleUnfurlRequest(req, res);
+}
@@ -1,15 +1,24 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { useAuth } from '../src/hooks/useAuth';
-import { ToolInput } from '../types';
+import { FirebaseTool, ToolInput, UrlMetadata } from '../types';
+import TagPicker from '../src/components/TagPicker';
+import PricingFields from '../src/components/PricingFields';
+import { MarkdownPreview } from '../src/components/MarkdownContent';
+import { getRepository } from '../src/repositories';
+import { findDuplicateTools, formatDuplicateReasons } from '../src/utils/duplicates';
+import { toolDetailPath } from '../src/utils/slug';
+import { fetchUrlMetadata, suggestToolDescription, suggestToolName } from '../src/utils/unfurl';
 
 interface AddToolModalProps {
   isOpen: boolean;
   onClose: () => void;
   onAddTool: (toolData: ToolInput) => Promise<void>;
   categories: string[];
+  tags?: string[]; // 태그 자동완성 후보
   onSuccess?: (message: string) => void;
   onError?: (message: string) => void;
   isAdmin?: boolean; // 어드민 상태를 prop으로 받음
+  requiresReview?: boolean; // true이면 관리자 승인 후 공개된다고 안내
 }
 
 
@@ -23,9 +32,11 @@ const AddToolModal: React.FC<AddToolModalProps> = ({
   onClose, 
   onAddTool, 
   categories,
+  tags = [],
   onSuccess,
   onError,
-  isAdmin = false // 기본값은 false로 설정
+  isAdmin = false, // 기본값은 false로 설정
+  requiresReview = false
 }) => {
   const { user } = useAuth();
   
@@ -43,13 +54,40 @@ const AddToolModal: React.FC<AddToolModalProps> = ({
     url: '',
     description: '',
     memo: '',
-    plan: null
+    pricing: null,
+    tags: []
   });
   
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [isCustomCategory, setIsCustomCategory] = useState(false);
+  const [existingTools, setExistingTools] = useState<FirebaseTool[]>([]);
+  const [isDuplicateConfirmed, setIsDuplicateConfirmed] = useState(false);
+  const [metadata, setMetadata] = useState<UrlMetadata | null>(null);
+  const [isFetchingMetadata, setIsFetchingMetadata] = useState(false);
+  const [metadataMessage, setMetadataMessage] = useState<string | null>(null);
+  const metadataRequestRef = useRef<AbortController | null>(null);
+
+  // 중복 검사용 전체 도구 목록 (목록 화면은 페이지 단위로 불러오므로 모달을 열 때 따로 조회)
+  React.useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    getRepository().tools.list()
+      .then(tools => {
+        if (!cancelled) setExistingTools(tools);
+      })
+      .catch(err => console.error('❌ 중복 검사용 도구 목록 조회 실패:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  // 입력한 이름/URL과 겹칠 가능성이 높은 등록된 도구
+  const duplicateMatches = useMemo(
+    () => findDuplicateTools({ name: formData.name, url: formData.url }, existingTools),
+    [formData.name, formData.url, existingTools]
+  );
 
   /**
    * 폼 입력값 변경 핸들러
@@ -59,6 +97,8 @@ const AddToolModal: React.FC<AddToolModalProps> = ({
       ...prev,
       [field]: value
     }));
+    // 이름/URL이 바뀌면 중복 확인을 다시 받음
+    if (field === 'name' || field === 'url') setIsDuplicateConfirmed(false);
     // 입력 시 에러 메시지 초기화
     if (error) setError(null);
   };
@@ -88,6 +128,57 @@ const AddToolModal: React.FC<AddToolModalProps> = ({
     }
   };
 
+  /**
+   * URL의 페이지 정보(제목, 설명, 이미지, 파비콘)를 가져와 비어 있는 이름/설명 채우기
+   * @param auto URL 입력을 마쳤을 때 자동으로 호출한 경우 (이름과 설명이 모두 비어 있을 때만 조회)
+   */
+  const handleFetchMetadata = async (auto = false) => {
+    const url = formData.url.trim();
+    if (!isValidUrl(url)) {
+      if (!auto) setMetadataMessage('https://로 시작하는 올바른 URL을 먼저 입력해주세요.');
+      return;
+    }
+    if (auto && (formData.name.trim() || formData.description.trim() || metadata?.url === url)) return;
+
+    metadataRequestRef.current?.abort();
+    const controller = new AbortController();
+    metadataRequestRef.current = controller;
+    setIsFetchingMetadata(true);
+    setMetadataMessage(null);
+
+    try {
+      const result = await fetchUrlMetadata(url, controller.signal);
+      const name = suggestToolName(result);
+      const description = suggestToolDescription(result);
+      const filled = [
+        ...(!formData.name.trim() && name ? ['이름'] : []),
+        ...(!formData.description.trim() && description ? ['설명'] : [])
+      ];
+
+      setMetadata(result);
+      // 조회 중에 사용자가 입력한 값은 덮어쓰지 않음
+      setFormData(prev => ({
+        ...prev,
+        name: prev.name.trim() ? prev.name : name || prev.name,
+        description: prev.description.trim() ? prev.description : description || prev.description
+      }));
+      setIsDuplicateConfirmed(false);
+      setMetadataMessage(filled.length > 0
+        ? `페이지 정보로 ${filled.join(', ')}을(를) 채웠습니다. 내용을 확인해주세요.`
+        : '페이지 정보를 불러왔습니다. 이미 입력한 내용은 바꾸지 않았습니다.');
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      console.error('❌ 페이지 정보 불러오기 실패:', err);
+      setMetadata(null);
+      setMetadataMessage(err.message || '페이지 정보를 가져오지 못했습니다.');
+    } finally {
+      if (metadataRequestRef.current === controller) {
+        metadataRequestRef.current = null;
+        setIsFetchingMetadata(false);
+      }
+    }
+  };
+
   /**
    * 폼 유효성 검사
    */
@@ -143,6 +234,13 @@ const AddToolModal: React.FC<AddToolModalProps> = ({
       return;
     }
 
+    if (duplicateMatches.length > 0 && !isDuplicateConfirmed) {
+      const duplicateError = '비슷한 도구가 이미 등록되어 있습니다. 목록을 확인한 뒤 "중복이 아닙니다"를 선택해주세요.';
+      setError(duplicateError);
+      onError?.(duplicateError);
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
@@ -151,7 +249,9 @@ const AddToolModal: React.FC<AddToolModalProps> = ({
       setSuccess(true);
       
       // 성공 메시지 표시
-      const successMsg = `${formData.name} 도구가 성공적으로 추가되었습니다!`;
+      const successMsg = requiresReview
+        ? `${formData.name} 도구 등록을 요청했습니다. 관리자 검토 후 공개됩니다.`
+        : `${formData.name} 도구가 성공적으로 추가되었습니다!`;
       onSuccess?.(successMsg);
       
       // 성공 후 모달 닫기
@@ -173,6 +273,7 @@ const AddToolModal: React.FC<AddToolModalProps> = ({
    * 모달 닫기 핸들러
    */
   const handleClose = () => {
+    metadataRequestRef.current?.abort();
     onClose();
     // 상태 초기화 (애니메이션 완료 후)
     setTimeout(() => {
@@ -182,11 +283,16 @@ const AddToolModal: React.FC<AddToolModalProps> = ({
         url: '',
         description: '',
         memo: '',
-        plan: null
+        pricing: null,
+        tags: []
       });
       setError(null);
       setSuccess(false);
       setIsCustomCategory(false);
+      setIsDuplicateConfirmed(false);
+      setMetadata(null);
+      setMetadataMessage(null);
+      setIsFetchingMetadata(false);
       setIsLoading(false);
     }, 300);
   };
@@ -220,7 +326,12 @@ const AddToolModal: React.FC<AddToolModalProps> = ({
           {success ? (
             <div className="text-center py-8">
               <div className="text-6xl mb-4">✅</div>
-              <h3 className="text-xl font-bold text-green-600 mb-2">도구가 성공적으로 추가되었습니다!</h3>
+              <h3 className="text-xl font-bold text-green-600 mb-2">
+                {requiresReview ? '도구 등록을 요청했습니다!' : '도구가 성공적으로 추가되었습니다!'}
+              </h3>
+              {requiresReview && (
+                <p className="text-slate-600 mb-1">관리자 검토 후 목록에 공개되며, 결과는 '내 등록 요청'에서 확인할 수 있습니다.</p>
+              )}
               <p className="text-slate-600">잠시 후 자동으로 닫힙니다...</p>
             </div>
           ) : (
@@ -307,18 +418,99 @@ const AddToolModal: React.FC<AddToolModalProps> = ({
                 <label htmlFor="tool-url" className="block text-lg font-medium text-slate-700 mb-2">
                   URL <span className="text-red-500">*</span>
                 </label>
-                <input
-                  id="tool-url"
-                  type="url"
-                  value={formData.url}
-                  onChange={(e) => handleInputChange('url', e.target.value)}
-                  className="w-full p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 transition"
-                  placeholder="https://example.com"
-                  disabled={isLoading}
-                />
-                <p className="text-sm text-slate-500 mt-1">https://로 시작하는 URL을 입력해주세요</p>
+                <div className="flex gap-2">
+                  <input
+                    id="tool-url"
+                    type="url"
+                    value={formData.url}
+                    onChange={(e) => handleInputChange('url', e.target.value)}
+                    onBlur={() => handleFetchMetadata(true)}
+                    className="flex-1 min-w-0 p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 transition"
+                    placeholder="https://example.com"
+                    disabled={isLoading}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleFetchMetadata()}
+                    className="shrink-0 px-4 py-2 text-sm font-medium text-sky-700 bg-sky-50 border border-sky-200 rounded-lg hover:bg-sky-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={isLoading || isFetchingMetadata || !formData.url.trim()}
+                  >
+                    {isFetchingMetadata ? '불러오는 중...' : '정보 불러오기'}
+                  </button>
+                </div>
+                <p className="text-sm text-slate-500 mt-1">https://로 시작하는 URL을 입력하면 페이지 제목과 설명을 자동으로 채웁니다</p>
+                {metadataMessage && (
+                  <p className="text-sm text-slate-600 mt-1">{metadataMessage}</p>
+                )}
+
+                {/* 불러온 페이지 미리보기 */}
+                {metadata && (
+                  <div className="mt-3 flex gap-3 p-3 border border-slate-200 rounded-lg bg-slate-50">
+                    {metadata.image && (
+                      <img
+                        src={metadata.image}
+                        alt=""
+                        className="w-24 h-16 object-cover rounded border border-slate-200 bg-white shrink-0"
+                        loading="lazy"
+                        referrerPolicy="no-referrer"
+                      />
+                    )}
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        {metadata.favicon && (
+                          <img
+                            src={metadata.favicon}
+                            alt=""
+                            className="w-4 h-4 shrink-0"
+                            referrerPolicy="no-referrer"
+                          />
+                        )}
+                        <p className="font-medium text-slate-800 truncate">{metadata.siteName || metadata.title || metadata.url}</p>
+                      </div>
+                      {metadata.description && (
+                        <p className="text-sm text-slate-600 line-clamp-2">{metadata.description}</p>
+                      )}
+                      <p className="text-xs text-slate-400 truncate">{metadata.url}</p>
+                    </div>
+                  </div>
+                )}
               </div>
 
+              {/* 중복 의심 도구 */}
+              {duplicateMatches.length > 0 && (
+                <div className="bg-amber-50 border border-amber-300 text-amber-800 px-4 py-3 rounded-lg space-y-2">
+                  <p className="font-medium">⚠️ 비슷한 도구가 이미 등록되어 있습니다</p>
+                  <ul className="space-y-1 text-sm">
+                    {duplicateMatches.map(match => (
+                      <li key={match.tool.id}>
+                        <a
+                          href={toolDetailPath(match.tool.slug)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-medium text-sky-700 hover:underline"
+                        >
+                          {match.tool.name}
+                        </a>
+                        <span className="text-amber-700"> · {formatDuplicateReasons(match.reasons)} · {match.tool.url}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={isDuplicateConfirmed}
+                      onChange={(e) => {
+                        setIsDuplicateConfirmed(e.target.checked);
+                        if (error) setError(null);
+                      }}
+                      className="h-4 w-4 rounded border-amber-400 text-sky-600 focus:ring-sky-500"
+                      disabled={isLoading}
+                    />
+                    중복이 아닙니다. 새 도구로 등록합니다.
+                  </label>
+                </div>
+              )}
+
               {/* 설명 */}
               <div>
                 <label htmlFor="tool-description" className="block text-lg font-medium text-slate-700 mb-2">
@@ -337,6 +529,7 @@ const AddToolModal: React.FC<AddToolModalProps> = ({
                 <p className="text-sm text-slate-500 mt-1">
                   {formData.description.length}/200자
                 </p>
+                <MarkdownPreview text={formData.description} className="mt-2" />
               </div>
 
               {/* 메모 */}
@@ -359,23 +552,32 @@ const AddToolModal: React.FC<AddToolModalProps> = ({
                 </p>
               </div>
 
-              {/* 요금제 */}
+              {/* 태그 */}
               <div>
-                <label htmlFor="tool-plan" className="block text-lg font-medium text-slate-700 mb-2">
-                  요금제 정보 (선택사항)
+                <label htmlFor="tool-tags" className="block text-lg font-medium text-slate-700 mb-2">
+                  태그 (선택사항)
                 </label>
-                <select
-                  id="tool-plan"
-                  value={formData.plan || ''}
-                  onChange={(e) => setFormData(prev => ({ ...prev, plan: e.target.value || null }))}
-                  className="w-full p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 transition"
+                <TagPicker
+                  id="tool-tags"
+                  value={formData.tags}
+                  onChange={(nextTags) => setFormData(prev => ({ ...prev, tags: nextTags }))}
+                  availableTags={tags}
                   disabled={isLoading}
-                >
-                  <option value="">선택하지 않음</option>
-                  <option value="무료">무료</option>
-                  <option value="프리미엄">프리미엄</option>
-                  <option value="유료">유료</option>
-                </select>
+                  placeholder="예: 챗봇, 코드 생성"
+                />
+              </div>
+
+              {/* 가격 정보 */}
+              <div>
+                <label htmlFor="tool-pricing" className="block text-lg font-medium text-slate-700 mb-2">
+                  가격 정보 (선택사항)
+                </label>
+                <PricingFields
+                  id="tool-pricing"
+                  value={formData.pricing}
+                  onChange={(pricing) => setFormData(prev => ({ ...prev, pricing }))}
+                  disabled={isLoading}
+                />
               </div>
 
               {/* 에러 메시지 */}
@@ -1,13 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { ToolInput, FirebaseTool, AiTool } from '../types';
+import TagPicker from '../src/components/TagPicker';
+import PricingFields from '../src/components/PricingFields';
+import { getToolPricing } from '../src/utils/pricing';
+import { MAX_SUGGESTION_MESSAGE_LENGTH } from '../src/utils/toolDiff';
 
 interface EditToolModalProps {
   isOpen: boolean;
   onClose: () => void;
   tool: AiTool | FirebaseTool;
-  onUpdateTool: (toolId: string, toolData: ToolInput) => Promise<void>;
+  mode?: 'edit' | 'suggest'; // suggest: 직접 수정하지 않고 작성자에게 수정 제안
+  onUpdateTool?: (toolId: string, toolData: ToolInput) => Promise<void>;
+  onSuggestEdit?: (toolData: ToolInput, message: string) => Promise<void>;
   onDeleteTool?: (toolId: string) => Promise<void>;
   categories: string[];
+  tags?: string[]; // 태그 자동완성 후보
   onSuccess: (message: string) => void;
   onError: (message: string) => void;
 }
@@ -15,14 +22,18 @@ interface EditToolModalProps {
 /**
  * 도구 편집 모달 컴포넌트
  * 기존 도구 정보를 수정할 수 있는 폼을 제공합니다.
+ * 수정 제안 모드에서는 같은 폼으로 바꾼 내용을 제안 사유와 함께 작성자에게 보냅니다.
  */
 const EditToolModal: React.FC<EditToolModalProps> = ({
   isOpen,
   onClose,
   tool,
+  mode = 'edit',
   onUpdateTool,
+  onSuggestEdit,
   onDeleteTool,
   categories,
+  tags = [],
   onSuccess,
   onError
 }) => {
@@ -33,11 +44,14 @@ const EditToolModal: React.FC<EditToolModalProps> = ({
     url: '',
     description: '',
     memo: '',
-    plan: null
+    pricing: null,
+    tags: []
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [errors, setErrors] = useState<Partial<ToolInput>>({});
+  const [errors, setErrors] = useState<Partial<Record<keyof ToolInput, string>>>({});
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [suggestionMessage, setSuggestionMessage] = useState('');
+  const isSuggestMode = mode === 'suggest';
   
   // 카테고리 목록 필터링 - '전체' 카테고리 제외
   const filteredCategories = categories.filter(cat => cat !== '전체');
@@ -61,7 +75,8 @@ const EditToolModal: React.FC<EditToolModalProps> = ({
         url: tool.url,
         description: tool.description,
         memo: tool.memo,
-        plan: tool.plan
+        pricing: getToolPricing(tool),
+        tags: 'tags' in tool ? tool.tags : []
       });
     }
   }, [tool]);
@@ -71,6 +86,7 @@ const EditToolModal: React.FC<EditToolModalProps> = ({
     if (isOpen) {
       setErrors({});
       setIsSubmitting(false);
+      setSuggestionMessage('');
     }
   }, [isOpen]);
 
@@ -96,7 +112,7 @@ const EditToolModal: React.FC<EditToolModalProps> = ({
    * 폼 유효성 검사
    */
   const validateForm = (): boolean => {
-    const newErrors: Partial<ToolInput> = {};
+    const newErrors: Partial<Record<keyof ToolInput, string>> = {};
 
     // 필수 필드 검증
     if (!formData.name.trim()) {
@@ -147,11 +163,18 @@ const EditToolModal: React.FC<EditToolModalProps> = ({
     setIsSubmitting(true);
 
     try {
-      await onUpdateTool(getToolId(tool), formData);
-      onSuccess('도구가 성공적으로 수정되었습니다.');
+      if (isSuggestMode) {
+        if (!onSuggestEdit) return;
+        await onSuggestEdit(formData, suggestionMessage);
+        onSuccess('수정 제안을 보냈습니다. 도구 작성자가 검토한 뒤 반영됩니다.');
+      } else {
+        if (!onUpdateTool) return;
+        await onUpdateTool(getToolId(tool), formData);
+        onSuccess('도구가 성공적으로 수정되었습니다.');
+      }
       onClose();
     } catch (error: any) {
-      onError(error.message || '도구 수정 중 오류가 발생했습니다.');
+      onError(error.message || (isSuggestMode ? '수정 제안 중 오류가 발생했습니다.' : '도구 수정 중 오류가 발생했습니다.'));
     } finally {
       setIsSubmitting(false);
     }
@@ -209,7 +232,7 @@ const EditToolModal: React.FC<EditToolModalProps> = ({
         <div className="p-6">
           {/* 헤더 */}
           <div className="flex justify-between items-center mb-6">
-            <h2 className="text-xl font-bold text-slate-900">도구 편집</h2>
+            <h2 className="text-xl font-bold text-slate-900">{isSuggestMode ? '수정 제안' : '도구 편집'}</h2>
             <button
               onClick={handleClose}
               disabled={isSubmitting}
@@ -221,6 +244,12 @@ const EditToolModal: React.FC<EditToolModalProps> = ({
             </button>
           </div>
 
+          {isSuggestMode && (
+            <p className="mb-4 text-sm text-slate-600 bg-slate-50 p-3 rounded-lg">
+              바꾸고 싶은 항목을 수정해 보내면 도구 작성자나 관리자가 검토한 뒤 반영합니다.
+            </p>
+          )}
+
           {/* 폼 */}
           <form onSubmit={handleSubmit} className="space-y-4">
             {/* 도구 이름 */}
@@ -333,28 +362,56 @@ const EditToolModal: React.FC<EditToolModalProps> = ({
               )}
             </div>
 
-            {/* 요금제 */}
+            {/* 태그 */}
             <div>
-              <label htmlFor="plan" className="block text-sm font-medium text-slate-700 mb-1">
-                요금제
+              <label htmlFor="tags" className="block text-sm font-medium text-slate-700 mb-1">
+                태그
               </label>
-              <select
-                id="plan"
-                value={formData.plan || ''}
-                onChange={(e) => handleInputChange('plan', e.target.value || null)}
-                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500 transition-colors duration-200"
+              <TagPicker
+                id="tags"
+                value={formData.tags}
+                onChange={(nextTags) => setFormData(prev => ({ ...prev, tags: nextTags }))}
+                availableTags={tags}
                 disabled={isSubmitting}
-              >
-                <option value="">선택하지 않음</option>
-                <option value="무료">무료</option>
-                <option value="기업플랜">기업플랜</option>
-              </select>
+              />
             </div>
 
+            {/* 가격 정보 */}
+            <div>
+              <label htmlFor="pricing" className="block text-sm font-medium text-slate-700 mb-1">
+                가격 정보
+              </label>
+              <PricingFields
+                id="pricing"
+                value={formData.pricing}
+                onChange={(pricing) => setFormData(prev => ({ ...prev, pricing }))}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            {/* 제안 사유 */}
+            {isSuggestMode && (
+              <div>
+                <label htmlFor="suggestionMessage" className="block text-sm font-medium text-slate-700 mb-1">
+                  제안 사유 <span className="text-xs text-slate-500">({suggestionMessage.length}/{MAX_SUGGESTION_MESSAGE_LENGTH}자)</span>
+                </label>
+                <textarea
+                  id="suggestionMessage"
+                  value={suggestionMessage}
+                  onChange={(e) => setSuggestionMessage(e.target.value)}
+                  maxLength={MAX_SUGGESTION_MESSAGE_LENGTH}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500 transition-colors duration-200 resize-none"
+                  placeholder="예: 공식 사이트 주소가 바뀌었습니다 (선택사항)"
+                  disabled={isSubmitting}
+                />
+              </div>
+            )}
+
             {/* 버튼 영역 */}
             <div className="space-y-3 pt-4">
               {/* 삭제 버튼 (별도 줄) */}
-              {onDeleteTool && (
+              {onDeleteTool && !isSuggestMode && (
                 <div className="flex justify-start">
                   <button
                     type="button"
@@ -390,10 +447,10 @@ const EditToolModal: React.FC<EditToolModalProps> = ({
                       <svg className="w-4 h-4 animate-spin" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
                       </svg>
-                      수정 중...
+                      {isSuggestMode ? '보내는 중...' : '수정 중...'}
                     </>
                   ) : (
-                    '도구 수정'
+                    isSuggestMode ? '수정 제안 보내기' : '도구 수정'
                   )}
                 </button>
               </div>
@@ -1,16 +1,32 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useDebounce } from '../src/utils/performance';
+import { parseSearchQuery, getQuerySuggestions, QuerySuggestion } from '../src/utils/searchQuery';
+import { TagMatchMode, tagKey, uniqueTags } from '../src/utils/tags';
+import { CategoryNode } from '../src/utils/categoryTree';
+import CategoryTreeFilter from '../src/components/CategoryTreeFilter';
+import { PricingModel } from '../types';
+import { PRICING_MODELS, PRICING_MODEL_LABELS } from '../src/utils/pricing';
 
 interface FilterControlsProps {
   categories: string[];
+  categoryTree?: CategoryNode[]; // 지정하면 카테고리를 펼치고 접을 수 있는 트리로 표시
   selectedCategory: string;
   onCategoryChange: (category: string) => void;
   searchTerm: string;
   onSearchChange: (term: string) => void;
+  availableTags?: string[];
+  selectedTags?: string[];
+  onSelectedTagsChange?: (tags: string[]) => void;
+  tagMatchMode?: TagMatchMode;
+  onTagMatchModeChange?: (mode: TagMatchMode) => void;
   sortOrder: string;
   onSortChange: (order: string) => void;
   freeOnly: boolean;
   onFreeOnlyChange: (freeOnly: boolean) => void;
+  pricingModels?: PricingModel[];
+  onPricingModelsChange?: (models: PricingModel[]) => void;
+  freeTrialOnly?: boolean;
+  onFreeTrialOnlyChange?: (freeTrialOnly: boolean) => void;
   bookmarkedOnly?: boolean;
   onBookmarkedOnlyChange?: (bookmarked: boolean) => void;
   isAuthenticated?: boolean;
@@ -20,14 +36,24 @@ interface FilterControlsProps {
 
 const FilterControls: React.FC<FilterControlsProps> = ({
   categories,
+  categoryTree,
   selectedCategory,
   onCategoryChange,
   searchTerm,
   onSearchChange,
+  availableTags = [],
+  selectedTags = [],
+  onSelectedTagsChange,
+  tagMatchMode = 'and',
+  onTagMatchModeChange,
   sortOrder,
   onSortChange,
   freeOnly,
   onFreeOnlyChange,
+  pricingModels = [],
+  onPricingModelsChange,
+  freeTrialOnly = false,
+  onFreeTrialOnlyChange,
   bookmarkedOnly = false,
   onBookmarkedOnlyChange,
   isAuthenticated = false,
@@ -37,6 +63,12 @@ const FilterControls: React.FC<FilterControlsProps> = ({
   // 로컬 검색어 상태 (즉시 UI 업데이트용)
   const [localSearchTerm, setLocalSearchTerm] = useState(searchTerm);
   
+  // 검색 쿼리 자동완성 상태
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const [caretPosition, setCaretPosition] = useState(0);
+  const [isSuggestionOpen, setIsSuggestionOpen] = useState(false);
+  const [activeSuggestionIndex, setActiveSuggestionIndex] = useState(0);
+  
   // 카테고리 필터 토글 상태 (모바일에서 접었다 펼치기)
   const [isCategoryExpanded, setIsCategoryExpanded] = useState(false);
   
@@ -60,6 +92,13 @@ const FilterControls: React.FC<FilterControlsProps> = ({
     return () => window.removeEventListener('resize', checkIsMobile);
   }, []);
   
+  // 태그 필터 후보 (URL로 선택된 태그가 목록에 없어도 해제할 수 있도록 포함)
+  const tagOptions = useMemo(
+    () => uniqueTags([...selectedTags, ...availableTags]),
+    [selectedTags, availableTags]
+  );
+  const selectedTagKeys = useMemo(() => new Set(selectedTags.map(tagKey)), [selectedTags]);
+  
   // 디바운스된 검색 함수 (500ms 지연)
   const debouncedSearch = useDebounce(onSearchChange, 500);
   
@@ -73,6 +112,78 @@ const FilterControls: React.FC<FilterControlsProps> = ({
     debouncedSearch(localSearchTerm);
   }, [localSearchTerm, debouncedSearch]);
   
+  // 입력 중인 쿼리의 문법 오류 (즉시 표시)
+  const queryErrors = useMemo(
+    () => parseSearchQuery(localSearchTerm, { categories }).errors,
+    [localSearchTerm, categories]
+  );
+  
+  // 커서 위치 기준 자동완성 후보
+  const querySuggestions = useMemo(
+    () => getQuerySuggestions(localSearchTerm, caretPosition, { categories }),
+    [localSearchTerm, caretPosition, categories]
+  );
+  const showSuggestions = isSuggestionOpen && querySuggestions.suggestions.length > 0;
+  
+  // 후보 목록이 바뀌면 첫 번째 후보 선택
+  useEffect(() => {
+    setActiveSuggestionIndex(0);
+  }, [querySuggestions]);
+  
+  /**
+   * 검색 입력 변경 핸들러 (커서 위치도 함께 기록)
+   */
+  const handleSearchInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setLocalSearchTerm(e.target.value);
+    setCaretPosition(e.target.selectionStart ?? e.target.value.length);
+    setIsSuggestionOpen(true);
+  };
+  
+  /**
+   * 자동완성 후보 적용
+   */
+  const applySuggestion = (suggestion: QuerySuggestion) => {
+    const { replaceStart, replaceEnd } = querySuggestions;
+    const nextValue = localSearchTerm.slice(0, replaceStart) + suggestion.insertText + localSearchTerm.slice(replaceEnd);
+    const nextCaret = replaceStart + suggestion.insertText.length;
+    
+    setLocalSearchTerm(nextValue);
+    setCaretPosition(nextCaret);
+    
+    // 값 반영 후 커서를 삽입한 텍스트 뒤로 이동
+    requestAnimationFrame(() => {
+      searchInputRef.current?.focus();
+      searchInputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+  
+  /**
+   * 자동완성 키보드 조작 (위/아래 이동, Enter/Tab 적용, Esc 닫기)
+   */
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+    const { suggestions } = querySuggestions;
+    
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveSuggestionIndex(index => (index + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveSuggestionIndex(index => (index - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        applySuggestion(suggestions[activeSuggestionIndex] || suggestions[0]);
+        break;
+      case 'Escape':
+        setIsSuggestionOpen(false);
+        break;
+    }
+  };
+  
   // 북마크 필터 변경 핸들러
   const handleBookmarkChange = (checked: boolean) => {
     if (onBookmarkedOnlyChange) {
@@ -81,6 +192,32 @@ const FilterControls: React.FC<FilterControlsProps> = ({
     }
   };
   
+  /**
+   * 태그 칩 클릭 핸들러 (선택/해제 토글)
+   */
+  const handleTagToggle = (tag: string) => {
+    if (!onSelectedTagsChange) return;
+    
+    const nextTags = selectedTagKeys.has(tagKey(tag))
+      ? selectedTags.filter(selected => tagKey(selected) !== tagKey(tag))
+      : [...selectedTags, tag];
+    console.log('🏷️ 태그 필터 변경:', nextTags);
+    onSelectedTagsChange(nextTags);
+  };
+  
+  /**
+   * 가격 모델 칩 클릭 핸들러 (선택/해제 토글)
+   */
+  const handlePricingModelToggle = (model: PricingModel) => {
+    if (!onPricingModelsChange) return;
+    
+    const nextModels = pricingModels.includes(model)
+      ? pricingModels.filter(selected => selected !== model)
+      : [...pricingModels, model];
+    console.log('💳 가격 모델 필터 변경:', nextModels);
+    onPricingModelsChange(nextModels);
+  };
+  
   /**
    * 카테고리 버튼 클릭 핸들러
    */
@@ -119,16 +256,70 @@ const FilterControls: React.FC<FilterControlsProps> = ({
       </div>
       
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-        <div className="md:col-span-2">
-          <label htmlFor="search-input" className="block text-sm font-medium text-slate-700 mb-1">이름으로 검색</label>
+        <div className="md:col-span-2 relative">
+          <label htmlFor="search-input" className="block text-sm font-medium text-slate-700 mb-1">검색</label>
           <input
+            ref={searchInputRef}
             type="text"
             id="search-input"
-            placeholder="예: ChatGPT, Suno..."
-            className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 transition"
+            placeholder='예: ChatGPT, category:"AI 챗봇" rating:>=4 -image'
+            className={`w-full px-4 py-2 border rounded-lg focus:ring-2 transition ${
+              queryErrors.length > 0
+                ? 'border-red-300 focus:ring-red-400 focus:border-red-400'
+                : 'border-slate-300 focus:ring-sky-500 focus:border-sky-500'
+            }`}
             value={localSearchTerm}
-            onChange={(e) => setLocalSearchTerm(e.target.value)}
+            onChange={handleSearchInputChange}
+            onKeyDown={handleSearchKeyDown}
+            onSelect={(e) => setCaretPosition(e.currentTarget.selectionStart ?? 0)}
+            onFocus={() => setIsSuggestionOpen(true)}
+            onBlur={() => setIsSuggestionOpen(false)}
+            role="combobox"
+            aria-expanded={showSuggestions}
+            aria-controls="search-suggestions"
+            aria-invalid={queryErrors.length > 0}
+            aria-describedby={queryErrors.length > 0 ? 'search-query-errors' : undefined}
+            autoComplete="off"
           />
+          
+          {/* 쿼리 자동완성 목록 */}
+          {showSuggestions && (
+            <ul
+              id="search-suggestions"
+              role="listbox"
+              className="absolute left-0 right-0 mt-1 bg-white border border-slate-200 rounded-lg shadow-lg z-20 max-h-60 overflow-y-auto"
+            >
+              {querySuggestions.suggestions.map((suggestion, index) => (
+                <li
+                  key={suggestion.insertText}
+                  role="option"
+                  aria-selected={index === activeSuggestionIndex}
+                  // 입력창 blur보다 먼저 처리되도록 mousedown 사용
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    applySuggestion(suggestion);
+                  }}
+                  className={`flex justify-between gap-3 px-3 py-2 text-sm cursor-pointer ${
+                    index === activeSuggestionIndex ? 'bg-sky-50 text-sky-800' : 'text-slate-700 hover:bg-slate-50'
+                  }`}
+                >
+                  <span className="font-mono">{suggestion.label}</span>
+                  <span className="text-xs text-slate-400 truncate">{suggestion.description}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          
+          {/* 쿼리 문법 오류 */}
+          {queryErrors.length > 0 && (
+            <ul id="search-query-errors" className="mt-1 space-y-0.5 text-xs text-red-600">
+              {queryErrors.map(queryError => (
+                <li key={`${queryError.start}-${queryError.message}`}>
+                  ⚠️ <span className="font-mono">{localSearchTerm.slice(queryError.start, queryError.end)}</span>: {queryError.message}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
         <div>
           <label htmlFor="sort-select" className="block text-sm font-medium text-slate-700 mb-1">정렬 기준</label>
@@ -219,7 +410,13 @@ const FilterControls: React.FC<FilterControlsProps> = ({
         ${isCategoryExpanded ? 'md:flex' : 'hidden md:flex'}
         ${isCategoryExpanded ? 'max-h-96 opacity-100' : 'md:max-h-96 md:opacity-100 max-h-0 opacity-0 overflow-hidden'}
       `}>
-        {categories.map(category => (
+        {categoryTree && categoryTree.length > 0 ? (
+          <CategoryTreeFilter
+            tree={categoryTree}
+            selectedCategory={selectedCategory}
+            onSelect={handleCategoryClick}
+          />
+        ) : categories.map(category => (
           <button
             key={category}
             onClick={() => handleCategoryClick(category)}
@@ -234,6 +431,115 @@ const FilterControls: React.FC<FilterControlsProps> = ({
         ))}
       </div>
       
+      {/* 가격 필터 */}
+      {onPricingModelsChange && (
+        <div className="mt-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="text-sm font-medium text-slate-700">가격 필터</span>
+            {onFreeTrialOnlyChange && (
+              <label className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={freeTrialOnly}
+                  onChange={(e) => onFreeTrialOnlyChange(e.target.checked)}
+                  className="w-4 h-4 text-emerald-600 bg-white border-slate-300 rounded focus:ring-emerald-500 focus:ring-2"
+                />
+                무료 체험 제공
+              </label>
+            )}
+          </div>
+          
+          <div className="flex flex-wrap gap-1.5 mt-2">
+            {PRICING_MODELS.map(model => {
+              const isSelected = pricingModels.includes(model);
+              return (
+                <button
+                  key={model}
+                  type="button"
+                  onClick={() => handlePricingModelToggle(model)}
+                  aria-pressed={isSelected}
+                  className={`px-2.5 py-1 text-xs font-medium rounded-full border transition-colors duration-200 ${
+                    isSelected
+                      ? 'bg-emerald-500 border-emerald-500 text-white'
+                      : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-100'
+                  }`}
+                >
+                  {PRICING_MODEL_LABELS[model]}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      
+      {/* 태그 필터 */}
+      {onSelectedTagsChange && tagOptions.length > 0 && (
+        <div className="mt-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-slate-700">태그 필터</span>
+              {selectedTags.length > 0 && (
+                <span className="text-xs text-slate-500 bg-slate-100 px-2 py-1 rounded-full">
+                  {selectedTags.length}개 선택
+                </span>
+              )}
+            </div>
+            
+            <div className="flex items-center gap-2">
+              {/* AND/OR 조건 전환 */}
+              {onTagMatchModeChange && (
+                <div className="inline-flex rounded-lg border border-slate-200 overflow-hidden text-xs" role="group" aria-label="태그 조건">
+                  {(['and', 'or'] as TagMatchMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => onTagMatchModeChange(mode)}
+                      aria-pressed={tagMatchMode === mode}
+                      title={mode === 'and' ? '선택한 태그를 모두 가진 도구' : '선택한 태그 중 하나라도 가진 도구'}
+                      className={`px-2 py-1 transition-colors duration-200 ${
+                        tagMatchMode === mode ? 'bg-violet-500 text-white font-bold' : 'bg-white text-slate-600 hover:bg-slate-100'
+                      }`}
+                    >
+                      {mode === 'and' ? '모두 포함' : '하나 이상'}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {selectedTags.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onSelectedTagsChange([])}
+                  className="px-2 py-1 text-xs text-slate-600 hover:text-slate-800 transition-colors duration-200"
+                >
+                  선택 해제
+                </button>
+              )}
+            </div>
+          </div>
+          
+          <div className="flex flex-wrap gap-1.5 mt-2">
+            {tagOptions.map(tag => {
+              const isSelected = selectedTagKeys.has(tagKey(tag));
+              return (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => handleTagToggle(tag)}
+                  aria-pressed={isSelected}
+                  className={`px-2.5 py-1 text-xs font-medium rounded-full border transition-colors duration-200 ${
+                    isSelected
+                      ? 'bg-violet-500 text-white border-violet-500'
+                      : 'bg-white text-slate-600 border-slate-200 hover:bg-violet-50'
+                  }`}
+                >
+                  #{tag}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      
       {/* 모바일에서 카테고리가 접혀있을 때 현재 선택된 카테고리 표시 */}
       {!isCategoryExpanded && (
         <div className="md:hidden mt-2">
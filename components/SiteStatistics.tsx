@@ -1,5 +1,6 @@
 import React, { useMemo } from 'react';
 import { AiTool, FirebaseTool } from '../types';
+import { getToolPricing, isFreePricing } from '../src/utils/pricing';
 
 interface SiteStatisticsProps {
   data: (AiTool | FirebaseTool)[];
@@ -50,8 +51,8 @@ export const SiteStatistics: React.FC<SiteStatisticsProps> = ({ data }) => {
       return false;
     }).length;
 
-    // 무료 도구 수
-    const freeToolsCount = data.filter(tool => tool.plan === '무료').length;
+    // 무료 도구 수 (무료, 오픈소스)
+    const freeToolsCount = data.filter(tool => isFreePricing(getToolPricing(tool))).length;
 
     return {
       totalTools: data.length,
@@ -1,5 +1,6 @@
 import React, { useMemo } from 'react';
-import { AiTool, FirebaseTool } from '../types';
+import { AiTool, FirebaseTool, PricingModel } from '../types';
+import { PRICING_MODELS, PRICING_MODEL_LABELS, getToolPricing, isFreePricing } from '../src/utils/pricing';
 
 interface StatisticsModalProps {
   isOpen: boolean;
@@ -7,6 +8,15 @@ interface StatisticsModalProps {
   data: (AiTool | FirebaseTool)[];
 }
 
+// 가격 모델별 분포 막대 색상
+const PRICING_BAR_CLASSES: Record<PricingModel, { badge: string; text: string; track: string; bar: string }> = {
+  free: { badge: 'bg-green-200 text-green-800', text: 'text-green-600', track: 'bg-green-200', bar: 'bg-green-500' },
+  'open-source': { badge: 'bg-teal-200 text-teal-800', text: 'text-teal-600', track: 'bg-teal-200', bar: 'bg-teal-500' },
+  freemium: { badge: 'bg-amber-200 text-amber-800', text: 'text-amber-600', track: 'bg-amber-200', bar: 'bg-amber-500' },
+  paid: { badge: 'bg-blue-200 text-blue-800', text: 'text-blue-600', track: 'bg-blue-200', bar: 'bg-blue-500' },
+  enterprise: { badge: 'bg-purple-200 text-purple-800', text: 'text-purple-600', track: 'bg-purple-200', bar: 'bg-purple-500' }
+};
+
 /**
  * 사이트 통계를 보여주는 모달 컴포넌트
  * 사이트의 다양한 통계 정보를 시각적으로 표현
@@ -24,11 +34,22 @@ const StatisticsModal: React.FC<StatisticsModalProps> = ({ isOpen, onClose, data
       return acc;
     }, {} as Record<string, number>);
 
-    // 등급별 도구 수 집계 (무료/유료/프리미엄)
-    const planStats = data.reduce((acc, tool) => {
-      acc[tool.plan] = (acc[tool.plan] || 0) + 1;
+    // 가격 모델별 도구 수 집계 (가격 정보가 없는 도구는 따로 집계)
+    const pricingStats = PRICING_MODELS.reduce((acc, model) => {
+      acc[model] = 0;
       return acc;
-    }, {} as Record<string, number>);
+    }, {} as Record<PricingModel, number>);
+    let unknownPricingCount = 0;
+    let freeTrialCount = 0;
+    data.forEach(tool => {
+      const pricing = getToolPricing(tool);
+      if (!pricing) {
+        unknownPricingCount++;
+        return;
+      }
+      pricingStats[pricing.model]++;
+      if (pricing.hasFreeTrial) freeTrialCount++;
+    });
 
     // 최근 7일 내 추가된 도구 수 (Firebase 도구만)
     const recentlyAdded = data.filter(tool => {
@@ -101,25 +122,21 @@ const StatisticsModal: React.FC<StatisticsModalProps> = ({ isOpen, onClose, data
       })
       .slice(0, 5);
 
-    // 무료 도구 수
-    const freeToolsCount = data.filter(tool => tool.plan === '무료').length;
-    // 유료 도구 수
-    const paidToolsCount = data.filter(tool => tool.plan === '유료').length;
-    // 프리미엄 도구 수
-    const premiumToolsCount = data.filter(tool => tool.plan === '프리미엄').length;
+    // 무료 도구 수 (무료, 오픈소스)
+    const freeToolsCount = data.filter(tool => isFreePricing(getToolPricing(tool))).length;
 
     return {
       totalTools: data.length,
       categoryStats,
-      planStats,
+      pricingStats,
+      unknownPricingCount,
+      freeTrialCount,
       recentlyAdded,
       recentlyUpdated,
       monthlyAdded,
       ratingDistribution,
       topRatedTools,
       freeToolsCount,
-      paidToolsCount,
-      premiumToolsCount,
     };
   }, [data]);
 
@@ -214,53 +231,33 @@ const StatisticsModal: React.FC<StatisticsModalProps> = ({ isOpen, onClose, data
                 </h3>
 
                 <div className="relative pt-1">
-                  <div className="flex mb-2 items-center justify-between">
-                    <div>
-                      <span className="text-xs font-semibold inline-block py-1 px-2 uppercase rounded-full bg-green-200 text-green-800">
-                        무료 {statistics.freeToolsCount}개
-                      </span>
-                    </div>
-                    <div className="text-right">
-                      <span className="text-xs font-semibold inline-block text-green-600">
-                        {Math.round((statistics.freeToolsCount / statistics.totalTools) * 100)}%
-                      </span>
-                    </div>
-                  </div>
-                  <div className="overflow-hidden h-2 mb-4 text-xs flex rounded bg-green-200">
-                    <div style={{ width: `${(statistics.freeToolsCount / statistics.totalTools) * 100}%` }} className="shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center bg-green-500"></div>
-                  </div>
-
-                  <div className="flex mb-2 items-center justify-between">
-                    <div>
-                      <span className="text-xs font-semibold inline-block py-1 px-2 uppercase rounded-full bg-blue-200 text-blue-800">
-                        유료 {statistics.paidToolsCount}개
-                      </span>
-                    </div>
-                    <div className="text-right">
-                      <span className="text-xs font-semibold inline-block text-blue-600">
-                        {Math.round((statistics.paidToolsCount / statistics.totalTools) * 100)}%
-                      </span>
-                    </div>
-                  </div>
-                  <div className="overflow-hidden h-2 mb-4 text-xs flex rounded bg-blue-200">
-                    <div style={{ width: `${(statistics.paidToolsCount / statistics.totalTools) * 100}%` }} className="shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center bg-blue-500"></div>
-                  </div>
-
-                  <div className="flex mb-2 items-center justify-between">
-                    <div>
-                      <span className="text-xs font-semibold inline-block py-1 px-2 uppercase rounded-full bg-purple-200 text-purple-800">
-                        프리미엄 {statistics.premiumToolsCount}개
-                      </span>
-                    </div>
-                    <div className="text-right">
-                      <span className="text-xs font-semibold inline-block text-purple-600">
-                        {Math.round((statistics.premiumToolsCount / statistics.totalTools) * 100)}%
-                      </span>
-                    </div>
-                  </div>
-                  <div className="overflow-hidden h-2 mb-4 text-xs flex rounded bg-purple-200">
-                    <div style={{ width: `${(statistics.premiumToolsCount / statistics.totalTools) * 100}%` }} className="shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center bg-purple-500"></div>
-                  </div>
+                  {PRICING_MODELS.map(model => {
+                    const count = statistics.pricingStats[model];
+                    const percent = statistics.totalTools > 0 ? (count / statistics.totalTools) * 100 : 0;
+                    const colors = PRICING_BAR_CLASSES[model];
+                    return (
+                      <div key={model}>
+                        <div className="flex mb-2 items-center justify-between">
+                          <div>
+                            <span className={`text-xs font-semibold inline-block py-1 px-2 uppercase rounded-full ${colors.badge}`}>
+                              {PRICING_MODEL_LABELS[model]} {count}개
+                            </span>
+                          </div>
+                          <div className="text-right">
+                            <span className={`text-xs font-semibold inline-block ${colors.text}`}>
+                              {Math.round(percent)}%
+                            </span>
+                          </div>
+                        </div>
+                        <div className={`overflow-hidden h-2 mb-4 text-xs flex rounded ${colors.track}`}>
+                          <div style={{ width: `${percent}%` }} className={`shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center ${colors.bar}`}></div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <p className="text-xs text-slate-500">
+                    무료 체험 제공 {statistics.freeTrialCount}개 · 가격 정보 없음 {statistics.unknownPricingCount}개
+                  </p>
                 </div>
               </div>
 
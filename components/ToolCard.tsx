@@ -1,28 +1,42 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { AiTool, FirebaseTool } from '../types';
 import StarRating from './StarRating';
 import ReviewModal from './ReviewModal';
 import EditToolModal from './EditToolModal';
+import ToolHistoryModal from '../src/components/ToolHistoryModal';
 import { useRatings } from '../src/hooks/useRatings';
 import { useRecentComments } from '../src/hooks/useComments';
 import { useToast } from '../src/hooks/useToast';
-import { isFirebaseConfigured } from '../src/lib/firebase';
 import { useAuthContext } from '../src/contexts/AuthContext';
-import { doc, getDoc } from 'firebase/firestore';
-import { db } from '../src/lib/firebase';
+import { getRepository } from '../src/repositories';
 import { useBookmarks } from '../src/hooks/useBookmarks';
+import { useSubmitEditSuggestion } from '../src/hooks/useEditSuggestions';
+import PricingBadge from '../src/components/PricingBadge';
+import { getToolPricing } from '../src/utils/pricing';
+import HighlightedText from '../src/components/HighlightedText';
+import MarkdownContent from '../src/components/MarkdownContent';
+import { SearchMatches } from '../src/utils/searchIndex';
+import { toSlug, toolDetailPath } from '../src/utils/slug';
+import { toPlainText } from '../src/utils/markdown';
 
 interface ToolCardProps {
   tool: AiTool | FirebaseTool;
   onUpdateTool?: (toolId: string, toolData: any) => Promise<void>;
   onDeleteTool?: (toolId: string) => Promise<void>;
   categories?: string[];
+  tags?: string[]; // 편집 모달 태그 자동완성 후보
+  onTagClick?: (tag: string) => void; // 태그 클릭 시 (태그 필터 추가 등)
   onBookmarkChange?: () => void;
+  onToolChange?: () => void; // 변경 이력에서 도구를 되돌린 뒤 (목록 새로고침 등)
+  matches?: SearchMatches; // 검색어와 일치한 구간 (강조 표시용)
 }
 
-const ToolCard: React.FC<ToolCardProps> = ({ tool, onUpdateTool, onDeleteTool, categories = [], onBookmarkChange }) => {
+const ToolCard: React.FC<ToolCardProps> = ({ tool, onUpdateTool, onDeleteTool, categories = [], tags = [], onTagClick, onBookmarkChange, onToolChange, matches }) => {
   const [isReviewModalOpen, setIsReviewModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isSuggestModalOpen, setIsSuggestModalOpen] = useState(false);
+  const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
   const [firebaseToolData, setFirebaseToolData] = useState<FirebaseTool | null>(null);
   
   // 북마크 관련 상태
@@ -34,9 +48,9 @@ const ToolCard: React.FC<ToolCardProps> = ({ tool, onUpdateTool, onDeleteTool, c
   
   // 인증 정보
   const { user, isAuthenticated } = useAuthContext();
-  
-  // Firebase 설정 확인
-  const firebaseConfigured = isFirebaseConfigured();
+
+  // 수정 제안 전송
+  const { submitSuggestion } = useSubmitEditSuggestion();
   
   // 북마크 관련 훅
   const { 
@@ -109,62 +123,52 @@ const ToolCard: React.FC<ToolCardProps> = ({ tool, onUpdateTool, onDeleteTool, c
     }
   };
   
-  // Firebase에서 실제 도구 데이터 조회 (날짜 정보 포함)
+  // 저장소에서 실제 도구 데이터 조회 (날짜 정보 포함)
   useEffect(() => {
-    if (!firebaseConfigured || isFirebaseTool(tool)) {
+    if (isFirebaseTool(tool)) {
       return;
     }
     
-    const fetchFirebaseToolData = async () => {
+    const fetchToolData = async () => {
       try {
-        // 도구 이름으로 Firebase에서 검색 (간단한 구현을 위해 도구 이름을 ID로 가정)
-        const toolRef = doc(db, 'tools', tool.name);
-        const toolSnap = await getDoc(toolRef);
+        // 도구 이름으로 저장소에서 검색 (간단한 구현을 위해 도구 이름을 ID로 가정)
+        const toolData = await getRepository().tools.get(tool.name);
         
-        if (toolSnap.exists()) {
-          const data = toolSnap.data();
-          setFirebaseToolData({
-            id: toolSnap.id,
-            ...data,
-            createdAt: data.createdAt?.toDate() || new Date(),
-            updatedAt: data.updatedAt?.toDate() || new Date(),
-          } as FirebaseTool);
+        if (toolData) {
+          setFirebaseToolData(toolData);
         }
       } catch (error) {
-        console.error('Firebase 도구 데이터 조회 실패:', error);
+        console.error('도구 데이터 조회 실패:', error);
       }
     };
     
-    fetchFirebaseToolData();
-  }, [firebaseConfigured, tool.name, isFirebaseTool(tool)]);
+    fetchToolData();
+  }, [tool.name, isFirebaseTool(tool)]);
   
-  // Firebase 평점 데이터 (Firebase 설정된 경우에만)
-  const ratingsData = useRatings(firebaseConfigured ? toolId : '');
+  // 실시간 평점 데이터
+  const ratingsData = useRatings(toolId);
   const { averageRating: firebaseAverageRating, ratingCount } = ratingsData;
   
-  // 도구 평점 정보 추출 - Firebase 설정된 경우 실시간 평균 평점 사용
-  const displayRating = firebaseConfigured 
-    ? firebaseAverageRating  // 실시간으로 계산된 평균 평점 사용
-    : (isFirebaseTool(tool) ? tool.averageRating : tool.rating); // Firebase 미설정 시 기존 로직
+  // 도구 평점 정보 추출 - 실시간으로 계산된 평균 평점 사용
+  const displayRating = firebaseAverageRating;
   
-
-  
-  // 최신 댓글 데이터 (Firebase 설정된 경우에만)
-  const { data: recentComments } = useRecentComments(firebaseConfigured ? toolId : '', 3);
+  // 최신 댓글 데이터
+  const { data: recentComments } = useRecentComments(toolId, 3);
   
   // 관리자 계정 목록 (필요시 환경변수로 관리 가능)
   const ADMIN_UIDS = ['lyGcWH33rYTlRnaBaIz6kQJI03']; // 현재 사용자를 관리자로 추가
   
   // 현재 사용자가 도구 작성자인지 확인
-  // Firebase 도구의 경우: 실제 작성자 또는 관리자
-  // 정적 도구의 경우: 로그인한 사용자는 모두 편집 가능 (개발 환경용)
+  // 실제 작성자 또는 관리자만 편집 가능
   const isOwner = user && (
-    (isFirebaseTool(tool) && (tool.createdBy === user.uid || ADMIN_UIDS.includes(user.uid))) ||
-    (!isFirebaseTool(tool) && !firebaseConfigured)
+    isFirebaseTool(tool) && (tool.createdBy === user.uid || ADMIN_UIDS.includes(user.uid))
   );
 
 
   
+  // 작성자가 아닌 로그인 사용자는 수정 제안 가능
+  const canSuggestEdit = !!user && !isOwner && isFirebaseTool(tool);
+
   // 편집 핸들러
   const handleEdit = () => {
     if (isOwner && onUpdateTool) {
@@ -172,18 +176,6 @@ const ToolCard: React.FC<ToolCardProps> = ({ tool, onUpdateTool, onDeleteTool, c
     }
   };
   
-  const PlanBadge: React.FC<{ plan: string | null }> = ({ plan }) => {
-    if (!plan) return null;
-    const baseClasses = "inline-block text-xs font-semibold px-2.5 py-0.5 rounded-full";
-    if (plan === '무료') {
-      return <span className={`${baseClasses} bg-green-100 text-green-800`}>무료</span>;
-    }
-    if (plan === '기업플랜') {
-      return <span className={`${baseClasses} bg-purple-100 text-purple-800`}>기업플랜</span>;
-    }
-    return null;
-  };
-
   return (
     <>
       <div className="card bg-white rounded-xl shadow-md overflow-hidden flex flex-col h-full transition-transform transition-shadow duration-200 ease-in-out hover:-translate-y-1 hover:shadow-lg">
@@ -191,13 +183,13 @@ const ToolCard: React.FC<ToolCardProps> = ({ tool, onUpdateTool, onDeleteTool, c
           <div className="flex justify-between items-start mb-2 flex-wrap gap-y-2">
             <div className="flex items-center gap-2 flex-wrap">
               <span className="inline-block bg-sky-100 text-sky-800 text-xs font-semibold px-2.5 py-0.5 rounded-full">
-                {tool.category}
+                <HighlightedText text={tool.category} ranges={matches?.category} />
               </span>
-              <PlanBadge plan={tool.plan} />
+              <PricingBadge pricing={getToolPricing(tool)} />
             </div>
             <div className="flex flex-col items-end">
               <StarRating rating={displayRating} />
-              {firebaseConfigured && ratingCount > 0 && (
+              {ratingCount > 0 && (
                 <span className="text-xs text-slate-400 mt-0.5">
                   {ratingCount}명 평가
                 </span>
@@ -212,7 +204,7 @@ const ToolCard: React.FC<ToolCardProps> = ({ tool, onUpdateTool, onDeleteTool, c
               className="text-xl leading-tight font-bold text-slate-900 hover:text-sky-600 transition-colors duration-200 break-words"
               style={{ maxWidth: 'calc(100% - 100px)' }}
             >
-              {tool.name}
+              <HighlightedText text={tool.name} ranges={matches?.name} />
             </a>
             
             <div className="flex gap-2">
@@ -254,15 +246,61 @@ const ToolCard: React.FC<ToolCardProps> = ({ tool, onUpdateTool, onDeleteTool, c
                   ✏️ 편집
                 </button>
               )}
+
+              {/* 변경 이력 버튼 - 소유자에게만 표시 */}
+              {isOwner && (
+                <button
+                  onClick={() => setIsHistoryModalOpen(true)}
+                  className="flex-shrink-0 px-2 py-1 bg-white border border-slate-300 text-slate-600 hover:bg-slate-50 transition-colors duration-200 rounded text-xs"
+                  title="변경 이력"
+                >
+                  🕘 이력
+                </button>
+              )}
+
+              {/* 수정 제안 버튼 - 작성자가 아닌 로그인 사용자에게 표시 */}
+              {canSuggestEdit && (
+                <button
+                  onClick={() => setIsSuggestModalOpen(true)}
+                  className="flex-shrink-0 px-2 py-1 bg-white border border-slate-300 text-slate-600 hover:bg-slate-50 transition-colors duration-200 rounded text-xs"
+                  title="수정 제안"
+                >
+                  ✏️ 수정 제안
+                </button>
+              )}
             </div>
           </div>
           
 
           
-          <p className="mt-2 text-slate-600 text-sm flex-grow">{tool.description}</p>
+          <MarkdownContent
+            text={tool.description}
+            ranges={matches?.description}
+            className="mt-2 text-slate-600 text-sm flex-grow"
+          />
+          {/* 태그 목록 */}
+          {isFirebaseTool(tool) && tool.tags.length > 0 && (
+            <div className="mt-3 flex flex-wrap gap-1">
+              {tool.tags.map(tag => onTagClick ? (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => onTagClick(tag)}
+                  className="text-xs text-violet-700 bg-violet-50 hover:bg-violet-100 px-2 py-0.5 rounded-full transition-colors duration-200"
+                  title={`'${tag}' 태그로 필터링`}
+                >
+                  #{tag}
+                </button>
+              ) : (
+                <span key={tag} className="text-xs text-violet-700 bg-violet-50 px-2 py-0.5 rounded-full">
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          )}
           {tool.memo && (
             <p className="mt-3 text-xs text-slate-500 bg-slate-100 p-2 rounded-md">
-              📝 {tool.memo}
+              📝 <HighlightedText text={tool.memo} ranges={matches?.memo} />
             </p>
           )}
           
@@ -313,9 +351,16 @@ const ToolCard: React.FC<ToolCardProps> = ({ tool, onUpdateTool, onDeleteTool, c
           })()}
           
           {/* 최신 댓글 표시 */}
-          {firebaseConfigured && recentComments && recentComments.length > 0 && (
+          {recentComments && recentComments.length > 0 && (
             <div className="mt-4">
-              <h4 className="text-xs font-semibold text-slate-700 mb-2">최근 댓글</h4>
+              <h4 className="text-xs font-semibold text-slate-700 mb-2">
+                최근 댓글
+                {/* 전체 댓글 수 (서버에서 관리하는 집계 값) */}
+                {(() => {
+                  const commentCount = isFirebaseTool(tool) ? tool.commentCount : firebaseToolData?.commentCount;
+                  return commentCount ? <span className="ml-1 font-normal text-slate-400">({commentCount}개)</span> : null;
+                })()}
+              </h4>
               <div className="space-y-2">
                 {recentComments.map(comment => (
                   <div key={comment.id} className="bg-slate-50 p-2 rounded-md">
@@ -336,7 +381,7 @@ const ToolCard: React.FC<ToolCardProps> = ({ tool, onUpdateTool, onDeleteTool, c
                       </div>
                       <span className="text-xs text-slate-400">{comment.createdAt.toLocaleDateString('ko-KR')}</span>
                     </div>
-                    <p className="text-xs text-slate-600 line-clamp-2">{comment.content}</p>
+                    <p className="text-xs text-slate-600 line-clamp-2">{toPlainText(comment.content)}</p>
                   </div>
                 ))}
               </div>
@@ -353,7 +398,13 @@ const ToolCard: React.FC<ToolCardProps> = ({ tool, onUpdateTool, onDeleteTool, c
             >
               웹사이트 방문
             </a>
-            {firebaseConfigured && user && (
+            <Link
+              to={toolDetailPath(isFirebaseTool(tool) ? tool.slug : toSlug(tool.name))}
+              className="w-full py-2 text-center bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 rounded-md transition-colors duration-200"
+            >
+              상세 보기
+            </Link>
+            {user && (
               <button 
                 onClick={() => setIsReviewModalOpen(true)}
                 className="w-full py-2 text-center bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 rounded-md transition-colors duration-200"
@@ -385,10 +436,40 @@ const ToolCard: React.FC<ToolCardProps> = ({ tool, onUpdateTool, onDeleteTool, c
           onUpdateTool={onUpdateTool}
           onDeleteTool={onDeleteTool}
           categories={categories}
+          tags={tags}
+          onSuccess={(message) => showSuccess(message)}
+          onError={(message) => showError(message)}
+        />
+      )}
+
+      {/* 수정 제안 모달 */}
+      {isSuggestModalOpen && isFirebaseTool(tool) && (
+        <EditToolModal
+          isOpen={isSuggestModalOpen}
+          onClose={() => setIsSuggestModalOpen(false)}
+          tool={tool}
+          mode="suggest"
+          onSuggestEdit={(toolData, message) => submitSuggestion(tool, toolData, message)}
+          categories={categories}
+          tags={tags}
           onSuccess={(message) => showSuccess(message)}
           onError={(message) => showError(message)}
         />
       )}
+
+      {/* 변경 이력 모달 */}
+      {isHistoryModalOpen && user && isFirebaseTool(tool) && (
+        <ToolHistoryModal
+          tool={tool}
+          currentUserId={user.uid}
+          onClose={() => setIsHistoryModalOpen(false)}
+          onSuccess={(message) => {
+            showSuccess(message);
+            onToolChange?.();
+          }}
+          onError={(message) => showError(message)}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,85 @@
+/**
+ * 도구 삭제 연쇄 처리 트리거
+ * 도구 문서가 삭제되면 해당 도구의 평점, 댓글, 댓글 신고, 북마크, 수정 제안과 변경 이력(하위 컬렉션)을 배치 단위로 함께 삭제합니다.
+ * 슬러그 예약(slugs/{slug})도 삭제해 같은 슬러그를 다시 쓸 수 있게 합니다.
+ * 삭제된 문서의 카운터 트리거는 도구 문서가 없으므로 아무 작업도 하지 않습니다.
+ */
+import { onDocumentDeleted } from 'firebase-functions/v2/firestore';
+import { logger } from 'firebase-functions';
+import { getFirestore, Query } from 'firebase-admin/firestore';
+
+// Firestore 배치 쓰기 최대 작업 수
+const MAX_BATCH_SIZE = 500;
+
+// 도구 ID(toolId)로 연결된 하위 데이터 컬렉션
+const DEPENDENT_COLLECTIONS = ['ratings', 'comments', 'commentReports', 'bookmarks', 'editSuggestions'] as const;
+
+/**
+ * 쿼리에 해당하는 문서를 배치 단위로 모두 삭제
+ * 재실행되어도 남은 문서만 삭제하므로 중복 실행에 안전합니다.
+ * @returns 삭제한 문서 수
+ */
+const deleteAll = async (query: Query): Promise<number> => {
+  const db = getFirestore();
+  const baseQuery = query.limit(MAX_BATCH_SIZE);
+  let deletedCount = 0;
+
+  while (true) {
+    const snapshot = await baseQuery.get();
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    snapshot.docs.forEach(doc => batch.delete(doc.ref));
+    await batch.commit();
+    deletedCount += snapshot.size;
+
+    if (snapshot.size < MAX_BATCH_SIZE) break;
+  }
+
+  return deletedCount;
+};
+
+/**
+ * 컬렉션에서 특정 도구에 속한 문서를 모두 삭제
+ * @param collectionName 컬렉션 이름
+ * @param toolId 삭제된 도구 ID
+ * @returns 삭제한 문서 수
+ */
+const deleteByToolId = (collectionName: string, toolId: string): Promise<number> =>
+  deleteAll(getFirestore().collection(collectionName).where('toolId', '==', toolId));
+
+/**
+ * 삭제된 도구의 슬러그 예약 해제 (다른 도구가 예약한 슬러그는 유지)
+ * @returns 삭제한 문서 수
+ */
+const deleteSlugReservation = async (toolId: string, slug: unknown): Promise<number> => {
+  if (typeof slug !== 'string' || !slug) return 0;
+
+  const db = getFirestore();
+  const slugRef = db.collection('slugs').doc(slug);
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(slugRef);
+    if (!snapshot.exists || snapshot.get('toolId') !== toolId) return 0;
+    transaction.delete(slugRef);
+    return 1;
+  });
+};
+
+export const onToolDeleted = onDocumentDeleted('tools/{toolId}', async (event) => {
+  const { toolId } = event.params;
+
+  const results = await Promise.all([
+    ...DEPENDENT_COLLECTIONS.map(async (collectionName) => [
+      collectionName,
+      await deleteByToolId(collectionName, toolId)
+    ] as const),
+    // 하위 컬렉션은 상위 문서를 삭제해도 남으므로 직접 삭제
+    (async () => [
+      'revisions',
+      await deleteAll(getFirestore().collection('tools').doc(toolId).collection('revisions'))
+    ] as const)(),
+    (async () => ['slugs', await deleteSlugReservation(toolId, event.data?.get('slug'))] as const)()
+  ]);
+
+  logger.info('🗑️ 도구 연쇄 삭제 완료', { toolId, deleted: Object.fromEntries(results) });
+});
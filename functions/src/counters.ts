@@ -0,0 +1,63 @@
+/**
+ * 댓글/북마크 수 트리거
+ * 댓글(comments)과 북마크(bookmarks) 문서가 생성/삭제되면 도구 문서의 commentCount/bookmarkCount를 갱신합니다.
+ */
+import { onDocumentCreated, onDocumentDeleted } from 'firebase-functions/v2/firestore';
+import { logger } from 'firebase-functions';
+import { getFirestore } from 'firebase-admin/firestore';
+import { claimEvent } from './events';
+
+type CounterField = 'commentCount' | 'bookmarkCount';
+
+/**
+ * 도구 문서의 카운터를 트랜잭션으로 증감
+ * 카운터 변경은 도구의 수정일(updatedAt)에 영향을 주지 않습니다.
+ * @param eventId 트리거 이벤트 ID (중복 실행 방지용)
+ * @param toolId 대상 도구 ID
+ * @param field 변경할 카운터 필드
+ * @param delta 증감 값
+ */
+const adjustToolCounter = async (
+  eventId: string,
+  toolId: unknown,
+  field: CounterField,
+  delta: number
+): Promise<void> => {
+  if (typeof toolId !== 'string' || !toolId) return;
+
+  const db = getFirestore();
+  const toolRef = db.collection('tools').doc(toolId);
+
+  await db.runTransaction(async (transaction) => {
+    const { alreadyProcessed, markProcessed } = await claimEvent(transaction, eventId);
+    if (alreadyProcessed) {
+      logger.info('⏭️ 이미 처리한 카운터 이벤트', { eventId, field });
+      return;
+    }
+
+    const toolSnap = await transaction.get(toolRef);
+    if (toolSnap.exists) {
+      // 음수가 되지 않도록 현재 값을 읽어 보정
+      const current = toolSnap.get(field) || 0;
+      transaction.update(toolRef, { [field]: Math.max(0, current + delta) });
+    }
+
+    markProcessed();
+  });
+};
+
+export const onCommentCreated = onDocumentCreated('comments/{commentId}', async (event) => {
+  await adjustToolCounter(event.id, event.data?.get('toolId'), 'commentCount', 1);
+});
+
+export const onCommentDeleted = onDocumentDeleted('comments/{commentId}', async (event) => {
+  await adjustToolCounter(event.id, event.data?.get('toolId'), 'commentCount', -1);
+});
+
+export const onBookmarkCreated = onDocumentCreated('bookmarks/{bookmarkId}', async (event) => {
+  await adjustToolCounter(event.id, event.data?.get('toolId'), 'bookmarkCount', 1);
+});
+
+export const onBookmarkDeleted = onDocumentDeleted('bookmarks/{bookmarkId}', async (event) => {
+  await adjustToolCounter(event.id, event.data?.get('toolId'), 'bookmarkCount', -1);
+});
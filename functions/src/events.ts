@@ -0,0 +1,32 @@
+/**
+ * 트리거 중복 실행 방지 유틸리티
+ * Cloud Functions 트리거는 최소 1회(at-least-once) 실행이 보장되므로
+ * 같은 이벤트가 다시 전달되어도 카운터가 두 번 반영되지 않도록 처리한 이벤트 ID를 기록합니다.
+ */
+import { getFirestore, FieldValue, Transaction } from 'firebase-admin/firestore';
+
+// 처리한 이벤트 ID를 기록하는 컬렉션 (클라이언트에서는 접근 불가)
+export const FUNCTION_EVENTS_COLLECTION = '_functionEvents';
+
+/**
+ * 트랜잭션 안에서 이벤트 처리 여부를 확인하고 처리 완료로 기록
+ * 트랜잭션 규칙상 모든 읽기가 쓰기보다 먼저 실행되어야 하므로,
+ * 반환된 markProcessed는 다른 문서를 모두 읽은 뒤에 호출해야 합니다.
+ * @param transaction 진행 중인 트랜잭션
+ * @param eventId 트리거 이벤트 ID
+ * @returns 이미 처리한 이벤트인지 여부와 처리 완료 기록 함수
+ */
+export const claimEvent = async (
+  transaction: Transaction,
+  eventId: string
+): Promise<{ alreadyProcessed: boolean; markProcessed: () => void }> => {
+  const eventRef = getFirestore().collection(FUNCTION_EVENTS_COLLECTION).doc(eventId);
+  const eventSnap = await transaction.get(eventRef);
+
+  return {
+    alreadyProcessed: eventSnap.exists,
+    markProcessed: () => {
+      transaction.set(eventRef, { processedAt: FieldValue.serverTimestamp() });
+    }
+  };
+};
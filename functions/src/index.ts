@@ -0,0 +1,18 @@
+/**
+ * Tech Toolkit Hub Cloud Functions
+ * 도구 문서의 집계 값(평점, 댓글 수, 북마크 수)과 댓글 신고 수를 서버에서 관리하고 도구 삭제 시 하위 데이터를 정리합니다.
+ * 클라이언트에서 바꿀 수 없는 관리 역할(커스텀 클레임) 지정도 담당합니다.
+ */
+import { initializeApp } from 'firebase-admin/app';
+import { setGlobalOptions } from 'firebase-functions/v2';
+
+initializeApp();
+
+// Firestore 기본 리전과 맞춤
+setGlobalOptions({ region: 'asia-northeast3', maxInstances: 10 });
+
+export { onRatingWritten } from './ratings';
+export { onCommentCreated, onCommentDeleted, onBookmarkCreated, onBookmarkDeleted } from './counters';
+export { onToolDeleted } from './cascade';
+export { onCommentReportCreated } from './reports';
+export { setUserRole } from './roles';
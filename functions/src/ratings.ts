@@ -0,0 +1,79 @@
+/**
+ * 평점(ratings) 트리거
+ * 평점 문서가 생성/수정/삭제되면 도구 문서의 평점 집계 값(평균, 개수, 합계, 분포)을 트랜잭션으로 갱신합니다.
+ */
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { logger } from 'firebase-functions';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { applyRatingChange, readRatingSummary, RatingChange } from './ratingAggregate';
+import { claimEvent } from './events';
+
+interface RatingData {
+  toolId?: string;
+  rating?: number;
+}
+
+/**
+ * 평점 문서 변경 전/후 데이터를 도구별 집계 변경 목록으로 변환
+ * 평점이 다른 도구로 옮겨진 경우 이전 도구에서는 제거, 새 도구에는 추가로 처리합니다.
+ */
+const toToolChanges = (before?: RatingData, after?: RatingData): Map<string, RatingChange> => {
+  const changes = new Map<string, RatingChange>();
+  const isValid = (data?: RatingData): data is Required<RatingData> =>
+    !!data && typeof data.toolId === 'string' && typeof data.rating === 'number';
+
+  if (isValid(before)) {
+    changes.set(before.toolId, { removed: before.rating });
+  }
+  if (isValid(after)) {
+    changes.set(after.toolId, { ...changes.get(after.toolId), added: after.rating });
+  }
+
+  // 평점 값이 그대로인 수정(예: updatedAt만 변경)은 집계에 영향 없음
+  changes.forEach((change, toolId) => {
+    if (change.added !== undefined && change.added === change.removed) {
+      changes.delete(toolId);
+    }
+  });
+
+  return changes;
+};
+
+export const onRatingWritten = onDocumentWritten('ratings/{ratingId}', async (event) => {
+  const before = event.data?.before.data() as RatingData | undefined;
+  const after = event.data?.after.data() as RatingData | undefined;
+  const changes = toToolChanges(before, after);
+  if (changes.size === 0) return;
+
+  const db = getFirestore();
+
+  await db.runTransaction(async (transaction) => {
+    const { alreadyProcessed, markProcessed } = await claimEvent(transaction, event.id);
+    if (alreadyProcessed) {
+      logger.info('⏭️ 이미 처리한 평점 이벤트', { eventId: event.id });
+      return;
+    }
+
+    // 모든 읽기를 쓰기보다 먼저 실행
+    const targets = await Promise.all(
+      [...changes.entries()].map(async ([toolId, change]) => {
+        const toolRef = db.collection('tools').doc(toolId);
+        return { toolRef, change, snapshot: await transaction.get(toolRef) };
+      })
+    );
+
+    targets.forEach(({ toolRef, change, snapshot }) => {
+      // 도구가 삭제된 경우(연쇄 삭제 중 등) 집계할 대상이 없음
+      if (!snapshot.exists) return;
+
+      transaction.update(toolRef, {
+        ...applyRatingChange(readRatingSummary(snapshot.data()), change),
+        updatedAt: FieldValue.serverTimestamp()
+      });
+    });
+
+    markProcessed();
+  });
+
+  logger.info('✅ 평점 집계 갱신 완료', { ratingId: event.params.ratingId, tools: [...changes.keys()] });
+});
@@ -0,0 +1,45 @@
+/**
+ * 댓글 신고 트리거
+ * 신고(commentReports) 문서가 생성되면 댓글의 신고 수를 늘리고, 관리자가 검토하지 않은 댓글은 기준 이상이면 자동으로 숨깁니다.
+ */
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { logger } from 'firebase-functions';
+import { getFirestore } from 'firebase-admin/firestore';
+import { claimEvent } from './events';
+
+// 자동 숨김 기준 신고 수 (src/utils/commentModeration.ts와 동일)
+const COMMENT_REPORT_HIDE_THRESHOLD = 3;
+
+export const onCommentReportCreated = onDocumentCreated('commentReports/{reportId}', async (event) => {
+  const commentId = event.data?.get('commentId');
+  if (typeof commentId !== 'string' || !commentId) return;
+
+  const db = getFirestore();
+  const commentRef = db.collection('comments').doc(commentId);
+
+  await db.runTransaction(async (transaction) => {
+    const { alreadyProcessed, markProcessed } = await claimEvent(transaction, event.id);
+    if (alreadyProcessed) {
+      logger.info('⏭️ 이미 처리한 신고 이벤트', { eventId: event.id, commentId });
+      return;
+    }
+
+    const commentSnap = await transaction.get(commentRef);
+    if (commentSnap.exists) {
+      const reportCount = (commentSnap.get('reportCount') || 0) + 1;
+      const moderationStatus = commentSnap.get('moderationStatus') || 'visible';
+      const shouldHide = moderationStatus === 'visible' && reportCount >= COMMENT_REPORT_HIDE_THRESHOLD;
+
+      // 신고 집계는 댓글 수정일(updatedAt)에 영향을 주지 않음
+      transaction.update(commentRef, {
+        reportCount,
+        ...(shouldHide ? { moderationStatus: 'autoHidden' } : {})
+      });
+      if (shouldHide) {
+        logger.info('🚫 신고 누적으로 댓글 자동 숨김', { commentId, reportCount });
+      }
+    }
+
+    markProcessed();
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * 관리 역할 지정 함수
+ * 관리자 화면에서 사용자의 관리 역할(role 커스텀 클레임)을 지정하거나 해제합니다.
+ * 커스텀 클레임은 클라이언트에서 바꿀 수 없으므로 호출 가능한 함수로 제공하고, 목록 표시용으로 users 문서에도 역할을 기록합니다.
+ */
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { logger } from 'firebase-functions';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+
+// 지정할 수 있는 역할 (src/utils/roles.ts와 동일)
+const USER_ROLES = ['admin', 'moderator', 'editor'];
+
+export const setUserRole = onCall<{ userId?: unknown; role?: unknown }>(async (request) => {
+  const token = request.auth?.token;
+  // 역할 도입 전의 admin: true 클레임도 관리자로 취급
+  if (!token || (token.role !== 'admin' && token.admin !== true)) {
+    throw new HttpsError('permission-denied', '관리자만 역할을 지정할 수 있습니다.');
+  }
+
+  const { userId, role } = request.data;
+  if (typeof userId !== 'string' || !userId) {
+    throw new HttpsError('invalid-argument', '사용자 ID가 필요합니다.');
+  }
+  if (role !== null && !(typeof role === 'string' && USER_ROLES.includes(role))) {
+    throw new HttpsError('invalid-argument', `역할은 ${USER_ROLES.join(', ')} 중 하나이거나 null이어야 합니다.`);
+  }
+  // 마지막 관리자가 스스로 권한을 잃지 않도록 자신의 관리자 역할은 바꿀 수 없음
+  if (userId === token.uid && role !== 'admin') {
+    throw new HttpsError('failed-precondition', '자신의 관리자 역할은 변경할 수 없습니다.');
+  }
+
+  const user = await getAuth().getUser(userId).catch(() => {
+    throw new HttpsError('not-found', '사용자를 찾을 수 없습니다.');
+  });
+
+  // trusted 등 다른 클레임은 유지하고, 역할 도입 전의 admin 클레임은 role로 대체
+  const { role: _previousRole, admin: _legacyAdmin, ...otherClaims } = user.customClaims || {};
+  await getAuth().setCustomUserClaims(userId, role ? { ...otherClaims, role } : otherClaims);
+  await getFirestore().collection('users').doc(userId).set({ role }, { merge: true });
+
+  logger.info('관리 역할 변경', { userId, role, actorId: token.uid });
+});
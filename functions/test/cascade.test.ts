@@ -0,0 +1,69 @@
+/**
+ * 도구 삭제 연쇄 처리 트리거 테스트
+ */
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clearFirestore, db, fft } from './setup';
+import { onToolDeleted } from '../src';
+
+const toolDeleted = fft.wrap(onToolDeleted);
+
+// 도구 ID로 연결된 컬렉션 (functions/src/cascade.ts와 동일)
+const DEPENDENT_COLLECTIONS = ['ratings', 'comments', 'commentReports', 'bookmarks', 'editSuggestions'];
+
+const countDocs = async (collectionName: string, toolId: string): Promise<number> =>
+  (await db().collection(collectionName).where('toolId', '==', toolId).get()).size;
+
+const countRevisions = async (toolId: string): Promise<number> =>
+  (await db().collection('tools').doc(toolId).collection('revisions').get()).size;
+
+describe('도구 삭제 연쇄 처리 트리거', () => {
+  beforeEach(async () => {
+    await clearFirestore();
+    const batch = db().batch();
+    ['tool-1', 'tool-2'].forEach(toolId => {
+      DEPENDENT_COLLECTIONS.forEach(collectionName => {
+        for (let i = 0; i < 2; i++) {
+          batch.set(db().collection(collectionName).doc(), { toolId });
+        }
+      });
+      for (let i = 0; i < 3; i++) {
+        batch.set(db().collection('tools').doc(toolId).collection('revisions').doc(), { toolId, action: 'update' });
+      }
+    });
+    batch.set(db().collection('slugs').doc('deleted-tool'), { toolId: 'tool-1' });
+    batch.set(db().collection('slugs').doc('kept-tool'), { toolId: 'tool-2' });
+    // 삭제된 도구 문서는 없고 다른 도구는 남아 있는 상태
+    batch.set(db().collection('tools').doc('tool-2'), { name: '남는 도구', slug: 'kept-tool' });
+    await batch.commit();
+  });
+
+  after(() => fft.cleanup());
+
+  it('삭제된 도구의 하위 데이터와 변경 이력만 삭제한다', async () => {
+    await toolDeleted({ id: 'tool-deleted-1', params: { toolId: 'tool-1' }, data: { name: '삭제된 도구', slug: 'deleted-tool' } });
+
+    for (const collectionName of DEPENDENT_COLLECTIONS) {
+      assert.equal(await countDocs(collectionName, 'tool-1'), 0, collectionName);
+      assert.equal(await countDocs(collectionName, 'tool-2'), 2, collectionName);
+    }
+    assert.equal(await countRevisions('tool-1'), 0);
+    assert.equal(await countRevisions('tool-2'), 3);
+    assert.equal((await db().collection('slugs').doc('deleted-tool').get()).exists, false);
+    assert.equal((await db().collection('slugs').doc('kept-tool').get()).exists, true);
+  });
+
+  it('다른 도구가 예약한 슬러그는 삭제하지 않는다', async () => {
+    await toolDeleted({ id: 'tool-deleted-2', params: { toolId: 'tool-1' }, data: { name: '삭제된 도구', slug: 'kept-tool' } });
+    assert.equal((await db().collection('slugs').doc('kept-tool').get()).exists, true);
+  });
+
+  it('다시 실행되어도 오류 없이 끝난다', async () => {
+    const event = { id: 'tool-deleted-dup', params: { toolId: 'tool-1' }, data: { name: '삭제된 도구' } };
+    await toolDeleted(event);
+    await toolDeleted(event);
+
+    assert.equal(await countRevisions('tool-1'), 0);
+    assert.equal(await countDocs('comments', 'tool-2'), 2);
+  });
+});
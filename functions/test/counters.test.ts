@@ -0,0 +1,59 @@
+/**
+ * 댓글/북마크 수 트리거 테스트
+ */
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clearFirestore, db, fft, isEventRecorded } from './setup';
+import { onBookmarkCreated, onBookmarkDeleted, onCommentCreated, onCommentDeleted } from '../src';
+
+const commentCreated = fft.wrap(onCommentCreated);
+const commentDeleted = fft.wrap(onCommentDeleted);
+const bookmarkCreated = fft.wrap(onBookmarkCreated);
+const bookmarkDeleted = fft.wrap(onBookmarkDeleted);
+
+const getTool = async (toolId: string) => (await db().collection('tools').doc(toolId).get()).data();
+
+describe('댓글/북마크 수 트리거', () => {
+  beforeEach(async () => {
+    await clearFirestore();
+    await db().collection('tools').doc('tool-1').set({ name: '도구', commentCount: 0, bookmarkCount: 0 });
+  });
+
+  after(() => fft.cleanup());
+
+  it('댓글 생성/삭제 시 commentCount를 증감한다', async () => {
+    await commentCreated({ id: 'comment-created-1', params: { commentId: 'c1' }, data: { toolId: 'tool-1' } });
+    await commentCreated({ id: 'comment-created-2', params: { commentId: 'c2' }, data: { toolId: 'tool-1' } });
+    assert.equal((await getTool('tool-1'))?.commentCount, 2);
+
+    await commentDeleted({ id: 'comment-deleted-1', params: { commentId: 'c1' }, data: { toolId: 'tool-1' } });
+    assert.equal((await getTool('tool-1'))?.commentCount, 1);
+  });
+
+  it('북마크 생성/삭제 시 bookmarkCount를 증감한다', async () => {
+    await bookmarkCreated({ id: 'bookmark-created-1', params: { bookmarkId: 'b1' }, data: { toolId: 'tool-1' } });
+    assert.equal((await getTool('tool-1'))?.bookmarkCount, 1);
+
+    await bookmarkDeleted({ id: 'bookmark-deleted-1', params: { bookmarkId: 'b1' }, data: { toolId: 'tool-1' } });
+    assert.equal((await getTool('tool-1'))?.bookmarkCount, 0);
+  });
+
+  it('같은 이벤트가 다시 전달되면 한 번만 반영하고 _functionEvents에 기록한다', async () => {
+    const event = { id: 'comment-created-dup', params: { commentId: 'c1' }, data: { toolId: 'tool-1' } };
+    await commentCreated(event);
+    await commentCreated(event);
+
+    assert.equal((await getTool('tool-1'))?.commentCount, 1);
+    assert.equal(await isEventRecorded('comment-created-dup'), true);
+  });
+
+  it('카운터는 0 아래로 내려가지 않는다', async () => {
+    await commentDeleted({ id: 'comment-deleted-extra', params: { commentId: 'c1' }, data: { toolId: 'tool-1' } });
+    assert.equal((await getTool('tool-1'))?.commentCount, 0);
+  });
+
+  it('도구가 없으면 문서를 만들지 않는다', async () => {
+    await commentCreated({ id: 'comment-created-missing', params: { commentId: 'c1' }, data: { toolId: 'missing' } });
+    assert.equal(await getTool('missing'), undefined);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * 평점 집계 트리거 테스트
+ */
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clearFirestore, db, fft, isEventRecorded } from './setup';
+import { onRatingWritten } from '../src';
+
+const ratingWritten = fft.wrap(onRatingWritten);
+
+/**
+ * 평점 문서 변경 이벤트 (before/after가 없으면 생성/삭제)
+ */
+const ratingChange = (before: Record<string, unknown> | null, after: Record<string, unknown> | null) =>
+  fft.makeChange(
+    fft.firestore.makeDocumentSnapshot(before || {}, 'ratings/r1'),
+    fft.firestore.makeDocumentSnapshot(after || {}, 'ratings/r1')
+  );
+
+const getTool = async (toolId: string) => (await db().collection('tools').doc(toolId).get()).data();
+
+describe('평점 집계 트리거', () => {
+  beforeEach(async () => {
+    await clearFirestore();
+    const emptySummary = { averageRating: 0, ratingCount: 0, ratingSum: 0, ratingHistogram: {} };
+    await db().collection('tools').doc('tool-1').set({ name: '도구 1', ...emptySummary });
+    await db().collection('tools').doc('tool-2').set({ name: '도구 2', ...emptySummary });
+  });
+
+  after(() => fft.cleanup());
+
+  it('평점 추가/수정/삭제를 합계, 평균, 분포에 반영한다', async () => {
+    await ratingWritten({ id: 'rating-1', params: { ratingId: 'r1' }, data: ratingChange(null, { toolId: 'tool-1', rating: 4 }) });
+    await ratingWritten({ id: 'rating-2', params: { ratingId: 'r2' }, data: ratingChange(null, { toolId: 'tool-1', rating: 5 }) });
+
+    let tool = await getTool('tool-1');
+    assert.equal(tool?.ratingCount, 2);
+    assert.equal(tool?.ratingSum, 9);
+    assert.equal(tool?.averageRating, 4.5);
+    assert.deepEqual(tool?.ratingHistogram, { '4.0': 1, '5.0': 1 });
+
+    await ratingWritten({
+      id: 'rating-3',
+      params: { ratingId: 'r1' },
+      data: ratingChange({ toolId: 'tool-1', rating: 4 }, { toolId: 'tool-1', rating: 2.5 })
+    });
+    tool = await getTool('tool-1');
+    assert.equal(tool?.ratingSum, 7.5);
+    assert.deepEqual(tool?.ratingHistogram, { '2.5': 1, '4.0': 0, '5.0': 1 });
+
+    await ratingWritten({ id: 'rating-4', params: { ratingId: 'r2' }, data: ratingChange({ toolId: 'tool-1', rating: 5 }, null) });
+    tool = await getTool('tool-1');
+    assert.equal(tool?.ratingCount, 1);
+    assert.equal(tool?.averageRating, 2.5);
+  });
+
+  it('다른 도구로 옮겨진 평점은 이전 도구에서 빼고 새 도구에 더한다', async () => {
+    await ratingWritten({ id: 'rating-1', params: { ratingId: 'r1' }, data: ratingChange(null, { toolId: 'tool-1', rating: 3 }) });
+    await ratingWritten({
+      id: 'rating-2',
+      params: { ratingId: 'r1' },
+      data: ratingChange({ toolId: 'tool-1', rating: 3 }, { toolId: 'tool-2', rating: 3 })
+    });
+
+    assert.equal((await getTool('tool-1'))?.ratingCount, 0);
+    assert.equal((await getTool('tool-2'))?.ratingCount, 1);
+    assert.equal((await getTool('tool-2'))?.averageRating, 3);
+  });
+
+  it('같은 이벤트가 다시 전달되면 한 번만 반영한다', async () => {
+    const event = { id: 'rating-dup', params: { ratingId: 'r1' }, data: ratingChange(null, { toolId: 'tool-1', rating: 4 }) };
+    await ratingWritten(event);
+    await ratingWritten(event);
+
+    assert.equal((await getTool('tool-1'))?.ratingCount, 1);
+    assert.equal(await isEventRecorded('rating-dup'), true);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * 댓글 신고 트리거 테스트
+ */
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clearFirestore, db, fft, isEventRecorded } from './setup';
+import { onCommentReportCreated } from '../src';
+
+const reportCreated = fft.wrap(onCommentReportCreated);
+
+const report = (eventId: string, reporterId: string) => ({
+  id: eventId,
+  params: { reportId: `c1_${reporterId}` },
+  data: { commentId: 'c1', reporterId, reason: 'spam' }
+});
+
+const getComment = async () => (await db().collection('comments').doc('c1').get()).data();
+
+describe('댓글 신고 트리거', () => {
+  beforeEach(async () => {
+    await clearFirestore();
+    await db().collection('comments').doc('c1').set({ toolId: 'tool-1', content: '댓글', reportCount: 0, moderationStatus: 'visible' });
+  });
+
+  after(() => fft.cleanup());
+
+  it('신고가 3건 쌓이면 자동으로 숨긴다', async () => {
+    await reportCreated(report('report-1', 'u1'));
+    await reportCreated(report('report-2', 'u2'));
+    assert.deepEqual(await getComment().then(comment => [comment?.reportCount, comment?.moderationStatus]), [2, 'visible']);
+
+    await reportCreated(report('report-3', 'u3'));
+    assert.deepEqual(await getComment().then(comment => [comment?.reportCount, comment?.moderationStatus]), [3, 'autoHidden']);
+  });
+
+  it('관리자가 복원한 댓글은 다시 자동 숨김하지 않는다', async () => {
+    await db().collection('comments').doc('c1').update({ reportCount: 5, moderationStatus: 'restored' });
+    await reportCreated(report('report-1', 'u1'));
+
+    assert.deepEqual(await getComment().then(comment => [comment?.reportCount, comment?.moderationStatus]), [6, 'restored']);
+  });
+
+  it('같은 이벤트가 다시 전달되면 한 번만 센다', async () => {
+    await reportCreated(report('report-dup', 'u1'));
+    await reportCreated(report('report-dup', 'u1'));
+
+    assert.equal((await getComment())?.reportCount, 1);
+    assert.equal(await isEventRecorded('report-dup'), true);
+  });
+});
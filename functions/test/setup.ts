@@ -0,0 +1,40 @@
+/**
+ * 트리거 테스트 공통 설정
+ * Firestore 에뮬레이터에서만 실행되도록 확인하고, 테스트 사이에 에뮬레이터 데이터를 비웁니다.
+ * `npm test`가 `firebase emulators:exec`로 에뮬레이터를 띄운 뒤 FIRESTORE_EMULATOR_HOST를 지정해 실행합니다.
+ */
+import functionsTest from 'firebase-functions-test';
+import { getFirestore } from 'firebase-admin/firestore';
+import { FUNCTION_EVENTS_COLLECTION } from '../src/events';
+
+// 실제 프로젝트와 겹치지 않는 에뮬레이터 전용(demo-) 프로젝트 ID
+export const PROJECT_ID = process.env.GCLOUD_PROJECT || 'demo-tech-toolkit-hub';
+
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+if (!emulatorHost) {
+  throw new Error('FIRESTORE_EMULATOR_HOST가 없습니다. 실제 프로젝트에 쓰지 않도록 `npm test`(Firestore 에뮬레이터)로 실행하세요.');
+}
+
+export const fft = functionsTest({ projectId: PROJECT_ID });
+
+// 트리거가 초기화한 기본 앱을 사용 (src/index.ts의 initializeApp)
+export const db = () => getFirestore();
+
+/**
+ * 에뮬레이터의 모든 문서 삭제
+ */
+export const clearFirestore = async (): Promise<void> => {
+  const response = await fetch(
+    `http://${emulatorHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`,
+    { method: 'DELETE' }
+  );
+  if (!response.ok) {
+    throw new Error(`에뮬레이터 데이터 삭제 실패: ${response.status}`);
+  }
+};
+
+/**
+ * 처리한 이벤트 기록(_functionEvents) 존재 여부
+ */
+export const isEventRecorded = async (eventId: string): Promise<boolean> =>
+  (await db().collection(FUNCTION_EVENTS_COLLECTION).doc(eventId).get()).exists;
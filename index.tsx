@@ -3,9 +3,18 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import App from './App';
+import ToolDetailPage from './src/components/ToolDetailPage';
+import CategoryRedirect from './src/components/CategoryRedirect';
 import AdminLogin from './src/components/admin/AdminLogin';
 import ToolManager from './src/components/admin/ToolManager';
 import CategoryManager from './src/components/admin/CategoryManager';
+import TagManager from './src/components/admin/TagManager';
+import LinkHealthManager from './src/components/admin/LinkHealthManager';
+import EditSuggestionManager from './src/components/admin/EditSuggestionManager';
+import CommentReportManager from './src/components/admin/CommentReportManager';
+import UserManager from './src/components/admin/UserManager';
+import ContentFilterManager from './src/components/admin/ContentFilterManager';
+import AuditLogViewer from './src/components/admin/AuditLogViewer';
 import AdminLayout from './src/components/admin/AdminLayout';
 import { AdminProvider } from './src/contexts/AdminContext';
 
@@ -20,6 +29,8 @@ root.render(
     <BrowserRouter>
       <Routes>
         <Route path="/" element={<App />} />
+        <Route path="/tools/:slug" element={<ToolDetailPage />} />
+        <Route path="/categories/:category" element={<CategoryRedirect />} />
         <Route path="/admin/login" element={
           <AdminProvider>
             <AdminLogin />
@@ -39,6 +50,55 @@ root.render(
             </AdminLayout>
           </AdminProvider>
         } />
+        <Route path="/admin/tags" element={
+          <AdminProvider>
+            <AdminLayout activeTab="tags">
+              <TagManager />
+            </AdminLayout>
+          </AdminProvider>
+        } />
+        <Route path="/admin/links" element={
+          <AdminProvider>
+            <AdminLayout activeTab="links">
+              <LinkHealthManager />
+            </AdminLayout>
+          </AdminProvider>
+        } />
+        <Route path="/admin/suggestions" element={
+          <AdminProvider>
+            <AdminLayout activeTab="suggestions">
+              <EditSuggestionManager />
+            </AdminLayout>
+          </AdminProvider>
+        } />
+        <Route path="/admin/reports" element={
+          <AdminProvider>
+            <AdminLayout activeTab="reports">
+              <CommentReportManager />
+            </AdminLayout>
+          </AdminProvider>
+        } />
+        <Route path="/admin/users" element={
+          <AdminProvider>
+            <AdminLayout activeTab="users">
+              <UserManager />
+            </AdminLayout>
+          </AdminProvider>
+        } />
+        <Route path="/admin/filters" element={
+          <AdminProvider>
+            <AdminLayout activeTab="filters">
+              <ContentFilterManager />
+            </AdminLayout>
+          </AdminProvider>
+        } />
+        <Route path="/admin/audit" element={
+          <AdminProvider>
+            <AdminLayout activeTab="audit">
+              <AuditLogViewer />
+            </AdminLayout>
+          </AdminProvider>
+        } />
         <Route path="/admin" element={<Navigate to="/admin/login" replace />} />
       </Routes>
     </BrowserRouter>
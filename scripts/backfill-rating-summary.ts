@@ -0,0 +1,81 @@
+// 도구 평점 집계 값 보정 스크립트
+// ratings 컬렉션 전체를 기준으로 각 도구의 averageRating, ratingCount, ratingSum, ratingHistogram을 다시 계산합니다.
+// 보안 규칙상 집계 값은 Cloud Functions만 갱신할 수 있으므로 firebase-admin(서비스 계정)을 사용합니다.
+// 사용법: GOOGLE_APPLICATION_CREDENTIALS=./service-account.json npm run backfill-ratings [-- --dry-run]
+import { config } from 'dotenv';
+import { initializeApp, applicationDefault } from 'firebase-admin/app';
+
+// 환경변수 로드
+config();
+import { getFirestore } from 'firebase-admin/firestore';
+import { summarizeRatings } from '../src/utils/ratingAggregate';
+
+// Firebase Admin 초기화 (GOOGLE_APPLICATION_CREDENTIALS의 서비스 계정 사용)
+initializeApp({
+  credential: applicationDefault(),
+  projectId: process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID
+});
+const db = getFirestore();
+
+// 배치 작업당 최대 문서 수 (Firestore 제한)
+const MAX_BATCH_SIZE = 500;
+
+const isDryRun = process.argv.includes('--dry-run');
+
+/**
+ * 모든 도구의 평점 집계 값을 ratings 컬렉션 기준으로 다시 계산
+ */
+async function backfillRatingSummary() {
+  console.log(`🚀 평점 집계 값 보정을 시작합니다...${isDryRun ? ' (dry-run: 저장하지 않음)' : ''}`);
+
+  try {
+    const [toolsSnapshot, ratingsSnapshot] = await Promise.all([
+      db.collection('tools').get(),
+      db.collection('ratings').get()
+    ]);
+
+    // 도구별 평점 목록
+    const ratingsByTool = new Map<string, number[]>();
+    ratingsSnapshot.forEach(ratingDoc => {
+      const { toolId, rating } = ratingDoc.data();
+      if (!toolId || typeof rating !== 'number') return;
+      ratingsByTool.set(toolId, [...(ratingsByTool.get(toolId) || []), rating]);
+    });
+
+    let successCount = 0;
+    let errorCount = 0;
+
+    for (let start = 0; start < toolsSnapshot.docs.length; start += MAX_BATCH_SIZE) {
+      const toolDocs = toolsSnapshot.docs.slice(start, start + MAX_BATCH_SIZE);
+      const batch = db.batch();
+      toolDocs.forEach(toolDoc => {
+        const summary = summarizeRatings(ratingsByTool.get(toolDoc.id) || []);
+        // 집계 값만 바로잡는 것이므로 updatedAt은 바꾸지 않음
+        batch.update(toolDoc.ref, { ...summary });
+        console.log(`✅ ${toolDoc.data().name || toolDoc.id}: ${summary.averageRating.toFixed(1)}점 (${summary.ratingCount}개)`);
+      });
+
+      try {
+        if (!isDryRun) {
+          await batch.commit();
+        }
+        successCount += toolDocs.length;
+      } catch (error) {
+        console.error(`❌ ${start + 1}~${start + toolDocs.length}번째 도구 보정 실패:`, error);
+        errorCount += toolDocs.length;
+      }
+    }
+
+    console.log('\n📊 보정 완료 요약:');
+    console.log(`✅ 성공: ${successCount}개`);
+    console.log(`❌ 실패: ${errorCount}개`);
+    if (errorCount > 0) process.exitCode = 1;
+  } catch (error) {
+    console.error('💥 평점 집계 값 보정 중 오류 발생:', error);
+    process.exitCode = 1;
+  } finally {
+    process.exit();
+  }
+}
+
+backfillRatingSummary();
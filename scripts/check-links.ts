@@ -0,0 +1,94 @@
+// 도구 링크 점검 스크립트
+// 모든 도구 URL에 요청을 보내 상태, 최종 리디렉션 주소, 응답 시간, 점검 시각을 도구 문서의 linkHealth 필드에 기록합니다.
+// 보안 규칙과 관계없이 쓰기 위해 firebase-admin(서비스 계정)을 사용합니다.
+// 사용법: GOOGLE_APPLICATION_CREDENTIALS=./service-account.json npm run check-links [-- --dry-run] [-- --concurrency=5]
+import { config } from 'dotenv';
+import { initializeApp, applicationDefault } from 'firebase-admin/app';
+
+// 환경변수 로드
+config();
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { LINK_STATUSES, LINK_STATUS_LABELS } from '../src/utils/linkHealth';
+import { probeLink } from '../src/utils/linkProbe';
+
+// Firebase Admin 초기화 (GOOGLE_APPLICATION_CREDENTIALS의 서비스 계정 사용)
+initializeApp({
+  credential: applicationDefault(),
+  projectId: process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID
+});
+const db = getFirestore();
+
+// 배치 작업당 최대 문서 수 (Firestore 제한)
+const MAX_BATCH_SIZE = 500;
+
+const isDryRun = process.argv.includes('--dry-run');
+const concurrencyArg = process.argv.find(arg => arg.startsWith('--concurrency='));
+const concurrency = Math.max(1, Number.parseInt(concurrencyArg?.split('=')[1] || '', 10) || 5);
+
+/**
+ * 작업 목록을 정해진 개수씩 동시에 실행
+ */
+async function runWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runNext));
+  return results;
+}
+
+/**
+ * 모든 도구 링크 점검
+ */
+async function checkLinks() {
+  console.log(`🚀 링크 점검을 시작합니다... (동시 요청 ${concurrency}개)${isDryRun ? ' (dry-run: 저장하지 않음)' : ''}`);
+
+  try {
+    const toolsSnapshot = await db.collection('tools').get();
+    const toolDocs = toolsSnapshot.docs.filter(toolDoc => typeof toolDoc.data().url === 'string' && toolDoc.data().url);
+    console.log(`📊 점검 대상: ${toolDocs.length}개`);
+
+    const results = await runWithConcurrency(toolDocs, concurrency, async toolDoc => {
+      const { name, url } = toolDoc.data();
+      const result = await probeLink(url);
+      const icon = result.status === 'ok' ? '✅' : result.status === 'broken' ? '💥' : '⚠️';
+      console.log(`${icon} ${name || toolDoc.id}: ${LINK_STATUS_LABELS[result.status]}` +
+        (result.httpStatus !== null ? ` (HTTP ${result.httpStatus})` : '') +
+        (result.finalUrl ? ` → ${result.finalUrl}` : '') +
+        (result.error ? ` - ${result.error}` : ''));
+      return { toolDoc, result };
+    });
+
+    if (!isDryRun) {
+      for (let start = 0; start < results.length; start += MAX_BATCH_SIZE) {
+        const batch = db.batch();
+        results.slice(start, start + MAX_BATCH_SIZE).forEach(({ toolDoc, result }) => {
+          // 점검 결과는 내용 수정이 아니므로 updatedAt은 바꾸지 않음
+          batch.update(toolDoc.ref, {
+            linkHealth: { ...result, lastCheckedAt: FieldValue.serverTimestamp() }
+          });
+        });
+        await batch.commit();
+      }
+    }
+
+    console.log('\n📊 링크 점검 완료 요약:');
+    LINK_STATUSES.forEach(status => {
+      const count = results.filter(({ result }) => result.status === status).length;
+      console.log(`   ${LINK_STATUS_LABELS[status]}: ${count}개`);
+    });
+  } catch (error) {
+    console.error('💥 링크 점검 중 오류 발생:', error);
+    process.exitCode = 1;
+  } finally {
+    process.exit();
+  }
+}
+
+checkLinks();
@@ -0,0 +1,96 @@
+// Firestore 데이터 내보내기 스크립트
+// 빌드 시 정적 페이지 생성(scripts/prerender.ts)에 사용할 도구/카테고리 데이터를 JSON 파일로 저장합니다.
+import { config } from 'dotenv';
+import { initializeApp } from 'firebase/app';
+
+// 환경변수 로드
+config();
+import { getFirestore, collection, getDocs, query, where } from 'firebase/firestore';
+import { writeFile } from 'fs/promises';
+import { toSlug } from '../src/utils/slug';
+import { normalizePricing, pricingFromPlan } from '../src/utils/pricing';
+
+// Firebase 설정 (환경 변수 사용)
+const firebaseConfig = {
+  apiKey: process.env.FIREBASE_API_KEY || process.env.VITE_FIREBASE_API_KEY,
+  authDomain: process.env.FIREBASE_AUTH_DOMAIN || process.env.VITE_FIREBASE_AUTH_DOMAIN,
+  projectId: process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID,
+  storageBucket: process.env.FIREBASE_STORAGE_BUCKET || process.env.VITE_FIREBASE_STORAGE_BUCKET,
+  messagingSenderId: process.env.FIREBASE_MESSAGING_SENDER_ID || process.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+  appId: process.env.FIREBASE_APP_ID || process.env.VITE_FIREBASE_APP_ID
+};
+
+// 내보낼 파일 경로 (기본값: 프로젝트 루트의 firestore-export.json)
+const outputPath = process.argv[2] || process.env.PRERENDER_EXPORT || 'firestore-export.json';
+
+// Firebase 앱 초기화
+const app = initializeApp(firebaseConfig);
+const db = getFirestore(app);
+
+/**
+ * Timestamp 값을 ISO 문자열로 변환 (값이 없으면 현재 시각)
+ */
+const toIsoString = (value: any): string =>
+  (value?.toDate ? value.toDate() : new Date()).toISOString();
+
+/**
+ * tools, categories 컬렉션을 JSON 파일로 내보내기
+ */
+async function exportFirestore() {
+  console.log('🚀 Firestore 데이터 내보내기를 시작합니다...');
+
+  try {
+    const [toolsSnapshot, categoriesSnapshot] = await Promise.all([
+      // 보안 규칙상 승인된 도구만 읽을 수 있고, 검토 중인 도구는 공개 페이지를 만들지 않음
+      getDocs(query(collection(db, 'tools'), where('status', '==', 'approved'))),
+      getDocs(collection(db, 'categories'))
+    ]);
+
+    // 클라이언트 저장소(toTool)와 같은 기본값 적용
+    const tools = toolsSnapshot.docs.map(toolDoc => {
+      const data = toolDoc.data();
+      return {
+        id: toolDoc.id,
+        name: data.name || '',
+        slug: data.slug || toSlug(data.name || ''),
+        category: data.category || '',
+        tags: Array.isArray(data.tags) ? data.tags : [],
+        url: data.url || '',
+        description: data.description || '',
+        memo: data.memo || '',
+        pricing: data.pricing !== undefined ? normalizePricing(data.pricing) : pricingFromPlan(data.plan),
+        averageRating: data.averageRating || 0,
+        ratingCount: data.ratingCount || 0,
+        commentCount: data.commentCount || 0,
+        createdAt: toIsoString(data.createdAt),
+        updatedAt: toIsoString(data.updatedAt)
+      };
+    });
+
+    const categories = categoriesSnapshot.docs.map(categoryDoc => ({
+      id: categoryDoc.id,
+      name: categoryDoc.data().name || '',
+      parentId: categoryDoc.data().parentId || null,
+      order: categoryDoc.data().order ?? 0,
+      icon: categoryDoc.data().icon || '',
+      description: categoryDoc.data().description || ''
+    }));
+
+    const exportData = {
+      exportedAt: new Date().toISOString(),
+      tools,
+      categories
+    };
+
+    await writeFile(outputPath, JSON.stringify(exportData, null, 2), 'utf8');
+
+    console.log(`✅ 도구 ${tools.length}개, 카테고리 ${categories.length}개를 ${outputPath}에 저장했습니다.`);
+  } catch (error) {
+    console.error('💥 Firestore 데이터 내보내기 중 오류 발생:', error);
+    process.exitCode = 1;
+  } finally {
+    process.exit();
+  }
+}
+
+exportFirestore();
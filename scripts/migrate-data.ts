@@ -5,6 +5,7 @@ import { initializeApp } from 'firebase/app';
 // 환경변수 로드
 config();
 import { getFirestore, collection, addDoc, serverTimestamp, getDocs } from 'firebase/firestore';
+import { pricingFromPlan } from '../src/utils/pricing';
 
 // Firebase 설정 (환경 변수 사용)
 const firebaseConfig = {
@@ -49,9 +50,10 @@ async function migrateToolsFromJson(jsonFilePath: string) {
           url: tool.url,
           description: tool.description,
           memo: tool.memo || '',
-          plan: tool.plan,
+          pricing: pricingFromPlan(tool.plan),
           averageRating: tool.rating || 0,
           ratingCount: 0,
+          status: 'approved',
           createdAt: serverTimestamp(),
           updatedAt: serverTimestamp(),
           createdBy: 'system'
@@ -96,9 +98,14 @@ async function migrateCategoriesFromFirestore() {
     const categories = [...new Set(tools.map(tool => tool.category))];
     const categoriesCollection = collection(db, 'categories');
 
-    for (const category of categories) {
+    for (const [index, category] of categories.entries()) {
+      // 기존 카테고리는 모두 최상위로 만들고 계층은 관리자 페이지에서 지정
       const categoryDoc = {
         name: category,
+        parentId: null,
+        order: index,
+        icon: '',
+        description: '',
         toolCount: tools.filter(tool => tool.category === category).length,
         createdAt: serverTimestamp()
       };
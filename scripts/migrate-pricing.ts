@@ -0,0 +1,87 @@
+// 요금제 문자열(plan) → 가격 정보(pricing) 마이그레이션 스크립트
+// tools 컬렉션에서 plan 필드가 남아 있는 문서를 찾아 pricing 객체로 변환하고 plan 필드를 삭제합니다.
+// 보안 규칙상 일반 사용자는 다른 사람의 도구를 수정할 수 없으므로 firebase-admin(서비스 계정)을 사용합니다.
+// 사용법: GOOGLE_APPLICATION_CREDENTIALS=./service-account.json npm run migrate-pricing [-- --dry-run]
+import { config } from 'dotenv';
+import { initializeApp, applicationDefault } from 'firebase-admin/app';
+
+// 환경변수 로드
+config();
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { pricingFromPlan, formatPricing } from '../src/utils/pricing';
+
+// Firebase Admin 초기화 (GOOGLE_APPLICATION_CREDENTIALS의 서비스 계정 사용)
+initializeApp({
+  credential: applicationDefault(),
+  projectId: process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID
+});
+const db = getFirestore();
+
+// 배치 작업당 최대 문서 수 (Firestore 제한)
+const MAX_BATCH_SIZE = 500;
+
+const isDryRun = process.argv.includes('--dry-run');
+
+/**
+ * plan 필드를 pricing 객체로 변환
+ * 알 수 없는 요금제 문자열은 pricing을 null로 두고 plan을 남겨 관리자가 직접 확인할 수 있게 합니다.
+ */
+async function migratePricing() {
+  console.log(`🚀 가격 정보 마이그레이션을 시작합니다...${isDryRun ? ' (dry-run: 저장하지 않음)' : ''}`);
+
+  try {
+    const toolsSnapshot = await db.collection('tools').get();
+    const targets = toolsSnapshot.docs.filter(toolDoc => {
+      const data = toolDoc.data();
+      return data.pricing === undefined || data.plan !== undefined;
+    });
+
+    let convertedCount = 0;
+    let emptyCount = 0;
+    const unknownPlans: string[] = [];
+
+    for (let start = 0; start < targets.length; start += MAX_BATCH_SIZE) {
+      const batch = db.batch();
+
+      targets.slice(start, start + MAX_BATCH_SIZE).forEach(toolDoc => {
+        const data = toolDoc.data();
+        const plan = typeof data.plan === 'string' ? data.plan.trim() : '';
+        const pricing = data.pricing !== undefined ? data.pricing : pricingFromPlan(plan);
+
+        if (plan && !pricing) {
+          unknownPlans.push(`${data.name || toolDoc.id}: "${plan}"`);
+          batch.update(toolDoc.ref, { pricing: null });
+          return;
+        }
+
+        batch.update(toolDoc.ref, { pricing, plan: FieldValue.delete() });
+        if (pricing) {
+          convertedCount++;
+          console.log(`✅ ${data.name || toolDoc.id}: "${plan}" → ${formatPricing(pricing)}`);
+        } else {
+          emptyCount++;
+        }
+      });
+
+      if (!isDryRun) {
+        await batch.commit();
+      }
+    }
+
+    console.log('\n📊 마이그레이션 완료 요약:');
+    console.log(`✅ 변환: ${convertedCount}개`);
+    console.log(`➖ 요금제 정보 없음: ${emptyCount}개`);
+    console.log(`⚠️ 알 수 없는 요금제: ${unknownPlans.length}개`);
+    unknownPlans.forEach(item => console.log(`   - ${item}`));
+    if (unknownPlans.length > 0) {
+      console.log('   알 수 없는 요금제는 plan 필드를 남겨 두었습니다. 관리자 화면에서 가격 정보를 입력한 뒤 다시 실행하세요.');
+    }
+  } catch (error) {
+    console.error('💥 가격 정보 마이그레이션 중 오류 발생:', error);
+    process.exitCode = 1;
+  } finally {
+    process.exit();
+  }
+}
+
+migratePricing();
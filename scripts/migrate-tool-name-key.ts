@@ -0,0 +1,62 @@
+// 도구 이름 정렬 키(nameLower) 마이그레이션 스크립트
+// 이름순 목록은 nameLower 필드로 정렬해 페이지를 나누므로, 이 필드가 없는 기존 도구는 이름순 목록에서 빠집니다.
+// 이름순 정렬 인덱스를 배포한 뒤, 새 버전을 배포하기 전에 실행해야 합니다.
+// 사용법: GOOGLE_APPLICATION_CREDENTIALS=./service-account.json npm run migrate-tool-name-key [-- --dry-run]
+import { config } from 'dotenv';
+import { initializeApp, applicationDefault } from 'firebase-admin/app';
+
+// 환경변수 로드
+config();
+import { getFirestore } from 'firebase-admin/firestore';
+import { toNameSortKey } from '../src/utils/toolSort';
+
+// Firebase Admin 초기화 (GOOGLE_APPLICATION_CREDENTIALS의 서비스 계정 사용)
+initializeApp({
+  credential: applicationDefault(),
+  projectId: process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID
+});
+const db = getFirestore();
+
+// 배치 작업당 최대 문서 수 (Firestore 제한)
+const MAX_BATCH_SIZE = 500;
+
+const isDryRun = process.argv.includes('--dry-run');
+
+/**
+ * 이름 정렬 키가 없거나 이름과 맞지 않는 도구에 정렬 키 기록
+ */
+async function migrateToolNameKey() {
+  console.log(`🚀 도구 이름 정렬 키 마이그레이션을 시작합니다...${isDryRun ? ' (dry-run: 저장하지 않음)' : ''}`);
+
+  try {
+    const toolsSnapshot = await db.collection('tools').get();
+    const targets = toolsSnapshot.docs.filter(toolDoc =>
+      toolDoc.data().nameLower !== toNameSortKey(toolDoc.data().name || '')
+    );
+
+    for (let start = 0; start < targets.length; start += MAX_BATCH_SIZE) {
+      const batch = db.batch();
+      targets.slice(start, start + MAX_BATCH_SIZE).forEach(toolDoc => {
+        const nameLower = toNameSortKey(toolDoc.data().name || '');
+        console.log(`✅ ${toolDoc.data().name || toolDoc.id}: ${nameLower}`);
+        // 내용이 바뀐 것이 아니므로 updatedAt은 바꾸지 않음
+        batch.update(toolDoc.ref, { nameLower });
+      });
+
+      if (!isDryRun) {
+        await batch.commit();
+      }
+    }
+
+    console.log('\n📊 마이그레이션 완료 요약:');
+    console.log(`✅ 정렬 키 기록: ${targets.length}개`);
+    console.log(`⏭️ 이미 최신: ${toolsSnapshot.size - targets.length}개`);
+  } catch (error) {
+    console.error('💥 도구 이름 정렬 키 마이그레이션 중 오류 발생:', error);
+    process.exitCode = 1;
+  } finally {
+    process.exit();
+  }
+}
+
+migrateToolNameKey();
@@ -0,0 +1,103 @@
+// 도구 슬러그 예약(slugs) 마이그레이션 스크립트
+// 새 도구는 slugs/{slug} 예약 문서로 슬러그 중복을 확인하므로, 예약 문서가 없는 기존 도구의 슬러그를 예약합니다.
+// 슬러그 필드가 없는 기존 도구에는 이름으로 만든 슬러그를 함께 기록합니다.
+// 보안 규칙상 도구 추가 없이 예약 문서를 만들 수 없으므로 firebase-admin(서비스 계정)을 사용하며, 새 보안 규칙을 배포하기 전에 실행해야 합니다.
+// 사용법: GOOGLE_APPLICATION_CREDENTIALS=./service-account.json npm run migrate-tool-slugs [-- --dry-run]
+import { config } from 'dotenv';
+import { initializeApp, applicationDefault } from 'firebase-admin/app';
+
+// 환경변수 로드
+config();
+import { getFirestore, FieldValue, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { createUniqueSlug } from '../src/utils/slug';
+
+// Firebase Admin 초기화 (GOOGLE_APPLICATION_CREDENTIALS의 서비스 계정 사용)
+initializeApp({
+  credential: applicationDefault(),
+  projectId: process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID
+});
+const db = getFirestore();
+
+// 배치 작업당 최대 문서 수 (Firestore 제한, 도구 하나당 최대 두 번 쓰기)
+const MAX_BATCH_SIZE = 250;
+
+const isDryRun = process.argv.includes('--dry-run');
+
+/**
+ * 예약되지 않은 도구 슬러그를 slugs 컬렉션에 기록
+ * 이미 다른 도구가 예약한 슬러그는 링크가 바뀌지 않도록 그대로 두고 목록으로 알려 줍니다.
+ */
+async function migrateToolSlugs() {
+  console.log(`🚀 도구 슬러그 예약 마이그레이션을 시작합니다...${isDryRun ? ' (dry-run: 저장하지 않음)' : ''}`);
+
+  try {
+    const [toolsSnapshot, slugsSnapshot] = await Promise.all([
+      db.collection('tools').get(),
+      db.collection('slugs').get()
+    ]);
+
+    // 슬러그 → 예약한 도구 ID
+    const reservations = new Map<string, string>(
+      slugsSnapshot.docs.map(slugDoc => [slugDoc.id, slugDoc.data().toolId])
+    );
+    const duplicates: string[] = [];
+    const targets: { toolDoc: QueryDocumentSnapshot; slug: string; isNewSlug: boolean }[] = [];
+
+    // 슬러그가 저장된 도구를 먼저 예약해야 새로 만드는 슬러그가 겹치지 않음
+    const sortedDocs = [...toolsSnapshot.docs].sort((a, b) => Number(!a.data().slug) - Number(!b.data().slug));
+    for (const toolDoc of sortedDocs) {
+      const data = toolDoc.data();
+      const isNewSlug = typeof data.slug !== 'string' || !data.slug;
+      const slug = isNewSlug
+        ? await createUniqueSlug(data.name || '', candidate => reservations.has(candidate))
+        : data.slug;
+
+      const reservedBy = reservations.get(slug);
+      if (reservedBy === toolDoc.id) continue;
+      if (reservedBy) {
+        duplicates.push(`${data.name || toolDoc.id}: ${slug}`);
+        continue;
+      }
+
+      reservations.set(slug, toolDoc.id);
+      targets.push({ toolDoc, slug, isNewSlug });
+    }
+
+    for (let start = 0; start < targets.length; start += MAX_BATCH_SIZE) {
+      const batch = db.batch();
+      targets.slice(start, start + MAX_BATCH_SIZE).forEach(({ toolDoc, slug, isNewSlug }) => {
+        const data = toolDoc.data();
+        console.log(`✅ ${data.name || toolDoc.id}: ${slug}${isNewSlug ? ' (새 슬러그)' : ''}`);
+        batch.set(db.collection('slugs').doc(slug), {
+          toolId: toolDoc.id,
+          createdBy: data.createdBy || 'system',
+          createdAt: FieldValue.serverTimestamp()
+        });
+        // 내용이 바뀐 것이 아니므로 updatedAt은 바꾸지 않음
+        if (isNewSlug) {
+          batch.update(toolDoc.ref, { slug });
+        }
+      });
+
+      if (!isDryRun) {
+        await batch.commit();
+      }
+    }
+
+    console.log('\n📊 마이그레이션 완료 요약:');
+    console.log(`✅ 슬러그 예약: ${targets.length}개 (새 슬러그 ${targets.filter(target => target.isNewSlug).length}개)`);
+    console.log(`⏭️ 이미 예약됨: ${toolsSnapshot.size - targets.length - duplicates.length}개`);
+    console.log(`⚠️ 다른 도구와 겹치는 슬러그: ${duplicates.length}개`);
+    duplicates.forEach(item => console.log(`   - ${item}`));
+    if (duplicates.length > 0) {
+      console.log('   겹치는 도구는 상세 페이지 주소가 하나로만 연결됩니다. 중복 도구를 정리한 뒤 다시 실행하세요.');
+    }
+  } catch (error) {
+    console.error('💥 도구 슬러그 예약 마이그레이션 중 오류 발생:', error);
+    process.exitCode = 1;
+  } finally {
+    process.exit();
+  }
+}
+
+migrateToolSlugs();
@@ -0,0 +1,71 @@
+// 도구 검토 상태(status) 마이그레이션 스크립트
+// 검토 기능 도입 전에 등록되어 status 필드가 없는 도구를 승인 상태로 표시합니다.
+// 공개 목록 쿼리는 status == 'approved' 조건을 사용하므로, 새 보안 규칙과 인덱스를 배포하기 전에 실행해야 합니다.
+// 보안 규칙상 사용자는 검토 상태를 바꿀 수 없으므로 firebase-admin(서비스 계정)을 사용합니다.
+// 사용법: GOOGLE_APPLICATION_CREDENTIALS=./service-account.json npm run migrate-tool-status [-- --dry-run]
+import { config } from 'dotenv';
+import { initializeApp, applicationDefault } from 'firebase-admin/app';
+
+// 환경변수 로드
+config();
+import { getFirestore } from 'firebase-admin/firestore';
+import { TOOL_STATUSES } from '../src/utils/toolStatus';
+import { ToolStatus } from '../types';
+
+// Firebase Admin 초기화 (GOOGLE_APPLICATION_CREDENTIALS의 서비스 계정 사용)
+initializeApp({
+  credential: applicationDefault(),
+  projectId: process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID
+});
+const db = getFirestore();
+
+// 배치 작업당 최대 문서 수 (Firestore 제한)
+const MAX_BATCH_SIZE = 500;
+
+const isDryRun = process.argv.includes('--dry-run');
+
+/**
+ * 검토 상태가 없거나 올바르지 않은 도구를 승인 상태로 변경
+ */
+async function migrateToolStatus() {
+  console.log(`🚀 도구 검토 상태 마이그레이션을 시작합니다...${isDryRun ? ' (dry-run: 저장하지 않음)' : ''}`);
+
+  try {
+    const toolsSnapshot = await db.collection('tools').get();
+    const targets = toolsSnapshot.docs.filter(toolDoc =>
+      !TOOL_STATUSES.includes(toolDoc.data().status as ToolStatus)
+    );
+
+    for (let start = 0; start < targets.length; start += MAX_BATCH_SIZE) {
+      const batch = db.batch();
+      targets.slice(start, start + MAX_BATCH_SIZE).forEach(toolDoc => {
+        console.log(`✅ ${toolDoc.data().name || toolDoc.id}: 승인`);
+        // 기존 도구는 이미 공개되어 있던 것이므로 updatedAt은 바꾸지 않음
+        batch.update(toolDoc.ref, {
+          status: 'approved',
+          rejectionReason: null,
+          reviewedBy: null,
+          reviewedAt: null
+        });
+      });
+
+      if (!isDryRun) {
+        await batch.commit();
+      }
+    }
+
+    console.log('\n📊 마이그레이션 완료 요약:');
+    console.log(`✅ 승인 상태로 변경: ${targets.length}개`);
+    TOOL_STATUSES.forEach(status => {
+      const count = toolsSnapshot.docs.filter(toolDoc => toolDoc.data().status === status).length;
+      console.log(`   기존 ${status}: ${count}개`);
+    });
+  } catch (error) {
+    console.error('💥 도구 검토 상태 마이그레이션 중 오류 발생:', error);
+    process.exitCode = 1;
+  } finally {
+    process.exit();
+  }
+}
+
+migrateToolStatus();
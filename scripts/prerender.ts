@@ -0,0 +1,416 @@
+// 정적 페이지 생성 스크립트 (vite build 이후 실행)
+// Firestore 내보내기 파일로 도구/카테고리 페이지의 HTML을 dist에 미리 만들어
+// 검색 엔진이 JavaScript 실행 없이도 제목, Open Graph 태그, JSON-LD 구조화 데이터를 읽을 수 있게 합니다.
+// 함께 sitemap.xml과 robots.txt를 생성합니다.
+import { config } from 'dotenv';
+
+// 환경변수 로드
+config();
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { toSlug, toolDetailPath, categoryPagePath } from '../src/utils/slug';
+import { getCategoryNamesWithDescendants } from '../src/utils/categoryTree';
+import { normalizePricing, pricingFromPlan, isFreePricing } from '../src/utils/pricing';
+import { toPlainText } from '../src/utils/markdown';
+import { FirebaseCategory, Pricing } from '../types';
+
+/**
+ * 정적 페이지 생성에 필요한 도구 정보
+ */
+interface PrerenderTool {
+  name: string;
+  slug: string;
+  category: string;
+  tags: string[];
+  url: string;
+  description: string;
+  memo: string;
+  pricing: Pricing | null;
+  averageRating: number;
+  ratingCount: number;
+  updatedAt: string;
+}
+
+/**
+ * 페이지별 메타데이터
+ */
+interface PageMeta {
+  title: string;
+  description: string;
+  path: string;
+  type: 'website' | 'article';
+  jsonLd: object;
+  body: string;
+}
+
+const DIST_DIR = path.resolve('dist');
+const SEED_PATH = path.resolve('src/data/seed.json');
+const SITE_NAME = 'AI 테크 허브';
+
+// 옵션(--allow-seed)을 제외한 첫 번째 인자를 내보내기 파일 경로로 사용
+const fileArgs = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+
+// 내보내기 파일 경로 (scripts/export-firestore.ts 출력 또는 관리자 페이지에서 내보낸 tools.json)
+const exportPath = path.resolve(fileArgs[0] || process.env.PRERENDER_EXPORT || 'firestore-export.json');
+
+// 내보내기 파일이 없을 때 시드 데이터 사용 허용 여부 (배포 빌드에 시드 도구가 공개되지 않도록 명시적으로만 허용)
+const allowSeed = process.argv.includes('--allow-seed') || process.env.PRERENDER_ALLOW_SEED === 'true';
+
+/**
+ * 사이트 주소 결정 (sitemap과 canonical 링크는 절대 주소가 필요)
+ */
+const resolveSiteUrl = (): string => {
+  const configured = process.env.SITE_URL || process.env.VITE_SITE_URL;
+  if (configured) return configured.replace(/\/+$/, '');
+
+  // Vercel 빌드 환경에서 제공하는 프로덕션 도메인
+  if (process.env.VERCEL_PROJECT_PRODUCTION_URL) {
+    return `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`;
+  }
+
+  console.warn('⚠️ SITE_URL이 설정되지 않아 http://localhost:4173 을 사용합니다.');
+  return 'http://localhost:4173';
+};
+
+/**
+ * HTML 특수 문자 이스케이프
+ */
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * script 태그 안에 넣을 JSON 직렬화 (</script> 조기 종료 방지)
+ */
+const serializeJsonLd = (data: object): string =>
+  JSON.stringify(data).replace(/</g, '\\u003c');
+
+/**
+ * 메타 설명용 텍스트 (줄바꿈 제거, 160자 제한)
+ */
+const toMetaDescription = (text: string): string => {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > 160 ? `${singleLine.slice(0, 157)}...` : singleLine;
+};
+
+/**
+ * 내보내기 파일 또는 시드 데이터에서 도구 목록과 카테고리 읽기
+ * - { tools, categories } 형식(export-firestore)과 도구 배열 형식(관리자 내보내기)을 모두 지원
+ * - 슬러그가 없는 도구는 이름으로 만들되, 겹치면 번호를 붙임
+ * - 카테고리 계층은 parentId(내보내기 파일) 또는 상위 카테고리 이름 parent(시드 데이터)로 구성
+ * @returns 내보내기 파일이 없고 시드 데이터도 허용하지 않으면 null
+ */
+const loadData = async (): Promise<{ tools: PrerenderTool[]; categories: string[]; categoryItems: FirebaseCategory[] } | null> => {
+  let sourcePath = exportPath;
+  if (!existsSync(sourcePath)) {
+    if (!allowSeed) {
+      return null;
+    }
+    console.warn(`⚠️ 내보내기 파일(${exportPath})이 없어 로컬 시드 데이터로 페이지를 생성합니다.`);
+    sourcePath = SEED_PATH;
+  }
+
+  const raw = JSON.parse(await readFile(sourcePath, 'utf8'));
+  const rawTools: any[] = Array.isArray(raw) ? raw : raw.tools || [];
+  const rawCategories: any[] = Array.isArray(raw) ? [] : raw.categories || [];
+
+  const usedSlugs = new Set<string>();
+  const tools = rawTools
+    .filter(tool => tool && tool.name && tool.url)
+    .map<PrerenderTool>(tool => {
+      let slug = tool.slug || toSlug(tool.name);
+      for (let suffix = 2; usedSlugs.has(slug); suffix++) {
+        slug = `${tool.slug || toSlug(tool.name)}-${suffix}`;
+      }
+      usedSlugs.add(slug);
+
+      return {
+        name: tool.name,
+        slug,
+        category: tool.category || '',
+        tags: Array.isArray(tool.tags) ? tool.tags : [],
+        url: tool.url,
+        description: tool.description || '',
+        memo: tool.memo || '',
+        pricing: tool.pricing !== undefined ? normalizePricing(tool.pricing) : pricingFromPlan(tool.plan),
+        averageRating: tool.averageRating || 0,
+        ratingCount: tool.ratingCount || 0,
+        updatedAt: tool.updatedAt || new Date().toISOString()
+      };
+    });
+
+  // 카테고리 컬렉션에 없더라도 도구가 사용하는 카테고리는 포함
+  const categories = [...new Set([
+    ...rawCategories.map(category => category.name).filter(Boolean),
+    ...tools.map(tool => tool.category).filter(Boolean)
+  ])];
+
+  // 시드 데이터는 카테고리 ID가 없으므로 이름을 ID로 사용
+  const categoryItems = rawCategories
+    .filter(category => category && category.name)
+    .map<FirebaseCategory>((category, index) => ({
+      id: category.id || category.name,
+      name: category.name,
+      parentId: category.parentId || category.parent || null,
+      order: typeof category.order === 'number' ? category.order : index,
+      icon: category.icon || '',
+      description: category.description || '',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }));
+
+  return { tools, categories, categoryItems };
+};
+
+/**
+ * 도구 페이지 메타데이터 (SoftwareApplication JSON-LD 포함)
+ */
+const buildToolPage = (tool: PrerenderTool, siteUrl: string): PageMeta => {
+  const pagePath = toolDetailPath(tool.slug);
+  const description = toMetaDescription(toPlainText(tool.description) || `${tool.category} 도구 ${tool.name}`);
+
+  const jsonLd: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'SoftwareApplication',
+    name: tool.name,
+    description: toPlainText(tool.description),
+    url: tool.url,
+    applicationCategory: tool.category,
+    operatingSystem: 'Web',
+    mainEntityOfPage: `${siteUrl}${pagePath}`,
+    dateModified: tool.updatedAt
+  };
+  if (tool.tags.length > 0) {
+    jsonLd.keywords = tool.tags.join(', ');
+  }
+  if (isFreePricing(tool.pricing)) {
+    jsonLd.offers = { '@type': 'Offer', price: 0, priceCurrency: 'KRW' };
+  } else if (tool.pricing && tool.pricing.startingPrice !== null && tool.pricing.currency) {
+    jsonLd.offers = { '@type': 'Offer', price: tool.pricing.startingPrice, priceCurrency: tool.pricing.currency };
+  }
+  // 평가가 없는 도구에 aggregateRating을 넣으면 구조화 데이터 오류가 되므로 생략
+  if (tool.ratingCount > 0) {
+    jsonLd.aggregateRating = {
+      '@type': 'AggregateRating',
+      ratingValue: Number(tool.averageRating.toFixed(1)),
+      ratingCount: tool.ratingCount,
+      bestRating: 5,
+      worstRating: 0.5
+    };
+  }
+
+  const ratingText = tool.ratingCount > 0
+    ? `평균 ${tool.averageRating.toFixed(1)}점 (${tool.ratingCount}명 평가)`
+    : '아직 평가가 없습니다';
+
+  return {
+    title: `${tool.name} - ${SITE_NAME}`,
+    description,
+    path: pagePath,
+    type: 'article',
+    jsonLd,
+    body: `
+      <main>
+        <p><a href="${escapeHtml(categoryPagePath(tool.category))}">${escapeHtml(tool.category)}</a></p>
+        <h1>${escapeHtml(tool.name)}</h1>
+        <p>${escapeHtml(ratingText)}</p>
+        <p>${escapeHtml(toPlainText(tool.description))}</p>
+        ${tool.memo ? `<p>${escapeHtml(tool.memo)}</p>` : ''}
+        <p><a href="${escapeHtml(tool.url)}" rel="noopener">웹사이트 방문</a></p>
+      </main>`
+  };
+};
+
+/**
+ * 카테고리 페이지 메타데이터 (도구 목록 ItemList JSON-LD 포함)
+ * 상위 카테고리 페이지에는 하위 카테고리의 도구도 포함합니다.
+ */
+const buildCategoryPage = (
+  category: string,
+  tools: PrerenderTool[],
+  categoryItems: FirebaseCategory[],
+  siteUrl: string
+): PageMeta => {
+  const includedCategories = new Set(getCategoryNamesWithDescendants(categoryItems, category));
+  const categoryTools = tools.filter(tool => includedCategories.has(tool.category));
+
+  return {
+    title: `${category} 도구 모음 - ${SITE_NAME}`,
+    description: toMetaDescription(
+      `${category} 카테고리의 AI 도구 ${categoryTools.length}개: ${categoryTools.map(tool => tool.name).join(', ')}`
+    ),
+    path: categoryPagePath(category),
+    type: 'website',
+    jsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'ItemList',
+      name: `${category} 도구 모음`,
+      numberOfItems: categoryTools.length,
+      itemListElement: categoryTools.map((tool, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        name: tool.name,
+        url: `${siteUrl}${toolDetailPath(tool.slug)}`
+      }))
+    },
+    body: `
+      <main>
+        <h1>${escapeHtml(category)}</h1>
+        <ul>
+          ${categoryTools.map(tool => `<li><a href="${escapeHtml(toolDetailPath(tool.slug))}">${escapeHtml(tool.name)}</a> - ${escapeHtml(toPlainText(tool.description))}</li>`).join('\n          ')}
+        </ul>
+      </main>`
+  };
+};
+
+/**
+ * 빌드된 index.html에 페이지 메타데이터와 정적 본문 삽입
+ * 본문은 #root 안에 넣으므로 앱이 로드되면 React 렌더링으로 대체됩니다.
+ */
+const renderPage = (template: string, page: PageMeta, siteUrl: string): string => {
+  const canonicalUrl = `${siteUrl}${page.path}`;
+  const headTags = [
+    `<link rel="canonical" href="${escapeHtml(canonicalUrl)}">`,
+    `<meta property="og:type" content="${page.type}">`,
+    `<meta property="og:site_name" content="${SITE_NAME}">`,
+    `<meta property="og:title" content="${escapeHtml(page.title)}">`,
+    `<meta property="og:description" content="${escapeHtml(page.description)}">`,
+    `<meta property="og:url" content="${escapeHtml(canonicalUrl)}">`,
+    `<meta property="og:locale" content="ko_KR">`,
+    `<meta name="twitter:card" content="summary">`,
+    `<script type="application/ld+json">${serializeJsonLd(page.jsonLd)}</script>`
+  ].join('\n    ');
+
+  // 대체 문자열의 $&, $` 등이 도구 내용에서 해석되지 않도록 함수로 전달
+  return template
+    .replace(/<title>[\s\S]*?<\/title>/, () => `<title>${escapeHtml(page.title)}</title>`)
+    .replace(/<meta name="description" content="[^"]*">/, () => `<meta name="description" content="${escapeHtml(page.description)}">`)
+    .replace('</head>', () => `    ${headTags}\n</head>`)
+    .replace('<div id="root"></div>', () => `<div id="root">${page.body}\n    </div>`);
+};
+
+/**
+ * 페이지 경로를 dist 아래 디렉터리로 변환
+ * 디코딩한 경로 조각에 ., .., 경로 구분자가 있거나 dist 밖을 가리키면 null
+ */
+const resolvePageDirectory = (pagePath: string): string | null => {
+  const segments = pagePath.split('/').filter(Boolean).map(decodeURIComponent);
+  if (segments.some(segment => segment === '.' || segment === '..' || /[\\/\0]/.test(segment))) {
+    return null;
+  }
+
+  const directory = path.resolve(DIST_DIR, ...segments);
+  return directory.startsWith(`${DIST_DIR}${path.sep}`) ? directory : null;
+};
+
+/**
+ * dist 아래 경로에 index.html 저장 (/tools/chatgpt → dist/tools/chatgpt/index.html)
+ * @returns 안전하지 않은 경로라서 건너뛰었으면 false
+ */
+const writePage = async (pagePath: string, html: string): Promise<boolean> => {
+  const directory = resolvePageDirectory(pagePath);
+  if (!directory) {
+    console.warn(`⚠️ 안전하지 않은 경로라서 건너뜁니다: ${pagePath}`);
+    return false;
+  }
+
+  await mkdir(directory, { recursive: true });
+  await writeFile(path.join(directory, 'index.html'), html, 'utf8');
+  return true;
+};
+
+/**
+ * sitemap.xml 생성
+ */
+const buildSitemap = (siteUrl: string, entries: { path: string; lastmod?: string }[]): string => {
+  const urls = entries.map(entry => [
+    '  <url>',
+    `    <loc>${escapeHtml(`${siteUrl}${entry.path}`)}</loc>`,
+    entry.lastmod ? `    <lastmod>${entry.lastmod.slice(0, 10)}</lastmod>` : '',
+    '  </url>'
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * robots.txt 생성 (관리자 페이지는 색인 제외)
+ */
+const buildRobots = (siteUrl: string): string => [
+  'User-agent: *',
+  'Allow: /',
+  'Disallow: /admin',
+  '',
+  `Sitemap: ${siteUrl}/sitemap.xml`,
+  ''
+].join('\n');
+
+/**
+ * 정적 페이지, sitemap.xml, robots.txt 생성
+ */
+async function prerender() {
+  console.log('🚀 정적 페이지 생성을 시작합니다...');
+
+  try {
+    const templatePath = path.join(DIST_DIR, 'index.html');
+    if (!existsSync(templatePath)) {
+      throw new Error('dist/index.html이 없습니다. 먼저 vite build를 실행하세요.');
+    }
+
+    const template = await readFile(templatePath, 'utf8');
+    const siteUrl = resolveSiteUrl();
+    const data = await loadData();
+    if (!data) {
+      // 데이터 파일이 없다고 배포 빌드를 실패시키지 않고, dist는 일반 SPA로 둠
+      console.warn(`⚠️ 내보내기 파일(${exportPath})이 없어 정적 페이지 생성을 건너뜁니다.`);
+      console.warn('   npm run export-firestore를 먼저 실행하거나, 로컬 시드 데이터로 생성하려면 PRERENDER_ALLOW_SEED=true를 지정하세요.');
+      return;
+    }
+    const { tools, categories, categoryItems } = data;
+
+    // sitemap에는 실제로 생성한 페이지만 포함
+    const writtenTools: PrerenderTool[] = [];
+    for (const tool of tools) {
+      const page = buildToolPage(tool, siteUrl);
+      if (await writePage(page.path, renderPage(template, page, siteUrl))) {
+        writtenTools.push(tool);
+      }
+    }
+    console.log(`✅ 도구 페이지 ${writtenTools.length}개 생성`);
+
+    const writtenCategories: string[] = [];
+    for (const category of categories) {
+      const page = buildCategoryPage(category, tools, categoryItems, siteUrl);
+      if (await writePage(page.path, renderPage(template, page, siteUrl))) {
+        writtenCategories.push(category);
+      }
+    }
+    console.log(`✅ 카테고리 페이지 ${writtenCategories.length}개 생성`);
+
+    const latestUpdate = tools.reduce((latest, tool) => (tool.updatedAt > latest ? tool.updatedAt : latest), '');
+    const sitemap = buildSitemap(siteUrl, [
+      { path: '/', lastmod: latestUpdate || undefined },
+      ...writtenCategories.map(category => ({ path: categoryPagePath(category) })),
+      ...writtenTools.map(tool => ({ path: toolDetailPath(tool.slug), lastmod: tool.updatedAt }))
+    ]);
+    await writeFile(path.join(DIST_DIR, 'sitemap.xml'), sitemap, 'utf8');
+    await writeFile(path.join(DIST_DIR, 'robots.txt'), buildRobots(siteUrl), 'utf8');
+    console.log('✅ sitemap.xml, robots.txt 생성');
+  } catch (error) {
+    console.error('💥 정적 페이지 생성 중 오류 발생:', error);
+    process.exitCode = 1;
+  }
+}
+
+prerender();
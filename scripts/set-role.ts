@@ -0,0 +1,98 @@
+// 관리 역할 지정 스크립트
+// Firebase Auth 사용자에게 관리 역할(role 커스텀 클레임)을 지정하거나 해제하고, 역할이 있는 사용자 목록을 출력합니다.
+// 클레임은 클라이언트에서 바꿀 수 없으므로 firebase-admin(서비스 계정)을 사용하며, 관리자 사용자 목록 표시용으로 users 문서에도 역할을 기록합니다.
+// 사용법: GOOGLE_APPLICATION_CREDENTIALS=./service-account.json npm run set-role -- <이메일|UID> <admin|moderator|editor|none>
+//         npm run set-role -- --list
+import { config } from 'dotenv';
+import { initializeApp, applicationDefault } from 'firebase-admin/app';
+
+// 환경변수 로드
+config();
+import { getAuth, UserRecord } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { USER_ROLES, USER_ROLE_LABELS, getRoleFromClaims } from '../src/utils/roles';
+import { UserRole } from '../types';
+
+// Firebase Admin 초기화 (GOOGLE_APPLICATION_CREDENTIALS의 서비스 계정 사용)
+initializeApp({
+  credential: applicationDefault(),
+  projectId: process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID
+});
+const auth = getAuth();
+
+const USAGE = `사용법: npm run set-role -- <이메일|UID> <${USER_ROLES.join('|')}|none>\n        npm run set-role -- --list`;
+
+/**
+ * 이메일 또는 UID로 사용자 조회
+ */
+const findUser = (identifier: string): Promise<UserRecord> =>
+  identifier.includes('@') ? auth.getUserByEmail(identifier) : auth.getUser(identifier);
+
+/**
+ * 사용자 표시 문자열 (예: "hong@example.com (uid)")
+ */
+const describeUser = (user: UserRecord): string => `${user.email || user.displayName || '(이름 없음)'} (${user.uid})`;
+
+/**
+ * 역할이 있는 사용자 목록 출력
+ */
+async function listRoles() {
+  let pageToken: string | undefined;
+  let count = 0;
+
+  do {
+    const result = await auth.listUsers(1000, pageToken);
+    result.users.forEach(user => {
+      const role = getRoleFromClaims(user.customClaims || {});
+      if (role) {
+        console.log(`- ${USER_ROLE_LABELS[role]} (${role}): ${describeUser(user)}`);
+        count++;
+      }
+    });
+    pageToken = result.pageToken;
+  } while (pageToken);
+
+  console.log(`\n📊 역할이 있는 사용자: ${count}명`);
+}
+
+/**
+ * 사용자의 역할 지정 (none이면 해제)
+ * trusted 등 다른 클레임은 유지하고, 역할 도입 전의 admin 클레임은 role로 대체합니다.
+ */
+async function setRole(identifier: string, role: UserRole | null) {
+  const user = await findUser(identifier);
+  const { role: _previousRole, admin: _legacyAdmin, ...otherClaims } = user.customClaims || {};
+  const previousRole = getRoleFromClaims(user.customClaims || {});
+
+  await auth.setCustomUserClaims(user.uid, role ? { ...otherClaims, role } : otherClaims);
+  await getFirestore().collection('users').doc(user.uid).set({ role }, { merge: true });
+
+  console.log(`✅ ${describeUser(user)}: ${previousRole ? USER_ROLE_LABELS[previousRole] : '역할 없음'} → ${role ? USER_ROLE_LABELS[role] : '역할 없음'}`);
+  console.log('   사용자가 다시 로그인하거나 ID 토큰이 갱신된 뒤(최대 1시간) 적용됩니다.');
+}
+
+async function main() {
+  try {
+    const [identifier, roleArg] = process.argv.slice(2);
+
+    if (identifier === '--list') {
+      await listRoles();
+      return;
+    }
+
+    if (!identifier || !roleArg || (roleArg !== 'none' && !USER_ROLES.includes(roleArg as UserRole))) {
+      console.error(`❌ 인자가 올바르지 않습니다.\n${USAGE}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    await setRole(identifier, roleArg === 'none' ? null : roleArg as UserRole);
+  } catch (error) {
+    console.error('💥 관리 역할 지정 중 오류 발생:', error);
+    process.exitCode = 1;
+  } finally {
+    process.exit();
+  }
+}
+
+main();
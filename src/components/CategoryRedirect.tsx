@@ -0,0 +1,15 @@
+import React from 'react';
+import { Navigate, useParams } from 'react-router-dom';
+
+/**
+ * 카테고리 페이지(/categories/:category)를 카테고리 필터가 적용된 도구 목록으로 연결
+ * 카테고리 페이지는 검색 엔진용으로 빌드 시 정적 HTML로 생성되며, 앱에서는 목록 화면을 사용합니다.
+ */
+const CategoryRedirect: React.FC = () => {
+  const { category = '' } = useParams<{ category: string }>();
+  const search = category ? `?${new URLSearchParams({ category }).toString()}` : '';
+
+  return <Navigate to={`/${search}`} replace />;
+};
+
+export default CategoryRedirect;
@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CategoryNode, flattenCategoryTree } from '../utils/categoryTree';
+
+interface CategoryTreeFilterProps {
+  tree: CategoryNode[];
+  selectedCategory: string;
+  onSelect: (category: string) => void;
+}
+
+/**
+ * 계층 카테고리 필터 (펼치고 접을 수 있는 트리)
+ * 상위 카테고리를 선택하면 하위 카테고리의 도구도 함께 표시됩니다. (필터 적용은 useTools/App에서 처리)
+ */
+const CategoryTreeFilter: React.FC<CategoryTreeFilterProps> = ({ tree, selectedCategory, onSelect }) => {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  const nodes = useMemo(() => flattenCategoryTree(tree), [tree]);
+
+  // 선택된 카테고리가 보이도록 상위 카테고리를 펼침 (URL로 하위 카테고리가 선택된 경우 등)
+  useEffect(() => {
+    const byId = new Map(nodes.map(node => [node.category.id, node.category]));
+    let parentId = nodes.find(node => node.category.name === selectedCategory)?.category.parentId;
+    const ancestorIds: string[] = [];
+    while (parentId && byId.has(parentId) && !ancestorIds.includes(parentId)) {
+      ancestorIds.push(parentId);
+      parentId = byId.get(parentId)!.parentId;
+    }
+    if (ancestorIds.length > 0) {
+      setExpandedIds(prev => new Set([...prev, ...ancestorIds]));
+    }
+  }, [nodes, selectedCategory]);
+
+  /**
+   * 하위 카테고리 펼치기/접기
+   */
+  const toggleExpanded = (categoryId: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(categoryId)) {
+        next.delete(categoryId);
+      } else {
+        next.add(categoryId);
+      }
+      return next;
+    });
+  };
+
+  const buttonClassName = (isSelected: boolean) =>
+    `flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-full border border-slate-200 transition-colors duration-200 ${
+      isSelected ? 'bg-sky-500 text-white font-bold shadow-md' : 'text-slate-700 bg-white hover:bg-slate-100'
+    }`;
+
+  const renderNode = (node: CategoryNode): React.ReactNode => {
+    const { category, children } = node;
+    const hasChildren = children.length > 0;
+    const isExpanded = expandedIds.has(category.id);
+    const isSelected = selectedCategory === category.name;
+
+    return (
+      <li
+        key={category.id}
+        role="treeitem"
+        aria-expanded={hasChildren ? isExpanded : undefined}
+        aria-selected={isSelected}
+      >
+        <div className="flex items-center gap-1">
+          {hasChildren ? (
+            <button
+              type="button"
+              onClick={() => toggleExpanded(category.id)}
+              className="w-6 h-6 flex items-center justify-center text-slate-400 hover:text-slate-700 rounded"
+              aria-label={`${category.name} ${isExpanded ? '접기' : '펼치기'}`}
+            >
+              <svg
+                className={`w-4 h-4 transition-transform duration-200 ${isExpanded ? 'rotate-90' : ''}`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          ) : (
+            <span className="w-6" aria-hidden="true" />
+          )}
+          <button
+            type="button"
+            onClick={() => onSelect(category.name)}
+            className={buttonClassName(isSelected)}
+            title={category.description || undefined}
+          >
+            {category.icon && <span aria-hidden="true">{category.icon}</span>}
+            <span>{category.name}</span>
+            {hasChildren && (
+              <span className={`text-xs ${isSelected ? 'text-sky-100' : 'text-slate-400'}`}>
+                +{flattenCategoryTree(children).length}
+              </span>
+            )}
+          </button>
+        </div>
+        {hasChildren && isExpanded && (
+          <ul role="group" className="ml-6 mt-1 space-y-1">
+            {children.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <ul role="tree" aria-label="카테고리" className="w-full space-y-1 max-h-96 overflow-y-auto">
+      <li role="treeitem" aria-selected={selectedCategory === '전체'}>
+        <div className="flex items-center gap-1">
+          <span className="w-6" aria-hidden="true" />
+          <button
+            type="button"
+            onClick={() => onSelect('전체')}
+            className={buttonClassName(selectedCategory === '전체')}
+          >
+            전체
+          </button>
+        </div>
+      </li>
+      {tree.map(renderNode)}
+    </ul>
+  );
+};
+
+export default CategoryTreeFilter;
@@ -0,0 +1,651 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { CommentReportReason, FirebaseComment } from '../../types';
+import { useComments } from '../hooks/useComments';
+import { useAuthContext } from '../contexts/AuthContext';
+import MarkdownContent, { MarkdownPreview } from './MarkdownContent';
+import {
+  COMMENT_REPORT_DETAIL_MAX_LENGTH,
+  COMMENT_REPORT_REASONS,
+  COMMENT_REPORT_REASON_LABELS,
+  isCommentHidden
+} from '../utils/commentModeration';
+
+interface CommentSectionProps {
+  toolId: string;
+  onSuccess?: (message: string) => void;
+  onError?: (message: string) => void;
+  autoFocus?: boolean; // 마운트 시 댓글 입력창에 포커스
+}
+
+/**
+ * 답글 입력을 위한 컴포넌트
+ * 포커스 관리 및 상태 격리를 통해 입력 시 포커스 유지
+ */
+interface ReplyInputProps {
+  parentId: string;
+  onCancel: () => void;
+  onSubmit: (parentId: string, content: string) => Promise<void>;
+  isSubmitting: boolean;
+}
+
+const ReplyInput: React.FC<ReplyInputProps> = ({ parentId, onCancel, onSubmit, isSubmitting }) => {
+  // 컴포넌트 내부에서 상태 관리
+  const [replyText, setReplyText] = useState('');
+  // textarea 요소에 대한 참조 생성
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  
+  // 컴포넌트가 마운트되면 자동으로 포커스 설정
+  useEffect(() => {
+    if (inputRef.current) {
+      inputRef.current.focus();
+    }
+  }, []);
+  
+  // 입력 처리
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setReplyText(e.target.value);
+  };
+  
+  // 제출 처리
+  const handleSubmit = async () => {
+    if (!replyText.trim() || isSubmitting) return;
+    await onSubmit(parentId, replyText.trim());
+    setReplyText('');
+  };
+  
+  return (
+    <div className="ml-4 mb-3">
+      <textarea
+        ref={inputRef}
+        rows={2}
+        value={replyText}
+        onChange={handleChange}
+        placeholder="답글을 작성해주세요..."
+        className="w-full p-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 resize-y"
+        maxLength={1000}
+      />
+      <MarkdownPreview text={replyText} className="mt-1" />
+      <div className="flex items-center justify-between mt-2">
+        <span className="text-xs text-slate-500">{replyText.length}/1000</span>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="px-2 py-1 text-xs text-slate-600 hover:text-slate-800"
+          >
+            취소
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!replyText.trim() || isSubmitting}
+            className="px-3 py-1 bg-sky-500 text-white text-xs rounded-md hover:bg-sky-600 disabled:bg-slate-300 disabled:cursor-not-allowed"
+          >
+            답글 작성
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * 댓글 신고 사유 입력 컴포넌트
+ */
+interface ReportFormProps {
+  commentId: string;
+  onCancel: () => void;
+  onSubmit: (commentId: string, reason: CommentReportReason, detail: string) => Promise<void>;
+  isSubmitting: boolean;
+}
+
+const ReportForm: React.FC<ReportFormProps> = ({ commentId, onCancel, onSubmit, isSubmitting }) => {
+  const [reason, setReason] = useState<CommentReportReason>('spam');
+  const [detail, setDetail] = useState('');
+
+  // 제출 처리 (기타 사유는 추가 설명 필수)
+  const canSubmit = !isSubmitting && (reason !== 'other' || detail.trim().length > 0);
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    await onSubmit(commentId, reason, detail.trim());
+  };
+
+  return (
+    <div className="mb-3 p-3 border border-red-200 bg-red-50 rounded-lg space-y-2">
+      <div className="flex flex-wrap gap-3">
+        {COMMENT_REPORT_REASONS.map(item => (
+          <label key={item} className="flex items-center gap-1 text-xs text-slate-700">
+            <input
+              type="radio"
+              name={`report-reason-${commentId}`}
+              value={item}
+              checked={reason === item}
+              onChange={() => setReason(item)}
+              className="h-3 w-3 text-red-600 border-slate-300"
+            />
+            {COMMENT_REPORT_REASON_LABELS[item]}
+          </label>
+        ))}
+      </div>
+      <input
+        type="text"
+        value={detail}
+        onChange={(e) => setDetail(e.target.value)}
+        placeholder={reason === 'other' ? '신고 사유를 입력해주세요' : '추가 설명 (선택)'}
+        className="w-full p-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-red-400 focus:border-red-400"
+        maxLength={COMMENT_REPORT_DETAIL_MAX_LENGTH}
+      />
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-500">{detail.length}/{COMMENT_REPORT_DETAIL_MAX_LENGTH}</span>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="px-2 py-1 text-xs text-slate-600 hover:text-slate-800"
+          >
+            취소
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className="px-3 py-1 bg-red-500 text-white text-xs rounded-md hover:bg-red-600 disabled:bg-slate-300 disabled:cursor-not-allowed"
+          >
+            신고하기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * 댓글 작성 및 댓글/답글 스레드 목록 컴포넌트
+ * 리뷰 모달과 도구 상세 페이지에서 함께 사용합니다.
+ */
+const CommentSection: React.FC<CommentSectionProps> = ({ toolId, onSuccess, onError, autoFocus = false }) => {
+  const { isAuthenticated, user } = useAuthContext();
+  const [commentText, setCommentText] = useState('');
+  const [isSubmittingComment, setIsSubmittingComment] = useState(false);
+  const [showComments, setShowComments] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingComment, setEditingComment] = useState<string | null>(null);
+  const [reportingTo, setReportingTo] = useState<string | null>(null);
+  // 이번 세션에서 신고한 댓글 ID (신고 버튼 대신 '신고됨' 표시)
+  const [reportedIds, setReportedIds] = useState<string[]>([]);
+  
+  // contentEditable 요소에 대한 참조
+  const editableRef = useRef<HTMLDivElement>(null);
+  // 댓글 입력 필드에 대한 참조
+  const commentInputRef = useRef<HTMLTextAreaElement>(null);
+
+  // 댓글 입력 변경 핸들러
+  const handleCommentChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setCommentText(e.target.value);
+  }, []);
+
+  // 댓글 데이터 (저장소에서 실시간 조회)
+  const {
+    data: comments,
+    parentComments,
+    getReplies,
+    addComment,
+    updateComment,
+    deleteComment,
+    reportComment,
+    commentCount,
+    isLoading: commentsLoading,
+    error: commentsError
+  } = useComments(toolId);
+
+  /**
+   * 댓글 제출 핸들러
+   */
+  const handleCommentSubmit = useCallback(async () => {
+    if (!user || !commentText.trim()) return;
+
+    setIsSubmittingComment(true);
+    try {
+      await addComment(
+        { toolId: toolId, content: commentText.trim() },
+        user.uid,
+        user.displayName || '익명',
+        user.photoURL
+      );
+      setCommentText('');
+      onSuccess?.('댓글이 성공적으로 작성되었습니다.');
+    } catch (error: any) {
+      console.error('댓글 작성 실패:', error);
+      const errorMsg = error.message || '댓글 작성 중 오류가 발생했습니다.';
+      onError?.(errorMsg);
+    } finally {
+      setIsSubmittingComment(false);
+    }
+  }, [user, commentText, toolId, addComment, onSuccess, onError]);
+
+  /**
+   * 답글 제출 핸들러
+   */
+  const handleReplySubmit = useCallback(async (parentId: string, content: string) => {
+    if (!user || !content.trim()) return;
+
+    setIsSubmittingComment(true);
+    try {
+      await addComment(
+        { toolId: toolId, content: content.trim(), parentId },
+        user.uid,
+        user.displayName || '익명',
+        user.photoURL
+      );
+      setReplyingTo(null);
+      onSuccess?.('답글이 성공적으로 작성되었습니다.');
+    } catch (error: any) {
+      console.error('답글 작성 실패:', error);
+      const errorMsg = error.message || '답글 작성 중 오류가 발생했습니다.';
+      onError?.(errorMsg);
+    } finally {
+      setIsSubmittingComment(false);
+    }
+  }, [user, toolId, addComment, onSuccess, onError]);
+
+  /**
+   * 댓글 수정 핸들러
+   */
+  const handleCommentEdit = useCallback(async (commentId: string) => {
+    // contentEditable div에서 내용 가져오기
+    const content = editableRef.current?.innerText.trim() || '';
+    
+    if (!content) return;
+
+    setIsSubmittingComment(true);
+    try {
+      await updateComment(commentId, content);
+      setEditingComment(null);
+      onSuccess?.('댓글이 성공적으로 수정되었습니다.');
+    } catch (error: any) {
+      console.error('댓글 수정 실패:', error);
+      const errorMsg = error.message || '댓글 수정 중 오류가 발생했습니다.';
+      onError?.(errorMsg);
+    } finally {
+      setIsSubmittingComment(false);
+    }
+  }, [updateComment, onError, onSuccess]);
+
+  /**
+   * 댓글 수정 취소
+   */
+  const cancelEditComment = useCallback(() => {
+    setEditingComment(null);
+  }, []);
+
+  /**
+   * 댓글 삭제 핸들러
+   */
+  const handleCommentDelete = useCallback(async (commentId: string) => {
+    if (!confirm('댓글을 삭제하시겠습니까?')) return;
+
+    setIsSubmittingComment(true);
+    try {
+      await deleteComment(commentId);
+      onSuccess?.('댓글이 성공적으로 삭제되었습니다.');
+    } catch (error: any) {
+      console.error('댓글 삭제 실패:', error);
+      const errorMsg = error.message || '댓글 삭제 중 오류가 발생했습니다.';
+      onError?.(errorMsg);
+    } finally {
+      setIsSubmittingComment(false);
+    }
+  }, [deleteComment, onError, onSuccess]);
+
+  /**
+   * 댓글 신고 핸들러
+   */
+  const handleReportSubmit = useCallback(async (commentId: string, reason: CommentReportReason, detail: string) => {
+    const comment = comments.find(item => item.id === commentId);
+    if (!user || !comment) return;
+
+    setIsSubmittingComment(true);
+    try {
+      await reportComment(comment, user.uid, reason, detail);
+      setReportedIds(prev => [...prev, commentId]);
+      setReportingTo(null);
+      onSuccess?.('신고가 접수되었습니다. 검토 후 조치하겠습니다.');
+    } catch (error: any) {
+      console.error('댓글 신고 실패:', error);
+      const errorMsg = error.message || '댓글 신고 중 오류가 발생했습니다.';
+      // 이미 신고한 댓글은 다시 신고할 수 없으므로 신고됨으로 표시
+      if (errorMsg.includes('이미 신고한')) {
+        setReportedIds(prev => [...prev, commentId]);
+        setReportingTo(null);
+      }
+      onError?.(errorMsg);
+    } finally {
+      setIsSubmittingComment(false);
+    }
+  }, [user, comments, reportComment, onSuccess, onError]);
+
+  /**
+   * 댓글 수정 시작
+   */
+  const startEditComment = useCallback((comment: FirebaseComment) => {
+    setEditingComment(comment.id);
+    
+    // 다음 렌더링 주기에서 contentEditable에 포커스 설정
+    setTimeout(() => {
+      if (editableRef.current) {
+        // 내용 설정
+        editableRef.current.innerText = comment.content;
+        
+        // 포커스 설정
+        editableRef.current.focus();
+        
+        // 커서를 맨 뒤로 이동
+        const selection = window.getSelection();
+        const range = document.createRange();
+        
+        if (selection && editableRef.current.childNodes.length > 0) {
+          const lastNode = editableRef.current.childNodes[editableRef.current.childNodes.length - 1];
+          const lastNodeLength = lastNode.textContent?.length || 0;
+          
+          range.setStart(lastNode, lastNodeLength);
+          range.collapse(true);
+          
+          selection.removeAllRanges();
+          selection.addRange(range);
+        }
+      }
+    }, 0);
+  }, []);
+
+  /**
+   * 댓글 컴포넌트
+   */
+  const CommentItem: React.FC<{ comment: FirebaseComment; isReply?: boolean }> = React.memo(({ comment, isReply = false }) => {
+    const replies = getReplies(comment.id);
+    const isEditing = editingComment === comment.id;
+    const isAuthor = !!user && user.uid === comment.userId;
+    // 숨긴 댓글은 작성자 본인에게만 내용을 보여줌
+    const isHidden = isCommentHidden(comment);
+    const isMasked = isHidden && !isAuthor;
+    
+    // 수정 중인 댓글의 내용 길이 추적
+    const [editLength, setEditLength] = useState(comment.content.length);
+    
+    // 내용 변경 감지
+    const handleContentChange = useCallback(() => {
+      if (editableRef.current) {
+        setEditLength(editableRef.current.innerText.length);
+      }
+    }, []);
+    
+    // 답글 버튼 클릭 핸들러
+    const handleReplyClick = useCallback(() => {
+      setReplyingTo(replyingTo === comment.id ? null : comment.id);
+    }, [comment.id, replyingTo]);
+    
+    // 답글 취소 핸들러
+    const handleReplyCancel = useCallback(() => {
+      setReplyingTo(null);
+    }, []);
+
+    // 신고 버튼 클릭 핸들러
+    const handleReportClick = useCallback(() => {
+      setReportingTo(reportingTo === comment.id ? null : comment.id);
+    }, [comment.id, reportingTo]);
+
+    // 신고 취소 핸들러
+    const handleReportCancel = useCallback(() => {
+      setReportingTo(null);
+    }, []);
+
+    if (isMasked) {
+      return (
+        <div className={`${isReply ? 'ml-8 border-l-2 border-slate-200 pl-4' : ''}`}>
+          <div className="bg-slate-50 rounded-lg p-3 mb-2">
+            <p className="text-sm text-slate-400 italic">
+              {comment.moderationStatus === 'autoHidden' ? '신고가 누적되어 숨겨진 댓글입니다.' : '관리자가 숨긴 댓글입니다.'}
+            </p>
+          </div>
+
+          {/* 답글은 각각 검토되므로 그대로 표시 */}
+          {replies.length > 0 && (
+            <div className="space-y-2">
+              {replies.map((reply) => (
+                <CommentItem key={reply.id} comment={reply} isReply={true} />
+              ))}
+            </div>
+          )}
+        </div>
+      );
+    }
+    
+    return (
+      <div className={`${isReply ? 'ml-8 border-l-2 border-slate-200 pl-4' : ''}`}>
+        <div className="bg-slate-50 rounded-lg p-3 mb-2">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2">
+              {comment.userPhotoURL && (
+                <img 
+                  src={comment.userPhotoURL} 
+                  alt={comment.userName}
+                  className="w-6 h-6 rounded-full"
+                />
+              )}
+              <span className="font-medium text-sm text-slate-700">{comment.userName}</span>
+              <span className="text-xs text-slate-500">
+                {comment.createdAt.toLocaleDateString()}
+              </span>
+            </div>
+            {/* 작성자 본인만 수정/삭제 가능, 다른 로그인 사용자는 신고 가능 */}
+            {user && !isAuthor && (
+              reportedIds.includes(comment.id) ? (
+                <span className="text-xs text-slate-400">신고됨</span>
+              ) : (
+                <button
+                  onClick={handleReportClick}
+                  className="text-xs text-slate-400 hover:text-red-600"
+                >
+                  신고
+                </button>
+              )
+            )}
+            {isAuthor && (
+              <div className="flex gap-1">
+                <button
+                  onClick={() => startEditComment(comment)}
+                  className="text-xs text-slate-500 hover:text-slate-700"
+                >
+                  수정
+                </button>
+                <button
+                  onClick={() => handleCommentDelete(comment.id)}
+                  className="text-xs text-red-500 hover:text-red-700"
+                >
+                  삭제
+                </button>
+              </div>
+            )}
+          </div>
+          
+          {/* 댓글 내용 또는 수정 폼 */}
+          {isEditing ? (
+            <div className="space-y-2">
+              <div
+                ref={editableRef}
+                contentEditable
+                onInput={handleContentChange}
+                className="w-full p-2 text-sm border border-slate-300 rounded-lg min-h-[4rem] focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}
+              />
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-slate-500">{editLength}/1000</span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={cancelEditComment}
+                    className="px-2 py-1 text-xs text-slate-600 hover:text-slate-800"
+                  >
+                    취소
+                  </button>
+                  <button
+                    onClick={() => handleCommentEdit(comment.id)}
+                    disabled={isSubmittingComment}
+                    className="px-3 py-1 bg-sky-500 text-white text-xs rounded-md hover:bg-sky-600 disabled:bg-slate-300 disabled:cursor-not-allowed"
+                  >
+                    수정 완료
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <>
+              <MarkdownContent text={comment.content} className="text-sm text-slate-800 mb-2" />
+              {isHidden && (
+                <p className="text-xs text-amber-700 mb-2">
+                  {comment.moderationStatus === 'autoHidden'
+                    ? '신고가 누적되어 다른 사용자에게 숨겨진 댓글입니다. 관리자 검토 후 다시 표시될 수 있습니다.'
+                    : '관리자가 숨긴 댓글입니다. 다른 사용자에게는 표시되지 않습니다.'}
+                </p>
+              )}
+              {!isReply && (
+                <button
+                  onClick={handleReplyClick}
+                  className="text-xs text-sky-600 hover:text-sky-800"
+                >
+                  답글
+                </button>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* 신고 사유 입력 */}
+        {reportingTo === comment.id && (
+          <ReportForm
+            commentId={comment.id}
+            onCancel={handleReportCancel}
+            onSubmit={handleReportSubmit}
+            isSubmitting={isSubmittingComment}
+          />
+        )}
+
+        {/* 답글 입력 */}
+        {replyingTo === comment.id && (
+          <ReplyInput
+            parentId={comment.id}
+            onCancel={handleReplyCancel}
+            onSubmit={handleReplySubmit}
+            isSubmitting={isSubmittingComment}
+          />
+        )}
+
+        {/* 답글 목록 */}
+        {replies.length > 0 && (
+          <div className="space-y-2">
+            {replies.map((reply) => (
+              <CommentItem key={reply.id} comment={reply} isReply={true} />
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }, (prevProps, nextProps) => {
+    // comment의 내용이나 편집 상태, 답글 상태가 변경되지 않았으면 리렌더링하지 않음
+    const prevReplying = replyingTo === prevProps.comment.id;
+    const nextReplying = replyingTo === nextProps.comment.id;
+    const prevEditing = editingComment === prevProps.comment.id;
+    const nextEditing = editingComment === nextProps.comment.id;
+    const prevReporting = reportingTo === prevProps.comment.id;
+    const nextReporting = reportingTo === nextProps.comment.id;
+    
+    return (
+      prevProps.comment.id === nextProps.comment.id &&
+      prevProps.comment.content === nextProps.comment.content &&
+      prevProps.comment.moderationStatus === nextProps.comment.moderationStatus &&
+      prevProps.comment.updatedAt.getTime() === nextProps.comment.updatedAt.getTime() &&
+      prevProps.isReply === nextProps.isReply &&
+      prevReplying === nextReplying &&
+      prevEditing === nextEditing &&
+      prevReporting === nextReporting
+    );
+  });
+
+  // 댓글 입력 필드에 포커스 설정
+  useEffect(() => {
+    if (autoFocus && isAuthenticated && commentInputRef.current) {
+      // 약간의 지연을 주어 DOM이 완전히 렌더링된 후 포커스 설정
+      setTimeout(() => {
+        commentInputRef.current?.focus();
+      }, 100);
+    }
+  }, [autoFocus, isAuthenticated]);
+
+  return (
+    <>
+      {/* 댓글 작성 */}
+      {isAuthenticated && (
+        <div className="space-y-3">
+          <h3 className="font-semibold text-slate-900">댓글 작성</h3>
+          <textarea
+            ref={commentInputRef}
+            rows={3}
+            value={commentText}
+            onChange={handleCommentChange}
+            placeholder="이 도구에 대한 의견을 남겨주세요..."
+            className="w-full p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 resize-y"
+            maxLength={1000}
+          />
+          <MarkdownPreview text={commentText} />
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-500">{commentText.length}/1000</span>
+            <button
+              onClick={handleCommentSubmit}
+              disabled={!commentText.trim() || isSubmittingComment}
+              className="px-4 py-2 bg-sky-500 text-white font-medium rounded-lg hover:bg-sky-600 disabled:bg-slate-300 disabled:cursor-not-allowed"
+            >
+              {isSubmittingComment ? '작성 중...' : '댓글 작성'}
+            </button>
+          </div>
+          {commentsError && (
+            <p className="text-red-500 text-sm">{commentsError}</p>
+          )}
+        </div>
+      )}
+
+      {/* 댓글 목록 */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-slate-900">
+            댓글 ({commentCount})
+          </h3>
+          <button
+            onClick={() => setShowComments(!showComments)}
+            className="text-sm text-sky-600 hover:text-sky-800"
+          >
+            {showComments ? '접기' : '펼치기'}
+          </button>
+        </div>
+
+        {showComments && (
+          <div className="space-y-3">
+            {commentsLoading ? (
+              <div className="text-center py-4">
+                <p className="text-slate-500">댓글을 불러오는 중...</p>
+              </div>
+            ) : parentComments.length > 0 ? (
+              parentComments.map((comment) => (
+                <CommentItem key={comment.id} comment={comment} />
+              ))
+            ) : (
+              <div className="text-center py-8">
+                <p className="text-slate-500">아직 댓글이 없습니다.</p>
+                {isAuthenticated && (
+                  <p className="text-sm text-slate-400 mt-1">
+                    첫 번째 댓글을 작성해보세요!
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default CommentSection;
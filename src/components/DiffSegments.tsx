@@ -0,0 +1,27 @@
+import React from 'react';
+import { TextDiffSegment } from '../utils/toolDiff';
+
+interface DiffSegmentsProps {
+  segments: TextDiffSegment[];
+  changedClassName: string;
+}
+
+/**
+ * 단어 단위 비교 결과 표시 (바뀐 부분 강조)
+ */
+const DiffSegments: React.FC<DiffSegmentsProps> = ({ segments, changedClassName }) => {
+  if (segments.length === 0) {
+    return <span className="text-slate-400">(비어 있음)</span>;
+  }
+  return (
+    <>
+      {segments.map((segment, index) => (
+        <span key={index} className={segment.changed ? changedClassName : undefined}>
+          {segment.text}
+        </span>
+      ))}
+    </>
+  );
+};
+
+export default DiffSegments;
@@ -0,0 +1,275 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FirebaseEditSuggestion, FirebaseTool, ToolField } from '../../types';
+import { getRepository } from '../repositories';
+import {
+  TOOL_FIELD_LABELS,
+  MAX_SUGGESTION_MESSAGE_LENGTH,
+  diffText,
+  formatToolFieldValue,
+  getChangedFields,
+  isSameFieldValue,
+  toToolInput
+} from '../utils/toolDiff';
+import DiffSegments from './DiffSegments';
+
+interface EditSuggestionReviewProps {
+  suggestion: FirebaseEditSuggestion;
+  onAccept: (fields: ToolField[]) => Promise<void>;
+  onReject: (note: string) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * 수정 제안 검토 모달
+ * 필드별로 현재 값과 제안 값을 나란히 비교하고, 선택한 필드만 반영하거나 메모와 함께 거부합니다.
+ * 제안 이후 도구가 바뀐 필드는 경고를 표시하며 기본 선택에서 제외합니다.
+ */
+const EditSuggestionReview: React.FC<EditSuggestionReviewProps> = ({ suggestion, onAccept, onReject, onClose }) => {
+  const [tool, setTool] = useState<FirebaseTool | null>(null);
+  const [isToolLoaded, setIsToolLoaded] = useState(false);
+  const [selectedFields, setSelectedFields] = useState<ToolField[]>([]);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [reviewNote, setReviewNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fields = useMemo(() => getChangedFields(suggestion.changes), [suggestion.changes]);
+  const isPending = suggestion.status === 'pending';
+
+  // 비교 기준이 되는 현재 도구 구독
+  useEffect(() => {
+    const unsubscribe = getRepository().tools.subscribeOne(
+      suggestion.toolId,
+      (item) => {
+        setTool(item);
+        setIsToolLoaded(true);
+      },
+      (error) => {
+        console.error('❌ 제안 대상 도구 조회 실패:', error);
+        setIsToolLoaded(true);
+      }
+    );
+    return () => unsubscribe();
+  }, [suggestion.toolId]);
+
+  const current = useMemo(() => (tool ? toToolInput(tool) : null), [tool]);
+
+  /**
+   * 제안 이후 현재 값이 바뀐 필드인지 확인
+   */
+  const isStale = (field: ToolField): boolean => {
+    const change = suggestion.changes[field];
+    return !!current && !!change && !isSameFieldValue(field, current[field], change.before);
+  };
+
+  // 도구를 처음 불러오면 최신 값 기준으로 바뀌지 않은 필드를 기본 선택
+  useEffect(() => {
+    if (!isToolLoaded) return;
+    setSelectedFields(fields.filter(field => !isStale(field)));
+  }, [isToolLoaded, fields]);
+
+  const toggleField = (field: ToolField) => {
+    setSelectedFields(prev =>
+      prev.includes(field) ? prev.filter(item => item !== field) : fields.filter(item => item === field || prev.includes(item))
+    );
+  };
+
+  /**
+   * 반영 핸들러 (전체 또는 선택한 필드)
+   */
+  const handleAccept = async (acceptFields: ToolField[]) => {
+    if (acceptFields.length === 0) return;
+    setIsSubmitting(true);
+    try {
+      await onAccept(acceptFields);
+      onClose();
+    } catch {
+      // 에러 메시지는 호출한 쪽에서 표시
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * 거부 핸들러
+   */
+  const handleReject = async () => {
+    setIsSubmitting(true);
+    try {
+      await onReject(reviewNote);
+      onClose();
+    } catch {
+      // 에러 메시지는 호출한 쪽에서 표시
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* 헤더 */}
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-xl font-bold text-slate-900">수정 제안 검토</h2>
+              <p className="mt-1 text-sm text-slate-500">
+                {suggestion.toolName} · {suggestion.userName} · {suggestion.createdAt.toLocaleString('ko-KR')}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="text-slate-400 hover:text-slate-600 transition-colors duration-200 disabled:opacity-50"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {suggestion.message && (
+            <p className="mb-4 text-sm text-slate-700 bg-slate-50 p-3 rounded-lg whitespace-pre-wrap">
+              💬 {suggestion.message}
+            </p>
+          )}
+
+          {isToolLoaded && !tool && (
+            <p className="mb-4 text-sm text-red-700 bg-red-50 p-3 rounded-lg">
+              제안 대상 도구가 삭제되어 반영할 수 없습니다.
+            </p>
+          )}
+
+          {/* 필드별 비교 */}
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm border border-slate-200">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  {isPending && <th className="w-10 px-3 py-2" />}
+                  <th className="px-3 py-2 text-left font-medium w-24">필드</th>
+                  <th className="px-3 py-2 text-left font-medium">{isPending ? '현재 값' : '이전 값'}</th>
+                  <th className="px-3 py-2 text-left font-medium">제안 값</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {fields.map(field => {
+                  const change = suggestion.changes[field];
+                  // 검토가 끝난 제안은 제안 당시 값과 비교
+                  const before = formatToolFieldValue(field, isPending && current ? current[field] : change?.before);
+                  const after = formatToolFieldValue(field, change?.after);
+                  const diff = diffText(before, after);
+                  const isApplied = suggestion.appliedFields.includes(field);
+                  return (
+                    <tr key={field} className="align-top">
+                      {isPending && (
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            checked={selectedFields.includes(field)}
+                            onChange={() => toggleField(field)}
+                            disabled={isSubmitting || !tool}
+                            aria-label={`${TOOL_FIELD_LABELS[field]} 반영`}
+                            className="h-4 w-4 text-indigo-600 border-slate-300 rounded"
+                          />
+                        </td>
+                      )}
+                      <td className="px-3 py-2 font-medium text-slate-700">
+                        {TOOL_FIELD_LABELS[field]}
+                        {!isPending && isApplied && <span className="block text-xs text-green-700">반영됨</span>}
+                      </td>
+                      <td className="px-3 py-2 text-slate-700 break-all whitespace-pre-wrap">
+                        <DiffSegments segments={diff.before} changedClassName="bg-red-100 text-red-800 line-through" />
+                        {isPending && isStale(field) && (
+                          <p className="mt-1 text-xs text-amber-700">
+                            ⚠️ 제안 이후 값이 바뀌었습니다. 제안 당시 값: {formatToolFieldValue(field, change?.before) || '(비어 있음)'}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-slate-700 break-all whitespace-pre-wrap">
+                        <DiffSegments segments={diff.after} changedClassName="bg-green-100 text-green-800" />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {!isPending && suggestion.reviewNote && (
+            <p className="mt-4 text-sm text-red-700">거부 사유: {suggestion.reviewNote}</p>
+          )}
+
+          {/* 거부 메모 입력 */}
+          {isPending && isRejecting && (
+            <div className="mt-4">
+              <textarea
+                value={reviewNote}
+                onChange={(e) => setReviewNote(e.target.value)}
+                maxLength={MAX_SUGGESTION_MESSAGE_LENGTH}
+                rows={2}
+                autoFocus
+                placeholder="거부 사유 (제안한 사용자에게 표시됩니다, 선택사항)"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500 resize-none"
+                disabled={isSubmitting}
+              />
+            </div>
+          )}
+
+          {/* 버튼 영역 */}
+          {isPending && (
+            <div className="mt-4 flex flex-wrap justify-end gap-2 text-sm">
+              {isRejecting ? (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => setIsRejecting(false)}
+                    disabled={isSubmitting}
+                    className="px-4 py-2 text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 disabled:opacity-50"
+                  >
+                    취소
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleReject}
+                    disabled={isSubmitting}
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                  >
+                    거부하기
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => setIsRejecting(true)}
+                    disabled={isSubmitting}
+                    className="px-4 py-2 text-red-600 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 disabled:opacity-50"
+                  >
+                    거부
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleAccept(selectedFields)}
+                    disabled={isSubmitting || !tool || selectedFields.length === 0 || selectedFields.length === fields.length}
+                    className="px-4 py-2 text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-lg hover:bg-indigo-100 disabled:opacity-50"
+                  >
+                    선택 반영 ({selectedFields.length}/{fields.length})
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleAccept(fields)}
+                    disabled={isSubmitting || !tool}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    전체 반영
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditSuggestionReview;
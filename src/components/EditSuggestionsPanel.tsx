@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { EditSuggestionStatus, FirebaseEditSuggestion, ToolField } from '../../types';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useEditSuggestions } from '../hooks/useEditSuggestions';
+import { EDIT_SUGGESTION_STATUS_LABELS, formatFieldLabels, getChangedFields } from '../utils/toolDiff';
+import EditSuggestionReview from './EditSuggestionReview';
+
+interface EditSuggestionsPanelProps {
+  onSuccess?: (message: string) => void;
+  onError?: (message: string) => void;
+}
+
+// 제안 상태별 배지 색상
+const STATUS_CLASSES: Record<EditSuggestionStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+};
+
+/**
+ * 수정 제안 패널
+ * 내 도구에 들어온 검토 대기 제안과 내가 보낸 제안의 처리 결과를 보여 주며, 둘 다 없으면 표시하지 않습니다.
+ */
+const EditSuggestionsPanel: React.FC<EditSuggestionsPanelProps> = ({ onSuccess, onError }) => {
+  const { user } = useAuthContext();
+  const userId = user?.uid;
+  const received = useEditSuggestions(userId ? { toolOwnerId: userId, status: 'pending' } : null);
+  const sent = useEditSuggestions(userId ? { userId } : null);
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [reviewing, setReviewing] = useState<FirebaseEditSuggestion | null>(null);
+  const [busySuggestionId, setBusySuggestionId] = useState<string | null>(null);
+
+  if (!userId || (received.data.length === 0 && sent.data.length === 0)) return null;
+
+  /**
+   * 제안 반영 핸들러
+   */
+  const handleAccept = async (suggestion: FirebaseEditSuggestion, fields: ToolField[]) => {
+    try {
+      await received.acceptSuggestion(suggestion, fields, userId);
+      onSuccess?.(`"${suggestion.toolName}" 수정 제안을 반영했습니다.`);
+    } catch (error: any) {
+      onError?.(error.message);
+      throw error;
+    }
+  };
+
+  /**
+   * 제안 거부 핸들러
+   */
+  const handleReject = async (suggestion: FirebaseEditSuggestion, note: string) => {
+    try {
+      await received.rejectSuggestion(suggestion.id, userId, note);
+      onSuccess?.(`"${suggestion.toolName}" 수정 제안을 거부했습니다.`);
+    } catch (error: any) {
+      onError?.(error.message);
+      throw error;
+    }
+  };
+
+  /**
+   * 보낸 제안 취소(삭제) 핸들러
+   */
+  const handleWithdraw = async (suggestion: FirebaseEditSuggestion) => {
+    const message = suggestion.status === 'pending'
+      ? `"${suggestion.toolName}" 수정 제안을 취소하시겠습니까?`
+      : `"${suggestion.toolName}" 수정 제안을 목록에서 삭제하시겠습니까?`;
+    if (!window.confirm(message)) return;
+
+    setBusySuggestionId(suggestion.id);
+    try {
+      await sent.removeSuggestion(suggestion.id);
+      onSuccess?.('수정 제안을 삭제했습니다.');
+    } catch (error: any) {
+      onError?.(error.message);
+    } finally {
+      setBusySuggestionId(null);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-md p-4 mb-6">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <h2 className="text-base font-semibold text-slate-800">
+          ✏️ 수정 제안
+          <span className="ml-2 text-sm font-normal text-slate-500">
+            받은 제안 {received.data.length}개, 보낸 제안 {sent.data.length}개
+          </span>
+        </h2>
+        <span className="text-slate-400 text-sm">{isExpanded ? '접기' : '펼치기'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="mt-3 space-y-4">
+          {/* 내 도구에 들어온 제안 */}
+          {received.data.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-slate-700">받은 수정 제안</h3>
+              <ul className="mt-1 divide-y divide-slate-100">
+                {received.data.map(suggestion => (
+                  <li key={suggestion.id} className="py-3 flex flex-wrap items-start justify-between gap-3">
+                    <div className="min-w-0 flex-1">
+                      <span className="font-medium text-slate-800">{suggestion.toolName}</span>
+                      <p className="mt-1 text-sm text-slate-500">
+                        {suggestion.userName} · {formatFieldLabels(getChangedFields(suggestion.changes))} · {suggestion.createdAt.toLocaleDateString('ko-KR')}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setReviewing(suggestion)}
+                      className="px-3 py-1 text-sm text-white bg-indigo-600 rounded-lg hover:bg-indigo-700"
+                    >
+                      검토
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* 내가 보낸 제안 */}
+          {sent.data.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-slate-700">보낸 수정 제안</h3>
+              <ul className="mt-1 divide-y divide-slate-100">
+                {sent.data.map(suggestion => (
+                  <li key={suggestion.id} className="py-3 flex flex-wrap items-start justify-between gap-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className={`inline-block text-xs font-semibold px-2 py-0.5 rounded-full ${STATUS_CLASSES[suggestion.status]}`}>
+                          {EDIT_SUGGESTION_STATUS_LABELS[suggestion.status]}
+                        </span>
+                        <span className="font-medium text-slate-800 truncate">{suggestion.toolName}</span>
+                      </div>
+                      <p className="mt-1 text-sm text-slate-500">
+                        {suggestion.status === 'accepted' && suggestion.appliedFields.length > 0
+                          ? `반영된 항목: ${formatFieldLabels(suggestion.appliedFields)}`
+                          : `제안한 항목: ${formatFieldLabels(getChangedFields(suggestion.changes))}`}
+                      </p>
+                      {suggestion.status === 'rejected' && suggestion.reviewNote && (
+                        <p className="mt-1 text-sm text-red-700">거부 사유: {suggestion.reviewNote}</p>
+                      )}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleWithdraw(suggestion)}
+                      disabled={busySuggestionId === suggestion.id}
+                      className="px-3 py-1 text-sm text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                    >
+                      {suggestion.status === 'pending' ? '제안 취소' : '삭제'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {reviewing && (
+        <EditSuggestionReview
+          suggestion={reviewing}
+          onAccept={(fields) => handleAccept(reviewing, fields)}
+          onReject={(note) => handleReject(reviewing, note)}
+          onClose={() => setReviewing(null)}
+        />
+      )}
+    </section>
+  );
+};
+
+export default EditSuggestionsPanel;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { MatchRange } from '../utils/searchIndex';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: MatchRange[]; // 정렬되고 겹치지 않는 강조 구간
+}
+
+/**
+ * 검색어와 일치한 구간을 <mark>로 강조해 표시하는 컴포넌트
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges }) => {
+  if (!ranges || ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  ranges.forEach((range, index) => {
+    const start = Math.max(range.start, cursor);
+    const end = Math.min(range.end, text.length);
+    if (start >= end) return;
+
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start));
+    }
+    parts.push(
+      <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor));
+  }
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
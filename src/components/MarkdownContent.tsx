@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import HighlightedText from './HighlightedText';
+import { MatchRange } from '../utils/searchIndex';
+import { MARKDOWN_SYNTAX_HINT, MarkdownBlock, MarkdownInline, parseMarkdown } from '../utils/markdown';
+
+interface MarkdownContentProps {
+  text: string;
+  ranges?: MatchRange[]; // 원문 기준 강조 구간 (검색어 일치)
+  className?: string;
+}
+
+/**
+ * 원문의 offset부터 시작하는 글자에 강조 구간 적용
+ */
+const renderText = (text: string, offset: number, ranges?: MatchRange[]): React.ReactNode => {
+  if (!ranges || ranges.length === 0) return text;
+  const shifted = ranges
+    .filter(range => range.end > offset && range.start < offset + text.length)
+    .map(range => ({ start: range.start - offset, end: range.end - offset }));
+  return <HighlightedText text={text} ranges={shifted} />;
+};
+
+const renderInline = (nodes: MarkdownInline[], ranges?: MatchRange[]): React.ReactNode[] => nodes.map((node, index) => {
+  switch (node.type) {
+    case 'text':
+      return <React.Fragment key={index}>{renderText(node.text, node.offset, ranges)}</React.Fragment>;
+    case 'strong':
+      return <strong key={index} className="font-semibold">{renderInline(node.children, ranges)}</strong>;
+    case 'code':
+      return (
+        <code key={index} className="px-1 py-0.5 rounded bg-slate-100 text-slate-800 font-mono text-[0.9em]">
+          {renderText(node.text, node.offset, ranges)}
+        </code>
+      );
+    case 'link':
+      return (
+        <a
+          key={index}
+          href={node.href}
+          target="_blank"
+          rel="noopener noreferrer nofollow ugc"
+          className="text-sky-600 hover:text-sky-800 hover:underline break-all"
+        >
+          {renderText(node.text, node.offset, ranges)}
+        </a>
+      );
+    case 'break':
+      return <br key={index} />;
+  }
+});
+
+const renderBlock = (block: MarkdownBlock, index: number, ranges?: MatchRange[]): React.ReactNode => {
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={index}>{renderInline(block.children, ranges)}</p>;
+    case 'list': {
+      const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item, ranges)}</li>);
+      return block.ordered ? (
+        <ol key={index} start={block.start} className="list-decimal pl-5 space-y-0.5">{items}</ol>
+      ) : (
+        <ul key={index} className="list-disc pl-5 space-y-0.5">{items}</ul>
+      );
+    }
+    case 'codeBlock':
+      return (
+        <pre key={index} className="p-3 rounded-lg bg-slate-800 text-slate-100 text-xs font-mono overflow-x-auto">
+          <code data-language={block.language || undefined}>{renderText(block.text, block.offset, ranges)}</code>
+        </pre>
+      );
+  }
+};
+
+/**
+ * Markdown 일부 문법(굵게, 목록, 코드, 자동 링크)을 적용해 표시하는 컴포넌트
+ * HTML을 직접 삽입하지 않고 React 요소로만 만들며, 링크는 http/https 주소만 새 창으로 엽니다.
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ text, ranges, className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  return (
+    <div className={`space-y-2 break-words ${className}`}>
+      {blocks.map((block, index) => renderBlock(block, index, ranges))}
+    </div>
+  );
+};
+
+/**
+ * 작성 중인 글의 지원 문법 안내와 미리보기 (내용이 있을 때만 미리보기 표시)
+ */
+export const MarkdownPreview: React.FC<{ text: string; className?: string }> = ({ text, className = '' }) => (
+  <div className={`space-y-2 ${className}`}>
+    <p className="text-xs text-slate-400">{MARKDOWN_SYNTAX_HINT}</p>
+    {text.trim() && (
+      <div className="p-3 border border-dashed border-slate-300 rounded-lg bg-white">
+        <p className="text-xs font-medium text-slate-400 mb-1">미리보기</p>
+        <MarkdownContent text={text} className="text-sm text-slate-800" />
+      </div>
+    )}
+  </div>
+);
+
+export default MarkdownContent;
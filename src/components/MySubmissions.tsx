@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { FirebaseTool, ToolStatus } from '../../types';
+import { useMySubmissions } from '../hooks/useSubmissions';
+import { TOOL_STATUS_LABELS } from '../utils/toolStatus';
+
+interface MySubmissionsProps {
+  onSuccess?: (message: string) => void;
+  onError?: (message: string) => void;
+}
+
+// 검토 상태별 배지 색상
+const STATUS_CLASSES: Record<ToolStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+};
+
+/**
+ * 내 등록 요청 목록
+ * 검토 대기 중이거나 거부된 도구와 거부 사유를 보여 주며, 공개되지 않은 요청이 없으면 표시하지 않습니다.
+ */
+const MySubmissions: React.FC<MySubmissionsProps> = ({ onSuccess, onError }) => {
+  const { data: submissions, withdrawSubmission } = useMySubmissions();
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [busyToolId, setBusyToolId] = useState<string | null>(null);
+
+  if (submissions.length === 0) return null;
+
+  const pendingCount = submissions.filter(tool => tool.status === 'pending').length;
+  const rejectedCount = submissions.length - pendingCount;
+
+  /**
+   * 등록 요청 취소 핸들러
+   */
+  const handleWithdraw = async (tool: FirebaseTool) => {
+    const message = tool.status === 'pending'
+      ? `"${tool.name}" 등록 요청을 취소하시겠습니까?`
+      : `거부된 "${tool.name}" 요청을 목록에서 삭제하시겠습니까?`;
+    if (!window.confirm(message)) return;
+
+    setBusyToolId(tool.id);
+    try {
+      await withdrawSubmission(tool.id);
+      onSuccess?.(`"${tool.name}" 등록 요청을 삭제했습니다.`);
+    } catch (error: any) {
+      onError?.(error.message || '등록 요청을 삭제하는 중 오류가 발생했습니다.');
+    } finally {
+      setBusyToolId(null);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-md p-4 mb-6">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <h2 className="text-base font-semibold text-slate-800">
+          📝 내 등록 요청
+          <span className="ml-2 text-sm font-normal text-slate-500">
+            검토 대기 {pendingCount}개{rejectedCount > 0 ? `, 거부 ${rejectedCount}개` : ''}
+          </span>
+        </h2>
+        <span className="text-slate-400 text-sm">{isExpanded ? '접기' : '펼치기'}</span>
+      </button>
+
+      {isExpanded && (
+        <ul className="mt-3 divide-y divide-slate-100">
+          {submissions.map(tool => (
+            <li key={tool.id} className="py-3 flex flex-wrap items-start justify-between gap-3">
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className={`inline-block text-xs font-semibold px-2 py-0.5 rounded-full ${STATUS_CLASSES[tool.status]}`}>
+                    {TOOL_STATUS_LABELS[tool.status]}
+                  </span>
+                  <span className="font-medium text-slate-800 truncate">{tool.name}</span>
+                  <span className="text-xs text-slate-400">{tool.category}</span>
+                </div>
+                {tool.status === 'pending' && (
+                  <p className="mt-1 text-sm text-slate-500">관리자가 검토한 뒤 목록에 공개됩니다.</p>
+                )}
+                {tool.status === 'rejected' && (
+                  <p className="mt-1 text-sm text-red-700">
+                    거부 사유: {tool.rejectionReason || '사유가 입력되지 않았습니다.'}
+                  </p>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => handleWithdraw(tool)}
+                disabled={busyToolId === tool.id}
+                className="px-3 py-1 text-sm text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+              >
+                {tool.status === 'pending' ? '요청 취소' : '삭제'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default MySubmissions;
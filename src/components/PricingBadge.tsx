@@ -0,0 +1,35 @@
+import React from 'react';
+import { Pricing, PricingModel } from '../../types';
+import { PRICING_MODEL_LABELS, formatPricing } from '../utils/pricing';
+
+interface PricingBadgeProps {
+  pricing: Pricing | null;
+  showDetails?: boolean; // true이면 시작 가격과 무료 체험 여부까지 표시
+}
+
+// 가격 모델별 배지 색상
+const MODEL_CLASSES: Record<PricingModel, string> = {
+  free: 'bg-green-100 text-green-800',
+  'open-source': 'bg-teal-100 text-teal-800',
+  freemium: 'bg-amber-100 text-amber-800',
+  paid: 'bg-slate-100 text-slate-700',
+  enterprise: 'bg-purple-100 text-purple-800'
+};
+
+/**
+ * 가격 모델 배지 (가격 정보가 없으면 표시하지 않음)
+ */
+const PricingBadge: React.FC<PricingBadgeProps> = ({ pricing, showDetails = false }) => {
+  if (!pricing) return null;
+
+  return (
+    <span
+      className={`inline-block text-xs font-semibold px-2.5 py-0.5 rounded-full ${MODEL_CLASSES[pricing.model]}`}
+      title={showDetails ? undefined : formatPricing(pricing)}
+    >
+      {showDetails ? formatPricing(pricing) : PRICING_MODEL_LABELS[pricing.model]}
+    </span>
+  );
+};
+
+export default PricingBadge;
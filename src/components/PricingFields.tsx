@@ -0,0 +1,128 @@
+import React from 'react';
+import { BillingPeriod, Pricing, PricingModel } from '../../types';
+import {
+  BILLING_PERIODS,
+  BILLING_PERIOD_LABELS,
+  CURRENCIES,
+  PRICING_MODELS,
+  PRICING_MODEL_LABELS,
+  createPricing
+} from '../utils/pricing';
+
+interface PricingFieldsProps {
+  id?: string;
+  value: Pricing | null;
+  onChange: (pricing: Pricing | null) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500 transition-colors duration-200';
+
+/**
+ * 가격 정보 입력 컴포넌트 (도구 추가/편집 모달 공용)
+ * 가격 모델을 선택하면 무료 체험 여부, 시작 가격, 통화, 결제 주기를 입력할 수 있습니다.
+ */
+const PricingFields: React.FC<PricingFieldsProps> = ({
+  id = 'pricing',
+  value,
+  onChange,
+  disabled = false
+}) => {
+  /**
+   * 가격 모델 변경 (이미 입력한 가격 정보는 유지)
+   */
+  const handleModelChange = (model: string) => {
+    if (!model) {
+      onChange(null);
+      return;
+    }
+    onChange({ ...(value || createPricing(model as PricingModel)), model: model as PricingModel });
+  };
+
+  /**
+   * 시작 가격 변경 (비우면 통화와 결제 주기도 비움)
+   */
+  const handlePriceChange = (input: string) => {
+    if (!value) return;
+    const price = Number.parseFloat(input);
+    if (input.trim() === '' || !Number.isFinite(price) || price < 0) {
+      onChange({ ...value, startingPrice: null, currency: null, billingPeriod: null });
+      return;
+    }
+    onChange({
+      ...value,
+      startingPrice: price,
+      currency: value.currency || CURRENCIES[0],
+      billingPeriod: value.billingPeriod || 'monthly'
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        id={id}
+        value={value?.model || ''}
+        onChange={(e) => handleModelChange(e.target.value)}
+        className={inputClassName}
+        disabled={disabled}
+      >
+        <option value="">선택하지 않음</option>
+        {PRICING_MODELS.map(model => (
+          <option key={model} value={model}>{PRICING_MODEL_LABELS[model]}</option>
+        ))}
+      </select>
+
+      {value && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={value.startingPrice ?? ''}
+              onChange={(e) => handlePriceChange(e.target.value)}
+              className={inputClassName}
+              placeholder="시작 가격"
+              aria-label="시작 가격"
+              disabled={disabled}
+            />
+            <select
+              value={value.currency || CURRENCIES[0]}
+              onChange={(e) => onChange({ ...value, currency: e.target.value })}
+              className={inputClassName}
+              aria-label="통화"
+              disabled={disabled || value.startingPrice === null}
+            >
+              {CURRENCIES.map(currency => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+            <select
+              value={value.billingPeriod || 'monthly'}
+              onChange={(e) => onChange({ ...value, billingPeriod: e.target.value as BillingPeriod })}
+              className={inputClassName}
+              aria-label="결제 주기"
+              disabled={disabled || value.startingPrice === null}
+            >
+              {BILLING_PERIODS.map(period => (
+                <option key={period} value={period}>{BILLING_PERIOD_LABELS[period]}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={value.hasFreeTrial}
+              onChange={(e) => onChange({ ...value, hasFreeTrial: e.target.checked })}
+              className="h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+              disabled={disabled}
+            />
+            무료 체험 제공
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PricingFields;
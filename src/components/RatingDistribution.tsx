@@ -0,0 +1,64 @@
+import React from 'react';
+import { RatingHistogram } from '../../types';
+import { RATING_STEPS, toHistogramKey } from '../utils/ratingAggregate';
+
+interface RatingDistributionProps {
+  histogram: RatingHistogram;
+  ratingCount: number;
+  averageRating?: number;
+}
+
+/**
+ * 평점 분포 막대 차트 컴포넌트
+ * 5.0점부터 0.5점까지 0.5점 단위로 평점 개수와 비율을 표시합니다.
+ */
+const RatingDistribution: React.FC<RatingDistributionProps> = ({
+  histogram,
+  ratingCount,
+  averageRating
+}) => {
+  // 가장 많은 평점 개수 (막대 길이 기준)
+  const maxCount = Math.max(0, ...RATING_STEPS.map(step => histogram[toHistogramKey(step)] || 0));
+
+  if (ratingCount === 0) {
+    return (
+      <p className="text-xs text-slate-500">아직 등록된 평점이 없습니다.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-slate-700">평점 분포</span>
+        <span className="text-xs text-slate-500">
+          {averageRating !== undefined && (
+            <span className="font-semibold text-amber-600 mr-1">★ {averageRating.toFixed(1)}</span>
+          )}
+          ({ratingCount}명)
+        </span>
+      </div>
+      {[...RATING_STEPS].reverse().map(step => {
+        const count = histogram[toHistogramKey(step)] || 0;
+        const percent = Math.round((count / ratingCount) * 100);
+        return (
+          <div key={step} className="flex items-center gap-2 text-xs">
+            <span className="w-8 text-right text-slate-600 tabular-nums">{step.toFixed(1)}</span>
+            <div
+              className="flex-1 h-2 bg-slate-200 rounded-full overflow-hidden"
+              role="img"
+              aria-label={`${step.toFixed(1)}점 ${count}개 (${percent}%)`}
+            >
+              <div
+                className="h-full bg-amber-400 rounded-full transition-all duration-300"
+                style={{ width: maxCount > 0 ? `${(count / maxCount) * 100}%` : '0%' }}
+              />
+            </div>
+            <span className="w-6 text-right text-slate-500 tabular-nums">{count}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RatingDistribution;
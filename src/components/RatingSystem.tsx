@@ -1,4 +1,6 @@
 import React, { useState, useEffect } from 'react';
+import { RatingHistogram } from '../../types';
+import RatingDistribution from './RatingDistribution';
 
 interface RatingSystemProps {
   currentRating?: number; // 현재 사용자의 평점 (수정 모드)
@@ -7,6 +9,9 @@ interface RatingSystemProps {
   onRatingDelete?: () => Promise<void>;
   disabled?: boolean;
   showDeleteButton?: boolean;
+  histogram?: RatingHistogram; // 지정하면 입력 영역 아래에 평점 분포 표시
+  ratingCount?: number;
+  averageRating?: number;
 }
 
 /**
@@ -19,7 +24,10 @@ const RatingSystem: React.FC<RatingSystemProps> = ({
   onRatingSubmit,
   onRatingDelete,
   disabled = false,
-  showDeleteButton = false
+  showDeleteButton = false,
+  histogram,
+  ratingCount = 0,
+  averageRating
 }) => {
   // 초기 currentRating 값 디버깅
   console.log('⭐ RatingSystem - 초기 currentRating:', currentRating);
@@ -197,6 +205,17 @@ const RatingSystem: React.FC<RatingSystemProps> = ({
           별을 클릭하여 0.5 ~ 5.0점 사이의 평점을 남겨보세요
         </p>
       )}
+
+      {/* 평점 분포 */}
+      {histogram && (
+        <div className="pt-3 border-t border-slate-200">
+          <RatingDistribution
+            histogram={histogram}
+            ratingCount={ratingCount}
+            averageRating={averageRating}
+          />
+        </div>
+      )}
     </div>
   );
 };
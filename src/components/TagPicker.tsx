@@ -0,0 +1,201 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MAX_TAGS_PER_TOOL, normalizeTag, normalizeTags, suggestTags, tagKey } from '../utils/tags';
+
+interface TagPickerProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  availableTags: string[]; // 자동완성 후보 (기존 태그 목록)
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+/**
+ * 태그 선택 입력 컴포넌트
+ * 기존 태그를 자동완성으로 고르거나 새 태그를 입력합니다.
+ * - Enter/쉼표: 입력한 태그 추가 (자동완성 후보가 선택되어 있으면 후보 추가)
+ * - Backspace: 입력이 비어 있으면 마지막 태그 삭제
+ * - 입력창을 벗어나면 입력 중인 태그도 추가
+ * - 위/아래: 자동완성 후보 이동, Esc: 후보 닫기
+ */
+const TagPicker: React.FC<TagPickerProps> = ({
+  id = 'tag-picker',
+  value,
+  onChange,
+  availableTags,
+  disabled = false,
+  placeholder = '태그 입력 후 Enter'
+}) => {
+  const [inputValue, setInputValue] = useState('');
+  const [isSuggestionOpen, setIsSuggestionOpen] = useState(false);
+  const [activeSuggestionIndex, setActiveSuggestionIndex] = useState(-1);
+
+  const isFull = value.length >= MAX_TAGS_PER_TOOL;
+
+  // 입력값 기준 자동완성 후보 (이미 선택한 태그 제외)
+  const suggestions = useMemo(
+    () => (isFull ? [] : suggestTags(inputValue, availableTags, value)),
+    [inputValue, availableTags, value, isFull]
+  );
+  const showSuggestions = isSuggestionOpen && suggestions.length > 0;
+
+  // 입력이 바뀌면 후보 선택 초기화 (입력 중에는 입력한 그대로 추가되도록 선택하지 않음)
+  useEffect(() => {
+    setActiveSuggestionIndex(-1);
+  }, [inputValue]);
+
+  /**
+   * 태그 추가 (기존 태그와 대소문자만 다르면 기존 표기 사용)
+   */
+  const addTag = (rawTag: string) => {
+    const tag = normalizeTag(rawTag);
+    if (!tag || isFull) return;
+
+    const existing = availableTags.find(candidate => tagKey(candidate) === tagKey(tag));
+    onChange(normalizeTags([...value, existing || tag]));
+    setInputValue('');
+  };
+
+  /**
+   * 태그 삭제
+   */
+  const removeTag = (tag: string) => {
+    onChange(value.filter(selected => selected !== tag));
+  };
+
+  /**
+   * 키보드 조작 처리
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // 한글 조합 중 Enter는 조합 완료로 처리
+    if (e.nativeEvent.isComposing) return;
+
+    switch (e.key) {
+      case 'Enter':
+      case ',':
+        e.preventDefault();
+        if (showSuggestions && activeSuggestionIndex >= 0) {
+          addTag(suggestions[activeSuggestionIndex]);
+        } else {
+          addTag(inputValue);
+        }
+        break;
+      case 'Backspace':
+        if (!inputValue && value.length > 0) {
+          removeTag(value[value.length - 1]);
+        }
+        break;
+      case 'ArrowDown':
+        if (showSuggestions) {
+          e.preventDefault();
+          setActiveSuggestionIndex(index => (index + 1) % suggestions.length);
+        }
+        break;
+      case 'ArrowUp':
+        if (showSuggestions) {
+          e.preventDefault();
+          setActiveSuggestionIndex(index => (index <= 0 ? suggestions.length - 1 : index - 1));
+        }
+        break;
+      case 'Escape':
+        if (showSuggestions) {
+          e.preventDefault();
+          e.stopPropagation();
+          setIsSuggestionOpen(false);
+        }
+        break;
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className={`flex flex-wrap items-center gap-1.5 w-full p-2 border border-slate-300 rounded-lg focus-within:ring-2 focus-within:ring-sky-500 focus-within:border-sky-500 transition ${
+          disabled ? 'bg-slate-50' : 'bg-white'
+        }`}
+      >
+        {value.map(tag => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 px-2 py-0.5 text-sm bg-violet-100 text-violet-800 rounded-full"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="text-violet-500 hover:text-violet-800 leading-none"
+              disabled={disabled}
+              aria-label={`${tag} 태그 삭제`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={inputValue}
+          onChange={(e) => {
+            // 붙여넣기 등으로 쉼표가 포함되면 여러 태그로 나누어 추가
+            if (e.target.value.includes(',')) {
+              const parts = e.target.value.split(',');
+              const remaining = parts.pop() || '';
+              onChange(normalizeTags([...value, ...parts]));
+              setInputValue(remaining);
+            } else {
+              setInputValue(e.target.value);
+            }
+            setIsSuggestionOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsSuggestionOpen(true)}
+          onBlur={() => {
+            // 입력만 하고 Enter를 누르지 않은 채 저장하는 경우에도 태그가 빠지지 않도록 추가
+            if (inputValue.trim()) addTag(inputValue);
+            setIsSuggestionOpen(false);
+          }}
+          className="flex-1 min-w-[8rem] p-1 text-sm border-none outline-none focus:ring-0 bg-transparent"
+          placeholder={isFull ? `태그는 최대 ${MAX_TAGS_PER_TOOL}개까지 지정할 수 있습니다` : placeholder}
+          disabled={disabled || isFull}
+          role="combobox"
+          aria-expanded={showSuggestions}
+          aria-controls={`${id}-suggestions`}
+          autoComplete="off"
+        />
+      </div>
+
+      {/* 자동완성 후보 */}
+      {showSuggestions && (
+        <ul
+          id={`${id}-suggestions`}
+          role="listbox"
+          className="absolute left-0 right-0 mt-1 bg-white border border-slate-200 rounded-lg shadow-lg z-20 max-h-48 overflow-y-auto"
+        >
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag}
+              role="option"
+              aria-selected={index === activeSuggestionIndex}
+              // 입력창 blur보다 먼저 처리되도록 mousedown 사용
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(tag);
+              }}
+              className={`px-3 py-2 text-sm cursor-pointer ${
+                index === activeSuggestionIndex ? 'bg-sky-50 text-sky-800' : 'text-slate-700 hover:bg-slate-50'
+              }`}
+            >
+              #{tag}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="text-sm text-slate-500 mt-1">
+        {value.length}/{MAX_TAGS_PER_TOOL}개 · Enter 또는 쉼표로 추가
+      </p>
+    </div>
+  );
+};
+
+export default TagPicker;
@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import StarRating from '../../components/StarRating';
+import ReviewModal from '../../components/ReviewModal';
+import RatingDistribution from './RatingDistribution';
+import PricingBadge from './PricingBadge';
+import MarkdownContent from './MarkdownContent';
+import CommentSection from './CommentSection';
+import { ToastContainer } from './Toast';
+import { AuthProvider, useAuthContext } from '../contexts/AuthContext';
+import { useToolBySlug } from '../hooks/useTools';
+import { useToast } from '../hooks/useToast';
+import { toolDetailPath } from '../utils/slug';
+
+// 기본 문서 제목 (상세 페이지를 벗어나면 복원)
+const DEFAULT_TITLE = document.title;
+
+/**
+ * 페이지의 canonical 링크 설정
+ * @returns 이전 상태로 되돌리는 정리 함수
+ */
+const setCanonicalUrl = (url: string): (() => void) => {
+  let link = document.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+  const previousHref = link?.getAttribute('href') ?? null;
+  const isCreated = !link;
+
+  if (!link) {
+    link = document.createElement('link');
+    link.rel = 'canonical';
+    document.head.appendChild(link);
+  }
+  link.href = url;
+
+  return () => {
+    if (isCreated) {
+      link?.remove();
+    } else if (previousHref !== null) {
+      link?.setAttribute('href', previousHref);
+    }
+  };
+};
+
+/**
+ * URL에서 도메인만 추출 (잘못된 URL이면 원문 반환)
+ */
+const getDomain = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * 도구 상세 페이지 내용
+ * /tools/:slug 경로에서 도구 정보, 평점 분포, 전체 댓글을 보여줍니다.
+ */
+const ToolDetailContent: React.FC = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const { isAuthenticated } = useAuthContext();
+  const { toasts, removeToast, showSuccess, showError } = useToast();
+  const { data: tool, isLoading, error } = useToolBySlug(slug);
+  const [isReviewModalOpen, setIsReviewModalOpen] = useState(false);
+
+  const shareUrl = tool ? `${window.location.origin}${toolDetailPath(tool.slug)}` : '';
+
+  // 도구 ID나 예전 슬러그로 들어온 경우 저장된 슬러그 주소로 교체
+  useEffect(() => {
+    if (tool && tool.slug !== slug) {
+      console.log('🔗 ToolDetailPage - 슬러그 주소로 이동:', tool.slug);
+      navigate(toolDetailPath(tool.slug), { replace: true });
+    }
+  }, [tool, slug, navigate]);
+
+  // 문서 제목과 canonical 링크 설정
+  useEffect(() => {
+    if (!tool) return;
+
+    document.title = `${tool.name} - ${DEFAULT_TITLE}`;
+    const restoreCanonical = setCanonicalUrl(shareUrl);
+    return () => {
+      document.title = DEFAULT_TITLE;
+      restoreCanonical();
+    };
+  }, [tool?.name, shareUrl]);
+
+  /**
+   * 공유 링크 복사
+   */
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      showSuccess('링크가 복사되었습니다.');
+    } catch (copyError) {
+      console.error('❌ 링크 복사 실패:', copyError);
+      showError('링크를 복사하지 못했습니다.', shareUrl);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="bg-white rounded-xl shadow-md p-6 animate-pulse space-y-4">
+          <div className="h-4 bg-slate-200 rounded w-24"></div>
+          <div className="h-8 bg-slate-200 rounded w-1/2"></div>
+          <div className="h-4 bg-slate-200 rounded w-full"></div>
+          <div className="h-4 bg-slate-200 rounded w-5/6"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!tool) {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-3xl text-center">
+        <p className="text-5xl mb-4">🔍</p>
+        <h1 className="text-xl font-bold text-slate-900 mb-2">도구를 찾을 수 없습니다</h1>
+        <p className="text-slate-500 mb-6">{error || '삭제되었거나 주소가 잘못되었습니다.'}</p>
+        <Link to="/" className="text-indigo-600 hover:text-indigo-700 font-medium">
+          ← 도구 목록으로
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <Link to="/" className="inline-block mb-6 text-sm text-slate-500 hover:text-slate-700">
+        ← 도구 목록으로
+      </Link>
+
+      <article className="bg-white rounded-xl shadow-md p-6 space-y-6">
+        {/* 기본 정보 */}
+        <header>
+          <div className="flex items-center gap-2 flex-wrap mb-3">
+            <Link
+              to={`/?category=${encodeURIComponent(tool.category)}`}
+              className="inline-block bg-sky-100 text-sky-800 text-xs font-semibold px-2.5 py-0.5 rounded-full hover:bg-sky-200"
+            >
+              {tool.category}
+            </Link>
+            <PricingBadge pricing={tool.pricing} showDetails />
+          </div>
+          <h1 className="text-3xl font-bold text-slate-900 break-words">{tool.name}</h1>
+          <div className="mt-2 flex items-center gap-2 text-sm text-slate-500">
+            <StarRating rating={tool.averageRating} />
+            <span>
+              {tool.ratingCount > 0
+                ? `${tool.averageRating.toFixed(1)} (${tool.ratingCount}명 평가)`
+                : '아직 평가가 없습니다'}
+            </span>
+          </div>
+        </header>
+
+        <MarkdownContent text={tool.description} className="text-slate-700" />
+        {tool.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {tool.tags.map(tag => (
+              <Link
+                key={tag}
+                to={`/?tags=${encodeURIComponent(tag)}`}
+                className="text-xs text-violet-700 bg-violet-50 hover:bg-violet-100 px-2 py-0.5 rounded-full"
+              >
+                #{tag}
+              </Link>
+            ))}
+          </div>
+        )}
+        {tool.memo && (
+          <p className="text-sm text-slate-500 bg-slate-100 p-3 rounded-md whitespace-pre-line">
+            📝 {tool.memo}
+          </p>
+        )}
+
+        {/* 메타데이터 */}
+        <dl className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-sm">
+          <div>
+            <dt className="text-slate-400">웹사이트</dt>
+            <dd className="text-slate-700 truncate">{getDomain(tool.url)}</dd>
+          </div>
+          <div>
+            <dt className="text-slate-400">등록일</dt>
+            <dd className="text-slate-700">{tool.createdAt.toLocaleDateString('ko-KR')}</dd>
+          </div>
+          <div>
+            <dt className="text-slate-400">업데이트</dt>
+            <dd className="text-slate-700">{tool.updatedAt.toLocaleDateString('ko-KR')}</dd>
+          </div>
+          <div>
+            <dt className="text-slate-400">댓글</dt>
+            <dd className="text-slate-700">{tool.commentCount}개</dd>
+          </div>
+          <div>
+            <dt className="text-slate-400">북마크</dt>
+            <dd className="text-slate-700">{tool.bookmarkCount}명</dd>
+          </div>
+        </dl>
+
+        {/* 버튼 영역 */}
+        <div className="flex flex-col sm:flex-row gap-2">
+          <a
+            href={tool.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex-1 py-2 text-center bg-indigo-600 hover:bg-indigo-700 text-white rounded-md transition-colors duration-200"
+          >
+            웹사이트 방문
+          </a>
+          {isAuthenticated && (
+            <button
+              onClick={() => setIsReviewModalOpen(true)}
+              className="flex-1 py-2 text-center bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 rounded-md transition-colors duration-200"
+            >
+              별점 평가하기
+            </button>
+          )}
+        </div>
+
+        {/* 공유 링크 */}
+        <div>
+          <label htmlFor="tool-share-url" className="block text-sm font-medium text-slate-700 mb-1">
+            공유 링크
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="tool-share-url"
+              type="text"
+              readOnly
+              value={shareUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 text-sm border border-slate-300 rounded-md bg-slate-50 text-slate-600"
+            />
+            <button
+              onClick={handleCopyLink}
+              className="px-3 py-2 text-sm font-medium bg-slate-600 text-white rounded-md hover:bg-slate-700 transition-colors duration-200"
+            >
+              복사
+            </button>
+          </div>
+        </div>
+
+        {/* 평점 분포 */}
+        <section className="bg-slate-50 rounded-lg p-4">
+          <h2 className="font-semibold text-slate-900 mb-3">평점 분포</h2>
+          <RatingDistribution
+            histogram={tool.ratingHistogram}
+            ratingCount={tool.ratingCount}
+            averageRating={tool.averageRating}
+          />
+        </section>
+
+        {/* 댓글 */}
+        <section>
+          <CommentSection
+            toolId={tool.id}
+            onSuccess={(message) => showSuccess(message)}
+            onError={(message) => showError(message)}
+          />
+        </section>
+      </article>
+
+      {isReviewModalOpen && (
+        <ReviewModal
+          isOpen={isReviewModalOpen}
+          onClose={() => setIsReviewModalOpen(false)}
+          tool={tool}
+          onSuccess={(message) => showSuccess(message)}
+          onError={(message) => showError(message)}
+        />
+      )}
+
+      <ToastContainer toasts={toasts} onRemoveToast={removeToast} />
+    </div>
+  );
+};
+
+/**
+ * 도구 상세 페이지 (AuthProvider로 래핑)
+ */
+const ToolDetailPage: React.FC = () => {
+  return (
+    <AuthProvider>
+      <ToolDetailContent />
+    </AuthProvider>
+  );
+};
+
+export default ToolDetailPage;
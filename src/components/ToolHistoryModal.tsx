@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { FirebaseTool, FirebaseToolRevision } from '../../types';
+import { useToolRevisions } from '../hooks/useToolRevisions';
+import {
+  TOOL_FIELDS,
+  TOOL_FIELD_LABELS,
+  TOOL_REVISION_ACTION_LABELS,
+  diffText,
+  formatToolFieldValue,
+  getChangedFields
+} from '../utils/toolDiff';
+import DiffSegments from './DiffSegments';
+
+interface ToolHistoryModalProps {
+  tool: FirebaseTool;
+  currentUserId: string; // 되돌리기 이력에 기록할 사용자 ID
+  onClose: () => void;
+  onReverted?: (revision: FirebaseToolRevision) => void; // 되돌리기 완료 후 (감사 로그 기록 등)
+  onSuccess?: (message: string) => void;
+  onError?: (message: string) => void;
+}
+
+/**
+ * 도구 변경 이력 모달
+ * 등록 이후의 변경 내용을 최근 순서로 보여 주고, 이전 이력 시점의 내용으로 되돌립니다.
+ */
+const ToolHistoryModal: React.FC<ToolHistoryModalProps> = ({ tool, currentUserId, onClose, onReverted, onSuccess, onError }) => {
+  const { data: revisions, isLoading, error, revertToRevision } = useToolRevisions(tool.id);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  /**
+   * 변경한 사용자 표시 이름
+   */
+  const formatAuthor = (authorId: string): string => {
+    if (authorId === currentUserId) return '나';
+    if (authorId === tool.createdBy) return '작성자';
+    return authorId;
+  };
+
+  /**
+   * 되돌리기 이력이 가리키는 시점 설명
+   */
+  const describeSource = (revision: FirebaseToolRevision): string | null => {
+    if (revision.action !== 'revert' || !revision.sourceId) return null;
+    const source = revisions.find(item => item.id === revision.sourceId);
+    return source ? `${source.createdAt.toLocaleString('ko-KR')} 시점으로` : null;
+  };
+
+  /**
+   * 되돌리기 핸들러
+   */
+  const handleRevert = async (revision: FirebaseToolRevision) => {
+    const confirmed = window.confirm(
+      `"${tool.name}" 도구를 ${revision.createdAt.toLocaleString('ko-KR')} 시점의 내용으로 되돌리시겠습니까?`
+    );
+    if (!confirmed) return;
+
+    setRevertingId(revision.id);
+    try {
+      await revertToRevision(revision, currentUserId);
+      onReverted?.(revision);
+      onSuccess?.(`"${tool.name}" 도구를 이전 내용으로 되돌렸습니다.`);
+    } catch (error: any) {
+      onError?.(error.message);
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* 헤더 */}
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-xl font-bold text-slate-900">변경 이력</h2>
+              <p className="mt-1 text-sm text-slate-500">{tool.name}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-slate-400 hover:text-slate-600 transition-colors duration-200"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {isLoading ? (
+            <p className="py-12 text-center text-sm text-slate-500">변경 이력을 불러오는 중입니다...</p>
+          ) : error ? (
+            <p className="py-12 text-center text-sm text-red-600">{error}</p>
+          ) : revisions.length === 0 ? (
+            <p className="py-12 text-center text-sm text-slate-500">
+              기록된 변경 이력이 없습니다. 이력 기능 도입 이후의 변경부터 기록됩니다.
+            </p>
+          ) : (
+            <ol className="relative border-l border-slate-200 ml-2">
+              {revisions.map((revision, index) => {
+                const changedFields = getChangedFields(revision.changes);
+                const sourceLabel = describeSource(revision);
+                return (
+                  <li key={revision.id} className="ml-4 pb-6 last:pb-0">
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-sky-500" />
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="text-sm">
+                        <span className="inline-block bg-sky-100 text-sky-800 text-xs font-semibold px-2 py-0.5 rounded-full mr-2">
+                          {TOOL_REVISION_ACTION_LABELS[revision.action]}
+                        </span>
+                        <span className="text-slate-700">{formatAuthor(revision.authorId)}</span>
+                        <span className="text-slate-400"> · {revision.createdAt.toLocaleString('ko-KR')}</span>
+                        {sourceLabel && <span className="text-slate-400"> · {sourceLabel}</span>}
+                        {index === 0 && <span className="ml-2 text-xs text-green-700">현재</span>}
+                      </div>
+                      {index > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => handleRevert(revision)}
+                          disabled={revertingId !== null}
+                          className="px-3 py-1 text-xs text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                        >
+                          {revertingId === revision.id ? '되돌리는 중...' : '이 시점으로 되돌리기'}
+                        </button>
+                      )}
+                    </div>
+
+                    {/* 등록 이력은 전체 값, 나머지는 바뀐 필드만 비교 */}
+                    <div className="mt-2 rounded-lg border border-slate-200 overflow-hidden">
+                      <table className="min-w-full text-sm">
+                        <tbody className="divide-y divide-slate-100">
+                          {revision.action === 'create' || changedFields.length === 0
+                            ? TOOL_FIELDS.map(field => (
+                              <tr key={field} className="align-top">
+                                <td className="w-24 px-3 py-1.5 font-medium text-slate-600">{TOOL_FIELD_LABELS[field]}</td>
+                                <td className="px-3 py-1.5 text-slate-700 break-all whitespace-pre-wrap">
+                                  {formatToolFieldValue(field, revision.fields[field]) || (
+                                    <span className="text-slate-400">(비어 있음)</span>
+                                  )}
+                                </td>
+                              </tr>
+                            ))
+                            : changedFields.map(field => {
+                              const change = revision.changes[field];
+                              const diff = diffText(
+                                formatToolFieldValue(field, change?.before),
+                                formatToolFieldValue(field, change?.after)
+                              );
+                              return (
+                                <tr key={field} className="align-top">
+                                  <td className="w-24 px-3 py-1.5 font-medium text-slate-600">{TOOL_FIELD_LABELS[field]}</td>
+                                  <td className="px-3 py-1.5 text-slate-700 break-all whitespace-pre-wrap">
+                                    <DiffSegments segments={diff.before} changedClassName="bg-red-100 text-red-800 line-through" />
+                                  </td>
+                                  <td className="px-3 py-1.5 text-slate-700 break-all whitespace-pre-wrap">
+                                    <DiffSegments segments={diff.after} changedClassName="bg-green-100 text-green-800" />
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ToolHistoryModal;
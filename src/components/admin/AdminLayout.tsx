@@ -2,34 +2,38 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAdminContext } from '../../contexts/AdminContext';
+import { useFailedAdminActions } from '../../hooks/useAdminAuth';
 import { useToast } from '../../hooks/useToast';
+import { AUDIT_ACTION_LABELS } from '../../utils/auditLog';
+import { AdminTab, USER_ROLE_LABELS } from '../../utils/roles';
 
 /**
  * 어드민 레이아웃 컴포넌트 Props
  */
 interface AdminLayoutProps {
   children: React.ReactNode;
-  activeTab: 'tools' | 'categories';
+  activeTab: AdminTab;
 }
 
 /**
  * 어드민 대시보드 레이아웃 컴포넌트
  */
 const AdminLayout: React.FC<AdminLayoutProps> = ({ children, activeTab }) => {
-  const { adminLogout, isAdmin, isLoading } = useAdminContext();
+  const { adminLogout, hasAdminAccess, hasPermission, user, role, isLoading } = useAdminContext();
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const { showSuccess } = useToast();
+  const { failedActions, retry, isRetrying } = useFailedAdminActions();
   const navigate = useNavigate();
   
-  // 인증 상태 확인 및 리디렉션
+  // 인증 상태 확인 및 리디렉션 (관리 역할이 없으면 로그인 화면으로)
   useEffect(() => {
-    if (!isLoading && !isAdmin) {
+    if (!isLoading && !hasAdminAccess) {
       navigate('/admin/login');
     }
-  }, [isAdmin, isLoading, navigate]);
+  }, [hasAdminAccess, isLoading, navigate]);
 
   // 로딩 중이거나 인증되지 않은 경우 렌더링하지 않음
-  if (isLoading || !isAdmin) {
+  if (isLoading || !hasAdminAccess) {
     return null;
   }
   
@@ -45,11 +49,21 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, activeTab }) => {
     navigate('/admin/login');
   };
 
-  // 사이드바 메뉴 아이템 정의
-  const menuItems = [
+  // 사이드바 메뉴 아이템 정의 (역할에 권한이 있는 메뉴만 표시)
+  const allMenuItems: { id: AdminTab; label: string; icon: string }[] = [
     { id: 'tools', label: '도구 관리', icon: 'M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z' },
-    { id: 'categories', label: '카테고리 관리', icon: 'M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01' }
+    { id: 'categories', label: '카테고리 관리', icon: 'M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01' },
+    { id: 'tags', label: '태그 관리', icon: 'M7 20l4-16m2 16l4-16M6 9h14M4 15h14' },
+    { id: 'links', label: '링크 점검', icon: 'M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1' },
+    { id: 'suggestions', label: '수정 제안', icon: 'M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z' },
+    { id: 'reports', label: '댓글 신고', icon: 'M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9' },
+    { id: 'users', label: '사용자 관리', icon: 'M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z' },
+    { id: 'filters', label: '콘텐츠 필터', icon: 'M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z' },
+    { id: 'audit', label: '감사 로그', icon: 'M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4' }
   ];
+  const menuItems = allMenuItems.filter(item => hasPermission(item.id));
+  const canViewTab = hasPermission(activeTab);
+  const userLabel = user?.displayName || user?.email || '관리자';
 
   return (
     <div className="h-screen flex overflow-hidden bg-gray-100">
@@ -151,7 +165,8 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, activeTab }) => {
                   </svg>
                 </div>
                 <div className="ml-3 flex flex-col w-full">
-                  <p className="text-sm font-medium text-white">관리자</p>
+                  <p className="text-sm font-medium text-white">{userLabel}</p>
+                  <p className="text-xs text-indigo-300">{role && USER_ROLE_LABELS[role]}</p>
                   <div
                     className="text-xs font-medium text-indigo-200 group-hover:text-white flex items-center"
                   >
@@ -242,7 +257,8 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, activeTab }) => {
                     </svg>
                   </div>
                   <div className="ml-3 flex flex-col w-full">
-                    <p className="text-sm font-medium text-white">관리자</p>
+                    <p className="text-sm font-medium text-white">{userLabel}</p>
+                    <p className="text-xs text-indigo-300">{role && USER_ROLE_LABELS[role]}</p>
                     <div
                       className="text-xs font-medium text-indigo-200 group-hover:text-white flex items-center"
                     >
@@ -300,11 +316,38 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, activeTab }) => {
           <div className="py-6">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
               <h1 className="text-2xl font-semibold text-gray-900">
-                {activeTab === 'tools' ? '도구 관리' : '카테고리 관리'}
+                {allMenuItems.find(item => item.id === activeTab)?.label}
               </h1>
             </div>
             <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
-              <div className="py-4">{children}</div>
+              {/* 감사 로그 기록 실패 안내 (작업은 저장되었으므로 로그만 다시 기록) */}
+              {failedActions.length > 0 && (
+                <div className="mt-4 flex flex-wrap items-center justify-between gap-3 rounded-md border border-red-200 bg-red-50 px-4 py-3">
+                  <div className="text-sm text-red-800">
+                    <p className="font-medium">
+                      감사 로그 {failedActions.length}건을 기록하지 못했습니다. 작업은 완료되었으니 페이지를 닫기 전에 다시 기록하세요.
+                    </p>
+                    <p className="mt-1 text-red-700">
+                      {failedActions.map(log => `${AUDIT_ACTION_LABELS[log.action]}: ${log.targetName}`).join(', ')}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={retry}
+                    className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                    disabled={isRetrying}
+                  >
+                    {isRetrying ? '기록 중...' : '다시 기록'}
+                  </button>
+                </div>
+              )}
+              <div className="py-4">
+                {canViewTab ? children : (
+                  <div className="bg-white shadow rounded-lg p-6 text-sm text-gray-500">
+                    {role && USER_ROLE_LABELS[role]} 역할에는 이 메뉴에 접근할 권한이 없습니다.
+                  </div>
+                )}
+              </div>
             </div>
           </div>
         </main>
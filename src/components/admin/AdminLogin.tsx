@@ -1,5 +1,5 @@
 // 어드민 로그인 컴포넌트
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAdminContext } from '../../contexts/AdminContext';
 
@@ -7,37 +7,27 @@ import { useAdminContext } from '../../contexts/AdminContext';
  * 어드민 로그인 페이지 컴포넌트
  */
 const AdminLogin: React.FC = () => {
-  const [adminId, setAdminId] = useState('');
-  const [adminPassword, setAdminPassword] = useState('');
-  const [showPassword, setShowPassword] = useState(false);
-  const { adminLogin, isLoading, error, clearError, isAdmin } = useAdminContext();
+  const { user, hasAdminAccess, adminLogin, adminLogout, isLoading, error, clearError } = useAdminContext();
   const navigate = useNavigate();
 
   /**
    * 로그인 상태 확인 및 리디렉션
    */
   useEffect(() => {
-    // 이미 로그인된 상태라면 관리자 대시보드로 리디렉션
-    if (isAdmin) {
+    // 관리 역할이 있는 계정으로 로그인된 상태라면 관리자 대시보드로 리디렉션
+    if (hasAdminAccess) {
       navigate('/admin/tools');
     }
-  }, [isAdmin, navigate]);
+  }, [hasAdminAccess, navigate]);
 
   /**
-   * 로그인 폼 제출 처리
+   * 로그인 버튼 처리 (역할이 없는 계정으로 로그인되어 있으면 로그아웃 후 다른 계정으로 로그인)
    */
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!adminId.trim() || !adminPassword.trim()) {
-      alert('아이디와 비밀번호를 모두 입력해주세요.');
-      return;
-    }
-
-    const success = await adminLogin(adminId, adminPassword);
-    if (success) {
-      navigate('/admin/tools');
+  const handleLogin = async () => {
+    if (user) {
+      await adminLogout();
     }
+    await adminLogin();
   };
 
   return (
@@ -48,7 +38,7 @@ const AdminLogin: React.FC = () => {
           <p className="text-center text-blue-100 text-sm mt-1">기술 도구 허브 관리 시스템</p>
         </div>
         
-        <form onSubmit={handleSubmit} className="py-8 px-8 space-y-6">
+        <div className="py-8 px-8 space-y-6">
           {error && (
             <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
               <div className="flex">
@@ -78,63 +68,21 @@ const AdminLogin: React.FC = () => {
             </div>
           )}
 
-          <div>
-            <label htmlFor="adminId" className="block text-sm font-medium text-gray-700 mb-1">
-              관리자 아이디
-            </label>
-            <input
-              id="adminId"
-              name="adminId"
-              type="text"
-              required
-              className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-              value={adminId}
-              onChange={(e) => setAdminId(e.target.value)}
-              autoFocus
-            />
-          </div>
-
-          <div>
-            <div className="flex items-center justify-between mb-1">
-              <label htmlFor="adminPassword" className="block text-sm font-medium text-gray-700">
-                비밀번호
-              </label>
+          {user && !hasAdminAccess && !isLoading ? (
+            <div className="bg-amber-50 border border-amber-200 rounded-md p-4 text-sm text-amber-800">
+              <p className="font-medium">{user.email || user.displayName} 계정에는 관리 역할이 없습니다.</p>
+              <p className="mt-1">관리자에게 역할(관리자, 운영자, 편집자) 부여를 요청한 뒤 다시 로그인하세요.</p>
             </div>
-            <div className="relative">
-              <input
-                id="adminPassword"
-                name="adminPassword"
-                type={showPassword ? "text" : "password"}
-                required
-                className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                value={adminPassword}
-                onChange={(e) => setAdminPassword(e.target.value)}
-              />
-              <button
-                type="button"
-                className="absolute inset-y-0 right-0 pr-3 flex items-center text-sm leading-5"
-                onClick={() => setShowPassword(!showPassword)}
-              >
-                {showPassword ? (
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
-                  </svg>
-                ) : (
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                  </svg>
-                )}
-              </button>
-            </div>
-            <p className="mt-2 text-xs text-gray-500">
-              기본 계정은 admin / admin123 입니다.
+          ) : (
+            <p className="text-sm text-gray-600">
+              관리 역할(관리자, 운영자, 편집자)이 부여된 Google 계정으로 로그인하세요. 역할에 따라 사용할 수 있는 메뉴가 다릅니다.
             </p>
-          </div>
+          )}
 
           <div>
             <button
-              type="submit"
+              type="button"
+              onClick={handleLogin}
               className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
               disabled={isLoading}
             >
@@ -144,10 +92,10 @@ const AdminLogin: React.FC = () => {
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
               ) : null}
-              {isLoading ? '로그인 중...' : '로그인'}
+              {isLoading ? '확인 중...' : user && !hasAdminAccess ? '다른 Google 계정으로 로그인' : 'Google 계정으로 로그인'}
             </button>
           </div>
-        </form>
+        </div>
         
         <div className="bg-gray-50 px-8 py-5 border-t border-gray-100">
           <p className="text-xs text-center text-gray-500">
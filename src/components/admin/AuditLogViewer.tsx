@@ -0,0 +1,214 @@
+// 감사 로그 조회 컴포넌트
+import React, { useMemo, useState } from 'react';
+import { AuditAction, AuditTargetType } from '../../../types';
+import { useAuditLogs } from '../../hooks/useAuditLogs';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_TARGET_LABELS,
+  AUDIT_TARGET_TYPES,
+  AuditLogFilter,
+  EMPTY_AUDIT_LOG_FILTER,
+  auditLogsToCsv,
+  filterAuditLogs,
+  getAuditTargetType
+} from '../../utils/auditLog';
+import { downloadCsvFile } from '../../utils/exportImport';
+
+// 한 번에 불러오는 로그 수 ("더 보기"를 누를 때마다 늘어남)
+const PAGE_SIZE = 200;
+
+/**
+ * 어드민 감사 로그 조회 컴포넌트
+ * 최근 관리 작업을 대상 종류, 작업, 기간, 검색어로 걸러 보고 CSV로 내보냅니다.
+ */
+const AuditLogViewer: React.FC = () => {
+  const [maxCount, setMaxCount] = useState(PAGE_SIZE);
+  const [filter, setFilter] = useState<AuditLogFilter>(EMPTY_AUDIT_LOG_FILTER);
+  const { data: logs, isLoading, error } = useAuditLogs(maxCount);
+
+  const filteredLogs = useMemo(() => filterAuditLogs(logs, filter), [logs, filter]);
+
+  // 대상 종류를 고르면 해당 종류의 작업만 선택지로 표시
+  const actionOptions = filter.targetType === 'all'
+    ? AUDIT_ACTIONS
+    : AUDIT_ACTIONS.filter(action => getAuditTargetType(action) === filter.targetType);
+
+  const hasMore = logs.length >= maxCount;
+  const isFiltered = JSON.stringify(filter) !== JSON.stringify(EMPTY_AUDIT_LOG_FILTER);
+
+  const updateFilter = (changes: Partial<AuditLogFilter>) => {
+    setFilter(prev => ({ ...prev, ...changes }));
+  };
+
+  /**
+   * 필터된 로그를 CSV로 내보내기
+   */
+  const handleExportCsv = () => {
+    downloadCsvFile(auditLogsToCsv(filteredLogs), `audit-log-${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 mb-1">감사 로그</h2>
+            <p className="text-sm text-gray-500">
+              관리자 페이지에서 수행한 작업 기록입니다. 기록은 수정하거나 삭제할 수 없습니다.
+            </p>
+          </div>
+          <button
+            onClick={handleExportCsv}
+            disabled={filteredLogs.length === 0}
+            className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            CSV 내보내기 ({filteredLogs.length})
+          </button>
+        </div>
+
+        {/* 필터 */}
+        <div className="grid grid-cols-1 gap-3 mb-4 sm:grid-cols-2 lg:grid-cols-5">
+          <input
+            type="text"
+            value={filter.search}
+            onChange={(e) => updateFilter({ search: e.target.value })}
+            placeholder="대상, 작업자, 변경 내용 검색"
+            className="lg:col-span-2 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <select
+            value={filter.targetType}
+            onChange={(e) => updateFilter({ targetType: e.target.value as AuditTargetType | 'all', action: 'all' })}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            aria-label="대상 종류"
+          >
+            <option value="all">모든 대상</option>
+            {AUDIT_TARGET_TYPES.map(targetType => (
+              <option key={targetType} value={targetType}>{AUDIT_TARGET_LABELS[targetType]}</option>
+            ))}
+          </select>
+          <select
+            value={filter.action}
+            onChange={(e) => updateFilter({ action: e.target.value as AuditAction | 'all' })}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            aria-label="작업"
+          >
+            <option value="all">모든 작업</option>
+            {actionOptions.map(action => (
+              <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+          <div className="flex items-center gap-1">
+            <input
+              type="date"
+              value={filter.from}
+              onChange={(e) => updateFilter({ from: e.target.value })}
+              className="w-full px-2 py-2 text-sm border border-gray-300 rounded-md"
+              aria-label="시작 날짜"
+            />
+            <span className="text-gray-400">~</span>
+            <input
+              type="date"
+              value={filter.to}
+              onChange={(e) => updateFilter({ to: e.target.value })}
+              className="w-full px-2 py-2 text-sm border border-gray-300 rounded-md"
+              aria-label="종료 날짜"
+            />
+          </div>
+        </div>
+
+        {isFiltered && (
+          <div className="mb-3 text-sm text-gray-500">
+            불러온 로그 {logs.length}개 중 {filteredLogs.length}개 표시
+            <button onClick={() => setFilter(EMPTY_AUDIT_LOG_FILTER)} className="ml-2 text-indigo-600 hover:text-indigo-900">
+              필터 초기화
+            </button>
+          </div>
+        )}
+
+        {/* 로그 목록 */}
+        <div className="overflow-hidden rounded-md border border-gray-200">
+          {isLoading && logs.length === 0 ? (
+            <p className="py-12 text-center text-sm text-gray-500">감사 로그를 불러오는 중입니다...</p>
+          ) : error ? (
+            <p className="py-12 text-center text-sm text-red-600">{error}</p>
+          ) : filteredLogs.length === 0 ? (
+            <p className="py-12 text-center text-sm text-gray-500">조건에 맞는 감사 로그가 없습니다.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      시각
+                    </th>
+                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      작업
+                    </th>
+                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      대상
+                    </th>
+                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      변경 내용
+                    </th>
+                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      작업자
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {filteredLogs.map(log => (
+                    <tr key={log.id} className="align-top">
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {log.createdAt.toLocaleString('ko-KR')}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {AUDIT_ACTION_LABELS[log.action] || log.action}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="text-gray-900">{log.targetName}</div>
+                        <div className="text-xs text-gray-400">
+                          {AUDIT_TARGET_LABELS[log.targetType] || log.targetType}
+                          {log.targetId && ` · ${log.targetId}`}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 break-all max-w-md">
+                        {log.before && (
+                          <div className="text-red-700">
+                            <span className="text-xs text-gray-400 mr-1">전</span>{log.before}
+                          </div>
+                        )}
+                        {log.after && (
+                          <div className="text-green-700">
+                            <span className="text-xs text-gray-400 mr-1">후</span>{log.after}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {log.actorId}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {hasMore && (
+          <div className="mt-4 text-center">
+            <button
+              onClick={() => setMaxCount(prev => prev + PAGE_SIZE)}
+              disabled={isLoading}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              {isLoading ? '불러오는 중...' : '이전 로그 더 보기'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogViewer;
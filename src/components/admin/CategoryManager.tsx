@@ -1,29 +1,82 @@
 // 카테고리 관리 컴포넌트
 import React, { useState, useEffect } from 'react';
 import { useToast } from '../../hooks/useToast';
-import { collection, getDocs, doc, setDoc, deleteDoc, getDoc, serverTimestamp, DocumentReference, DocumentData } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
+import { recordAdminAction } from '../../hooks/useAdminAuth';
+import { getRepository } from '../../repositories';
+import { CategoryInput, FirebaseCategory } from '../../../types';
+import {
+  buildCategoryTree,
+  canSetParent,
+  compareCategories,
+  flattenCategoryTree,
+  getDescendantIds
+} from '../../utils/categoryTree';
+import {
+  CategoryOperation,
+  CategoryOperationType,
+  clearPendingCategoryOperation,
+  describeCategoryOperation,
+  loadPendingCategoryOperation
+} from '../../utils/categoryOperations';
+import CategoryOperationDialog from './CategoryOperationDialog';
 
 /**
- * 카테고리 인터페이스
+ * 카테고리 인터페이스 (도구 수, 트리 깊이 포함)
  */
-interface Category {
-  id: string;
-  name: string;
-  count: number;
-  createdAt: Date;
-  updatedAt: Date;
+interface Category extends FirebaseCategory {
+  count: number; // 이 카테고리에 직접 속한 도구 수
+  totalCount: number; // 하위 카테고리 포함 도구 수
+  depth: number;
 }
 
+/**
+ * 새 카테고리 입력 폼 초기값
+ */
+const EMPTY_NEW_CATEGORY = { name: '', parentId: '', icon: '', description: '' };
+
+// 트리 깊이별 들여쓰기 클래스 (깊은 단계는 마지막 값 사용)
+const DEPTH_INDENT_CLASSES = ['', 'pl-6', 'pl-12', 'pl-16', 'pl-20'];
+
+/**
+ * 카테고리 필드를 한 줄 요약으로 변환 (감사 로그용)
+ */
+const summarizeCategory = (category: CategoryInput, categories: readonly FirebaseCategory[]): string =>
+  [
+    `이름: ${category.name}`,
+    `상위: ${categories.find(item => item.id === category.parentId)?.name || '없음'}`,
+    `순서: ${category.order}`,
+    category.icon && `아이콘: ${category.icon}`,
+    category.description && `설명: ${category.description}`
+  ].filter(Boolean).join('; ');
+
+/**
+ * 카테고리 작업 정보 생성 (시작 시각은 실행할 때 기록)
+ */
+const createOperation = (
+  type: CategoryOperationType,
+  category: FirebaseCategory,
+  fields: Partial<Pick<CategoryOperation, 'targetName' | 'changes'>> = {}
+): CategoryOperation => ({
+  type,
+  categoryId: category.id,
+  categoryName: category.name,
+  targetId: null,
+  targetName: null,
+  startedAt: '',
+  ...fields
+});
+
 /**
  * 어드민 카테고리 관리 컴포넌트
  */
 const CategoryManager: React.FC = () => {
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
-  const [newCategoryName, setNewCategoryName] = useState<string>('');
+  const [newCategory, setNewCategory] = useState(EMPTY_NEW_CATEGORY);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [searchTerm, setSearchTerm] = useState<string>('');
+  const [activeOperation, setActiveOperation] = useState<{ operation: CategoryOperation; isResuming: boolean } | null>(null);
+  const [pendingOperation, setPendingOperation] = useState<CategoryOperation | null>(() => loadPendingCategoryOperation());
   const { showSuccess, showError } = useToast();
 
   // 카테고리 목록 로드
@@ -37,38 +90,29 @@ const CategoryManager: React.FC = () => {
   const fetchCategories = async () => {
     try {
       setLoading(true);
-      const categoriesCollection = collection(db, 'categories');
-      const categoriesSnapshot = await getDocs(categoriesCollection);
+      const repository = getRepository();
+      const categoryItems = await repository.categories.list();
       
-      // 도구 컬렉션에서 카테고리별 개수를 계산
-      const toolsCollection = collection(db, 'tools');
-      const toolsSnapshot = await getDocs(toolsCollection);
+      // 도구 목록에서 카테고리별 개수를 계산 (카테고리 작업은 검토 중인 도구도 함께 옮기므로 전체 기준)
+      const tools = await repository.tools.list({ status: 'all' });
       
       const categoryCount: Record<string, number> = {};
-      toolsSnapshot.forEach(doc => {
-        const tool = doc.data();
+      tools.forEach(tool => {
         if (tool.category) {
           categoryCount[tool.category] = (categoryCount[tool.category] || 0) + 1;
         }
       });
       
-      // 카테고리 데이터 변환
-      const categoriesData: Category[] = [];
-      
-      categoriesSnapshot.forEach(doc => {
-        const data = doc.data();
-        categoriesData.push({
-          id: doc.id,
-          name: data.name,
-          count: categoryCount[data.name] || 0,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        });
+      // 트리 순서(상위 → 하위, 같은 상위 안에서는 표시 순서)로 변환
+      const categoriesData: Category[] = flattenCategoryTree(buildCategoryTree(categoryItems)).map(({ category, depth }) => {
+        const descendantIds = getDescendantIds(categoryItems, category.id);
+        const descendantCount = categoryItems
+          .filter(item => descendantIds.has(item.id))
+          .reduce((sum, item) => sum + (categoryCount[item.name] || 0), 0);
+        const count = categoryCount[category.name] || 0;
+        return { ...category, count, totalCount: count + descendantCount, depth };
       });
       
-      // 카테고리 이름 오름차순으로 정렬
-      categoriesData.sort((a, b) => a.name.localeCompare(b.name));
-      
       setCategories(categoriesData);
       setLoading(false);
     } catch (error) {
@@ -84,7 +128,8 @@ const CategoryManager: React.FC = () => {
   const handleAddCategory = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!newCategoryName.trim()) {
+    const name = newCategory.name.trim();
+    if (!name) {
       showError('카테고리 이름을 입력해주세요.');
       return;
     }
@@ -94,7 +139,7 @@ const CategoryManager: React.FC = () => {
       
       // 중복 검사
       const isDuplicate = categories.some(category => 
-        category.name.toLowerCase() === newCategoryName.trim().toLowerCase()
+        category.name.toLowerCase() === name.toLowerCase()
       );
       
       if (isDuplicate) {
@@ -103,19 +148,30 @@ const CategoryManager: React.FC = () => {
         return;
       }
       
-      // 새 카테고리 ID 생성
-      const categoryId = `category_${Date.now()}`;
-      const categoryRef = doc(db, 'categories', categoryId);
+      // 같은 상위 카테고리의 마지막 순서로 추가
+      const parentId = newCategory.parentId || null;
+      const siblingOrders = categories
+        .filter(category => category.parentId === parentId)
+        .map(category => category.order);
       
       // 카테고리 문서 생성
-      await setDoc(categoryRef, {
-        name: newCategoryName.trim(),
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
+      const categoryData: CategoryInput = {
+        name,
+        parentId,
+        order: siblingOrders.length > 0 ? Math.max(...siblingOrders) + 1 : 0,
+        icon: newCategory.icon.trim(),
+        description: newCategory.description.trim()
+      };
+      const categoryId = await getRepository().categories.add(categoryData);
+      await recordAdminAction({
+        action: 'category.create',
+        targetId: categoryId,
+        targetName: name,
+        after: summarizeCategory(categoryData, categories)
       });
       
       // 화면 갱신
-      setNewCategoryName('');
+      setNewCategory(EMPTY_NEW_CATEGORY);
       showSuccess('새 카테고리가 추가되었습니다.');
       fetchCategories();
     } catch (error) {
@@ -140,7 +196,7 @@ const CategoryManager: React.FC = () => {
   };
 
   /**
-   * 카테고리 이름 수정 적용
+   * 카테고리 수정 적용 (이름, 상위 카테고리, 표시 순서, 아이콘, 설명)
    */
   const handleEditSave = async () => {
     if (!editingCategory || !editingCategory.name.trim()) {
@@ -163,37 +219,42 @@ const CategoryManager: React.FC = () => {
         return;
       }
       
-      // 기존 카테고리명 가져오기
-      const categoryRef = doc(db, 'categories', editingCategory.id);
-      const categorySnapshot = await getDoc(categoryRef);
-      const oldCategoryName = categorySnapshot.data()?.name;
+      // 자기 자신이나 하위 카테고리를 상위로 지정하면 순환이 생기므로 막음
+      if (!canSetParent(categories, editingCategory.id, editingCategory.parentId)) {
+        showError('자기 자신이나 하위 카테고리를 상위 카테고리로 지정할 수 없습니다.');
+        setLoading(false);
+        return;
+      }
       
-      // 카테고리 문서 수정
-      await setDoc(categoryRef, {
-        name: editingCategory.name.trim(),
-        updatedAt: serverTimestamp()
-      }, { merge: true });
+      const original = categories.find(category => category.id === editingCategory.id);
+      const newName = editingCategory.name.trim();
+      const changes = {
+        parentId: editingCategory.parentId,
+        order: Number.isFinite(editingCategory.order) ? editingCategory.order : 0,
+        icon: editingCategory.icon.trim(),
+        description: editingCategory.description.trim()
+      };
       
-      // 해당 카테고리를 사용하는 모든 도구 업데이트
-      if (oldCategoryName && oldCategoryName !== editingCategory.name.trim()) {
-        const toolsRef = collection(db, 'tools');
-        const toolsSnapshot = await getDocs(toolsRef);
-        
-        const batch: Promise<void>[] = [];
-        toolsSnapshot.forEach(toolDoc => {
-          const toolData = toolDoc.data();
-          if (toolData.category === oldCategoryName) {
-            batch.push(setDoc(doc(db, 'tools', toolDoc.id), {
-              category: editingCategory.name.trim(),
-              updatedAt: serverTimestamp()
-            }, { merge: true }));
-          }
+      // 이름이 바뀌면 도구의 카테고리도 함께 바꿔야 하므로 영향받는 도구 수를 확인한 뒤 일괄 작업으로 처리
+      if (original && original.name !== newName) {
+        setActiveOperation({
+          operation: createOperation('rename', original, { targetName: newName, changes }),
+          isResuming: false
+        });
+        setLoading(false);
+        return;
+      }
+      
+      // 카테고리 문서 수정
+      await getRepository().categories.update(editingCategory.id, { name: newName, ...changes });
+      if (original) {
+        await recordAdminAction({
+          action: 'category.update',
+          targetId: original.id,
+          targetName: newName,
+          before: summarizeCategory(original, categories),
+          after: summarizeCategory({ name: newName, ...changes }, categories)
         });
-        
-        // 일괄 업데이트 실행
-        if (batch.length > 0) {
-          await Promise.all(batch);
-        }
       }
       
       // 화면 갱신
@@ -208,50 +269,158 @@ const CategoryManager: React.FC = () => {
   };
 
   /**
-   * 카테고리 삭제
+   * 같은 상위 카테고리 안에서 표시 순서 이동 (바로 앞/뒤 카테고리와 순서 교환)
    */
-  const handleDeleteCategory = async (category: Category) => {
-    // 해당 카테고리에 속한 도구가 있는지 확인
-    if (category.count > 0) {
-      const confirmed = window.confirm(
-        `이 카테고리에는 ${category.count}개의 도구가 포함되어 있습니다. 정말 삭제하시겠습니까?`
-      );
-      if (!confirmed) return;
-    } else {
-      const confirmed = window.confirm('이 카테고리를 정말 삭제하시겠습니까?');
-      if (!confirmed) return;
-    }
+  const handleMove = async (category: Category, direction: -1 | 1) => {
+    const siblings = categories
+      .filter(item => item.parentId === category.parentId)
+      .sort(compareCategories);
+    const index = siblings.findIndex(item => item.id === category.id);
+    const target = siblings[index + direction];
+    if (!target) return;
     
     try {
       setLoading(true);
+      const repository = getRepository();
       
-      // 카테고리 문서 삭제
-      await deleteDoc(doc(db, 'categories', category.id));
+      // 순서 값이 같으면 교환해도 바뀌지 않으므로 전체 형제 순서를 다시 매김
+      const reordered = [...siblings];
+      [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+      await Promise.all(reordered
+        .map((item, order) => ({ item, order }))
+        .filter(({ item, order }) => item.order !== order)
+        .map(({ item, order }) => repository.categories.update(item.id, { order }))
+      );
+      await recordAdminAction({
+        action: 'category.reorder',
+        targetId: category.id,
+        targetName: category.name,
+        before: siblings.map(item => item.name).join(', '),
+        after: reordered.map(item => item.name).join(', ')
+      });
       
-      showSuccess('카테고리가 삭제되었습니다.');
       fetchCategories();
     } catch (error) {
-      console.error('카테고리 삭제 오류:', error);
-      showError('카테고리 삭제 중 오류가 발생했습니다.');
+      console.error('카테고리 순서 변경 오류:', error);
+      showError('카테고리 순서 변경 중 오류가 발생했습니다.');
       setLoading(false);
     }
   };
 
-  // 필터링된 카테고리 목록
+  /**
+   * 카테고리 병합 (대상 카테고리는 대화상자에서 선택)
+   */
+  const handleMergeCategory = (category: Category) => {
+    setActiveOperation({ operation: createOperation('merge', category), isResuming: false });
+  };
+
+  /**
+   * 카테고리 삭제 (도구가 있으면 옮길 카테고리를 대화상자에서 선택)
+   */
+  const handleDeleteCategory = (category: Category) => {
+    setActiveOperation({ operation: createOperation('delete', category), isResuming: false });
+  };
+
+  /**
+   * 중단된 카테고리 작업 이어서 실행
+   */
+  const handleResumeOperation = () => {
+    if (pendingOperation) {
+      setActiveOperation({ operation: pendingOperation, isResuming: true });
+    }
+  };
+
+  /**
+   * 중단된 카테고리 작업 기록 삭제
+   */
+  const handleDiscardOperation = () => {
+    if (!window.confirm('중단된 작업 기록을 삭제하시겠습니까? 이미 옮겨진 도구는 되돌리지 않습니다.')) return;
+    clearPendingCategoryOperation();
+    setPendingOperation(null);
+  };
+
+  /**
+   * 카테고리 작업 대화상자 닫기 (실패한 작업은 이어서 실행할 수 있도록 기록을 다시 읽음)
+   */
+  const handleOperationClose = () => {
+    setActiveOperation(null);
+    setPendingOperation(loadPendingCategoryOperation());
+    fetchCategories();
+  };
+
+  /**
+   * 카테고리 작업 완료
+   */
+  const handleOperationCompleted = (operation: CategoryOperation, movedCount: number) => {
+    recordAdminAction({
+      action: `category.${operation.type}`,
+      targetId: operation.categoryId,
+      targetName: operation.categoryName,
+      before: operation.categoryName,
+      after: `${describeCategoryOperation(operation)} (도구 ${movedCount}개)`
+    });
+    setActiveOperation(null);
+    setPendingOperation(null);
+    setEditingCategory(null);
+    showSuccess(`${describeCategoryOperation(operation)} 완료 (도구 ${movedCount}개)`);
+    fetchCategories();
+  };
+
+  // 필터링된 카테고리 목록 (검색 중에는 계층 들여쓰기 없이 표시)
   const filteredCategories = searchTerm
     ? categories.filter(category => 
         category.name.toLowerCase().includes(searchTerm.toLowerCase())
       )
     : categories;
 
+  // 상위 카테고리 선택 옵션 (트리 순서, 깊이만큼 들여쓰기)
+  const renderParentOptions = (excludeId?: string) => {
+    const excludedIds = excludeId
+      ? new Set([excludeId, ...getDescendantIds(categories, excludeId)])
+      : new Set<string>();
+    return categories
+      .filter(category => !excludedIds.has(category.id))
+      .map(category => (
+        <option key={category.id} value={category.id}>
+          {`${'\u00A0\u00A0'.repeat(category.depth)}${category.icon ? `${category.icon} ` : ''}${category.name}`}
+        </option>
+      ));
+  };
+
   return (
     <div className="bg-white shadow rounded-lg overflow-hidden">
       <div className="p-6">
         <h2 className="text-lg font-medium text-gray-900 mb-4">카테고리 관리</h2>
         
+        {/* 중단된 작업 안내 */}
+        {pendingOperation && !activeOperation && (
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-3 rounded-md border border-amber-200 bg-amber-50 px-4 py-3">
+            <p className="text-sm text-amber-800">
+              완료되지 않은 작업이 있습니다: {describeCategoryOperation(pendingOperation)}
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleResumeOperation}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-amber-600 rounded-md hover:bg-amber-700 disabled:opacity-50"
+                disabled={loading}
+              >
+                이어서 실행
+              </button>
+              <button
+                type="button"
+                onClick={handleDiscardOperation}
+                className="px-3 py-1.5 text-sm font-medium text-amber-800 hover:text-amber-900"
+              >
+                기록 삭제
+              </button>
+            </div>
+          </div>
+        )}
+        
         {/* 카테고리 추가 폼 */}
-        <form onSubmit={handleAddCategory} className="mb-6 flex items-end space-x-4">
-          <div className="flex-1">
+        <form onSubmit={handleAddCategory} className="mb-6 grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+          <div className="md:col-span-2">
             <label htmlFor="newCategory" className="block text-sm font-medium text-gray-700 mb-1">
               새 카테고리 이름
             </label>
@@ -260,18 +429,63 @@ const CategoryManager: React.FC = () => {
               id="newCategory"
               className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
               placeholder="새 카테고리 이름을 입력하세요"
-              value={newCategoryName}
-              onChange={(e) => setNewCategoryName(e.target.value)}
+              value={newCategory.name}
+              onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
+              disabled={loading}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="newCategoryParent" className="block text-sm font-medium text-gray-700 mb-1">
+              상위 카테고리
+            </label>
+            <select
+              id="newCategoryParent"
+              className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              value={newCategory.parentId}
+              onChange={(e) => setNewCategory({ ...newCategory, parentId: e.target.value })}
+              disabled={loading}
+            >
+              <option value="">없음 (최상위)</option>
+              {renderParentOptions()}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="newCategoryIcon" className="block text-sm font-medium text-gray-700 mb-1">
+              아이콘
+            </label>
+            <input
+              type="text"
+              id="newCategoryIcon"
+              className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              placeholder="예: 🤖"
+              value={newCategory.icon}
+              onChange={(e) => setNewCategory({ ...newCategory, icon: e.target.value })}
               disabled={loading}
+              maxLength={8}
             />
           </div>
           <button
             type="submit"
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
-            disabled={loading || !newCategoryName.trim()}
+            className="inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            disabled={loading || !newCategory.name.trim()}
           >
             추가
           </button>
+          <div className="md:col-span-6">
+            <label htmlFor="newCategoryDescription" className="block text-sm font-medium text-gray-700 mb-1">
+              설명
+            </label>
+            <input
+              type="text"
+              id="newCategoryDescription"
+              className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              placeholder="카테고리 필터에서 마우스를 올리면 표시됩니다"
+              value={newCategory.description}
+              onChange={(e) => setNewCategory({ ...newCategory, description: e.target.value })}
+              disabled={loading}
+              maxLength={200}
+            />
+          </div>
         </form>
         
         {/* 검색 */}
@@ -331,20 +545,76 @@ const CategoryManager: React.FC = () => {
                 <tbody className="bg-white divide-y divide-gray-200">
                   {filteredCategories.map((category) => (
                     <tr key={category.id}>
-                      <td className="px-6 py-4 whitespace-nowrap">
+                      <td className="px-6 py-4">
                         {editingCategory?.id === category.id ? (
-                          <input
-                            type="text"
-                            className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
-                            value={editingCategory.name}
-                            onChange={(e) => setEditingCategory({ ...editingCategory, name: e.target.value })}
-                          />
+                          <div className="space-y-2 min-w-[16rem]">
+                            <div className="flex gap-2">
+                              <input
+                                type="text"
+                                className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-16 sm:text-sm border-gray-300 rounded-md"
+                                placeholder="아이콘"
+                                value={editingCategory.icon}
+                                onChange={(e) => setEditingCategory({ ...editingCategory, icon: e.target.value })}
+                                maxLength={8}
+                                aria-label="아이콘"
+                              />
+                              <input
+                                type="text"
+                                className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                                value={editingCategory.name}
+                                onChange={(e) => setEditingCategory({ ...editingCategory, name: e.target.value })}
+                                aria-label="카테고리 이름"
+                              />
+                            </div>
+                            <div className="flex gap-2">
+                              <select
+                                className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                                value={editingCategory.parentId || ''}
+                                onChange={(e) => setEditingCategory({ ...editingCategory, parentId: e.target.value || null })}
+                                aria-label="상위 카테고리"
+                              >
+                                <option value="">없음 (최상위)</option>
+                                {renderParentOptions(editingCategory.id)}
+                              </select>
+                              <input
+                                type="number"
+                                className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-20 sm:text-sm border-gray-300 rounded-md"
+                                value={editingCategory.order}
+                                onChange={(e) => setEditingCategory({ ...editingCategory, order: Number.parseInt(e.target.value, 10) || 0 })}
+                                aria-label="표시 순서"
+                                title="표시 순서 (작을수록 앞)"
+                              />
+                            </div>
+                            <input
+                              type="text"
+                              className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                              placeholder="설명"
+                              value={editingCategory.description}
+                              onChange={(e) => setEditingCategory({ ...editingCategory, description: e.target.value })}
+                              maxLength={200}
+                              aria-label="설명"
+                            />
+                          </div>
                         ) : (
-                          <div className="text-sm font-medium text-gray-900">{category.name}</div>
+                          <div className={searchTerm ? '' : DEPTH_INDENT_CLASSES[Math.min(category.depth, DEPTH_INDENT_CLASSES.length - 1)]}>
+                            <div className="text-sm font-medium text-gray-900">
+                              {category.depth > 0 && !searchTerm && <span className="text-gray-300 mr-1">└</span>}
+                              {category.icon && <span className="mr-1">{category.icon}</span>}
+                              {category.name}
+                            </div>
+                            {category.description && (
+                              <div className="text-xs text-gray-500 mt-0.5">{category.description}</div>
+                            )}
+                          </div>
                         )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm text-gray-500">{category.count}</div>
+                        <div className="text-sm text-gray-500">
+                          {category.count}
+                          {category.totalCount !== category.count && (
+                            <span className="ml-1 text-xs text-gray-400">(하위 포함 {category.totalCount})</span>
+                          )}
+                        </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm text-gray-500">
@@ -370,6 +640,24 @@ const CategoryManager: React.FC = () => {
                           </div>
                         ) : (
                           <div className="flex justify-end space-x-2">
+                            <button
+                              onClick={() => handleMove(category, -1)}
+                              className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                              disabled={loading || !!searchTerm}
+                              aria-label={`${category.name} 위로 이동`}
+                              title="위로 이동"
+                            >
+                              ↑
+                            </button>
+                            <button
+                              onClick={() => handleMove(category, 1)}
+                              className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                              disabled={loading || !!searchTerm}
+                              aria-label={`${category.name} 아래로 이동`}
+                              title="아래로 이동"
+                            >
+                              ↓
+                            </button>
                             <button
                               onClick={() => handleEditStart(category)}
                               className="text-indigo-600 hover:text-indigo-900"
@@ -377,6 +665,13 @@ const CategoryManager: React.FC = () => {
                             >
                               수정
                             </button>
+                            <button
+                              onClick={() => handleMergeCategory(category)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                              disabled={loading || categories.length < 2}
+                            >
+                              병합
+                            </button>
                             <button
                               onClick={() => handleDeleteCategory(category)}
                               className="text-red-600 hover:text-red-900"
@@ -395,6 +690,18 @@ const CategoryManager: React.FC = () => {
           )}
         </div>
       </div>
+      
+      {/* 카테고리 일괄 작업 대화상자 */}
+      {activeOperation && (
+        <CategoryOperationDialog
+          operation={activeOperation.operation}
+          categories={categories}
+          isResuming={activeOperation.isResuming}
+          onClose={handleOperationClose}
+          onCompleted={handleOperationCompleted}
+          onError={showError}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,218 @@
+// 카테고리 일괄 작업(이름 변경, 병합, 삭제) 확인 대화상자
+import React, { useEffect, useMemo, useState } from 'react';
+import { FirebaseCategory } from '../../../types';
+import { getAdminActorId } from '../../hooks/useAdminAuth';
+import { buildCategoryTree, flattenCategoryTree } from '../../utils/categoryTree';
+import {
+  CategoryOperation,
+  CategoryOperationPreview,
+  CategoryOperationProgress,
+  describeCategoryOperation,
+  previewCategoryOperation,
+  runCategoryOperation
+} from '../../utils/categoryOperations';
+
+interface CategoryOperationDialogProps {
+  operation: CategoryOperation;
+  categories: FirebaseCategory[];
+  isResuming?: boolean; // 중단된 작업을 이어서 실행하는 경우 대상 변경 불가
+  onClose: () => void;
+  onCompleted: (operation: CategoryOperation, movedCount: number) => void;
+  onError: (message: string) => void;
+}
+
+const DIALOG_TITLES: Record<CategoryOperation['type'], string> = {
+  rename: '카테고리 이름 변경',
+  merge: '카테고리 병합',
+  delete: '카테고리 삭제'
+};
+
+/**
+ * 작업 전 영향받는 도구 수를 미리 보여주고, 실행 중에는 진행률을 표시하는 대화상자
+ */
+const CategoryOperationDialog: React.FC<CategoryOperationDialogProps> = ({
+  operation: initialOperation,
+  categories,
+  isResuming = false,
+  onClose,
+  onCompleted,
+  onError
+}) => {
+  const [operation, setOperation] = useState<CategoryOperation>(initialOperation);
+  const [preview, setPreview] = useState<CategoryOperationPreview | null>(null);
+  const [progress, setProgress] = useState<CategoryOperationProgress | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+
+  // 도구를 옮길 대상 카테고리 선택 옵션 (트리 순서, 작업 대상 카테고리 제외)
+  const targetOptions = useMemo(
+    () => flattenCategoryTree(buildCategoryTree(categories))
+      .filter(({ category }) => category.id !== operation.categoryId),
+    [categories, operation.categoryId]
+  );
+
+  // 대상이 바뀔 때마다 영향받는 도구 수 다시 조회
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+    previewCategoryOperation(categories, operation)
+      .then(result => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch(error => {
+        console.error('카테고리 작업 미리보기 오류:', error);
+        if (!cancelled) onError('영향받는 도구 수를 불러오지 못했습니다.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [categories, operation]);
+
+  const needsTarget = operation.type === 'merge' || (operation.type === 'delete' && (preview?.toolCount || 0) > 0);
+  const canRun = !!preview && !isRunning && (!needsTarget || !!operation.targetName);
+
+  /**
+   * 도구를 옮길 대상 카테고리 선택
+   */
+  const handleTargetChange = (targetId: string) => {
+    const target = categories.find(category => category.id === targetId);
+    setOperation({ ...operation, targetId: target?.id || null, targetName: target?.name || null });
+  };
+
+  /**
+   * 작업 실행
+   */
+  const handleRun = async () => {
+    if (!preview || !canRun) return;
+    try {
+      setIsRunning(true);
+      const movedCount = await runCategoryOperation(
+        { ...operation, startedAt: isResuming ? operation.startedAt : new Date().toISOString() },
+        preview.toolCount,
+        getAdminActorId(),
+        setProgress
+      );
+      onCompleted(operation, movedCount);
+    } catch (error) {
+      console.error('카테고리 작업 오류:', error);
+      onError('작업이 중단되었습니다. 다시 실행하면 남은 도구부터 이어서 처리합니다.');
+      setIsRunning(false);
+    }
+  };
+
+  const progressPercent = progress && progress.totalCount > 0
+    ? Math.round((progress.movedCount / progress.totalCount) * 100)
+    : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md" role="dialog" aria-modal="true" aria-labelledby="category-operation-title">
+        <div className="p-6 space-y-4">
+          <div>
+            <h3 id="category-operation-title" className="text-lg font-semibold text-gray-900">
+              {DIALOG_TITLES[operation.type]}
+            </h3>
+            <p className="mt-1 text-sm text-gray-600">{describeCategoryOperation(operation)}</p>
+          </div>
+
+          {/* 대상 카테고리 선택 */}
+          {operation.type !== 'rename' && (
+            <div>
+              <label htmlFor="categoryOperationTarget" className="block text-sm font-medium text-gray-700 mb-1">
+                {operation.type === 'merge' ? '병합할 대상 카테고리' : '도구를 옮길 카테고리'}
+              </label>
+              <select
+                id="categoryOperationTarget"
+                className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={operation.targetId || ''}
+                onChange={(e) => handleTargetChange(e.target.value)}
+                disabled={isRunning || isResuming}
+              >
+                <option value="">선택하세요</option>
+                {targetOptions.map(({ category, depth }) => (
+                  <option key={category.id} value={category.id}>
+                    {`${'\u00A0\u00A0'.repeat(depth)}${category.icon ? `${category.icon} ` : ''}${category.name}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* 미리보기 */}
+          <div className="rounded-md bg-gray-50 border border-gray-200 p-3 text-sm text-gray-700">
+            {preview ? (
+              <ul className="space-y-1">
+                <li>
+                  {operation.type === 'rename'
+                    ? `카테고리 이름이 바뀌는 도구: ${preview.toolCount}개`
+                    : `옮겨질 도구: ${preview.toolCount}개`}
+                </li>
+                {preview.targetToolCount !== null && (
+                  <li>
+                    대상 카테고리의 도구: {preview.targetToolCount}개 → {preview.targetToolCount + preview.toolCount}개
+                  </li>
+                )}
+                {preview.childCount > 0 && (
+                  <li>
+                    {operation.type === 'merge'
+                      ? `하위 카테고리 ${preview.childCount}개는 대상 카테고리 아래로 이동합니다.`
+                      : `하위 카테고리 ${preview.childCount}개는 한 단계 위로 이동합니다.`}
+                  </li>
+                )}
+                {operation.type === 'delete' && preview.toolCount > 0 && !operation.targetName && (
+                  <li className="text-red-600">도구가 있는 카테고리는 도구를 옮길 카테고리를 선택해야 삭제할 수 있습니다.</li>
+                )}
+              </ul>
+            ) : (
+              <p className="text-gray-500">영향받는 도구 수를 확인하는 중입니다...</p>
+            )}
+          </div>
+
+          {/* 진행률 */}
+          {progress && (
+            <div>
+              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                <span>도구 이동 중</span>
+                <span>{progress.movedCount} / {progress.totalCount}</span>
+              </div>
+              <div
+                className="w-full h-2 bg-gray-200 rounded-full overflow-hidden"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={progress.totalCount}
+                aria-valuenow={progress.movedCount}
+              >
+                <div
+                  className="h-full bg-indigo-600 rounded-full transition-all duration-300"
+                  style={{ width: `${progressPercent}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isRunning}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              {isResuming ? '나중에' : '취소'}
+            </button>
+            <button
+              type="button"
+              onClick={handleRun}
+              disabled={!canRun}
+              className={`px-4 py-2 text-sm font-medium text-white rounded-md disabled:opacity-50 ${
+                operation.type === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'
+              }`}
+            >
+              {isRunning ? '처리 중...' : isResuming ? '이어서 실행' : '실행'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryOperationDialog;
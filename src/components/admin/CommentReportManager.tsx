@@ -0,0 +1,292 @@
+// 댓글 신고 검토 컴포넌트
+import React, { useEffect, useMemo, useState } from 'react';
+import { CommentModerationStatus, FirebaseComment } from '../../../types';
+import { getRepository } from '../../repositories';
+import { useToast } from '../../hooks/useToast';
+import { useCommentReportHistory, useReportedComments } from '../../hooks/useCommentReports';
+import { recordAdminAction } from '../../hooks/useAdminAuth';
+import {
+  COMMENT_MODERATION_STATUS_LABELS,
+  COMMENT_REPORT_HIDE_THRESHOLD,
+  COMMENT_REPORT_REASON_LABELS,
+  summarizeComment
+} from '../../utils/commentModeration';
+
+type ReportTab = 'pending' | 'hidden' | 'restored';
+
+// 탭별 표시 이름과 포함하는 검토 상태 (검토 대기: 관리자가 아직 처리하지 않은 댓글)
+const REPORT_TABS: { id: ReportTab; label: string; statuses: CommentModerationStatus[] }[] = [
+  { id: 'pending', label: '검토 대기', statuses: ['visible', 'autoHidden'] },
+  { id: 'hidden', label: '숨김', statuses: ['hidden'] },
+  { id: 'restored', label: '복원', statuses: ['restored'] }
+];
+
+// 검토 상태 배지 색상
+const STATUS_BADGE_CLASSES: Record<CommentModerationStatus, string> = {
+  visible: 'bg-gray-100 text-gray-800',
+  autoHidden: 'bg-amber-100 text-amber-800',
+  hidden: 'bg-red-100 text-red-800',
+  restored: 'bg-green-100 text-green-800'
+};
+
+/**
+ * 댓글 신고 내역 목록 (행을 펼쳤을 때만 구독)
+ */
+const ReportHistory: React.FC<{ commentId: string }> = ({ commentId }) => {
+  const { data: reports, isLoading, error } = useCommentReportHistory(commentId);
+
+  if (isLoading) {
+    return <p className="text-xs text-gray-500">신고 내역을 불러오는 중입니다...</p>;
+  }
+  if (error) {
+    return <p className="text-xs text-red-600">{error}</p>;
+  }
+  if (reports.length === 0) {
+    return <p className="text-xs text-gray-500">신고 내역이 없습니다.</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {reports.map(report => (
+        <li key={report.id} className="text-xs text-gray-700">
+          <span className="font-medium">{COMMENT_REPORT_REASON_LABELS[report.reason]}</span>
+          {report.detail && <span> · {report.detail}</span>}
+          <span className="text-gray-400"> · {report.reporterId} · {report.createdAt.toLocaleString('ko-KR')}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * 어드민 댓글 신고 검토 컴포넌트
+ * 신고가 접수된 댓글을 신고 수 많은 순으로 보여 주고, 숨김/복원/삭제를 처리합니다.
+ */
+const CommentReportManager: React.FC = () => {
+  const [activeTab, setActiveTab] = useState<ReportTab>('pending');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [busyCommentId, setBusyCommentId] = useState<string | null>(null);
+  const [toolNames, setToolNames] = useState<Record<string, string>>({});
+  const { showSuccess, showError } = useToast();
+  const { data: comments, isLoading, error, moderateComment, removeReportedComment } = useReportedComments();
+
+  const tabComments = useMemo(() => {
+    const statuses = REPORT_TABS.find(tab => tab.id === activeTab)?.statuses || [];
+    return comments.filter(comment => statuses.includes(comment.moderationStatus));
+  }, [comments, activeTab]);
+
+  const tabCounts = useMemo(() => Object.fromEntries(
+    REPORT_TABS.map(tab => [tab.id, comments.filter(comment => tab.statuses.includes(comment.moderationStatus)).length])
+  ) as Record<ReportTab, number>, [comments]);
+
+  // 아직 이름을 모르는 도구만 조회 (삭제된 도구는 ID로 표시)
+  useEffect(() => {
+    const missingIds = [...new Set(comments.map(comment => comment.toolId))].filter(toolId => !(toolId in toolNames));
+    if (missingIds.length === 0) return;
+
+    let isCancelled = false;
+    Promise.all(missingIds.map(async toolId => {
+      try {
+        const tool = await getRepository().tools.get(toolId);
+        return [toolId, tool?.name || toolId] as const;
+      } catch (error) {
+        console.error('❌ 도구 이름 조회 실패:', toolId, error);
+        return [toolId, toolId] as const;
+      }
+    })).then(entries => {
+      if (!isCancelled) {
+        setToolNames(prev => ({ ...prev, ...Object.fromEntries(entries) }));
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [comments, toolNames]);
+
+  /**
+   * 숨김/복원 핸들러
+   */
+  const handleModerate = async (comment: FirebaseComment, status: 'hidden' | 'restored') => {
+    setBusyCommentId(comment.id);
+    try {
+      await moderateComment(comment.id, status);
+      await recordAdminAction({
+        action: status === 'hidden' ? 'comment.hide' : 'comment.restore',
+        targetId: comment.id,
+        targetName: summarizeComment(comment),
+        before: COMMENT_MODERATION_STATUS_LABELS[comment.moderationStatus],
+        after: COMMENT_MODERATION_STATUS_LABELS[status]
+      });
+      showSuccess(status === 'hidden' ? '댓글을 숨겼습니다.' : '댓글을 복원했습니다.');
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setBusyCommentId(null);
+    }
+  };
+
+  /**
+   * 삭제 핸들러 (답글과 신고 내역도 함께 삭제)
+   */
+  const handleRemove = async (comment: FirebaseComment) => {
+    if (!window.confirm('댓글을 삭제하시겠습니까? 답글과 신고 내역도 함께 삭제되며 되돌릴 수 없습니다.')) return;
+
+    setBusyCommentId(comment.id);
+    try {
+      await removeReportedComment(comment);
+      await recordAdminAction({
+        action: 'comment.delete',
+        targetId: comment.id,
+        targetName: summarizeComment(comment),
+        before: `${comment.content} (신고 ${comment.reportCount}건)`
+      });
+      if (expandedId === comment.id) setExpandedId(null);
+      showSuccess('댓글을 삭제했습니다.');
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setBusyCommentId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-6">
+        <div className="mb-4">
+          <h2 className="text-lg font-medium text-gray-900 mb-1">댓글 신고</h2>
+          <p className="text-sm text-gray-500">
+            신고가 {COMMENT_REPORT_HIDE_THRESHOLD}건 이상 쌓인 댓글은 검토 전까지 자동으로 숨겨집니다. 복원한 댓글은 다시 자동 숨김되지 않습니다.
+          </p>
+        </div>
+
+        {/* 상태 탭 */}
+        <div className="flex space-x-4 border-b border-gray-200 mb-4">
+          {REPORT_TABS.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`pb-2 text-sm font-medium border-b-2 ${
+                activeTab === tab.id
+                  ? 'border-indigo-500 text-indigo-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab.label} ({tabCounts[tab.id]})
+            </button>
+          ))}
+        </div>
+
+        {/* 신고된 댓글 목록 */}
+        <div className="overflow-hidden rounded-md border border-gray-200">
+          {isLoading ? (
+            <p className="py-12 text-center text-sm text-gray-500">신고된 댓글을 불러오는 중입니다...</p>
+          ) : error ? (
+            <p className="py-12 text-center text-sm text-red-600">{error}</p>
+          ) : tabComments.length === 0 ? (
+            <p className="py-12 text-center text-sm text-gray-500">해당하는 댓글이 없습니다.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      댓글
+                    </th>
+                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      도구
+                    </th>
+                    <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      신고
+                    </th>
+                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      상태
+                    </th>
+                    <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      작업
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {tabComments.map(comment => {
+                    const isBusy = busyCommentId === comment.id;
+                    const isExpanded = expandedId === comment.id;
+
+                    return (
+                      <React.Fragment key={comment.id}>
+                        <tr className="align-top">
+                          <td className="px-4 py-3 text-sm max-w-md">
+                            <p className="text-gray-900 whitespace-pre-wrap break-words">{comment.content}</p>
+                            <p className="mt-1 text-xs text-gray-400">
+                              {comment.userName} · {comment.createdAt.toLocaleString('ko-KR')}
+                              {comment.parentId && ' · 답글'}
+                            </p>
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
+                            {toolNames[comment.toolId] || '...'}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-right text-sm">
+                            <button
+                              onClick={() => setExpandedId(isExpanded ? null : comment.id)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                              aria-expanded={isExpanded}
+                            >
+                              {comment.reportCount}건 {isExpanded ? '▲' : '▼'}
+                            </button>
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm">
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_BADGE_CLASSES[comment.moderationStatus]}`}>
+                              {COMMENT_MODERATION_STATUS_LABELS[comment.moderationStatus]}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-medium">
+                            <div className="flex justify-end space-x-2">
+                              {comment.moderationStatus !== 'hidden' && (
+                                <button
+                                  onClick={() => handleModerate(comment, 'hidden')}
+                                  disabled={isBusy}
+                                  className="text-amber-600 hover:text-amber-900 disabled:opacity-50"
+                                >
+                                  숨김
+                                </button>
+                              )}
+                              {comment.moderationStatus !== 'restored' && (
+                                <button
+                                  onClick={() => handleModerate(comment, 'restored')}
+                                  disabled={isBusy}
+                                  className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                                >
+                                  복원
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleRemove(comment)}
+                                disabled={isBusy}
+                                className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                              >
+                                삭제
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                        {isExpanded && (
+                          <tr>
+                            <td colSpan={5} className="px-4 py-3 bg-gray-50">
+                              <ReportHistory commentId={comment.id} />
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommentReportManager;
@@ -0,0 +1,225 @@
+// 콘텐츠 필터 설정 컴포넌트
+import React, { useEffect, useMemo, useState } from 'react';
+import { ContentFilterInput } from '../../../types';
+import { useToast } from '../../hooks/useToast';
+import { useContentFilterSettings } from '../../hooks/useContentFilter';
+import { getAdminActorId, recordAdminAction } from '../../hooks/useAdminAuth';
+import {
+  CONTENT_FILTER_LIMITS,
+  checkContent,
+  normalizeBlockedWords,
+  normalizeContentFilterSettings,
+  summarizeContentFilter,
+  toContentFilterInput
+} from '../../utils/contentFilter';
+
+/**
+ * 입력 중인 설정 (금칙어는 한 줄에 하나씩 입력한 문자열)
+ */
+interface ContentFilterDraft extends Omit<ContentFilterInput, 'blockedWords'> {
+  blockedWordsText: string;
+}
+
+const toDraft = (settings: ContentFilterInput): ContentFilterDraft => {
+  const { blockedWords, ...rest } = settings;
+  return { ...rest, blockedWordsText: blockedWords.join('\n') };
+};
+
+/**
+ * 입력값을 저장할 설정으로 변환 (쉼표나 줄바꿈으로 구분, 범위 밖의 숫자는 범위 안으로)
+ */
+const fromDraft = ({ blockedWordsText, ...rest }: ContentFilterDraft): ContentFilterInput =>
+  toContentFilterInput(normalizeContentFilterSettings({
+    ...rest,
+    blockedWords: normalizeBlockedWords(blockedWordsText.split(/[\n,]/))
+  }));
+
+/**
+ * 어드민 콘텐츠 필터 설정 컴포넌트
+ * 금칙어, 링크 수 제한, 반복 게시 차단, 사용자별 작성 수 제한을 설정하고 저장 전에 검사 결과를 미리 확인합니다.
+ */
+const ContentFilterManager: React.FC = () => {
+  const { settings, isLoading, error, saveSettings } = useContentFilterSettings();
+  const [draft, setDraft] = useState<ContentFilterDraft>(() => toDraft(toContentFilterInput(settings)));
+  const [sampleText, setSampleText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { showSuccess, showError } = useToast();
+
+  // 저장된 설정이 바뀌면 입력값을 다시 채움
+  useEffect(() => {
+    setDraft(toDraft(toContentFilterInput(settings)));
+  }, [settings]);
+
+  const nextSettings = useMemo(() => fromDraft(draft), [draft]);
+  const isDirty = JSON.stringify(nextSettings) !== JSON.stringify(toContentFilterInput(settings));
+  const sampleResult = sampleText.trim()
+    ? checkContent(sampleText, { ...settings, ...nextSettings }) || '통과'
+    : null;
+
+  const updateDraft = (changes: Partial<ContentFilterDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  /**
+   * 설정 저장 핸들러
+   */
+  const handleSave = async () => {
+    if (!isDirty || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      await saveSettings(nextSettings, getAdminActorId());
+      await recordAdminAction({
+        action: 'settings.updateContentFilter',
+        targetId: 'contentFilter',
+        targetName: '콘텐츠 필터',
+        before: summarizeContentFilter(toContentFilterInput(settings)),
+        after: summarizeContentFilter(nextSettings)
+      });
+      showSuccess('콘텐츠 필터 설정을 저장했습니다.');
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const numberInputClass = 'mt-1 w-32 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-6 space-y-6">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900 mb-1">콘텐츠 필터</h2>
+          <p className="text-sm text-gray-500">
+            댓글과 검토 대기로 등록하는 도구에 적용됩니다. 관리 역할이 있거나 신뢰할 수 있는 사용자가 바로 공개하는 도구는 검사하지 않습니다.
+          </p>
+          {settings.updatedAt && (
+            <p className="mt-1 text-xs text-gray-400">
+              마지막 수정: {settings.updatedAt.toLocaleString('ko-KR')} ({settings.updatedBy})
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="py-12 text-center text-sm text-gray-500">설정을 불러오는 중입니다...</p>
+        ) : error ? (
+          <p className="py-12 text-center text-sm text-red-600">{error}</p>
+        ) : (
+          <>
+            {/* 금칙어 */}
+            <div>
+              <label htmlFor="blocked-words" className="block text-sm font-medium text-gray-700">
+                금칙어 ({nextSettings.blockedWords.length}/{CONTENT_FILTER_LIMITS.blockedWordCount})
+              </label>
+              <p className="text-xs text-gray-500">
+                한 줄에 하나씩 입력합니다. 대소문자, 공백, 특수문자를 무시하고 비교하므로 "f u c k"나 "f.u.c.k"도 차단됩니다.
+              </p>
+              <textarea
+                id="blocked-words"
+                value={draft.blockedWordsText}
+                onChange={(e) => updateDraft({ blockedWordsText: e.target.value })}
+                rows={8}
+                disabled={isSaving}
+                className="mt-1 shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md font-mono"
+              />
+            </div>
+
+            {/* 링크와 반복 게시 */}
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div>
+                <label htmlFor="max-links" className="block text-sm font-medium text-gray-700">글 하나의 최대 링크 수</label>
+                <input
+                  id="max-links"
+                  type="number"
+                  min={CONTENT_FILTER_LIMITS.maxLinks.min}
+                  max={CONTENT_FILTER_LIMITS.maxLinks.max}
+                  value={draft.maxLinks}
+                  onChange={(e) => updateDraft({ maxLinks: Number(e.target.value) })}
+                  disabled={isSaving}
+                  className={numberInputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="comments-per-minute" className="block text-sm font-medium text-gray-700">사용자당 1분 댓글 수</label>
+                <input
+                  id="comments-per-minute"
+                  type="number"
+                  min={CONTENT_FILTER_LIMITS.commentsPerMinute.min}
+                  max={CONTENT_FILTER_LIMITS.commentsPerMinute.max}
+                  value={draft.commentsPerMinute}
+                  onChange={(e) => updateDraft({ commentsPerMinute: Number(e.target.value) })}
+                  disabled={isSaving}
+                  className={numberInputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="tools-per-day" className="block text-sm font-medium text-gray-700">사용자당 하루 도구 등록 요청 수</label>
+                <input
+                  id="tools-per-day"
+                  type="number"
+                  min={CONTENT_FILTER_LIMITS.toolsPerDay.min}
+                  max={CONTENT_FILTER_LIMITS.toolsPerDay.max}
+                  value={draft.toolsPerDay}
+                  onChange={(e) => updateDraft({ toolsPerDay: Number(e.target.value) })}
+                  disabled={isSaving}
+                  className={numberInputClass}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.blockRepeatedContent}
+                onChange={(e) => updateDraft({ blockRepeatedContent: e.target.checked })}
+                disabled={isSaving}
+                className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+              />
+              최근에 작성한 댓글과 같은 내용의 댓글 차단
+            </label>
+
+            {/* 검사 미리보기 */}
+            <div>
+              <label htmlFor="filter-sample" className="block text-sm font-medium text-gray-700">검사해 보기</label>
+              <input
+                id="filter-sample"
+                type="text"
+                value={sampleText}
+                onChange={(e) => setSampleText(e.target.value)}
+                placeholder="입력 중인 설정으로 검사할 문장"
+                className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              {sampleResult && (
+                <p className={`mt-1 text-xs ${sampleResult === '통과' ? 'text-green-700' : 'text-red-600'}`}>
+                  {sampleResult}
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setDraft(toDraft(toContentFilterInput(settings)))}
+                disabled={!isDirty || isSaving}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                되돌리기
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={!isDirty || isSaving}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {isSaving ? '저장 중...' : '저장'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ContentFilterManager;
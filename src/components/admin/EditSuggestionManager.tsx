@@ -0,0 +1,217 @@
+// 수정 제안 관리 컴포넌트
+import React, { useState } from 'react';
+import { EditSuggestionStatus, FirebaseEditSuggestion, ToolField } from '../../../types';
+import { useToast } from '../../hooks/useToast';
+import { useEditSuggestions } from '../../hooks/useEditSuggestions';
+import { getAdminActorId, recordAdminAction } from '../../hooks/useAdminAuth';
+import { EDIT_SUGGESTION_STATUS_LABELS, formatFieldLabels, getChangedFields } from '../../utils/toolDiff';
+import EditSuggestionReview from '../EditSuggestionReview';
+
+const STATUS_TABS: EditSuggestionStatus[] = ['pending', 'accepted', 'rejected'];
+
+// 상태별 배지 색상
+const STATUS_CLASSES: Record<EditSuggestionStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+};
+
+/**
+ * 어드민 수정 제안 관리 컴포넌트
+ * 모든 도구의 수정 제안을 상태별로 보여 주고, 작성자 대신 검토(반영/부분 반영/거부)하거나 삭제합니다.
+ */
+const EditSuggestionManager: React.FC = () => {
+  const [statusTab, setStatusTab] = useState<EditSuggestionStatus>('pending');
+  const [reviewing, setReviewing] = useState<FirebaseEditSuggestion | null>(null);
+  const [busySuggestionId, setBusySuggestionId] = useState<string | null>(null);
+  const { showSuccess, showError } = useToast();
+  const {
+    data: suggestions,
+    isLoading,
+    acceptSuggestion,
+    rejectSuggestion,
+    removeSuggestion
+  } = useEditSuggestions({ status: statusTab });
+
+  /**
+   * 제안 반영 핸들러
+   */
+  const handleAccept = async (suggestion: FirebaseEditSuggestion, fields: ToolField[]) => {
+    try {
+      await acceptSuggestion(suggestion, fields, getAdminActorId());
+      await recordAdminAction({
+        action: 'editSuggestion.accept',
+        targetId: suggestion.id,
+        targetName: suggestion.toolName,
+        before: EDIT_SUGGESTION_STATUS_LABELS[suggestion.status],
+        after: `반영: ${formatFieldLabels(fields)}`
+      });
+      showSuccess(`"${suggestion.toolName}" 수정 제안을 반영했습니다.`);
+    } catch (error: any) {
+      showError(error.message);
+      throw error;
+    }
+  };
+
+  /**
+   * 제안 거부 핸들러
+   */
+  const handleReject = async (suggestion: FirebaseEditSuggestion, note: string) => {
+    try {
+      await rejectSuggestion(suggestion.id, getAdminActorId(), note);
+      await recordAdminAction({
+        action: 'editSuggestion.reject',
+        targetId: suggestion.id,
+        targetName: suggestion.toolName,
+        before: EDIT_SUGGESTION_STATUS_LABELS[suggestion.status],
+        after: note.trim() ? `${EDIT_SUGGESTION_STATUS_LABELS.rejected} (사유: ${note.trim()})` : EDIT_SUGGESTION_STATUS_LABELS.rejected
+      });
+      showSuccess(`"${suggestion.toolName}" 수정 제안을 거부했습니다.`);
+    } catch (error: any) {
+      showError(error.message);
+      throw error;
+    }
+  };
+
+  /**
+   * 제안 삭제 핸들러
+   */
+  const handleDelete = async (suggestion: FirebaseEditSuggestion) => {
+    if (!window.confirm(`"${suggestion.toolName}" 수정 제안을 삭제하시겠습니까?`)) return;
+
+    setBusySuggestionId(suggestion.id);
+    try {
+      await removeSuggestion(suggestion.id);
+      await recordAdminAction({
+        action: 'editSuggestion.delete',
+        targetId: suggestion.id,
+        targetName: suggestion.toolName,
+        before: `${EDIT_SUGGESTION_STATUS_LABELS[suggestion.status]}, ${suggestion.userName}: ${formatFieldLabels(getChangedFields(suggestion.changes))}`
+      });
+      showSuccess('수정 제안을 삭제했습니다.');
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setBusySuggestionId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-1">수정 제안</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          사용자가 다른 사람이 등록한 도구에 보낸 수정 제안입니다. 도구 작성자도 메인 화면에서 직접 검토할 수 있습니다.
+        </p>
+
+        {/* 상태 탭 */}
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {STATUS_TABS.map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusTab(status)}
+              className={`px-3 py-1 text-sm rounded-full border ${
+                statusTab === status
+                  ? 'bg-indigo-600 text-white border-indigo-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {EDIT_SUGGESTION_STATUS_LABELS[status]}
+              {statusTab === status && !isLoading && ` (${suggestions.length})`}
+            </button>
+          ))}
+        </div>
+
+        {/* 제안 목록 */}
+        <div className="overflow-hidden rounded-md border border-gray-200">
+          {isLoading ? (
+            <p className="py-12 text-center text-sm text-gray-500">수정 제안을 불러오는 중입니다...</p>
+          ) : suggestions.length === 0 ? (
+            <p className="py-12 text-center text-sm text-gray-500">
+              {EDIT_SUGGESTION_STATUS_LABELS[statusTab]} 상태의 수정 제안이 없습니다.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      도구
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      제안 항목
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      제안자
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      제안 시각
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      작업
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {suggestions.map(suggestion => (
+                    <tr key={suggestion.id}>
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{suggestion.toolName}</div>
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_CLASSES[suggestion.status]}`}>
+                          {EDIT_SUGGESTION_STATUS_LABELS[suggestion.status]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {formatFieldLabels(getChangedFields(suggestion.changes))}
+                        {suggestion.status === 'accepted' && (
+                          <div className="text-xs text-green-700">반영: {formatFieldLabels(suggestion.appliedFields)}</div>
+                        )}
+                        {suggestion.message && (
+                          <div className="text-xs text-gray-400 line-clamp-2">{suggestion.message}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {suggestion.userName}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {suggestion.createdAt.toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex justify-end space-x-2">
+                          <button
+                            onClick={() => setReviewing(suggestion)}
+                            className="text-indigo-600 hover:text-indigo-900"
+                          >
+                            {suggestion.status === 'pending' ? '검토' : '보기'}
+                          </button>
+                          <button
+                            onClick={() => handleDelete(suggestion)}
+                            className="text-red-600 hover:text-red-900"
+                            disabled={busySuggestionId === suggestion.id}
+                          >
+                            삭제
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {reviewing && (
+        <EditSuggestionReview
+          suggestion={reviewing}
+          onAccept={(fields) => handleAccept(reviewing, fields)}
+          onReject={(note) => handleReject(reviewing, note)}
+          onClose={() => setReviewing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default EditSuggestionManager;
@@ -0,0 +1,400 @@
+// 링크 점검 결과 관리 컴포넌트
+import React, { useState, useEffect } from 'react';
+import { FirebaseTool, LinkHealth, LinkStatus, ToolInput } from '../../../types';
+import { useToast } from '../../hooks/useToast';
+import { getAdminActorId, recordAdminAction } from '../../hooks/useAdminAuth';
+import { useAdminContext } from '../../contexts/AdminContext';
+import { getRepository } from '../../repositories';
+import EditToolModal from '../../../components/EditToolModal';
+import { LINK_STATUS_LABELS, needsLinkAttention } from '../../utils/linkHealth';
+import { summarizeToolChanges, summarizeToolFields } from '../../utils/auditLog';
+import { mergeToolInput, toToolInput } from '../../utils/toolDiff';
+
+/**
+ * 점검 결과가 있는 도구
+ */
+type CheckedTool = FirebaseTool & { linkHealth: LinkHealth };
+
+type StatusFilter = 'all' | Exclude<LinkStatus, 'ok'>;
+
+const STATUS_FILTERS: StatusFilter[] = ['all', 'broken', 'redirected', 'blocked'];
+
+// 상태별 배지 색상
+const STATUS_CLASSES: Record<LinkStatus, string> = {
+  ok: 'bg-green-100 text-green-800',
+  redirected: 'bg-amber-100 text-amber-800',
+  broken: 'bg-red-100 text-red-800',
+  blocked: 'bg-gray-100 text-gray-700'
+};
+
+/**
+ * 어드민 링크 점검 결과 컴포넌트
+ * scripts/check-links.ts가 기록한 점검 결과 중 확인이 필요한 링크(연결 오류, 주소 이동, 확인 불가)를 보여 주고
+ * 최종 주소 반영, 편집, 삭제, 무시를 바로 처리할 수 있게 합니다.
+ */
+const LinkHealthManager: React.FC = () => {
+  const [tools, setTools] = useState<CheckedTool[]>([]);
+  const [lastCheckedAt, setLastCheckedAt] = useState<Date | null>(null);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [editingTool, setEditingTool] = useState<FirebaseTool | null>(null);
+  const { showSuccess, showError } = useToast();
+  const { hasPermission } = useAdminContext();
+
+  // 점검 결과 로드
+  useEffect(() => {
+    fetchTools();
+  }, []);
+
+  /**
+   * 점검 결과가 있는 도구 목록 조회
+   */
+  const fetchTools = async () => {
+    try {
+      setLoading(true);
+      const repository = getRepository();
+      const [toolItems, categoryItems, tagItems] = await Promise.all([
+        repository.tools.list({ status: 'all' }),
+        repository.categories.list(),
+        repository.tags.list()
+      ]);
+
+      const checkTimes = toolItems.flatMap(tool => tool.linkHealth ? [tool.linkHealth.lastCheckedAt.getTime()] : []);
+      setLastCheckedAt(checkTimes.length > 0 ? new Date(Math.max(...checkTimes)) : null);
+
+      // 연결 오류 > 주소 이동 > 확인 불가 순, 같으면 이름 오름차순
+      const statusOrder: LinkStatus[] = ['broken', 'redirected', 'blocked', 'ok'];
+      setTools(
+        toolItems
+          .filter((tool): tool is CheckedTool => needsLinkAttention(tool.linkHealth))
+          .sort((a, b) =>
+            statusOrder.indexOf(a.linkHealth.status) - statusOrder.indexOf(b.linkHealth.status)
+            || a.name.localeCompare(b.name)
+          )
+      );
+      setCategories(categoryItems.map(category => category.name));
+      setTags(tagItems.map(tag => tag.name));
+      setLoading(false);
+    } catch (error) {
+      console.error('링크 점검 결과 로드 오류:', error);
+      showError('링크 점검 결과를 불러오는 중 오류가 발생했습니다.');
+      setLoading(false);
+    }
+  };
+
+  /**
+   * 이동한 최종 주소를 도구 주소로 반영
+   */
+  const handleApplyFinalUrl = async (tool: CheckedTool) => {
+    if (!tool.linkHealth.finalUrl) return;
+
+    try {
+      setLoading(true);
+      await getRepository().tools.resolveLinkHealth(tool.id, { url: tool.linkHealth.finalUrl, authorId: getAdminActorId() });
+      await recordAdminAction({
+        action: 'tool.applyFinalUrl',
+        targetId: tool.id,
+        targetName: tool.name,
+        before: tool.url,
+        after: tool.linkHealth.finalUrl
+      });
+      showSuccess(`"${tool.name}" 도구의 주소를 변경했습니다.`);
+      fetchTools();
+    } catch (error) {
+      console.error('주소 변경 오류:', error);
+      showError('주소 변경 중 오류가 발생했습니다.');
+      setLoading(false);
+    }
+  };
+
+  /**
+   * 주소가 이동한 모든 도구에 최종 주소 반영
+   */
+  const handleApplyAllFinalUrls = async () => {
+    const targets = tools.filter(tool => tool.linkHealth.status === 'redirected' && tool.linkHealth.finalUrl);
+    const confirmed = window.confirm(`주소가 이동한 도구 ${targets.length}개의 주소를 최종 주소로 변경하시겠습니까?`);
+    if (!confirmed) return;
+
+    try {
+      setLoading(true);
+      const repository = getRepository();
+      const authorId = getAdminActorId();
+      await Promise.all(targets.map(async tool => {
+        await repository.tools.resolveLinkHealth(tool.id, { url: tool.linkHealth.finalUrl!, authorId });
+        await recordAdminAction({
+          action: 'tool.applyFinalUrl',
+          targetId: tool.id,
+          targetName: tool.name,
+          before: tool.url,
+          after: tool.linkHealth.finalUrl
+        });
+      }));
+      showSuccess(`도구 ${targets.length}개의 주소를 변경했습니다.`);
+      fetchTools();
+    } catch (error) {
+      console.error('주소 일괄 변경 오류:', error);
+      showError('주소 일괄 변경 중 오류가 발생했습니다.');
+      fetchTools();
+    }
+  };
+
+  /**
+   * 점검 결과 무시 (다음 점검에서 다시 확인)
+   */
+  const handleDismiss = async (tool: CheckedTool) => {
+    try {
+      setLoading(true);
+      await getRepository().tools.resolveLinkHealth(tool.id);
+      await recordAdminAction({
+        action: 'tool.dismissLinkHealth',
+        targetId: tool.id,
+        targetName: tool.name,
+        before: `${LINK_STATUS_LABELS[tool.linkHealth.status]}: ${tool.url}`
+      });
+      showSuccess(`"${tool.name}" 도구의 점검 결과를 처리 완료로 표시했습니다.`);
+      fetchTools();
+    } catch (error) {
+      console.error('점검 결과 처리 오류:', error);
+      showError('점검 결과 처리 중 오류가 발생했습니다.');
+      setLoading(false);
+    }
+  };
+
+  /**
+   * 도구 삭제
+   */
+  const handleDeleteTool = async (tool: CheckedTool) => {
+    const confirmed = window.confirm(`"${tool.name}" 도구를 정말 삭제하시겠습니까?`);
+    if (!confirmed) return;
+
+    try {
+      setLoading(true);
+      await getRepository().tools.remove(tool.id);
+      await recordAdminAction({
+        action: 'tool.delete',
+        targetId: tool.id,
+        targetName: tool.name,
+        before: summarizeToolFields(toToolInput(tool))
+      });
+      showSuccess(`"${tool.name}" 도구가 삭제되었습니다.`);
+      fetchTools();
+    } catch (error) {
+      console.error('도구 삭제 오류:', error);
+      showError('도구 삭제 중 오류가 발생했습니다.');
+      setLoading(false);
+    }
+  };
+
+  /**
+   * 편집 모달 저장 (주소를 바꿨으면 점검 결과도 처리 완료로 표시)
+   */
+  const handleUpdateTool = async (toolId: string, toolData: ToolInput): Promise<void> => {
+    const repository = getRepository();
+    await repository.tools.update(toolId, toolData, getAdminActorId());
+    if (editingTool && toolData.url !== editingTool.url) {
+      await repository.tools.resolveLinkHealth(toolId);
+    }
+    const changes = editingTool && summarizeToolChanges(toToolInput(editingTool), mergeToolInput(toToolInput(editingTool), toolData));
+    if (changes) {
+      await recordAdminAction({ action: 'tool.update', targetId: toolId, targetName: toolData.name, ...changes });
+    }
+    fetchTools();
+  };
+
+  const filteredTools = statusFilter === 'all'
+    ? tools
+    : tools.filter(tool => tool.linkHealth.status === statusFilter);
+
+  const countByStatus = (status: StatusFilter) =>
+    status === 'all' ? tools.length : tools.filter(tool => tool.linkHealth.status === status).length;
+
+  const redirectedCount = countByStatus('redirected');
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-1">링크 점검</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          {lastCheckedAt
+            ? `마지막 점검: ${lastCheckedAt.toLocaleString()}`
+            : '아직 점검 기록이 없습니다.'}
+          {' '}점검은 <code className="px-1 bg-gray-100 rounded">npm run check-links</code> 스크립트로 실행합니다.
+        </p>
+
+        {/* 상태 필터 */}
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {STATUS_FILTERS.map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-3 py-1 text-sm rounded-full border ${
+                statusFilter === status
+                  ? 'bg-indigo-600 text-white border-indigo-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {status === 'all' ? '전체' : LINK_STATUS_LABELS[status]} ({countByStatus(status)})
+            </button>
+          ))}
+          {redirectedCount > 0 && (
+            <button
+              onClick={handleApplyAllFinalUrls}
+              className="ml-auto px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              disabled={loading}
+            >
+              이동한 주소 모두 반영
+            </button>
+          )}
+        </div>
+
+        {/* 점검 결과 목록 */}
+        <div className="overflow-hidden rounded-md border border-gray-200">
+          {loading ? (
+            <div className="py-12 text-center">
+              <svg className="mx-auto animate-spin h-8 w-8 text-indigo-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              <p className="mt-2 text-sm text-gray-500">점검 결과를 불러오는 중입니다...</p>
+            </div>
+          ) : filteredTools.length === 0 ? (
+            <div className="py-12 text-center">
+              <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <h3 className="mt-2 text-sm font-medium text-gray-900">확인할 링크 없음</h3>
+              <p className="mt-1 text-sm text-gray-500">모든 링크가 정상이거나 아직 점검하지 않았습니다.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      도구
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      상태
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      최종 주소 / 오류
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      응답 시간
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      점검 시각
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      작업
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {filteredTools.map(tool => (
+                    <tr key={tool.id}>
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{tool.name}</div>
+                        <a
+                          href={tool.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-indigo-600 hover:underline break-all"
+                        >
+                          {tool.url}
+                        </a>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_CLASSES[tool.linkHealth.status]}`}>
+                          {LINK_STATUS_LABELS[tool.linkHealth.status]}
+                        </span>
+                        {tool.linkHealth.httpStatus !== null && (
+                          <div className="text-xs text-gray-500 mt-1">HTTP {tool.linkHealth.httpStatus}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500 break-all">
+                        {tool.linkHealth.finalUrl && (
+                          <a
+                            href={tool.linkHealth.finalUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-indigo-600 hover:underline"
+                          >
+                            {tool.linkHealth.finalUrl}
+                          </a>
+                        )}
+                        {tool.linkHealth.error && (
+                          <div className="text-red-600">{tool.linkHealth.error}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {tool.linkHealth.responseTimeMs !== null ? `${tool.linkHealth.responseTimeMs.toLocaleString()}ms` : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {tool.linkHealth.lastCheckedAt.toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex justify-end space-x-2">
+                          {tool.linkHealth.status === 'redirected' && tool.linkHealth.finalUrl && (
+                            <button
+                              onClick={() => handleApplyFinalUrl(tool)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                              disabled={loading}
+                            >
+                              최종 주소로 변경
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setEditingTool(tool)}
+                            className="text-indigo-600 hover:text-indigo-900"
+                            disabled={loading}
+                          >
+                            편집
+                          </button>
+                          <button
+                            onClick={() => handleDismiss(tool)}
+                            className="text-gray-600 hover:text-gray-900"
+                            disabled={loading}
+                          >
+                            무시
+                          </button>
+                          {tool.linkHealth.status === 'broken' && hasPermission('tools.delete') && (
+                            <button
+                              onClick={() => handleDeleteTool(tool)}
+                              className="text-red-600 hover:text-red-900"
+                              disabled={loading}
+                            >
+                              삭제
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* 도구 편집 모달 */}
+      {editingTool && (
+        <EditToolModal
+          isOpen={!!editingTool}
+          onClose={() => setEditingTool(null)}
+          tool={editingTool}
+          onUpdateTool={handleUpdateTool}
+          categories={categories}
+          tags={tags}
+          onSuccess={showSuccess}
+          onError={showError}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LinkHealthManager;
@@ -0,0 +1,361 @@
+// 태그 관리 컴포넌트
+import React, { useState, useEffect } from 'react';
+import { useToast } from '../../hooks/useToast';
+import { getAdminActorId, recordAdminAction } from '../../hooks/useAdminAuth';
+import { getRepository } from '../../repositories';
+import { countTags, normalizeTag, tagKey } from '../../utils/tags';
+
+/**
+ * 태그 인터페이스 (사용 횟수 포함)
+ */
+interface Tag {
+  id: string;
+  name: string;
+  count: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 어드민 태그 관리 컴포넌트
+ * 태그 이름을 바꾸거나 삭제하면 해당 태그를 사용하는 도구도 함께 수정합니다.
+ * 기존 태그 이름으로 바꾸면 두 태그를 하나로 합칩니다.
+ */
+const TagManager: React.FC = () => {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [newTagName, setNewTagName] = useState<string>('');
+  const [editingTag, setEditingTag] = useState<Tag | null>(null);
+  const [searchTerm, setSearchTerm] = useState<string>('');
+  const { showSuccess, showError } = useToast();
+
+  // 태그 목록 로드
+  useEffect(() => {
+    fetchTags();
+  }, []);
+
+  /**
+   * 태그 목록 조회
+   */
+  const fetchTags = async () => {
+    try {
+      setLoading(true);
+      const repository = getRepository();
+      const tagItems = await repository.tags.list();
+
+      // 도구 목록에서 태그별 사용 횟수를 계산 (검토 중인 도구 포함)
+      const tagCounts = countTags(await repository.tools.list({ status: 'all' }));
+
+      const tagsData: Tag[] = tagItems.map(tag => ({
+        ...tag,
+        count: tagCounts.get(tagKey(tag.name)) || 0
+      }));
+
+      // 사용 횟수 내림차순, 같으면 이름 오름차순으로 정렬
+      tagsData.sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+      setTags(tagsData);
+      setLoading(false);
+    } catch (error) {
+      console.error('태그 로드 오류:', error);
+      showError('태그를 불러오는 중 오류가 발생했습니다.');
+      setLoading(false);
+    }
+  };
+
+  /**
+   * 특정 태그를 사용하는 도구의 태그 목록 일괄 수정 (변경 이력과 함께 배치 단위로 커밋)
+   * @param targetName 대상 태그 이름
+   * @param replaceWith 바꿀 태그 이름 (null이면 태그 제거)
+   * @returns 수정된 도구 수
+   */
+  const updateToolsWithTag = (targetName: string, replaceWith: string | null): Promise<number> =>
+    getRepository().tools.replaceTag(targetName, replaceWith, getAdminActorId());
+
+  /**
+   * 새 태그 추가
+   */
+  const handleAddTag = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = normalizeTag(newTagName);
+    if (!name) {
+      showError('태그 이름을 입력해주세요.');
+      return;
+    }
+
+    // 중복 검사 (대소문자 무시)
+    if (tags.some(tag => tagKey(tag.name) === tagKey(name))) {
+      showError('이미 존재하는 태그입니다.');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const tagId = await getRepository().tags.add(name);
+      await recordAdminAction({ action: 'tag.create', targetId: tagId, targetName: name, after: name });
+
+      setNewTagName('');
+      showSuccess('새 태그가 추가되었습니다.');
+      fetchTags();
+    } catch (error) {
+      console.error('태그 추가 오류:', error);
+      showError('태그 추가 중 오류가 발생했습니다.');
+      setLoading(false);
+    }
+  };
+
+  /**
+   * 태그 이름 수정 적용 (기존 태그 이름이면 병합)
+   */
+  const handleEditSave = async () => {
+    if (!editingTag) return;
+
+    const newName = normalizeTag(editingTag.name);
+    if (!newName) {
+      showError('태그 이름을 입력해주세요.');
+      return;
+    }
+
+    const original = tags.find(tag => tag.id === editingTag.id);
+    if (!original) return;
+
+    // 표기가 바뀌지 않았으면 저장하지 않음
+    if (original.name === newName) {
+      setEditingTag(null);
+      return;
+    }
+
+    const mergeTarget = tags.find(tag => tag.id !== original.id && tagKey(tag.name) === tagKey(newName));
+    if (mergeTarget) {
+      const confirmed = window.confirm(
+        `'${mergeTarget.name}' 태그가 이미 있습니다. '${original.name}' 태그를 '${mergeTarget.name}' 태그로 합치시겠습니까?`
+      );
+      if (!confirmed) return;
+    }
+
+    try {
+      setLoading(true);
+      const repository = getRepository();
+      const finalName = mergeTarget ? mergeTarget.name : newName;
+
+      // 도구의 태그를 먼저 바꾼 뒤 태그 문서 수정 (병합이면 기존 문서 삭제)
+      const updatedCount = await updateToolsWithTag(original.name, finalName);
+      if (mergeTarget) {
+        await repository.tags.remove(original.id);
+      } else {
+        await repository.tags.rename(original.id, finalName);
+      }
+
+      console.log(`🏷️ 태그 '${original.name}' → '${finalName}' (도구 ${updatedCount}개 수정)`);
+      await recordAdminAction({
+        action: mergeTarget ? 'tag.merge' : 'tag.rename',
+        targetId: original.id,
+        targetName: original.name,
+        before: original.name,
+        after: `${finalName} (도구 ${updatedCount}개 수정)`
+      });
+      setEditingTag(null);
+      showSuccess(mergeTarget ? '태그를 병합했습니다.' : '태그가 수정되었습니다.');
+      fetchTags();
+    } catch (error) {
+      console.error('태그 수정 오류:', error);
+      showError('태그 수정 중 오류가 발생했습니다.');
+      setLoading(false);
+    }
+  };
+
+  /**
+   * 태그 삭제 (사용 중인 도구에서도 제거)
+   */
+  const handleDeleteTag = async (tag: Tag) => {
+    const confirmed = window.confirm(
+      tag.count > 0
+        ? `이 태그는 ${tag.count}개의 도구에서 사용 중입니다. 삭제하면 해당 도구에서도 제거됩니다. 정말 삭제하시겠습니까?`
+        : '이 태그를 정말 삭제하시겠습니까?'
+    );
+    if (!confirmed) return;
+
+    try {
+      setLoading(true);
+
+      const updatedCount = tag.count > 0 ? await updateToolsWithTag(tag.name, null) : 0;
+      await getRepository().tags.remove(tag.id);
+      await recordAdminAction({
+        action: 'tag.delete',
+        targetId: tag.id,
+        targetName: tag.name,
+        before: tag.name,
+        after: `도구 ${updatedCount}개에서 제거`
+      });
+
+      showSuccess('태그가 삭제되었습니다.');
+      fetchTags();
+    } catch (error) {
+      console.error('태그 삭제 오류:', error);
+      showError('태그 삭제 중 오류가 발생했습니다.');
+      setLoading(false);
+    }
+  };
+
+  // 필터링된 태그 목록
+  const filteredTags = searchTerm
+    ? tags.filter(tag => tagKey(tag.name).includes(tagKey(searchTerm)))
+    : tags;
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">태그 관리</h2>
+
+        {/* 태그 추가 폼 */}
+        <form onSubmit={handleAddTag} className="mb-6 flex items-end space-x-4">
+          <div className="flex-1">
+            <label htmlFor="newTag" className="block text-sm font-medium text-gray-700 mb-1">
+              새 태그 이름
+            </label>
+            <input
+              type="text"
+              id="newTag"
+              className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              placeholder="새 태그 이름을 입력하세요"
+              value={newTagName}
+              onChange={(e) => setNewTagName(e.target.value)}
+              disabled={loading}
+            />
+          </div>
+          <button
+            type="submit"
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            disabled={loading || !newTagName.trim()}
+          >
+            추가
+          </button>
+        </form>
+
+        {/* 검색 */}
+        <div className="mb-4">
+          <label htmlFor="search" className="sr-only">
+            태그 검색
+          </label>
+          <input
+            type="text"
+            id="search"
+            className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+            placeholder="태그 검색..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+
+        {/* 태그 목록 */}
+        <div className="overflow-hidden rounded-md border border-gray-200 mt-4">
+          {loading ? (
+            <div className="py-12 text-center">
+              <svg className="mx-auto animate-spin h-8 w-8 text-indigo-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              <p className="mt-2 text-sm text-gray-500">태그를 불러오는 중입니다...</p>
+            </div>
+          ) : filteredTags.length === 0 ? (
+            <div className="py-12 text-center border-b">
+              <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 20l4-16m2 16l4-16M6 9h14M4 15h14" />
+              </svg>
+              <h3 className="mt-2 text-sm font-medium text-gray-900">태그 없음</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {searchTerm ? '검색 결과가 없습니다.' : '태그를 추가해주세요.'}
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      태그 이름
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      사용 도구 수
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      생성일
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      작업
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {filteredTags.map((tag) => (
+                    <tr key={tag.id}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {editingTag?.id === tag.id ? (
+                          <input
+                            type="text"
+                            className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                            value={editingTag.name}
+                            onChange={(e) => setEditingTag({ ...editingTag, name: e.target.value })}
+                          />
+                        ) : (
+                          <div className="text-sm font-medium text-gray-900">#{tag.name}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-500">{tag.count}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-500">
+                          {new Date(tag.createdAt).toLocaleDateString()}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        {editingTag?.id === tag.id ? (
+                          <div className="flex justify-end space-x-2">
+                            <button
+                              onClick={handleEditSave}
+                              className="text-indigo-600 hover:text-indigo-900"
+                              disabled={loading}
+                            >
+                              저장
+                            </button>
+                            <button
+                              onClick={() => setEditingTag(null)}
+                              className="text-gray-600 hover:text-gray-900"
+                            >
+                              취소
+                            </button>
+                          </div>
+                        ) : (
+                          <div className="flex justify-end space-x-2">
+                            <button
+                              onClick={() => setEditingTag({ ...tag })}
+                              className="text-indigo-600 hover:text-indigo-900"
+                              disabled={loading}
+                            >
+                              수정
+                            </button>
+                            <button
+                              onClick={() => handleDeleteTag(tag)}
+                              className="text-red-600 hover:text-red-900"
+                              disabled={loading}
+                            >
+                              삭제
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagManager;
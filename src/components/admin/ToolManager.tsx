@@ -2,11 +2,19 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { collection, getDocs, doc, getDoc, deleteDoc, query, orderBy, where } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
-import { FirebaseTool, ToolInput } from '../../../types';
+import { FirebaseTool, FirebaseToolRevision, ToolInput } from '../../../types';
 import { useToast } from '../../hooks/useToast';
 import { useTools } from '../../hooks/useTools';
+import { getAdminActorId, recordAdminAction } from '../../hooks/useAdminAuth';
+import { useAdminContext } from '../../contexts/AdminContext';
 import EditToolModal from '../../../components/EditToolModal';
+import ToolReviewQueue from './ToolReviewQueue';
+import ToolHistoryModal from '../ToolHistoryModal';
 import { exportToolsToJson, downloadJsonFile, parseToolsFromJson, importToolsToFirebase } from '../../utils/exportImport';
+import { formatDuplicateReasons } from '../../utils/duplicates';
+import { getRepository } from '../../repositories';
+import { summarizeToolChanges, summarizeToolFields } from '../../utils/auditLog';
+import { mergeToolInput, toToolInput } from '../../utils/toolDiff';
 
 /**
  * 도구 관리 페이지 컴포넌트
@@ -18,11 +26,13 @@ const ToolManager: React.FC = () => {
   const [selectedCategory, setSelectedCategory] = useState<string>('전체');
   const [isEditModalOpen, setIsEditModalOpen] = useState<boolean>(false);
   const [selectedTool, setSelectedTool] = useState<FirebaseTool | null>(null);
+  const [historyTool, setHistoryTool] = useState<FirebaseTool | null>(null);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [isImporting, setIsImporting] = useState<boolean>(false);
   const [importMode, setImportMode] = useState<'append' | 'replace'>('append');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { showSuccess, showError } = useToast();
+  const { hasPermission } = useAdminContext();
 
   // useTools 훅을 사용하여 도구 데이터 및 카테고리 가져오기
   const { 
@@ -30,17 +40,45 @@ const ToolManager: React.FC = () => {
     isLoading: toolsLoading, 
     error: toolsError, 
     categories, 
+    tags,
     deleteTool: originalDeleteTool,
     updateTool: originalUpdateTool
   } = useTools(selectedCategory);
 
-  // 모달 컴포넌트와 호환되는 함수 시그니처로 변환
+  // 모달 컴포넌트와 호환되는 함수 시그니처로 변환 (작업 후 감사 로그 기록)
   const updateTool = async (toolId: string, toolData: ToolInput): Promise<void> => {
-    return originalUpdateTool(toolId, toolData, 'admin');
+    const tool = tools.find(item => item.id === toolId);
+    await originalUpdateTool(toolId, toolData, getAdminActorId());
+    const changes = tool && summarizeToolChanges(toToolInput(tool), mergeToolInput(toToolInput(tool), toolData));
+    if (changes) {
+      await recordAdminAction({ action: 'tool.update', targetId: toolId, targetName: toolData.name, ...changes });
+    }
   };
 
   const deleteTool = async (toolId: string): Promise<void> => {
-    return originalDeleteTool(toolId, 'admin');
+    const tool = tools.find(item => item.id === toolId);
+    await originalDeleteTool(toolId, getAdminActorId());
+    await recordAdminAction({
+      action: 'tool.delete',
+      targetId: toolId,
+      targetName: tool?.name || toolId,
+      before: tool ? summarizeToolFields(toToolInput(tool)) : null
+    });
+  };
+
+  /**
+   * 변경 이력 되돌리기 감사 로그 기록
+   * @param tool 되돌리기 전 도구 (되돌리기 버튼을 누른 시점의 목록 값)
+   */
+  const handleToolReverted = (tool: FirebaseTool, revision: FirebaseToolRevision) => {
+    const changes = summarizeToolChanges(toToolInput(tool), revision.fields);
+    recordAdminAction({
+      action: 'tool.revert',
+      targetId: tool.id,
+      targetName: revision.fields.name,
+      before: changes?.before ?? null,
+      after: `${revision.createdAt.toLocaleString('ko-KR')} 시점으로 되돌림${changes ? ` (${changes.after})` : ''}`
+    });
   };
 
   // 페이지 크기
@@ -117,7 +155,9 @@ const ToolManager: React.FC = () => {
     reader.onload = async (e) => {
       try {
         const jsonString = e.target?.result as string;
-        const { validTools, invalidEntries } = parseToolsFromJson(jsonString);
+        // 교체 모드는 기존 도구를 모두 삭제하므로 파일 안의 중복만 검사 (검토 중인 도구도 비교 대상)
+        const existingTools = importMode === 'append' ? await getRepository().tools.list({ status: 'all' }) : [];
+        const { validTools, invalidEntries, duplicates } = parseToolsFromJson(jsonString, existingTools);
         
         if (validTools.length === 0) {
           showError('유효한 도구 데이터가 없습니다.');
@@ -128,24 +168,61 @@ const ToolManager: React.FC = () => {
           console.warn('유효하지 않은 항목이 있습니다:', invalidEntries);
         }
         
+        if (duplicates.length > 0) {
+          console.warn('중복으로 의심되는 항목이 있습니다:', duplicates);
+        }
+        
         const importConfirmed = window.confirm(
           `${validTools.length}개의 도구를 가져오시겠습니까?` +
           (invalidEntries.length > 0 ? `\n(유효하지 않은 항목 ${invalidEntries.length}개는 건너뜁니다)` : '') +
           `\n\n가져오기 모드: ${importMode === 'append' ? '추가' : '교체'}`
         );
         
-        if (importConfirmed) {
-          setIsImporting(true);
-          const result = await importToolsToFirebase(validTools, 'admin', importMode);
-          showSuccess(
-            `도구 가져오기가 완료되었습니다. ` +
-            `성공: ${result.success}개, 실패: ${result.failed}개`
+        if (!importConfirmed) return;
+        
+        // 중복 의심 항목은 목록을 보여 주고 함께 가져올지 확인
+        let toolsToImport = validTools;
+        if (duplicates.length > 0) {
+          const preview = duplicates.slice(0, 10).map(({ tool, matches }) =>
+            `- ${tool.name} → ${matches.map(match => `${match.tool.name} (${formatDuplicateReasons(match.reasons)})`).join(', ')}`
+          ).join('\n');
+          const includeDuplicates = window.confirm(
+            `중복으로 의심되는 항목이 ${duplicates.length}개 있습니다.\n\n${preview}` +
+            (duplicates.length > 10 ? `\n...외 ${duplicates.length - 10}개` : '') +
+            '\n\n중복 의심 항목도 함께 가져오시겠습니까? (취소하면 건너뜁니다)'
           );
-          setIsImporting(false);
-          // 파일 입력 초기화
+          if (!includeDuplicates) {
+            const duplicateTools = new Set(duplicates.map(duplicate => duplicate.tool));
+            toolsToImport = validTools.filter(tool => !duplicateTools.has(tool));
+          }
+        }
+        
+        if (toolsToImport.length === 0) {
+          showError('중복 의심 항목을 건너뛰어 가져올 도구가 없습니다.');
           if (fileInputRef.current) {
             fileInputRef.current.value = '';
           }
+          return;
+        }
+        
+        setIsImporting(true);
+        const replacedCount = importMode === 'replace' ? await getRepository().tools.count({ status: 'all' }) : 0;
+        const result = await importToolsToFirebase(toolsToImport, getAdminActorId(), importMode);
+        await recordAdminAction({
+          action: 'tool.import',
+          targetId: null,
+          targetName: file.name,
+          before: importMode === 'replace' ? `기존 도구 ${replacedCount}개 삭제` : null,
+          after: `${importMode === 'append' ? '추가' : '교체'} 모드, 성공 ${result.success}개, 실패 ${result.failed}개`
+        });
+        showSuccess(
+          `도구 가져오기가 완료되었습니다. ` +
+          `성공: ${result.success}개, 실패: ${result.failed}개`
+        );
+        setIsImporting(false);
+        // 파일 입력 초기화
+        if (fileInputRef.current) {
+          fileInputRef.current.value = '';
         }
       } catch (error) {
         console.error('파일 처리 오류:', error);
@@ -200,47 +277,53 @@ const ToolManager: React.FC = () => {
             JSON 내보내기
           </button>
           
-          <div className="flex items-center space-x-2">
-            <div className="relative">
-              <input
-                type="file"
-                accept=".json"
-                id="fileInput"
-                ref={fileInputRef}
-                onChange={handleFileSelect}
-                className="hidden"
-                disabled={loading || isImporting}
-              />
-              <button
-                onClick={() => fileInputRef.current?.click()}
+          {/* 가져오기는 관리자만 가능 (교체 모드는 모든 도구를 삭제) */}
+          {hasPermission('tools.import') && (
+            <div className="flex items-center space-x-2">
+              <div className="relative">
+                <input
+                  type="file"
+                  accept=".json"
+                  id="fileInput"
+                  ref={fileInputRef}
+                  onChange={handleFileSelect}
+                  className="hidden"
+                  disabled={loading || isImporting}
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={loading || isImporting}
+                  className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-green-300 flex items-center"
+                >
+                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 17H5a2 2 0 01-2-2V5a2 2 0 012-2h14a2 2 0 012 2v10a2 2 0 01-2 2h-3m-1-4l-3 3m0 0l-3-3m3 3V7"></path>
+                  </svg>
+                  JSON 가져오기
+                  {isImporting && (
+                    <svg className="ml-2 animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                  )}
+                </button>
+              </div>
+            
+              <select
+                value={importMode}
+                onChange={(e) => setImportMode(e.target.value as 'append' | 'replace')}
+                className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm border-gray-300 rounded-md"
                 disabled={loading || isImporting}
-                className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-green-300 flex items-center"
               >
-                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 17H5a2 2 0 01-2-2V5a2 2 0 012-2h14a2 2 0 012 2v10a2 2 0 01-2 2h-3m-1-4l-3 3m0 0l-3-3m3 3V7"></path>
-                </svg>
-                JSON 가져오기
-                {isImporting && (
-                  <svg className="ml-2 animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                )}
-              </button>
+                <option value="append">추가 모드</option>
+                <option value="replace">교체 모드</option>
+              </select>
             </div>
-            
-            <select
-              value={importMode}
-              onChange={(e) => setImportMode(e.target.value as 'append' | 'replace')}
-              className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm border-gray-300 rounded-md"
-              disabled={loading || isImporting}
-            >
-              <option value="append">추가 모드</option>
-              <option value="replace">교체 모드</option>
-            </select>
-          </div>
+          )}
         </div>
         
+        {/* 등록 요청 검토 대기열 (아래 목록에는 승인된 도구만 표시) */}
+        {hasPermission('review') && <ToolReviewQueue onSuccess={showSuccess} onError={showError} />}
+        
         {/* 검색 및 필터 컨트롤 */}
         <div className="flex flex-wrap gap-4 mb-6">
           <div className="flex-1 min-w-[200px]">
@@ -360,11 +443,19 @@ const ToolManager: React.FC = () => {
                             수정
                           </button>
                           <button
-                            onClick={() => handleDeleteTool(tool)}
-                            className="text-red-600 hover:text-red-900"
+                            onClick={() => setHistoryTool(tool)}
+                            className="text-gray-600 hover:text-gray-900"
                           >
-                            삭제
+                            이력
                           </button>
+                          {hasPermission('tools.delete') && (
+                            <button
+                              onClick={() => handleDeleteTool(tool)}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              삭제
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -478,6 +569,19 @@ const ToolManager: React.FC = () => {
           onUpdateTool={updateTool}
           onDeleteTool={deleteTool}
           categories={categories}
+          tags={tags}
+          onSuccess={showSuccess}
+          onError={showError}
+        />
+      )}
+
+      {/* 변경 이력 모달 */}
+      {historyTool && (
+        <ToolHistoryModal
+          tool={historyTool}
+          currentUserId={getAdminActorId()}
+          onClose={() => setHistoryTool(null)}
+          onReverted={(revision) => handleToolReverted(tools.find(tool => tool.id === historyTool.id) || historyTool, revision)}
           onSuccess={showSuccess}
           onError={showError}
         />
@@ -0,0 +1,285 @@
+// 도구 등록 요청 검토 컴포넌트
+import React, { useEffect, useState } from 'react';
+import { FirebaseTool } from '../../../types';
+import { getRepository } from '../../repositories';
+import { getAdminActorId, recordAdminAction } from '../../hooks/useAdminAuth';
+import { MAX_REJECTION_REASON_LENGTH, TOOL_STATUS_LABELS } from '../../utils/toolStatus';
+import { summarizeToolFields } from '../../utils/auditLog';
+import { toToolInput } from '../../utils/toolDiff';
+import PricingBadge from '../PricingBadge';
+
+interface ToolReviewQueueProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+type QueueTab = 'pending' | 'rejected';
+
+/**
+ * 등록 요청 검토 대기열
+ * 검토 대기 중인 도구를 오래된 순으로 보여 주고 승인하거나 사유와 함께 거부합니다.
+ * 거부된 도구는 별도 탭에서 다시 승인하거나 삭제할 수 있습니다.
+ */
+const ToolReviewQueue: React.FC<ToolReviewQueueProps> = ({ onSuccess, onError }) => {
+  const [tab, setTab] = useState<QueueTab>('pending');
+  const [tools, setTools] = useState<FirebaseTool[]>([]);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyToolId, setBusyToolId] = useState<string | null>(null);
+  const [rejectingToolId, setRejectingToolId] = useState<string | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  // 선택한 탭의 도구 실시간 구독 (오래된 요청부터)
+  useEffect(() => {
+    setIsLoading(true);
+    const unsubscribe = getRepository().tools.subscribe(
+      { status: tab, sortOrder: 'created_asc' },
+      (items) => {
+        setTools(items);
+        if (tab === 'pending') setPendingCount(items.length);
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('❌ 등록 요청 조회 실패:', error);
+        onError('등록 요청을 불러오는 중 오류가 발생했습니다.');
+        setIsLoading(false);
+      }
+    );
+    return () => unsubscribe();
+  }, [tab, onError]);
+
+  // 다른 탭을 보고 있을 때도 대기 건수 표시
+  useEffect(() => {
+    if (tab === 'pending') return;
+    getRepository().tools.count({ status: 'pending' })
+      .then(setPendingCount)
+      .catch(error => console.error('❌ 검토 대기 수 집계 실패:', error));
+  }, [tab]);
+
+  /**
+   * 승인 핸들러
+   */
+  const handleApprove = async (tool: FirebaseTool) => {
+    setBusyToolId(tool.id);
+    try {
+      await getRepository().tools.review(tool.id, 'approved', getAdminActorId());
+      console.log('✅ 도구 승인:', tool.name);
+      // 일반 사용자는 태그를 만들 수 없으므로 승인할 때 새 태그를 목록에 등록
+      try {
+        await getRepository().tags.ensure(tool.tags);
+      } catch (error) {
+        console.error('❌ 태그 등록 실패:', error);
+      }
+      await recordAdminAction({
+        action: 'tool.approve',
+        targetId: tool.id,
+        targetName: tool.name,
+        before: TOOL_STATUS_LABELS[tool.status],
+        after: TOOL_STATUS_LABELS.approved
+      });
+      onSuccess(`"${tool.name}" 도구를 승인했습니다. 이제 목록에 공개됩니다.`);
+    } catch (error) {
+      console.error('❌ 도구 승인 실패:', error);
+      onError(`승인 중 오류가 발생했습니다: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    } finally {
+      setBusyToolId(null);
+    }
+  };
+
+  /**
+   * 거부 사유 입력 열기
+   */
+  const startReject = (tool: FirebaseTool) => {
+    setRejectingToolId(tool.id);
+    setRejectionReason('');
+  };
+
+  /**
+   * 거부 핸들러 (사유 필수)
+   */
+  const handleReject = async (tool: FirebaseTool) => {
+    const reason = rejectionReason.trim();
+    if (!reason) {
+      onError('거부 사유를 입력해주세요. 등록한 사용자에게 표시됩니다.');
+      return;
+    }
+
+    setBusyToolId(tool.id);
+    try {
+      await getRepository().tools.review(tool.id, 'rejected', getAdminActorId(), reason);
+      console.log('🚫 도구 거부:', tool.name, reason);
+      await recordAdminAction({
+        action: 'tool.reject',
+        targetId: tool.id,
+        targetName: tool.name,
+        before: TOOL_STATUS_LABELS[tool.status],
+        after: `${TOOL_STATUS_LABELS.rejected} (사유: ${reason})`
+      });
+      onSuccess(`"${tool.name}" 등록 요청을 거부했습니다.`);
+      setRejectingToolId(null);
+      setRejectionReason('');
+    } catch (error) {
+      console.error('❌ 도구 거부 실패:', error);
+      onError(`거부 중 오류가 발생했습니다: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    } finally {
+      setBusyToolId(null);
+    }
+  };
+
+  /**
+   * 거부된 도구 삭제 핸들러
+   */
+  const handleDelete = async (tool: FirebaseTool) => {
+    if (!window.confirm(`거부된 "${tool.name}" 도구를 삭제하시겠습니까?`)) return;
+
+    setBusyToolId(tool.id);
+    try {
+      await getRepository().tools.remove(tool.id);
+      await recordAdminAction({
+        action: 'tool.delete',
+        targetId: tool.id,
+        targetName: tool.name,
+        before: summarizeToolFields(toToolInput(tool))
+      });
+      onSuccess(`"${tool.name}" 도구를 삭제했습니다.`);
+    } catch (error) {
+      console.error('❌ 거부된 도구 삭제 실패:', error);
+      onError(`삭제 중 오류가 발생했습니다: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    } finally {
+      setBusyToolId(null);
+    }
+  };
+
+  return (
+    <div className="mb-8 rounded-md border border-gray-200">
+      <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-gray-900">등록 요청 검토</h3>
+        <div className="flex gap-2">
+          {(['pending', 'rejected'] as QueueTab[]).map(item => (
+            <button
+              key={item}
+              type="button"
+              onClick={() => setTab(item)}
+              className={`px-3 py-1 text-xs font-medium rounded-full border ${
+                tab === item
+                  ? 'bg-indigo-600 border-indigo-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {item === 'pending' ? `검토 대기 (${pendingCount})` : '거부됨'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="py-6 text-center text-sm text-gray-500">등록 요청을 불러오는 중입니다...</p>
+      ) : tools.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500">
+          {tab === 'pending' ? '검토할 등록 요청이 없습니다.' : '거부된 도구가 없습니다.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {tools.map(tool => (
+            <li key={tool.id} className="px-4 py-4">
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">{tool.name}</span>
+                    <span className="text-xs text-gray-500">{tool.category}</span>
+                    <PricingBadge pricing={tool.pricing} />
+                  </div>
+                  <a
+                    href={tool.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-indigo-600 hover:text-indigo-900 break-all"
+                  >
+                    {tool.url}
+                  </a>
+                  <p className="mt-1 text-sm text-gray-700">{tool.description}</p>
+                  {tool.tags.length > 0 && (
+                    <p className="mt-1 text-xs text-gray-500">{tool.tags.map(tag => `#${tag}`).join(' ')}</p>
+                  )}
+                  <p className="mt-1 text-xs text-gray-400">
+                    {tool.createdAt.toLocaleString('ko-KR')} 요청 · 등록자 {tool.createdBy}
+                  </p>
+                  {tool.status === 'rejected' && (
+                    <p className="mt-1 text-xs text-red-700">
+                      거부 사유: {tool.rejectionReason || '없음'}
+                      {tool.reviewedAt && ` (${tool.reviewedAt.toLocaleString('ko-KR')})`}
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex shrink-0 gap-2 text-sm font-medium">
+                  <button
+                    type="button"
+                    onClick={() => handleApprove(tool)}
+                    disabled={busyToolId === tool.id}
+                    className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-green-300"
+                  >
+                    승인
+                  </button>
+                  {tool.status === 'pending' ? (
+                    <button
+                      type="button"
+                      onClick={() => startReject(tool)}
+                      disabled={busyToolId === tool.id}
+                      className="px-3 py-1 border border-red-300 text-red-600 rounded hover:bg-red-50 disabled:opacity-50"
+                    >
+                      거부
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(tool)}
+                      disabled={busyToolId === tool.id}
+                      className="px-3 py-1 border border-gray-300 text-gray-600 rounded hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      삭제
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {/* 거부 사유 입력 */}
+              {rejectingToolId === tool.id && (
+                <div className="mt-3 flex flex-col gap-2">
+                  <textarea
+                    value={rejectionReason}
+                    onChange={(e) => setRejectionReason(e.target.value)}
+                    maxLength={MAX_REJECTION_REASON_LENGTH}
+                    rows={2}
+                    autoFocus
+                    placeholder="거부 사유 (등록한 사용자에게 표시됩니다)"
+                    className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  />
+                  <div className="flex justify-end gap-2 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => setRejectingToolId(null)}
+                      className="px-3 py-1 text-gray-600 hover:text-gray-900"
+                    >
+                      취소
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleReject(tool)}
+                      disabled={busyToolId === tool.id || !rejectionReason.trim()}
+                      className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:bg-red-300"
+                    >
+                      거부하기
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ToolReviewQueue;
@@ -0,0 +1,348 @@
+// 사용자 관리 컴포넌트
+import React, { useMemo, useState } from 'react';
+import { UserContentKind, UserRole, UserSummary } from '../../../types';
+import { useToast } from '../../hooks/useToast';
+import { useUserSummaries } from '../../hooks/useUsers';
+import { getAdminActorId, recordAdminAction } from '../../hooks/useAdminAuth';
+import { useAdminContext } from '../../contexts/AdminContext';
+import { USER_ROLES, USER_ROLE_LABELS } from '../../utils/roles';
+import {
+  EMPTY_USER_FILTER,
+  USER_CONTENT_KINDS,
+  USER_CONTENT_LABELS,
+  UserFilter,
+  filterUserSummaries
+} from '../../utils/userActivity';
+import UserModerationDialog, { UserModerationRequest } from './UserModerationDialog';
+
+/**
+ * 사용자 표시 이름
+ */
+const getUserLabel = (user: UserSummary): string => user.displayName || user.email || user.uid;
+
+/**
+ * 역할 표시 문자열 (역할이 없으면 '역할 없음')
+ */
+const formatRole = (role: UserRole | null): string => role ? USER_ROLE_LABELS[role] : '역할 없음';
+
+/**
+ * 종류별 개수 요약 (예: "도구 2개, 댓글 5개", 0개인 종류는 생략)
+ */
+const formatContentCounts = (counts: Record<UserContentKind, number>): string =>
+  USER_CONTENT_KINDS
+    .filter(kind => counts[kind] > 0)
+    .map(kind => `${USER_CONTENT_LABELS[kind]} ${counts[kind]}개`)
+    .join(', ') || '없음';
+
+/**
+ * 어드민 사용자 관리 컴포넌트
+ * 사용자별 작성 수와 마지막 활동을 보여 주고, 역할 지정, 게시 정지, 스팸 콘텐츠 일괄 삭제를 처리합니다.
+ */
+const UserManager: React.FC = () => {
+  const [filter, setFilter] = useState<UserFilter>(EMPTY_USER_FILTER);
+  const [moderating, setModerating] = useState<{ user: UserSummary; mode: 'suspend' | 'cleanup' } | null>(null);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const { showSuccess, showError } = useToast();
+  const { user: currentUser, hasPermission } = useAdminContext();
+  const {
+    data: users,
+    isLoading,
+    error,
+    refresh,
+    setUserRole,
+    suspendUser,
+    unsuspendUser,
+    removeUserContent
+  } = useUserSummaries();
+
+  const filteredUsers = useMemo(() => filterUserSummaries(users, filter), [users, filter]);
+  const canAssignRoles = hasPermission('users.role');
+  const isFiltered = JSON.stringify(filter) !== JSON.stringify(EMPTY_USER_FILTER);
+
+  const updateFilter = (changes: Partial<UserFilter>) => {
+    setFilter(prev => ({ ...prev, ...changes }));
+  };
+
+  // 자기 자신과 관리 역할이 있는 사용자는 정지할 수 없음 (역할을 먼저 해제)
+  const canSuspend = (user: UserSummary) => !user.suspension && !user.role && user.uid !== currentUser?.uid;
+
+  /**
+   * 역할 변경 핸들러
+   */
+  const handleRoleChange = async (user: UserSummary, role: UserRole | null) => {
+    if (role === user.role) return;
+    if (!window.confirm(`${getUserLabel(user)}의 역할을 "${formatRole(role)}"(으)로 변경하시겠습니까?`)) return;
+
+    setBusyUserId(user.uid);
+    try {
+      await setUserRole(user.uid, role);
+      await recordAdminAction({
+        action: 'user.setRole',
+        targetId: user.uid,
+        targetName: getUserLabel(user),
+        before: formatRole(user.role),
+        after: formatRole(role)
+      });
+      showSuccess(`${getUserLabel(user)}의 역할을 변경했습니다. 다시 로그인하면 적용됩니다.`);
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  /**
+   * 게시 정지 해제 핸들러
+   */
+  const handleUnsuspend = async (user: UserSummary) => {
+    if (!user.suspension) return;
+    if (!window.confirm(`${getUserLabel(user)}의 게시 정지를 해제하시겠습니까?`)) return;
+
+    setBusyUserId(user.uid);
+    try {
+      await unsuspendUser(user.uid);
+      await recordAdminAction({
+        action: 'user.unsuspend',
+        targetId: user.uid,
+        targetName: getUserLabel(user),
+        before: `사유: ${user.suspension.reason}`
+      });
+      showSuccess(`${getUserLabel(user)}의 게시 정지를 해제했습니다.`);
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  /**
+   * 게시 정지/스팸 정리 대화상자 실행 핸들러
+   * 정지를 먼저 처리해 삭제하는 동안 새 글이 올라오지 않도록 합니다.
+   */
+  const handleModeration = async (user: UserSummary, { kinds, suspendReason }: UserModerationRequest) => {
+    try {
+      if (suspendReason !== null) {
+        await suspendUser(user.uid, suspendReason, getAdminActorId());
+        await recordAdminAction({
+          action: 'user.suspend',
+          targetId: user.uid,
+          targetName: getUserLabel(user),
+          after: `사유: ${suspendReason}`
+        });
+      }
+
+      if (kinds.length > 0) {
+        const removedCounts = await removeUserContent(user.uid, kinds);
+        await recordAdminAction({
+          action: 'user.removeContent',
+          targetId: user.uid,
+          targetName: getUserLabel(user),
+          before: formatContentCounts(removedCounts)
+        });
+        showSuccess(`${getUserLabel(user)}의 콘텐츠를 삭제했습니다. (${formatContentCounts(removedCounts)})`);
+      } else {
+        showSuccess(`${getUserLabel(user)}의 게시를 정지했습니다.`);
+      }
+    } catch (error: any) {
+      showError(error.message);
+      throw error;
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 mb-1">사용자</h2>
+            <p className="text-sm text-gray-500">
+              로그인한 사용자와 콘텐츠를 작성한 사용자입니다. 역할 변경은 사용자가 다시 로그인하면 적용됩니다.
+            </p>
+          </div>
+          <button
+            onClick={refresh}
+            disabled={isLoading}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            새로고침
+          </button>
+        </div>
+
+        {/* 필터 */}
+        <div className="grid grid-cols-1 gap-3 mb-4 sm:grid-cols-4">
+          <input
+            type="text"
+            value={filter.search}
+            onChange={(e) => updateFilter({ search: e.target.value })}
+            placeholder="이름, 이메일, UID 검색"
+            className="sm:col-span-2 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <select
+            value={filter.role}
+            onChange={(e) => updateFilter({ role: e.target.value as UserFilter['role'] })}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            aria-label="역할"
+          >
+            <option value="all">모든 역할</option>
+            {USER_ROLES.map(role => (
+              <option key={role} value={role}>{USER_ROLE_LABELS[role]}</option>
+            ))}
+            <option value="none">역할 없음</option>
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={filter.suspendedOnly}
+              onChange={(e) => updateFilter({ suspendedOnly: e.target.checked })}
+              className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+            />
+            게시 정지된 사용자만
+          </label>
+        </div>
+
+        {isFiltered && (
+          <div className="mb-3 text-sm text-gray-500">
+            사용자 {users.length}명 중 {filteredUsers.length}명 표시
+            <button onClick={() => setFilter(EMPTY_USER_FILTER)} className="ml-2 text-indigo-600 hover:text-indigo-900">
+              필터 초기화
+            </button>
+          </div>
+        )}
+
+        {/* 사용자 목록 */}
+        <div className="overflow-hidden rounded-md border border-gray-200">
+          {isLoading && users.length === 0 ? (
+            <p className="py-12 text-center text-sm text-gray-500">사용자 목록을 불러오는 중입니다...</p>
+          ) : error ? (
+            <p className="py-12 text-center text-sm text-red-600">{error}</p>
+          ) : filteredUsers.length === 0 ? (
+            <p className="py-12 text-center text-sm text-gray-500">조건에 맞는 사용자가 없습니다.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      사용자
+                    </th>
+                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      역할
+                    </th>
+                    {(['tools', 'ratings', 'comments'] as const).map(kind => (
+                      <th key={kind} scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {USER_CONTENT_LABELS[kind]}
+                      </th>
+                    ))}
+                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      마지막 활동
+                    </th>
+                    <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      작업
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {filteredUsers.map(user => {
+                    const isSelf = user.uid === currentUser?.uid;
+                    const isBusy = busyUserId === user.uid;
+
+                    return (
+                      <tr key={user.uid} className="align-top">
+                        <td className="px-4 py-3 text-sm">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-gray-900">{getUserLabel(user)}</span>
+                            {isSelf && <span className="text-xs text-gray-400">(나)</span>}
+                            {user.suspension && (
+                              <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                                게시 정지
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-xs text-gray-400 break-all">
+                            {user.email && user.displayName && `${user.email} · `}{user.uid}
+                          </div>
+                          {user.suspension && (
+                            <div className="text-xs text-red-700">
+                              사유: {user.suspension.reason} ({user.suspension.createdAt.toLocaleDateString('ko-KR')})
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
+                          {canAssignRoles && !isSelf ? (
+                            <select
+                              value={user.role || ''}
+                              onChange={(e) => handleRoleChange(user, (e.target.value || null) as UserRole | null)}
+                              disabled={isBusy}
+                              className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                              aria-label={`${getUserLabel(user)} 역할`}
+                            >
+                              <option value="">역할 없음</option>
+                              {USER_ROLES.map(role => (
+                                <option key={role} value={role}>{USER_ROLE_LABELS[role]}</option>
+                              ))}
+                            </select>
+                          ) : (
+                            formatRole(user.role)
+                          )}
+                        </td>
+                        {(['tools', 'ratings', 'comments'] as const).map(kind => (
+                          <td key={kind} className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-700">
+                            {user.contentCounts[kind]}
+                          </td>
+                        ))}
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                          {user.lastActiveAt ? user.lastActiveAt.toLocaleString('ko-KR') : '활동 없음'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-medium">
+                          <div className="flex justify-end space-x-2">
+                            {user.suspension ? (
+                              <button
+                                onClick={() => handleUnsuspend(user)}
+                                disabled={isBusy}
+                                className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                              >
+                                정지 해제
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => setModerating({ user, mode: 'suspend' })}
+                                disabled={isBusy || !canSuspend(user)}
+                                className="text-amber-600 hover:text-amber-900 disabled:opacity-50"
+                                title={canSuspend(user) ? undefined : '자기 자신과 관리 역할이 있는 사용자는 정지할 수 없습니다.'}
+                              >
+                                게시 정지
+                              </button>
+                            )}
+                            <button
+                              onClick={() => setModerating({ user, mode: 'cleanup' })}
+                              disabled={isBusy || isSelf}
+                              className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                            >
+                              스팸 정리
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {moderating && (
+        <UserModerationDialog
+          user={moderating.user}
+          mode={moderating.mode}
+          canSuspend={canSuspend(moderating.user)}
+          onClose={() => setModerating(null)}
+          onSubmit={(request) => handleModeration(moderating.user, request)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default UserManager;
@@ -0,0 +1,155 @@
+// 사용자 게시 정지 및 작성 콘텐츠 일괄 삭제 대화상자
+import React, { useState } from 'react';
+import { UserContentKind, UserSummary } from '../../../types';
+import { USER_CONTENT_KINDS, USER_CONTENT_LABELS } from '../../utils/userActivity';
+
+/**
+ * 대화상자에서 선택한 작업
+ */
+export interface UserModerationRequest {
+  kinds: UserContentKind[]; // 삭제할 콘텐츠 종류
+  suspendReason: string | null; // 게시 정지 사유 (null이면 정지하지 않음)
+}
+
+interface UserModerationDialogProps {
+  user: UserSummary;
+  mode: 'suspend' | 'cleanup'; // suspend: 게시 정지, cleanup: 스팸 정리 (작성 콘텐츠가 있는 종류를 모두 선택)
+  canSuspend: boolean; // 이미 정지되었거나 관리 역할이 있으면 false
+  onClose: () => void;
+  onSubmit: (request: UserModerationRequest) => Promise<void>;
+}
+
+/**
+ * 게시 정지 사유와 삭제할 콘텐츠 종류를 고르는 대화상자
+ * 스팸 정리는 콘텐츠 삭제와 게시 정지를 한 번에 처리할 수 있습니다.
+ */
+const UserModerationDialog: React.FC<UserModerationDialogProps> = ({ user, mode, canSuspend, onClose, onSubmit }) => {
+  const [kinds, setKinds] = useState<UserContentKind[]>(
+    mode === 'cleanup' ? USER_CONTENT_KINDS.filter(kind => user.contentCounts[kind] > 0) : []
+  );
+  const [shouldSuspend, setShouldSuspend] = useState(canSuspend);
+  const [reason, setReason] = useState(mode === 'cleanup' ? '스팸 게시' : '');
+  const [isRunning, setIsRunning] = useState(false);
+
+  const removedCount = kinds.reduce((total, kind) => total + user.contentCounts[kind], 0);
+  const canRun = !isRunning
+    && (kinds.length > 0 || shouldSuspend)
+    && (!shouldSuspend || reason.trim().length > 0);
+
+  /**
+   * 콘텐츠 종류 선택 토글
+   */
+  const toggleKind = (kind: UserContentKind) => {
+    setKinds(prev => prev.includes(kind) ? prev.filter(item => item !== kind) : [...prev, kind]);
+  };
+
+  /**
+   * 작업 실행 (실패하면 대화상자를 닫지 않음)
+   */
+  const handleRun = async () => {
+    if (!canRun) return;
+    if (removedCount > 0 && !window.confirm(`콘텐츠 ${removedCount}개를 삭제합니다. 삭제한 콘텐츠는 되돌릴 수 없습니다.`)) return;
+
+    setIsRunning(true);
+    try {
+      await onSubmit({ kinds, suspendReason: shouldSuspend ? reason.trim() : null });
+      onClose();
+    } catch {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md" role="dialog" aria-modal="true" aria-labelledby="user-moderation-title">
+        <div className="p-6 space-y-4">
+          <div>
+            <h3 id="user-moderation-title" className="text-lg font-semibold text-gray-900">
+              {mode === 'cleanup' ? '스팸 정리' : '게시 정지'}
+            </h3>
+            <p className="mt-1 text-sm text-gray-600">
+              {user.displayName || user.email || user.uid}
+              {user.email && user.displayName && <span className="text-gray-400"> · {user.email}</span>}
+            </p>
+          </div>
+
+          {/* 삭제할 콘텐츠 */}
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">삭제할 작성 콘텐츠</legend>
+            <div className="grid grid-cols-2 gap-2">
+              {USER_CONTENT_KINDS.map(kind => (
+                <label key={kind} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={kinds.includes(kind)}
+                    onChange={() => toggleKind(kind)}
+                    disabled={isRunning || user.contentCounts[kind] === 0}
+                    className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                  />
+                  {USER_CONTENT_LABELS[kind]} {user.contentCounts[kind]}개
+                </label>
+              ))}
+            </div>
+            {kinds.includes('tools') && (
+              <p className="mt-2 text-xs text-amber-700">
+                도구를 삭제하면 다른 사용자가 남긴 평점, 댓글, 북마크도 함께 삭제됩니다.
+              </p>
+            )}
+          </fieldset>
+
+          {/* 게시 정지 */}
+          {canSuspend ? (
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={shouldSuspend}
+                  onChange={(e) => setShouldSuspend(e.target.checked)}
+                  disabled={isRunning}
+                  className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                />
+                게시 정지 (도구 등록, 평점, 댓글, 수정 제안 작성 불가)
+              </label>
+              {shouldSuspend && (
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  maxLength={500}
+                  rows={2}
+                  placeholder="정지 사유 (사용자에게 표시됩니다)"
+                  disabled={isRunning}
+                  className="mt-2 shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                />
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">
+              {user.suspension ? '이미 게시가 정지된 사용자입니다.' : '관리 역할이 있는 사용자는 역할을 해제한 뒤 정지할 수 있습니다.'}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isRunning}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              취소
+            </button>
+            <button
+              type="button"
+              onClick={handleRun}
+              disabled={!canRun}
+              className="px-4 py-2 text-sm font-medium text-white rounded-md bg-red-600 hover:bg-red-700 disabled:opacity-50"
+            >
+              {isRunning ? '처리 중...' : '실행'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserModerationDialog;
@@ -1,15 +1,22 @@
 // 어드민 인증 상태 전역 관리 Context
 import React, { createContext, useContext, ReactNode } from 'react';
 import { useAdminAuth } from '../hooks/useAdminAuth';
+import { AuthProvider } from './AuthContext';
+import { AuthUser } from '../hooks/useAuth';
+import { UserRole } from '../../types';
+import { AdminPermission } from '../utils/roles';
 
 /**
  * 어드민 컨텍스트 타입 정의
  */
 interface AdminContextType {
-  isAdmin: boolean;
+  user: AuthUser | null;
+  role: UserRole | null; // 관리 역할 (없으면 관리자 페이지 접근 불가)
+  hasAdminAccess: boolean;
+  hasPermission: (permission: AdminPermission) => boolean;
   isLoading: boolean;
   error: string | null;
-  adminLogin: (id: string, password: string) => Promise<boolean>;
+  adminLogin: () => Promise<void>;
   adminLogout: () => Promise<void>;
   clearError: () => void;
 }
@@ -27,10 +34,9 @@ interface AdminProviderProps {
 }
 
 /**
- * 전역 어드민 인증 상태를 제공하는 Provider 컴포넌트
- * @param children 자식 컴포넌트들
+ * 로그인 사용자의 관리 역할을 제공하는 내부 Provider
  */
-export const AdminProvider: React.FC<AdminProviderProps> = ({ children }) => {
+const AdminRoleProvider: React.FC<AdminProviderProps> = ({ children }) => {
   const adminData = useAdminAuth();
 
   return (
@@ -40,6 +46,19 @@ export const AdminProvider: React.FC<AdminProviderProps> = ({ children }) => {
   );
 };
 
+/**
+ * 전역 어드민 인증 상태를 제공하는 Provider 컴포넌트
+ * 관리 역할은 Firebase 로그인 정보에서 읽으므로 AuthProvider로 함께 감쌉니다.
+ * @param children 자식 컴포넌트들
+ */
+export const AdminProvider: React.FC<AdminProviderProps> = ({ children }) => (
+  <AuthProvider>
+    <AdminRoleProvider>
+      {children}
+    </AdminRoleProvider>
+  </AuthProvider>
+);
+
 /**
  * AdminContext를 사용하는 커스텀 훅
  * @returns 어드민 인증 상태 및 관련 함수들
@@ -1,14 +1,16 @@
 // 인증 상태 전역 관리 Context
 import React, { createContext, useContext, ReactNode } from 'react';
-import { User } from 'firebase/auth';
-import { useAuth } from '../hooks/useAuth';
+import { useAuth, AuthUser } from '../hooks/useAuth';
+import { UserRole } from '../../types';
 
 /**
  * 인증 컨텍스트 타입 정의
  */
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   isAuthenticated: boolean;
+  isTrusted: boolean; // 검토 없이 도구를 바로 공개할 수 있는 사용자 (관리 역할 또는 trusted 클레임)
+  role: UserRole | null; // 관리 역할 (role 커스텀 클레임, 일반 사용자는 null)
   isLoading: boolean;
   error: string | null;
   signInWithGoogle: () => Promise<void>;
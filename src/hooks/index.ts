@@ -4,4 +4,11 @@ export { useTools, useTool } from './useTools';
 export { useRatings, useUserRatings } from './useRatings';
 export { useComments, useRecentComments } from './useComments';
 export { useToast } from './useToast';
-export { useBookmarks } from './useBookmarks'; 
\ No newline at end of file
+export { useBookmarks } from './useBookmarks';
+export { useMySubmissions } from './useSubmissions'; // 내 도구 등록 요청 훅
+export { useEditSuggestions, useSubmitEditSuggestion } from './useEditSuggestions'; // 도구 수정 제안 훅
+export { useToolRevisions } from './useToolRevisions'; // 도구 변경 이력 훅
+export { useAuditLogs } from './useAuditLogs'; // 관리 작업 감사 로그 훅
+export { useUserSummaries } from './useUsers'; // 관리자 사용자 관리 훅
+export { useReportedComments, useCommentReportHistory } from './useCommentReports'; // 댓글 신고 검토 훅
+export { useContentFilterSettings } from './useContentFilter'; // 콘텐츠 필터 설정 훅
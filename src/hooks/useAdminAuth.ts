@@ -1,118 +1,184 @@
 // 어드민 인증 관리 훅
-import { useState, useEffect } from 'react';
-import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { getDataSource, getRepository, NewAuditLog } from '../repositories';
+import { useAuthContext } from '../contexts/AuthContext';
+import { UserRole } from '../../types';
+import { getAuditTargetType } from '../utils/auditLog';
+import { AdminPermission, hasPermission } from '../utils/roles';
+import { getSignedInUserId } from './useAuth';
 
-// 어드민 계정 정보 (실제 프로젝트에서는 환경 변수 사용 권장)
-const ADMIN_ID = import.meta.env.VITE_ADMIN_ID || 'admin';
-const ADMIN_PW = import.meta.env.VITE_ADMIN_PW || 'admin123';
+/**
+ * 관리 작업을 수행한 사용자 ID (검토자, 작성자, 감사 로그 작업자 기록용)
+ * 관리자 페이지는 관리 역할이 있는 로그인 사용자만 열 수 있으므로, 로그인 정보가 없으면 오류로 처리합니다.
+ */
+export const getAdminActorId = (): string => {
+  const userId = getSignedInUserId();
+  if (!userId) {
+    throw new Error('관리자 로그인이 필요합니다.');
+  }
+  return userId;
+};
 
 /**
- * 어드민 인증 상태 관리 및 로그인/로그아웃 기능 제공
- * @returns 인증 상태, 로그인/로그아웃 함수, 로딩 상태
+ * 감사 로그에 기록할 관리 작업 정보 (작업자와 대상 종류는 자동으로 채움)
  */
-export function useAdminAuth() {
-  const [isAdmin, setIsAdmin] = useState<boolean>(false);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+export type AdminActionEntry = Omit<NewAuditLog, 'actorId' | 'targetType' | 'before' | 'after'> & {
+  before?: string | null;
+  after?: string | null;
+};
 
-  // 로컬 스토리지에서 어드민 세션 확인
-  useEffect(() => {
-    const checkAdminSession = () => {
-      const adminSession = localStorage.getItem('adminSession');
-      if (adminSession) {
-        try {
-          const session = JSON.parse(adminSession);
-          if (session && session.isAdmin && session.expiresAt > Date.now()) {
-            setIsAdmin(true);
-          } else {
-            // 세션이 만료된 경우 제거
-            localStorage.removeItem('adminSession');
-            setIsAdmin(false);
-          }
-        } catch (e) {
-          localStorage.removeItem('adminSession');
-          setIsAdmin(false);
-        }
-      }
-      setIsLoading(false);
+// 기록하지 못한 감사 로그 (관리자 화면에 알리고 다시 기록할 때까지 보관)
+let failedAdminActions: NewAuditLog[] = [];
+const failedAdminActionListeners = new Set<(logs: NewAuditLog[]) => void>();
+
+/**
+ * 기록하지 못한 감사 로그 목록 변경 알림
+ */
+const setFailedAdminActions = (logs: NewAuditLog[]) => {
+  failedAdminActions = logs;
+  failedAdminActionListeners.forEach(listener => listener(logs));
+};
+
+/**
+ * 관리 작업을 감사 로그에 기록
+ * 관리 작업은 이미 저장된 뒤이므로 로그 기록에 실패해도 작업 실패로 처리하지 않고,
+ * 실패한 로그를 보관해 관리자 화면(AdminLayout)에 알리고 다시 기록할 수 있게 합니다.
+ */
+export const recordAdminAction = async (entry: AdminActionEntry): Promise<void> => {
+  let log: NewAuditLog;
+  try {
+    log = {
+      ...entry,
+      actorId: getAdminActorId(),
+      targetType: getAuditTargetType(entry.action),
+      before: entry.before ?? null,
+      after: entry.after ?? null
     };
+  } catch (error) {
+    console.error('❌ 감사 로그 기록 실패:', error);
+    return;
+  }
+
+  try {
+    await getRepository().auditLogs.add(log);
+    console.log('📝 감사 로그 기록:', entry.action, entry.targetName);
+  } catch (error) {
+    console.error('❌ 감사 로그 기록 실패:', error);
+    setFailedAdminActions([...failedAdminActions, log]);
+  }
+};
+
+/**
+ * 기록하지 못한 감사 로그를 구독하고 다시 기록하는 훅
+ * @returns 실패한 로그 목록, 다시 기록 함수, 다시 기록 중 여부
+ */
+export function useFailedAdminActions() {
+  const [logs, setLogs] = useState<NewAuditLog[]>(failedAdminActions);
+  const [isRetrying, setIsRetrying] = useState(false);
 
-    checkAdminSession();
+  useEffect(() => {
+    failedAdminActionListeners.add(setLogs);
+    setLogs(failedAdminActions);
+    return () => {
+      failedAdminActionListeners.delete(setLogs);
+    };
   }, []);
 
   /**
-   * 어드민 로그인 처리
-   * @param id 어드민 아이디
-   * @param password 어드민 비밀번호
-   * @returns 로그인 성공 여부
+   * 실패한 로그를 순서대로 다시 기록 (다시 실패한 로그는 남겨 둠)
+   * @returns 기록하지 못하고 남은 로그 수
    */
-  const adminLogin = async (id: string, password: string): Promise<boolean> => {
+  const retry = useCallback(async (): Promise<number> => {
+    setIsRetrying(true);
+    const pending = failedAdminActions;
+    setFailedAdminActions([]);
+    const remaining: NewAuditLog[] = [];
     try {
-      setIsLoading(true);
-      setError(null);
-
-      // 어드민 인증 확인
-      if (id === ADMIN_ID && password === ADMIN_PW) {
-        // 어드민 세션 생성 (4시간 유효)
-        const expiresAt = Date.now() + 4 * 60 * 60 * 1000;
-        localStorage.setItem('adminSession', JSON.stringify({
-          isAdmin: true,
-          expiresAt
-        }));
-
-        // 어드민 로그인 기록 저장 (선택적)
+      for (const log of pending) {
         try {
-          const adminLogRef = doc(db, 'adminLogs', `login_${Date.now()}`);
-          await setDoc(adminLogRef, {
-            action: 'login',
-            timestamp: serverTimestamp()
-          });
-        } catch (e) {
-          console.error('관리자 로그 기록 실패:', e);
-          // 로그 기록 실패는 로그인 실패로 이어지지 않음
+          await getRepository().auditLogs.add(log);
+          console.log('📝 감사 로그 다시 기록:', log.action, log.targetName);
+        } catch (error) {
+          console.error('❌ 감사 로그 다시 기록 실패:', error);
+          remaining.push(log);
         }
-
-        setIsAdmin(true);
-        console.log('✅ 어드민 로그인 성공');
-        return true;
       }
+    } finally {
+      setFailedAdminActions([...remaining, ...failedAdminActions]);
+      setIsRetrying(false);
+    }
+    return remaining.length;
+  }, []);
 
-      setError('아이디 또는 비밀번호가 올바르지 않습니다.');
-      return false;
-    } catch (error: any) {
-      console.error('❌ 어드민 로그인 실패:', error);
-      setError(error.message || '로그인 중 오류가 발생했습니다.');
-      return false;
+  return { failedActions: logs, retry, isRetrying };
+}
+
+/**
+ * 어드민 인증 상태 관리 및 로그인/로그아웃 기능 제공
+ * Firebase Auth로 로그인한 사용자의 관리 역할(role 커스텀 클레임)로 접근 권한을 판단하며, AuthProvider 안에서 사용해야 합니다.
+ * @returns 역할, 권한 확인 함수, 로그인/로그아웃 함수, 로딩 상태
+ */
+export function useAdminAuth() {
+  const {
+    user,
+    role: claimRole,
+    isLoading: isAuthLoading,
+    error: authError,
+    signInWithGoogle,
+    signOut,
+    clearError: clearAuthError
+  } = useAuthContext();
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  // 로그인 버튼으로 로그인한 경우에만 로그인 기록을 남기기 위한 표시
+  const isLoginPendingRef = useRef(false);
+
+  // 로컬 데이터 모드에는 역할을 확인할 서버가 없으므로 로그인한 데모 사용자를 관리자로 취급
+  const role: UserRole | null = getDataSource() === 'local' ? (user ? 'admin' : null) : claimRole;
+
+  // 로그인이 끝나 역할을 확인하면 로그인 기록 저장 (역할이 없는 계정은 로그인 화면에서 안내)
+  useEffect(() => {
+    if (!isLoginPendingRef.current || isAuthLoading || !user) return;
+    isLoginPendingRef.current = false;
+
+    if (role) {
+      // 기록 실패는 로그인 실패로 이어지지 않음
+      recordAdminAction({ action: 'admin.login', targetId: user.uid, targetName: user.email || user.displayName || user.uid });
+      console.log('✅ 어드민 로그인 성공:', role);
+    } else {
+      console.warn('🚫 관리 역할이 없는 계정입니다:', user.email);
+    }
+  }, [user, role, isAuthLoading]);
+
+  /**
+   * 어드민 로그인 처리 (Google 계정)
+   * 역할 확인과 로그인 기록은 인증 상태가 바뀐 뒤 처리합니다.
+   */
+  const adminLogin = async (): Promise<void> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      isLoginPendingRef.current = true;
+      await signInWithGoogle();
     } finally {
       setIsLoading(false);
     }
   };
 
   /**
-   * 어드민 로그아웃 처리
+   * 어드민 로그아웃 처리 (사이트 전체에서 로그아웃)
    */
   const adminLogout = async (): Promise<void> => {
     try {
       setIsLoading(true);
       setError(null);
-      
-      // 어드민 세션 제거
-      localStorage.removeItem('adminSession');
-      setIsAdmin(false);
-      
-      // 어드민 로그아웃 기록 저장 (선택적)
-      try {
-        const adminLogRef = doc(db, 'adminLogs', `logout_${Date.now()}`);
-        await setDoc(adminLogRef, {
-          action: 'logout',
-          timestamp: serverTimestamp()
-        });
-      } catch (e) {
-        console.error('관리자 로그 기록 실패:', e);
-        // 로그 기록 실패는 로그아웃 실패로 이어지지 않음
+
+      // 어드민 로그아웃 기록 저장 (기록 실패는 로그아웃 실패로 이어지지 않음)
+      if (user && role) {
+        await recordAdminAction({ action: 'admin.logout', targetId: user.uid, targetName: user.email || user.displayName || user.uid });
       }
-      
+
+      await signOut();
       console.log('✅ 어드민 로그아웃 완료');
     } catch (error: any) {
       console.error('❌ 어드민 로그아웃 실패:', error);
@@ -127,14 +193,18 @@ export function useAdminAuth() {
    */
   const clearError = () => {
     setError(null);
+    clearAuthError();
   };
 
   return {
-    isAdmin,
-    isLoading,
-    error,
+    user,
+    role,
+    hasAdminAccess: role !== null,
+    hasPermission: (permission: AdminPermission) => hasPermission(role, permission),
+    isLoading: isAuthLoading || isLoading,
+    error: error || authError,
     adminLogin,
     adminLogout,
     clearError
   };
-} 
\ No newline at end of file
+}
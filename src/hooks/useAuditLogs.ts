@@ -0,0 +1,36 @@
+// 관리 작업 감사 로그 조회 훅
+import { useState, useEffect } from 'react';
+import { getRepository } from '../repositories';
+import { FirebaseAuditLog, FirestoreQueryResult } from '../../types';
+
+/**
+ * 최근 감사 로그를 실시간 구독하는 훅
+ * @param maxCount 가져올 최대 로그 수 (늘리면 더 오래된 로그까지 다시 구독)
+ * @returns 로그 목록(최근 로그부터), 로딩 상태, 에러
+ */
+export function useAuditLogs(maxCount: number): FirestoreQueryResult<FirebaseAuditLog> {
+  const [data, setData] = useState<FirebaseAuditLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const unsubscribe = getRepository().auditLogs.subscribe(
+      maxCount,
+      (logs) => {
+        setData(logs);
+        setError(null);
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('❌ 감사 로그 조회 실패:', error);
+        setError(error.message || '감사 로그를 불러오는 중 오류가 발생했습니다.');
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [maxCount]);
+
+  return { data, isLoading, error };
+}
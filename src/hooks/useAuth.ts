@@ -9,32 +9,106 @@ import {
 } from 'firebase/auth';
 import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
 import { auth, db } from '../lib/firebase';
-import { FirebaseUser } from '../../types';
+import { getDataSource } from '../repositories';
+import { FirebaseUser, UserRole } from '../../types';
+import { getRoleFromClaims } from '../utils/roles';
+
+/**
+ * 앱에서 사용하는 로그인 사용자 정보
+ * 로컬 데이터 모드에서는 Firebase User 대신 데모 사용자를 사용하므로 필요한 필드만 정의합니다.
+ */
+export type AuthUser = Pick<User, 'uid' | 'displayName' | 'email' | 'photoURL'>;
+
+// 로컬 데이터 모드에서 로그인 상태를 저장하는 키
+const LOCAL_USER_KEY = 'techToolkitHub.localUser';
+
+// 로컬 데이터 모드용 데모 사용자
+const LOCAL_DEMO_USER: AuthUser = {
+  uid: 'local-demo-user',
+  displayName: '로컬 사용자',
+  email: 'local@example.com',
+  photoURL: null
+};
+
+/**
+ * 사용자의 관리 역할과 검토 없이 도구를 바로 공개할 수 있는지 확인
+ * Firebase Auth 커스텀 클레임(role, trusted)으로 판단하며, firestore.rules도 같은 클레임을 검사합니다.
+ */
+const readUserClaims = async (user: User): Promise<{ role: UserRole | null; isTrusted: boolean }> => {
+  try {
+    const { claims } = await user.getIdTokenResult();
+    const role = getRoleFromClaims(claims);
+    return { role, isTrusted: role !== null || claims.trusted === true };
+  } catch (error) {
+    console.error('❌ 사용자 권한 확인 실패:', error);
+    return { role: null, isTrusted: false };
+  }
+};
+
+/**
+ * 저장된 로컬 데모 사용자 로드
+ */
+const loadLocalUser = (): AuthUser | null => {
+  try {
+    const saved = localStorage.getItem(LOCAL_USER_KEY);
+    return saved ? JSON.parse(saved) as AuthUser : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 현재 로그인한 사용자 UID (로그인하지 않았으면 null)
+ * 훅 밖에서 작업자를 기록할 때 사용하며, 로컬 데이터 모드에서는 데모 사용자 UID를 반환합니다.
+ */
+export const getSignedInUserId = (): string | null =>
+  getDataSource() === 'local' ? loadLocalUser()?.uid ?? null : auth.currentUser?.uid ?? null;
 
 /**
  * Firebase Authentication 상태 관리 및 Google 소셜 로그인 기능 제공
+ * 로컬 데이터 모드에서는 데모 사용자로 로그인합니다.
  * @returns 인증 상태, 로그인/로그아웃 함수, 로딩 상태
  */
 export function useAuth() {
-  const [user, setUser] = useState<User | null>(null);
+  const isLocalMode = getDataSource() === 'local';
+  const [user, setUser] = useState<AuthUser | null>(null);
+  // 로컬 데이터 모드의 데모 사용자는 검토 흐름을 확인할 수 있도록 일반 사용자로 취급
+  const [isTrusted, setIsTrusted] = useState(false);
+  const [role, setRole] = useState<UserRole | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    if (isLocalMode) {
+      setUser(loadLocalUser());
+      setIsLoading(false);
+      return;
+    }
+
     // Firebase 인증 상태 변화 감지
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+      const claims = user ? await readUserClaims(user) : { role: null, isTrusted: false };
+      setRole(claims.role);
+      setIsTrusted(claims.isTrusted);
       setUser(user);
       setIsLoading(false);
     });
 
     return () => unsubscribe();
-  }, []);
+  }, [isLocalMode]);
 
   /**
    * Google 소셜 로그인 처리
    * 로그인 성공 시 사용자 정보를 Firestore에 저장
    */
   const signInWithGoogle = async () => {
+    if (isLocalMode) {
+      localStorage.setItem(LOCAL_USER_KEY, JSON.stringify(LOCAL_DEMO_USER));
+      setUser(LOCAL_DEMO_USER);
+      console.log('✅ 로컬 데모 사용자로 로그인');
+      return;
+    }
+
     try {
       setIsLoading(true);
       setError(null);
@@ -47,7 +121,7 @@ export function useAuth() {
       const user = result.user;
 
       // 사용자 정보를 Firestore에 저장 (기존 문서가 있으면 업데이트)
-      const userDoc: Omit<FirebaseUser, 'uid'> = {
+      const userDoc: Omit<FirebaseUser, 'uid' | 'role'> = {
         displayName: user.displayName,
         email: user.email,
         photoURL: user.photoURL,
@@ -73,6 +147,13 @@ export function useAuth() {
    * 로그아웃 처리
    */
   const signOut = async () => {
+    if (isLocalMode) {
+      localStorage.removeItem(LOCAL_USER_KEY);
+      setUser(null);
+      console.log('✅ 로그아웃 완료');
+      return;
+    }
+
     try {
       setIsLoading(true);
       setError(null);
@@ -98,10 +179,12 @@ export function useAuth() {
   return {
     user,
     isAuthenticated: !!user,
+    isTrusted,
+    role,
     isLoading,
     error,
     signInWithGoogle,
     signOut,
     clearError
   };
-} 
\ No newline at end of file
+}
@@ -1,19 +1,6 @@
-// Firebase 북마크 관리 훅
+// 북마크 관리 훅
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import { 
-  collection, 
-  query, 
-  where, 
-  getDocs,
-  addDoc, 
-  deleteDoc,
-  doc,
-  orderBy,
-  onSnapshot,
-  serverTimestamp,
-  limit as firestoreLimit
-} from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { getRepository } from '../repositories';
 import { FirebaseBookmark, FirestoreQueryResult } from '../../types';
 import { useAuthContext } from '../contexts/AuthContext';
 
@@ -42,18 +29,6 @@ export function useBookmarks(): FirestoreQueryResult<FirebaseBookmark> & {
     return ids;
   }, [data]);
 
-  // 북마크 쿼리 생성 함수 - 단순화된 쿼리 (인덱스 오류 방지)
-  const createBookmarksQuery = useCallback(() => {
-    if (!userId) return null;
-    
-    // 복합 인덱스(orderBy + where)를 사용하지 않고 단일 필드 인덱스만 사용
-    return query(
-      collection(db, 'bookmarks'),
-      where('userId', '==', userId),
-      firestoreLimit(100)
-    );
-  }, [userId]);
-
   // 일회성으로 북마크 데이터 가져오기
   const fetchBookmarksOnce = useCallback(async () => {
     if (!userId) {
@@ -68,29 +43,11 @@ export function useBookmarks(): FirestoreQueryResult<FirebaseBookmark> & {
       
       console.log('🔖 useBookmarks: 일회성 쿼리로 북마크 데이터 조회 시작 - 사용자 ID:', userId);
       
-      const bookmarksQuery = createBookmarksQuery();
-      if (!bookmarksQuery) {
-        setData([]);
-        setIsLoading(false);
-        return;
-      }
-      
-      const snapshot = await getDocs(bookmarksQuery);
-      console.log('📚 useBookmarks: 일회성 쿼리로 북마크 데이터 받음, 개수:', snapshot.size);
-      
-      const bookmarks: FirebaseBookmark[] = [];
-      snapshot.forEach((doc) => {
-        const data = doc.data();
-        bookmarks.push({
-          id: doc.id,
-          toolId: data.toolId,
-          userId: data.userId,
-          createdAt: data.createdAt?.toDate() || new Date()
-        });
-      });
+      const items = await getRepository().bookmarks.listByUser(userId);
+      console.log('📚 useBookmarks: 일회성 쿼리로 북마크 데이터 받음, 개수:', items.length);
       
       // 최신 북마크가 앞에 오도록 클라이언트 측에서 정렬
-      bookmarks.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      const bookmarks = [...items].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
       
       console.log('📚 useBookmarks: 일회성 쿼리로 받은 북마크 데이터:', bookmarks);
       setData(bookmarks);
@@ -100,7 +57,7 @@ export function useBookmarks(): FirestoreQueryResult<FirebaseBookmark> & {
       setError(error.message || '북마크 목록을 불러오는 중 오류가 발생했습니다.');
       setIsLoading(false);
     }
-  }, [userId, createBookmarksQuery]);
+  }, [userId]);
 
   // 북마크 목록 새로고침 함수 (외부에서 호출 가능)
   const refreshBookmarks = useCallback(async () => {
@@ -122,29 +79,15 @@ export function useBookmarks(): FirestoreQueryResult<FirebaseBookmark> & {
     fetchBookmarksOnce();
     
     // 실시간 구독 설정
-    const bookmarksQuery = createBookmarksQuery();
-    if (!bookmarksQuery) return;
-    
     console.log('🔖 useBookmarks: 실시간 구독 설정 - 사용자 ID:', userId);
     
-    const unsubscribe = onSnapshot(
-      bookmarksQuery,
-      (snapshot) => {
-        console.log('📚 useBookmarks: 실시간 구독으로 북마크 데이터 받음, 개수:', snapshot.size);
-        const bookmarks: FirebaseBookmark[] = [];
-
-        snapshot.forEach((doc) => {
-          const data = doc.data();
-          bookmarks.push({
-            id: doc.id,
-            toolId: data.toolId,
-            userId: data.userId,
-            createdAt: data.createdAt?.toDate() || new Date()
-          });
-        });
+    const unsubscribe = getRepository().bookmarks.subscribeByUser(
+      userId,
+      (items) => {
+        console.log('📚 useBookmarks: 실시간 구독으로 북마크 데이터 받음, 개수:', items.length);
 
         // 최신 북마크가 앞에 오도록 클라이언트 측에서 정렬
-        bookmarks.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+        const bookmarks = [...items].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
 
         console.log('📚 useBookmarks: 실시간 구독으로 받은 북마크 데이터:', bookmarks);
         setData(bookmarks);
@@ -157,7 +100,7 @@ export function useBookmarks(): FirestoreQueryResult<FirebaseBookmark> & {
     );
 
     return () => unsubscribe();
-  }, [userId, createBookmarksQuery, fetchBookmarksOnce]);
+  }, [userId, fetchBookmarksOnce]);
 
   /**
    * 도구를 북마크에 추가
@@ -171,38 +114,29 @@ export function useBookmarks(): FirestoreQueryResult<FirebaseBookmark> & {
     try {
       console.log('🔖 북마크 추가 시도:', toolId);
       
+      const repository = getRepository();
+
       // 중복 북마크 확인
-      const existingQuery = query(
-        collection(db, 'bookmarks'),
-        where('userId', '==', userId),
-        where('toolId', '==', toolId),
-        firestoreLimit(1)
-      );
-      
-      const existingSnapshot = await getDocs(existingQuery);
-      if (!existingSnapshot.empty) {
+      const existing = await repository.bookmarks.find(userId, toolId);
+      if (existing) {
         console.log('⚠️ 이미 북마크에 추가된 도구입니다:', toolId);
         return;
       }
 
-      const newBookmark = {
-        userId,
-        toolId,
-        createdAt: serverTimestamp()
-      };
-
-      const docRef = await addDoc(collection(db, 'bookmarks'), newBookmark);
-      console.log('✅ 북마크 추가 완료:', toolId, '문서 ID:', docRef.id);
+      const newBookmarkId = await repository.bookmarks.add(userId, toolId);
+      console.log('✅ 북마크 추가 완료:', toolId, '문서 ID:', newBookmarkId);
       
       // 즉시 상태 업데이트 (실시간 리스너가 업데이트되기 전에)
       const newBookmarkData: FirebaseBookmark = {
-        id: docRef.id,
+        id: newBookmarkId,
         toolId,
         userId,
         createdAt: new Date()
       };
       
-      setData(prevData => [newBookmarkData, ...prevData]);
+      setData(prevData => prevData.some(bookmark => bookmark.id === newBookmarkId)
+        ? prevData
+        : [newBookmarkData, ...prevData]);
     } catch (error: any) {
       console.error('❌ 북마크 추가 실패:', error);
       throw new Error(error.message || '북마크 추가 중 오류가 발생했습니다.');
@@ -221,25 +155,19 @@ export function useBookmarks(): FirestoreQueryResult<FirebaseBookmark> & {
     try {
       console.log('🔖 북마크 제거 시도:', toolId);
       
+      const repository = getRepository();
+
       // 삭제할 북마크 문서 찾기
-      const bookmarkQuery = query(
-        collection(db, 'bookmarks'),
-        where('userId', '==', userId),
-        where('toolId', '==', toolId),
-        firestoreLimit(1)
-      );
-      
-      const bookmarkSnapshot = await getDocs(bookmarkQuery);
+      const bookmark = await repository.bookmarks.find(userId, toolId);
       
-      if (bookmarkSnapshot.empty) {
+      if (!bookmark) {
         console.log('⚠️ 북마크에 없는 도구입니다:', toolId);
         return;
       }
 
       // 북마크 문서 삭제
-      const bookmarkDoc = bookmarkSnapshot.docs[0];
-      const bookmarkId = bookmarkDoc.id;
-      await deleteDoc(doc(db, 'bookmarks', bookmarkId));
+      const bookmarkId = bookmark.id;
+      await repository.bookmarks.remove(bookmarkId);
       console.log('✅ 북마크 제거 완료:', toolId, '문서 ID:', bookmarkId);
       
       // 즉시 상태 업데이트 (실시간 리스너가 업데이트되기 전에)
@@ -306,23 +234,16 @@ export function useToolBookmarkStatus(toolId: string): {
       
       console.log(`🔍 useToolBookmarkStatus: 도구 ID ${toolId}의 북마크 상태 확인 시작`);
       
-      const bookmarkQuery = query(
-        collection(db, 'bookmarks'),
-        where('userId', '==', userId),
-        where('toolId', '==', toolId),
-        firestoreLimit(1)
-      );
-      
-      const snapshot = await getDocs(bookmarkQuery);
-      const isMarked = !snapshot.empty;
+      const bookmark = await getRepository().bookmarks.find(userId, toolId);
+      const isMarked = !!bookmark;
       
       console.log(`🔍 도구 ID ${toolId}의 북마크 상태:`, isMarked ? '북마크됨' : '북마크되지 않음');
       
       setIsBookmarked(isMarked);
       
-      if (isMarked) {
-        setBookmarkId(snapshot.docs[0].id);
-        console.log(`🔍 도구 ID ${toolId}의 북마크 문서 ID:`, snapshot.docs[0].id);
+      if (bookmark) {
+        setBookmarkId(bookmark.id);
+        console.log(`🔍 도구 ID ${toolId}의 북마크 문서 ID:`, bookmark.id);
       } else {
         setBookmarkId(null);
       }
@@ -347,24 +268,18 @@ export function useToolBookmarkStatus(toolId: string): {
     // 먼저 일회성 쿼리로 상태 확인
     checkBookmarkStatus();
     
-    // 실시간 구독 설정
-    const bookmarkQuery = query(
-      collection(db, 'bookmarks'),
-      where('userId', '==', userId),
-      where('toolId', '==', toolId),
-      firestoreLimit(1)
-    );
-
-    const unsubscribe = onSnapshot(
-      bookmarkQuery,
-      (snapshot) => {
-        const isMarked = !snapshot.empty;
+    // 실시간 구독 설정 (사용자 북마크 중 해당 도구만 확인)
+    const unsubscribe = getRepository().bookmarks.subscribeByUser(
+      userId,
+      (bookmarks) => {
+        const bookmark = bookmarks.find(item => item.toolId === toolId);
+        const isMarked = !!bookmark;
         console.log(`🔍 실시간 구독: 도구 ID ${toolId}의 북마크 상태:`, isMarked ? '북마크됨' : '북마크되지 않음');
         
         setIsBookmarked(isMarked);
         
-        if (isMarked) {
-          setBookmarkId(snapshot.docs[0].id);
+        if (bookmark) {
+          setBookmarkId(bookmark.id);
         } else {
           setBookmarkId(null);
         }
@@ -393,7 +308,7 @@ export function useToolBookmarkStatus(toolId: string): {
       
       if (isBookmarked && bookmarkId) {
         // 북마크 제거
-        await deleteDoc(doc(db, 'bookmarks', bookmarkId));
+        await getRepository().bookmarks.remove(bookmarkId);
         console.log('✅ 북마크 제거 완료:', toolId);
         
         // 상태 즉시 업데이트
@@ -401,17 +316,12 @@ export function useToolBookmarkStatus(toolId: string): {
         setBookmarkId(null);
       } else {
         // 북마크 추가
-        const newBookmark = {
-          userId,
-          toolId,
-          createdAt: serverTimestamp()
-        };
-        const docRef = await addDoc(collection(db, 'bookmarks'), newBookmark);
+        const newBookmarkId = await getRepository().bookmarks.add(userId, toolId);
         console.log('✅ 북마크 추가 완료:', toolId);
         
         // 상태 즉시 업데이트
         setIsBookmarked(true);
-        setBookmarkId(docRef.id);
+        setBookmarkId(newBookmarkId);
       }
       
       // 북마크 상태 다시 확인
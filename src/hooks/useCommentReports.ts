@@ -0,0 +1,108 @@
+// 댓글 신고 검토 훅
+import { useState, useEffect, useCallback } from 'react';
+import { getRepository } from '../repositories';
+import { FirebaseComment, FirebaseCommentReport, FirestoreQueryResult } from '../../types';
+
+/**
+ * 신고가 1건 이상 접수된 댓글을 실시간 구독하고 검토하는 훅
+ * @returns 신고된 댓글 목록 (신고 수 많은 순), 로딩 상태, 에러, 숨김/복원/삭제 함수
+ */
+export function useReportedComments(): FirestoreQueryResult<FirebaseComment> & {
+  moderateComment: (commentId: string, status: 'hidden' | 'restored') => Promise<void>;
+  removeReportedComment: (comment: FirebaseComment) => Promise<void>;
+} {
+  const [data, setData] = useState<FirebaseComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const unsubscribe = getRepository().comments.subscribeReported(
+      (comments) => {
+        setData(comments);
+        setError(null);
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('❌ 신고된 댓글 조회 실패:', error);
+        setError(error.message || '신고된 댓글을 불러오는 중 오류가 발생했습니다.');
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  /**
+   * 댓글 숨김 또는 복원 (복원한 댓글은 이후 신고가 쌓여도 자동 숨김하지 않음)
+   */
+  const moderateComment = useCallback(async (commentId: string, status: 'hidden' | 'restored'): Promise<void> => {
+    try {
+      await getRepository().comments.moderate(commentId, status);
+      console.log(status === 'hidden' ? '🚫 댓글 숨김 완료:' : '✅ 댓글 복원 완료:', commentId);
+    } catch (error: any) {
+      console.error('❌ 댓글 검토 상태 변경 실패:', error);
+      throw new Error(error.message || '댓글 상태를 변경하는 중 오류가 발생했습니다.');
+    }
+  }, []);
+
+  /**
+   * 신고된 댓글 삭제 (답글과 신고 내역도 함께 삭제)
+   */
+  const removeReportedComment = useCallback(async (comment: FirebaseComment): Promise<void> => {
+    try {
+      const repository = getRepository();
+      const replies = comment.parentId === null ? await repository.comments.listReplies(comment.id) : [];
+      for (const reply of replies) {
+        await repository.comments.remove(reply.id);
+        await repository.commentReports.removeByComment(reply.id);
+      }
+      await repository.comments.remove(comment.id);
+      await repository.commentReports.removeByComment(comment.id);
+      console.log('🗑️ 신고된 댓글 삭제 완료 (답글 포함):', comment.id);
+    } catch (error: any) {
+      console.error('❌ 신고된 댓글 삭제 실패:', error);
+      throw new Error(error.message || '댓글을 삭제하는 중 오류가 발생했습니다.');
+    }
+  }, []);
+
+  return { data, isLoading, error, moderateComment, removeReportedComment };
+}
+
+/**
+ * 특정 댓글의 신고 내역을 실시간으로 가져오는 훅
+ * @param commentId 댓글 ID (null이면 구독하지 않음)
+ * @returns 신고 내역 (최신순), 로딩 상태, 에러
+ */
+export function useCommentReportHistory(commentId: string | null): FirestoreQueryResult<FirebaseCommentReport> {
+  const [data, setData] = useState<FirebaseCommentReport[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!commentId) {
+      setData([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const unsubscribe = getRepository().commentReports.subscribeByComment(
+      commentId,
+      (reports) => {
+        setData(reports);
+        setError(null);
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('❌ 신고 내역 조회 실패:', error);
+        setError(error.message || '신고 내역을 불러오는 중 오류가 발생했습니다.');
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [commentId]);
+
+  return { data, isLoading, error };
+}
@@ -1,19 +1,9 @@
-// Firebase 댓글 관리 훅
+// 댓글 관리 훅
 import { useState, useEffect, useMemo } from 'react';
-import { 
-  collection, 
-  query, 
-  where, 
-  orderBy, 
-  onSnapshot, 
-  addDoc, 
-  updateDoc, 
-  deleteDoc, 
-  doc, 
-  serverTimestamp 
-} from 'firebase/firestore';
-import { db } from '../lib/firebase';
-import { FirebaseComment, CommentInput, FirestoreQueryResult } from '../../types';
+import { getRepository } from '../repositories';
+import { FirebaseComment, CommentInput, CommentReportReason, FirestoreQueryResult } from '../../types';
+import { COMMENT_REPORT_DETAIL_MAX_LENGTH, isCommentHidden } from '../utils/commentModeration';
+import { assertContentAllowed } from './useContentFilter';
 
 /**
  * 도구의 업데이트 날짜를 갱신하는 유틸리티 함수
@@ -21,10 +11,7 @@ import { FirebaseComment, CommentInput, FirestoreQueryResult } from '../../types
  */
 const updateToolUpdatedAt = async (toolId: string): Promise<void> => {
   try {
-    const toolDoc = doc(db, 'tools', toolId);
-    await updateDoc(toolDoc, {
-      updatedAt: serverTimestamp()
-    });
+    await getRepository().tools.touch(toolId);
     console.log('✅ 도구 업데이트 날짜 갱신 완료');
   } catch (error: any) {
     console.error('❌ 도구 업데이트 날짜 갱신 실패:', error);
@@ -43,6 +30,7 @@ export function useComments(toolId: string): FirestoreQueryResult<FirebaseCommen
   addComment: (commentData: CommentInput, userId: string, userName: string, userPhotoURL?: string | null) => Promise<void>;
   updateComment: (commentId: string, content: string) => Promise<void>;
   deleteComment: (commentId: string) => Promise<void>;
+  reportComment: (comment: FirebaseComment, reporterId: string, reason: CommentReportReason, detail: string) => Promise<void>;
   commentCount: number;
 } {
   const [data, setData] = useState<FirebaseComment[]>([]);
@@ -56,57 +44,27 @@ export function useComments(toolId: string): FirestoreQueryResult<FirebaseCommen
       return;
     }
 
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      // 특정 도구의 모든 댓글 실시간 구독 (인덱스 없이 작동하도록 단순화)
-      const commentsQuery = query(
-        collection(db, 'comments'),
-        where('toolId', '==', toolId)
-      );
-
-      const unsubscribe = onSnapshot(
-        commentsQuery,
-        (snapshot) => {
-          const comments: FirebaseComment[] = [];
-          
-          snapshot.forEach((doc) => {
-            const data = doc.data();
-            comments.push({
-              id: doc.id,
-              toolId: data.toolId,
-              userId: data.userId,
-              userName: data.userName,
-              userPhotoURL: data.userPhotoURL || null,
-              content: data.content,
-              parentId: data.parentId || null,
-              createdAt: data.createdAt?.toDate() || new Date(),
-              updatedAt: data.updatedAt?.toDate() || new Date()
-            });
-          });
-          
-          // 클라이언트에서 생성 시간순으로 정렬
-          comments.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
-          
-          setData(comments);
-          setIsLoading(false);
-        },
-        (error) => {
-          console.error('❌ 댓글 목록 조회 실패:', error);
-          console.error('❌ 오류 상세:', error.code, error.message);
-          setError(`댓글을 불러오는 중 오류가 발생했습니다: ${error.message}`);
-          setIsLoading(false);
-        }
-      );
-
-      return () => unsubscribe();
-      
-    } catch (error: any) {
-      console.error('❌ 댓글 쿼리 설정 실패:', error);
-      setError(error.message || '댓글 설정 중 오류가 발생했습니다.');
-      setIsLoading(false);
-    }
+    setIsLoading(true);
+    setError(null);
+
+    // 특정 도구의 모든 댓글 실시간 구독
+    const unsubscribe = getRepository().comments.subscribeByTool(
+      toolId,
+      (items) => {
+        // 클라이언트에서 생성 시간순으로 정렬
+        const comments = [...items].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        
+        setData(comments);
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('❌ 댓글 목록 조회 실패:', error);
+        setError(`댓글을 불러오는 중 오류가 발생했습니다: ${error.message}`);
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
   }, [toolId]);
 
   /**
@@ -132,18 +90,17 @@ export function useComments(toolId: string): FirestoreQueryResult<FirebaseCommen
         throw new Error('댓글은 1000자 이하로 작성해주세요.');
       }
 
-      const newComment = {
+      // 금칙어, 링크 수, 최근 댓글 반복 검사 (작성 수 제한은 저장소와 보안 규칙에서 확인)
+      await assertContentAllowed(commentData.content, userId);
+
+      await getRepository().comments.add({
         toolId: commentData.toolId,
         userId,
         userName,
         userPhotoURL: userPhotoURL || null,
         content: commentData.content.trim(),
-        parentId: commentData.parentId || null,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
-      };
-
-      await addDoc(collection(db, 'comments'), newComment);
+        parentId: commentData.parentId || null
+      });
       
       // 댓글이 추가된 도구의 업데이트 날짜도 갱신
       await updateToolUpdatedAt(commentData.toolId);
@@ -178,11 +135,10 @@ export function useComments(toolId: string): FirestoreQueryResult<FirebaseCommen
         throw new Error('수정할 댓글을 찾을 수 없습니다.');
       }
 
-      const commentDoc = doc(db, 'comments', commentId);
-      await updateDoc(commentDoc, {
-        content: content.trim(),
-        updatedAt: serverTimestamp()
-      });
+      // 금칙어와 링크 수 검사
+      await assertContentAllowed(content);
+
+      await getRepository().comments.update(commentId, content.trim());
 
       // 댓글이 수정된 도구의 업데이트 날짜도 갱신
       await updateToolUpdatedAt(commentToUpdate.toolId);
@@ -212,13 +168,11 @@ export function useComments(toolId: string): FirestoreQueryResult<FirebaseCommen
       
       // 답글들 먼저 삭제
       for (const reply of replies) {
-        const replyDoc = doc(db, 'comments', reply.id);
-        await deleteDoc(replyDoc);
+        await getRepository().comments.remove(reply.id);
       }
 
       // 원본 댓글 삭제
-      const commentDoc = doc(db, 'comments', commentId);
-      await deleteDoc(commentDoc);
+      await getRepository().comments.remove(commentId);
       
       // 댓글이 삭제된 도구의 업데이트 날짜도 갱신
       await updateToolUpdatedAt(commentToDelete.toolId);
@@ -231,6 +185,50 @@ export function useComments(toolId: string): FirestoreQueryResult<FirebaseCommen
     }
   };
 
+  /**
+   * 댓글 신고 (같은 댓글은 한 번만 신고 가능)
+   * 신고가 기준 수 이상 쌓이면 관리자 검토 전까지 자동으로 숨겨집니다.
+   * @param comment 신고할 댓글
+   * @param reporterId 신고자 ID
+   * @param reason 신고 사유
+   * @param detail 추가 설명
+   */
+  const reportComment = async (
+    comment: FirebaseComment,
+    reporterId: string,
+    reason: CommentReportReason,
+    detail: string
+  ): Promise<void> => {
+    try {
+      if (comment.userId === reporterId) {
+        throw new Error('자신의 댓글은 신고할 수 없습니다.');
+      }
+
+      if (reason === 'other' && !detail.trim()) {
+        throw new Error('신고 사유를 입력해주세요.');
+      }
+
+      if (detail.length > COMMENT_REPORT_DETAIL_MAX_LENGTH) {
+        throw new Error(`신고 내용은 ${COMMENT_REPORT_DETAIL_MAX_LENGTH}자 이하로 작성해주세요.`);
+      }
+
+      await getRepository().commentReports.add({
+        commentId: comment.id,
+        toolId: comment.toolId,
+        commentAuthorId: comment.userId,
+        reporterId,
+        reason,
+        detail: detail.trim()
+      });
+
+      console.log('🚫 댓글 신고 완료:', comment.id);
+
+    } catch (error: any) {
+      console.error('❌ 댓글 신고 실패:', error);
+      throw new Error(error.message || '댓글 신고 중 오류가 발생했습니다.');
+    }
+  };
+
   // 최상위 댓글들 (parentId가 null인 댓글들)
   const parentComments = useMemo(() => {
     return data.filter(comment => comment.parentId === null);
@@ -256,6 +254,7 @@ export function useComments(toolId: string): FirestoreQueryResult<FirebaseCommen
     addComment,
     updateComment,
     deleteComment,
+    reportComment,
     commentCount
   };
 }
@@ -278,59 +277,30 @@ export function useRecentComments(toolId: string, limit: number = 5): FirestoreQ
       return;
     }
 
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      // 최신 댓글 N개 실시간 구독 (인덱스 없이 작동하도록 단순화)
-      const recentCommentsQuery = query(
-        collection(db, 'comments'),
-        where('toolId', '==', toolId),
-        where('parentId', '==', null) // 최상위 댓글만
-      );
-
-      const unsubscribe = onSnapshot(
-        recentCommentsQuery,
-        (snapshot) => {
-          const comments: FirebaseComment[] = [];
-          
-          snapshot.forEach((doc) => {
-            const data = doc.data();
-            comments.push({
-              id: doc.id,
-              toolId: data.toolId,
-              userId: data.userId,
-              userName: data.userName,
-              userPhotoURL: data.userPhotoURL || null,
-              content: data.content,
-              parentId: data.parentId || null,
-              createdAt: data.createdAt?.toDate() || new Date(),
-              updatedAt: data.updatedAt?.toDate() || new Date()
-            });
-          });
-          
-          // 클라이언트에서 최신순으로 정렬하고 제한된 개수만 반환
-          comments.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-          const limitedComments = comments.slice(0, limit);
-          
-          setData(limitedComments);
-          setIsLoading(false);
-        },
-        (error) => {
-          console.error('❌ 최신 댓글 조회 실패:', error);
-          console.error('❌ 오류 상세:', error.code, error.message);
-          setError(`최신 댓글을 불러오는 중 오류가 발생했습니다: ${error.message}`);
-          setIsLoading(false);
-        }
-      );
-
-      return () => unsubscribe();
-      
-    } catch (error: any) {
-      console.error('❌ 최신 댓글 쿼리 설정 실패:', error);
-      setError(error.message || '최신 댓글 설정 중 오류가 발생했습니다.');
-      setIsLoading(false);
-    }
+    setIsLoading(true);
+    setError(null);
+
+    // 최상위 댓글만 실시간 구독
+    const unsubscribe = getRepository().comments.subscribeByTool(
+      toolId,
+      (items) => {
+        // 숨긴 댓글을 제외하고 최신순으로 정렬한 뒤 제한된 개수만 반환
+        const comments = items
+          .filter(comment => !isCommentHidden(comment))
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+        
+        setData(comments.slice(0, limit));
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('❌ 최신 댓글 조회 실패:', error);
+        setError(`최신 댓글을 불러오는 중 오류가 발생했습니다: ${error.message}`);
+        setIsLoading(false);
+      },
+      { topLevelOnly: true }
+    );
+
+    return () => unsubscribe();
   }, [toolId, limit]);
 
   return { data, isLoading, error };
@@ -0,0 +1,87 @@
+// 콘텐츠 필터 설정 훅
+import { useState, useEffect, useCallback } from 'react';
+import { getRepository } from '../repositories';
+import { ContentFilterInput, ContentFilterSettings, ToolInput } from '../../types';
+import { DEFAULT_CONTENT_FILTER_SETTINGS, REPEATED_CONTENT_LOOKBACK, checkContent, checkToolContent } from '../utils/contentFilter';
+
+/**
+ * 작성할 글을 콘텐츠 필터로 검사 (통과하지 못하면 에러)
+ * 금칙어와 링크 수를 검사하고, 작성자를 전달하면 최근 댓글과 같은 내용인지도 검사합니다.
+ * @param text 검사할 글
+ * @param repeatCheckUserId 반복 게시 검사에 사용할 작성자 ID (생략하면 검사하지 않음)
+ */
+export const assertContentAllowed = async (text: string, repeatCheckUserId?: string): Promise<void> => {
+  const repository = getRepository();
+  const settings = await repository.settings.getContentFilter();
+  const recentContents = repeatCheckUserId && settings.blockRepeatedContent
+    ? (await repository.comments.listRecentByUser(repeatCheckUserId, REPEATED_CONTENT_LOOKBACK)).map(comment => comment.content)
+    : undefined;
+
+  const message = checkContent(text, settings, recentContents);
+  if (message) {
+    console.log('🚫 콘텐츠 필터 차단:', message);
+    throw new Error(message);
+  }
+};
+
+/**
+ * 저장할 도구 정보를 콘텐츠 필터로 검사 (통과하지 못하면 에러)
+ * @param toolData 저장할 도구 정보
+ * @param before 수정 전 도구 정보 (추가면 생략, 수정이면 바뀐 필드만 검사)
+ */
+export const assertToolContentAllowed = async (toolData: Partial<ToolInput>, before?: Partial<ToolInput>): Promise<void> => {
+  const settings = await getRepository().settings.getContentFilter();
+  const message = checkToolContent(toolData, settings, before);
+  if (message) {
+    console.log('🚫 콘텐츠 필터 차단:', message);
+    throw new Error(message);
+  }
+};
+
+/**
+ * 콘텐츠 필터 설정을 실시간으로 가져오고 저장하는 훅 (관리자 화면용)
+ * @returns 현재 설정, 로딩 상태, 에러, 저장 함수
+ */
+export function useContentFilterSettings(): {
+  settings: ContentFilterSettings;
+  isLoading: boolean;
+  error: string | null;
+  saveSettings: (settings: ContentFilterInput, updatedBy: string) => Promise<void>;
+} {
+  const [settings, setSettings] = useState<ContentFilterSettings>(DEFAULT_CONTENT_FILTER_SETTINGS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const unsubscribe = getRepository().settings.subscribeContentFilter(
+      (nextSettings) => {
+        setSettings(nextSettings);
+        setError(null);
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('❌ 콘텐츠 필터 설정 조회 실패:', error);
+        setError(error.message || '콘텐츠 필터 설정을 불러오는 중 오류가 발생했습니다.');
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  /**
+   * 설정 저장
+   */
+  const saveSettings = useCallback(async (nextSettings: ContentFilterInput, updatedBy: string): Promise<void> => {
+    try {
+      await getRepository().settings.updateContentFilter(nextSettings, updatedBy);
+      console.log('✅ 콘텐츠 필터 설정 저장 완료');
+    } catch (error: any) {
+      console.error('❌ 콘텐츠 필터 설정 저장 실패:', error);
+      throw new Error(error.message || '콘텐츠 필터 설정을 저장하는 중 오류가 발생했습니다.');
+    }
+  }, []);
+
+  return { settings, isLoading, error, saveSettings };
+}
@@ -0,0 +1,171 @@
+// 도구 수정 제안 관리 훅
+import { useState, useEffect, useCallback } from 'react';
+import { getDataSource, getRepository, EditSuggestionQuery } from '../repositories';
+import { FirebaseEditSuggestion, FirebaseTool, FirestoreQueryResult, ToolField, ToolInput } from '../../types';
+import { useAuthContext } from '../contexts/AuthContext';
+import { diffToolFields, getChangedFields, pickFieldChanges, toToolInput } from '../utils/toolDiff';
+import { assertContentAllowed, assertToolContentAllowed } from './useContentFilter';
+
+/**
+ * 조건에 맞는 수정 제안을 실시간 구독하고 검토하는 훅
+ * @param suggestionQuery 조회 조건 (null이면 구독하지 않음)
+ * @returns 제안 목록, 로딩 상태, 에러, 반영/거부/삭제 함수
+ */
+export function useEditSuggestions(suggestionQuery: EditSuggestionQuery | null): FirestoreQueryResult<FirebaseEditSuggestion> & {
+  acceptSuggestion: (suggestion: FirebaseEditSuggestion, fields: ToolField[], reviewerId: string) => Promise<void>;
+  rejectSuggestion: (suggestionId: string, reviewerId: string, note?: string) => Promise<void>;
+  removeSuggestion: (suggestionId: string) => Promise<void>;
+} {
+  const [data, setData] = useState<FirebaseEditSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { role } = useAuthContext();
+  // 로컬 데이터 모드에는 보안 규칙이 없으므로 누구나 태그 등록
+  const canCreateTags = getDataSource() === 'local' || role !== null;
+
+  // 호출할 때마다 새 객체가 전달되므로 내용 기준으로 구독을 갱신
+  const queryKey = suggestionQuery ? JSON.stringify(suggestionQuery) : null;
+
+  useEffect(() => {
+    if (!queryKey) {
+      setData([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const unsubscribe = getRepository().editSuggestions.subscribe(
+      JSON.parse(queryKey) as EditSuggestionQuery,
+      (suggestions) => {
+        setData(suggestions);
+        setError(null);
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('❌ 수정 제안 조회 실패:', error);
+        setError(error.message || '수정 제안을 불러오는 중 오류가 발생했습니다.');
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [queryKey]);
+
+  /**
+   * 제안 반영 (선택한 필드만 도구에 적용)
+   * 반영한 태그 중 태그 목록에 없는 태그는 함께 등록합니다.
+   */
+  const acceptSuggestion = useCallback(async (
+    suggestion: FirebaseEditSuggestion,
+    fields: ToolField[],
+    reviewerId: string
+  ): Promise<void> => {
+    // 반영할 값에는 바뀐 필드만 있으므로 제안 이후 바뀐 필터 설정으로 그대로 검사
+    const picked = pickFieldChanges(suggestion.changes, fields);
+
+    try {
+      await assertToolContentAllowed(picked);
+      await getRepository().editSuggestions.accept(suggestion.id, fields, reviewerId);
+      console.log('✅ 수정 제안 반영 완료:', suggestion.toolName, fields);
+    } catch (error: any) {
+      console.error('❌ 수정 제안 반영 실패:', error);
+      throw new Error(error.message || '수정 제안을 반영하는 중 오류가 발생했습니다.');
+    }
+
+    // 태그 생성은 관리 역할 사용자만 가능 (도구 소유자가 반영한 새 태그는 도구 문서에만 저장)
+    const { tags } = picked;
+    if (tags && canCreateTags) {
+      try {
+        await getRepository().tags.ensure(tags);
+      } catch (error) {
+        // 태그 등록 실패는 제안 반영 실패로 처리하지 않음
+        console.error('❌ 태그 등록 실패:', error);
+      }
+    }
+  }, [canCreateTags]);
+
+  /**
+   * 제안 거부
+   */
+  const rejectSuggestion = useCallback(async (suggestionId: string, reviewerId: string, note?: string): Promise<void> => {
+    try {
+      await getRepository().editSuggestions.reject(suggestionId, reviewerId, note);
+      console.log('🚫 수정 제안 거부:', suggestionId);
+    } catch (error: any) {
+      console.error('❌ 수정 제안 거부 실패:', error);
+      throw new Error(error.message || '수정 제안을 거부하는 중 오류가 발생했습니다.');
+    }
+  }, []);
+
+  /**
+   * 제안 삭제 (제안한 사용자의 요청 취소 또는 관리자 정리)
+   */
+  const removeSuggestion = useCallback(async (suggestionId: string): Promise<void> => {
+    try {
+      await getRepository().editSuggestions.remove(suggestionId);
+      console.log('🗑️ 수정 제안 삭제 완료:', suggestionId);
+    } catch (error: any) {
+      console.error('❌ 수정 제안 삭제 실패:', error);
+      throw new Error(error.message || '수정 제안을 삭제하는 중 오류가 발생했습니다.');
+    }
+  }, []);
+
+  return {
+    data,
+    isLoading,
+    error,
+    acceptSuggestion,
+    rejectSuggestion,
+    removeSuggestion
+  };
+}
+
+/**
+ * 현재 로그인한 사용자로 수정 제안을 보내는 훅
+ * @returns 제안 전송 함수
+ */
+export function useSubmitEditSuggestion() {
+  const { user } = useAuthContext();
+
+  /**
+   * 도구의 현재 값과 수정한 값을 비교해 바뀐 필드만 제안으로 저장
+   * @param tool 제안 대상 도구
+   * @param toolData 수정한 도구 정보
+   * @param message 제안 사유
+   */
+  const submitSuggestion = useCallback(async (tool: FirebaseTool, toolData: ToolInput, message: string): Promise<void> => {
+    if (!user) {
+      throw new Error('수정 제안을 보내려면 로그인이 필요합니다.');
+    }
+    if (tool.createdBy === user.uid) {
+      throw new Error('직접 등록한 도구는 바로 편집할 수 있습니다.');
+    }
+
+    const changes = diffToolFields(toToolInput(tool), toolData);
+    if (getChangedFields(changes).length === 0) {
+      throw new Error('변경된 내용이 없습니다.');
+    }
+
+    try {
+      await assertToolContentAllowed(toolData, toToolInput(tool));
+      if (message.trim()) {
+        await assertContentAllowed(message);
+      }
+      await getRepository().editSuggestions.add({
+        toolId: tool.id,
+        toolName: tool.name,
+        toolOwnerId: tool.createdBy,
+        userId: user.uid,
+        userName: user.displayName || '익명',
+        message: message.trim(),
+        changes
+      });
+      console.log('📝 수정 제안 전송 완료:', tool.name, getChangedFields(changes));
+    } catch (error: any) {
+      console.error('❌ 수정 제안 전송 실패:', error);
+      throw new Error(error.message || '수정 제안을 보내는 중 오류가 발생했습니다.');
+    }
+  }, [user]);
+
+  return { submitSuggestion };
+}
@@ -1,19 +1,6 @@
-// Firebase 평점 관리 훅
+// 평점 관리 훅
 import { useState, useEffect, useMemo } from 'react';
-import { 
-  collection, 
-  query, 
-  where, 
-  orderBy, 
-  onSnapshot, 
-  addDoc, 
-  updateDoc, 
-  deleteDoc, 
-  doc, 
-  getDocs,
-  serverTimestamp
-} from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { getRepository } from '../repositories';
 import { FirebaseRating, FirestoreQueryResult } from '../../types';
 
 /**
@@ -40,68 +27,33 @@ export function useRatings(toolId: string): FirestoreQueryResult<FirebaseRating>
       return;
     }
 
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      console.log(`🔍 useRatings - 도구 ID "${toolId}"의 평점 조회 시작`);
-
-      // 특정 도구의 모든 평점 실시간 구독 (인덱스 없이 작동하도록 단순화)
-      const ratingsQuery = query(
-        collection(db, 'ratings'),
-        where('toolId', '==', toolId)
-      );
-
-      const unsubscribe = onSnapshot(
-        ratingsQuery,
-        (snapshot) => {
-          const ratings: FirebaseRating[] = [];
-          
-          console.log(`📊 useRatings - 평점 데이터 수신:`, snapshot.size, '개');
-          
-          snapshot.forEach((doc) => {
-            const data = doc.data();
-            const rating: FirebaseRating = {
-              id: doc.id,
-              toolId: data.toolId,
-              userId: data.userId,
-              rating: data.rating,
-              createdAt: data.createdAt?.toDate() || new Date(),
-              updatedAt: data.updatedAt?.toDate() || new Date()
-            };
-            
-            console.log(`📝 useRatings - 평점 항목:`, {
-              id: rating.id,
-              userId: rating.userId,
-              rating: rating.rating
-            });
-            
-            ratings.push(rating);
-          });
-          
-          // 클라이언트에서 최신순으로 정렬
-          ratings.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-          
-          setData(ratings);
-          setIsLoading(false);
-          
-          console.log(`✅ useRatings - 평점 데이터 로드 완료:`, ratings.length, '개');
-        },
-        (error) => {
-          console.error('❌ 평점 목록 조회 실패:', error);
-          console.error('❌ 오류 상세:', error.code, error.message);
-          setError(`평점을 불러오는 중 오류가 발생했습니다: ${error.message}`);
-          setIsLoading(false);
-        }
-      );
+    setIsLoading(true);
+    setError(null);
+
+    console.log(`🔍 useRatings - 도구 ID "${toolId}"의 평점 조회 시작`);
+
+    // 특정 도구의 모든 평점 실시간 구독
+    const unsubscribe = getRepository().ratings.subscribeByTool(
+      toolId,
+      (items) => {
+        console.log(`📊 useRatings - 평점 데이터 수신:`, items.length, '개');
+        
+        // 클라이언트에서 최신순으로 정렬
+        const ratings = [...items].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+        
+        setData(ratings);
+        setIsLoading(false);
+        
+        console.log(`✅ useRatings - 평점 데이터 로드 완료:`, ratings.length, '개');
+      },
+      (error) => {
+        console.error('❌ 평점 목록 조회 실패:', error);
+        setError(`평점을 불러오는 중 오류가 발생했습니다: ${error.message}`);
+        setIsLoading(false);
+      }
+    );
 
-      return () => unsubscribe();
-      
-    } catch (error: any) {
-      console.error('❌ 평점 쿼리 설정 실패:', error);
-      setError(error.message || '평점 설정 중 오류가 발생했습니다.');
-      setIsLoading(false);
-    }
+    return () => unsubscribe();
   }, [toolId]);
 
   /**
@@ -116,24 +68,18 @@ export function useRatings(toolId: string): FirestoreQueryResult<FirebaseRating>
         throw new Error('평점은 0.5점에서 5.0점 사이여야 합니다.');
       }
 
+      if (!Number.isInteger(rating * 2)) {
+        throw new Error('평점은 0.5점 단위로 입력해주세요.');
+      }
+
       // 이미 평점을 남긴 사용자인지 확인
       const existingRating = data.find(r => r.userId === userId);
       if (existingRating) {
         throw new Error('이미 평점을 남기셨습니다. 수정을 원하시면 평점 수정을 이용해주세요.');
       }
 
-      const newRating = {
-        toolId,
-        userId,
-        rating,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
-      };
-
-      await addDoc(collection(db, 'ratings'), newRating);
-      
-      // 도구의 평균 평점 업데이트
-      await updateToolAverageRating(toolId);
+      // 평점 저장과 도구 집계 값(평균, 개수, 분포) 갱신은 저장소에서 트랜잭션으로 함께 처리
+      await getRepository().ratings.add(toolId, userId, rating);
       
       console.log('✅ 평점 추가 완료');
       
@@ -155,14 +101,11 @@ export function useRatings(toolId: string): FirestoreQueryResult<FirebaseRating>
         throw new Error('평점은 0.5점에서 5.0점 사이여야 합니다.');
       }
 
-      const ratingDoc = doc(db, 'ratings', ratingId);
-      await updateDoc(ratingDoc, {
-        rating,
-        updatedAt: serverTimestamp()
-      });
-      
-      // 도구의 평균 평점 업데이트
-      await updateToolAverageRating(toolId);
+      if (!Number.isInteger(rating * 2)) {
+        throw new Error('평점은 0.5점 단위로 입력해주세요.');
+      }
+
+      await getRepository().ratings.update(ratingId, rating);
       
       console.log('✅ 평점 수정 완료');
       
@@ -178,11 +121,7 @@ export function useRatings(toolId: string): FirestoreQueryResult<FirebaseRating>
    */
   const deleteRating = async (ratingId: string): Promise<void> => {
     try {
-      const ratingDoc = doc(db, 'ratings', ratingId);
-      await deleteDoc(ratingDoc);
-      
-      // 도구의 평균 평점 업데이트
-      await updateToolAverageRating(toolId);
+      await getRepository().ratings.remove(ratingId);
       
       console.log('✅ 평점 삭제 완료');
       
@@ -192,43 +131,6 @@ export function useRatings(toolId: string): FirestoreQueryResult<FirebaseRating>
     }
   };
 
-  /**
-   * 도구의 평균 평점과 평점 수를 업데이트
-   * @param toolId 도구 ID
-   */
-  const updateToolAverageRating = async (toolId: string): Promise<void> => {
-    try {
-      // 현재 평점들을 다시 조회하여 평균 계산
-      const ratingsQuery = query(
-        collection(db, 'ratings'),
-        where('toolId', '==', toolId)
-      );
-
-      // getDocs를 사용하여 한 번만 데이터 가져오기
-      const snapshot = await getDocs(ratingsQuery);
-
-      const ratings = snapshot.docs.map((doc) => doc.data().rating);
-      const averageRating = ratings.length > 0 
-        ? ratings.reduce((sum: number, rating: number) => sum + rating, 0) / ratings.length 
-        : 0;
-      const ratingCount = ratings.length;
-
-      // 도구 문서 업데이트
-      const toolDoc = doc(db, 'tools', toolId);
-      await updateDoc(toolDoc, {
-        averageRating: Math.round(averageRating * 10) / 10, // 소수점 첫째자리까지
-        ratingCount,
-        updatedAt: serverTimestamp()
-      });
-
-      console.log(`✅ 도구 평균 평점 업데이트: ${averageRating.toFixed(1)}점 (${ratingCount}개)`);
-      
-    } catch (error: any) {
-      console.error('❌ 도구 평균 평점 업데이트 실패:', error);
-      // 평점 업데이트 실패는 치명적이지 않으므로 에러를 던지지 않음
-    }
-  };
-
   // 평균 평점 계산
   const averageRating = useMemo(() => {
     if (data.length === 0) return 0;
@@ -295,50 +197,24 @@ export function useUserRatings(userId: string): FirestoreQueryResult<FirebaseRat
       return;
     }
 
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      // 사용자의 모든 평점 실시간 구독
-      const userRatingsQuery = query(
-        collection(db, 'ratings'),
-        where('userId', '==', userId)
-      );
-
-      const unsubscribe = onSnapshot(
-        userRatingsQuery,
-        (snapshot) => {
-          const ratings: FirebaseRating[] = [];
-          
-          snapshot.forEach((doc) => {
-            const data = doc.data();
-            ratings.push({
-              id: doc.id,
-              toolId: data.toolId,
-              userId: data.userId,
-              rating: data.rating,
-              createdAt: data.createdAt?.toDate() || new Date(),
-              updatedAt: data.updatedAt?.toDate() || new Date()
-            });
-          });
-          
-          setData(ratings);
-          setIsLoading(false);
-        },
-        (error) => {
-          console.error('❌ 사용자 평점 조회 실패:', error);
-          setError('사용자 평점을 불러오는 중 오류가 발생했습니다.');
-          setIsLoading(false);
-        }
-      );
+    setIsLoading(true);
+    setError(null);
+
+    // 사용자의 모든 평점 실시간 구독
+    const unsubscribe = getRepository().ratings.subscribeByUser(
+      userId,
+      (ratings) => {
+        setData(ratings);
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('❌ 사용자 평점 조회 실패:', error);
+        setError('사용자 평점을 불러오는 중 오류가 발생했습니다.');
+        setIsLoading(false);
+      }
+    );
 
-      return () => unsubscribe();
-      
-    } catch (error: any) {
-      console.error('❌ 사용자 평점 쿼리 설정 실패:', error);
-      setError(error.message || '사용자 평점 설정 중 오류가 발생했습니다.');
-      setIsLoading(false);
-    }
+    return () => unsubscribe();
   }, [userId]);
 
   return { data, isLoading, error };
@@ -0,0 +1,67 @@
+// 내 도구 등록 요청 관리 훅
+import { useState, useEffect, useCallback } from 'react';
+import { getRepository } from '../repositories';
+import { FirebaseTool, FirestoreQueryResult } from '../../types';
+import { useAuthContext } from '../contexts/AuthContext';
+
+/**
+ * 현재 로그인한 사용자가 등록한 도구 중 아직 공개되지 않은(검토 대기, 거부) 도구를 구독하는 훅
+ * 관리자가 검토하면 상태와 거부 사유가 실시간으로 반영됩니다.
+ * @returns 등록 요청 목록, 로딩 상태, 에러, 요청 취소(삭제) 함수
+ */
+export function useMySubmissions(): FirestoreQueryResult<FirebaseTool> & {
+  withdrawSubmission: (toolId: string) => Promise<void>;
+} {
+  const { user } = useAuthContext();
+  const userId = user?.uid;
+
+  const [data, setData] = useState<FirebaseTool[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setData([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const unsubscribe = getRepository().tools.subscribe(
+      { createdBy: userId, status: 'all' },
+      (tools) => {
+        setData(tools.filter(tool => tool.status !== 'approved'));
+        setError(null);
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('❌ 내 등록 요청 조회 실패:', error);
+        setError(error.message || '등록 요청 목록을 불러오는 중 오류가 발생했습니다.');
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  /**
+   * 등록 요청 취소 (검토 대기 또는 거부된 도구 삭제)
+   * @param toolId 삭제할 도구 ID
+   */
+  const withdrawSubmission = useCallback(async (toolId: string): Promise<void> => {
+    try {
+      await getRepository().tools.remove(toolId);
+      console.log('🗑️ 등록 요청 삭제 완료:', toolId);
+    } catch (error: any) {
+      console.error('❌ 등록 요청 삭제 실패:', error);
+      throw new Error(error.message || '등록 요청을 삭제하는 중 오류가 발생했습니다.');
+    }
+  }, []);
+
+  return {
+    data,
+    isLoading,
+    error,
+    withdrawSubmission
+  };
+}
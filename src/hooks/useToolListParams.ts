@@ -0,0 +1,183 @@
+// 도구 목록 필터/정렬/페이지 상태를 URL 검색 파라미터와 동기화하는 훅
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { PricingModel, SortOption } from '../../types';
+import { TagMatchMode, uniqueTags } from '../utils/tags';
+import { PRICING_MODELS } from '../utils/pricing';
+
+/**
+ * 도구 목록 필터 상태
+ */
+export interface ToolListFilters {
+  selectedCategory: string;
+  searchTerm: string;
+  freeOnly: boolean;
+  pricingModels: PricingModel[]; // 선택한 가격 모델 중 하나에 해당하는 도구만 표시 (비어 있으면 전체)
+  freeTrialOnly: boolean;
+  bookmarkedOnly: boolean;
+  tags: string[];
+  tagMatchMode: TagMatchMode;
+}
+
+/**
+ * 상태 변경 옵션
+ */
+export interface ToolListNavigateOptions {
+  // true면 새 히스토리 항목을 만들지 않고 현재 항목을 교체
+  replace?: boolean;
+}
+
+// URL 파라미터 이름
+const PARAM_KEYS = {
+  category: 'category',
+  query: 'q',
+  sort: 'sort',
+  page: 'page',
+  free: 'free',
+  pricing: 'pricing',
+  trial: 'trial',
+  bookmarked: 'bookmarked',
+  tags: 'tags',
+  tagMode: 'tagMode'
+} as const;
+
+const DEFAULT_CATEGORY = '전체';
+const DEFAULT_SORT: SortOption = 'updated_desc';
+const DEFAULT_TAG_MODE: TagMatchMode = 'and';
+
+const SORT_OPTIONS: SortOption[] = [
+  'rating_desc', 'rating_asc', 'name_asc', 'name_desc',
+  'created_desc', 'created_asc', 'updated_desc', 'updated_asc'
+];
+
+/**
+ * URL 검색 파라미터를 목록 상태로 변환 (잘못된 값은 기본값 사용)
+ */
+const parseParams = (params: URLSearchParams): ToolListFilters & { sortOrder: SortOption; currentPage: number } => {
+  const sort = params.get(PARAM_KEYS.sort);
+  const page = Number.parseInt(params.get(PARAM_KEYS.page) || '', 10);
+
+  return {
+    selectedCategory: params.get(PARAM_KEYS.category) || DEFAULT_CATEGORY,
+    searchTerm: params.get(PARAM_KEYS.query) || '',
+    freeOnly: params.get(PARAM_KEYS.free) === '1',
+    // 가격 모델 목록 순서로 정렬해 같은 선택이면 같은 URL이 되도록 함
+    pricingModels: PRICING_MODELS.filter(model => (params.get(PARAM_KEYS.pricing) || '').split(',').includes(model)),
+    freeTrialOnly: params.get(PARAM_KEYS.trial) === '1',
+    bookmarkedOnly: params.get(PARAM_KEYS.bookmarked) === '1',
+    // 태그 이름에는 쉼표가 들어가지 않으므로 쉼표로 구분
+    tags: uniqueTags((params.get(PARAM_KEYS.tags) || '').split(',')),
+    tagMatchMode: params.get(PARAM_KEYS.tagMode) === 'or' ? 'or' : DEFAULT_TAG_MODE,
+    sortOrder: SORT_OPTIONS.find(option => option === sort) || DEFAULT_SORT,
+    currentPage: Number.isFinite(page) && page > 1 ? page : 1
+  };
+};
+
+/**
+ * 파라미터 값 설정 (기본값이면 URL에서 제거해 짧게 유지)
+ */
+const setParam = (params: URLSearchParams, key: string, value: string, defaultValue: string) => {
+  if (value && value !== defaultValue) {
+    params.set(key, value);
+  } else {
+    params.delete(key);
+  }
+};
+
+/**
+ * 도구 목록의 필터, 정렬, 페이지 상태를 URL 검색 파라미터로 관리하는 훅
+ * 예: ?category=AI+챗봇&q=gpt&sort=rating_desc&page=3&free=1&pricing=freemium,paid&trial=1&tags=챗봇,코드+생성&tagMode=or
+ * - URL이 유일한 상태 저장소이므로 새로고침, 링크 공유, 뒤로 가기로 같은 화면을 복원
+ * - 카테고리/태그/정렬/무료/가격/북마크/페이지 변경은 히스토리 항목 추가, 검색어 입력은 현재 항목 교체
+ * - 필터나 정렬이 바뀌면 같은 이동에서 페이지를 1로 되돌림
+ * @returns 현재 상태와 상태 변경 함수
+ */
+export function useToolListParams(): {
+  filters: ToolListFilters;
+  sortOrder: SortOption;
+  currentPage: number;
+  setFilters: (
+    update: ToolListFilters | ((prev: ToolListFilters) => ToolListFilters),
+    options?: ToolListNavigateOptions
+  ) => void;
+  setSortOrder: (sortOrder: SortOption, options?: ToolListNavigateOptions) => void;
+  setCurrentPage: (page: number, options?: ToolListNavigateOptions) => void;
+} {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // 같은 렌더링 주기에 여러 번 변경해도 이전 변경을 덮어쓰지 않도록 마지막으로 요청한 파라미터 보관
+  const pendingParamsRef = useRef<URLSearchParams | null>(null);
+  useEffect(() => {
+    pendingParamsRef.current = null;
+  }, [searchParams]);
+
+  const { sortOrder, currentPage, ...filters } = useMemo(() => parseParams(searchParams), [searchParams]);
+
+  /**
+   * 현재 파라미터를 복사해 수정한 뒤 URL 갱신 (다른 파라미터는 유지)
+   */
+  const navigate = useCallback((
+    modify: (params: URLSearchParams, current: ReturnType<typeof parseParams>) => void,
+    replace: boolean
+  ) => {
+    const currentParams = pendingParamsRef.current || searchParams;
+    const nextParams = new URLSearchParams(currentParams);
+    modify(nextParams, parseParams(currentParams));
+
+    if (nextParams.toString() === currentParams.toString()) return;
+
+    pendingParamsRef.current = nextParams;
+    setSearchParams(nextParams, { replace });
+  }, [searchParams, setSearchParams]);
+
+  const setFilters = useCallback((
+    update: ToolListFilters | ((prev: ToolListFilters) => ToolListFilters),
+    options: ToolListNavigateOptions = {}
+  ) => {
+    const { sortOrder: _sortOrder, currentPage: _currentPage, ...prev } = parseParams(pendingParamsRef.current || searchParams);
+    const next = typeof update === 'function' ? update(prev) : update;
+    const changedKeys = (Object.keys(next) as (keyof ToolListFilters)[]).filter(key =>
+      key === 'tags' || key === 'pricingModels' ? next[key].join(',') !== prev[key].join(',') : next[key] !== prev[key]
+    );
+    if (changedKeys.length === 0) return;
+
+    // 검색어만 바뀐 경우는 입력 중 히스토리가 쌓이지 않도록 교체
+    const replace = options.replace ?? changedKeys.every(key => key === 'searchTerm');
+
+    navigate(params => {
+      setParam(params, PARAM_KEYS.category, next.selectedCategory, DEFAULT_CATEGORY);
+      setParam(params, PARAM_KEYS.query, next.searchTerm, '');
+      setParam(params, PARAM_KEYS.free, next.freeOnly ? '1' : '', '');
+      setParam(params, PARAM_KEYS.pricing, PRICING_MODELS.filter(model => next.pricingModels.includes(model)).join(','), '');
+      setParam(params, PARAM_KEYS.trial, next.freeTrialOnly ? '1' : '', '');
+      setParam(params, PARAM_KEYS.bookmarked, next.bookmarkedOnly ? '1' : '', '');
+      setParam(params, PARAM_KEYS.tags, uniqueTags(next.tags).join(','), '');
+      setParam(params, PARAM_KEYS.tagMode, next.tagMatchMode, DEFAULT_TAG_MODE);
+      params.delete(PARAM_KEYS.page);
+    }, replace);
+  }, [searchParams, navigate]);
+
+  const setSortOrder = useCallback((nextSortOrder: SortOption, options: ToolListNavigateOptions = {}) => {
+    navigate((params, current) => {
+      setParam(params, PARAM_KEYS.sort, nextSortOrder, DEFAULT_SORT);
+      if (nextSortOrder !== current.sortOrder) {
+        params.delete(PARAM_KEYS.page);
+      }
+    }, options.replace ?? false);
+  }, [navigate]);
+
+  const setCurrentPage = useCallback((page: number, options: ToolListNavigateOptions = {}) => {
+    navigate(params => {
+      setParam(params, PARAM_KEYS.page, String(Math.max(1, Math.floor(page))), '1');
+    }, options.replace ?? false);
+  }, [navigate]);
+
+  return {
+    filters,
+    sortOrder,
+    currentPage,
+    setFilters,
+    setSortOrder,
+    setCurrentPage
+  };
+}
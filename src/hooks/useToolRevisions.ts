@@ -0,0 +1,65 @@
+// 도구 변경 이력 조회 및 되돌리기 훅
+import { useState, useEffect, useCallback } from 'react';
+import { getRepository } from '../repositories';
+import { FirebaseToolRevision, FirestoreQueryResult } from '../../types';
+
+/**
+ * 도구의 변경 이력을 실시간 구독하는 훅
+ * @param toolId 도구 ID (null이면 구독하지 않음)
+ * @returns 이력 목록(최근 이력부터), 로딩 상태, 에러, 되돌리기 함수
+ */
+export function useToolRevisions(toolId: string | null): FirestoreQueryResult<FirebaseToolRevision> & {
+  revertToRevision: (revision: FirebaseToolRevision, authorId: string) => Promise<void>;
+} {
+  const [data, setData] = useState<FirebaseToolRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!toolId) {
+      setData([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const unsubscribe = getRepository().toolRevisions.subscribe(
+      toolId,
+      (revisions) => {
+        setData(revisions);
+        setError(null);
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('❌ 변경 이력 조회 실패:', error);
+        setError(error.message || '변경 이력을 불러오는 중 오류가 발생했습니다.');
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [toolId]);
+
+  /**
+   * 도구를 이력 시점의 내용으로 되돌림
+   * 되돌린 태그 중 태그 목록에서 지워진 태그는 다시 등록합니다.
+   */
+  const revertToRevision = useCallback(async (revision: FirebaseToolRevision, authorId: string): Promise<void> => {
+    try {
+      await getRepository().toolRevisions.revert(revision.toolId, revision.id, authorId);
+      console.log('✅ 도구 되돌리기 완료:', revision.fields.name, revision.id);
+    } catch (error: any) {
+      console.error('❌ 도구 되돌리기 실패:', error);
+      throw new Error(error.message || '도구를 되돌리는 중 오류가 발생했습니다.');
+    }
+
+    try {
+      await getRepository().tags.ensure(revision.fields.tags);
+    } catch (error) {
+      // 태그 등록 실패는 되돌리기 실패로 처리하지 않음
+      console.error('❌ 태그 등록 실패:', error);
+    }
+  }, []);
+
+  return { data, isLoading, error, revertToRevision };
+}
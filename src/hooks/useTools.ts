@@ -1,335 +1,314 @@
-// Firebase 도구 목록 관리 훅
-import { useState, useEffect, useMemo } from 'react';
-import { 
-  collection, 
-  query, 
-  orderBy, 
-  where, 
-  onSnapshot, 
-  addDoc, 
-  doc,
-  updateDoc,
-  deleteDoc,
-  serverTimestamp,
-  QueryConstraint,
-  getDocs,
-  Query,
-  DocumentData 
-} from 'firebase/firestore';
-import { db } from '../lib/firebase';
-import { FirebaseTool, ToolInput, FirestoreQueryResult, SortOption } from '../../types';
-// CATEGORIES 상수 가져오기 제거
+// 도구 목록 관리 훅
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { getDataSource, getRepository, ToolPageCursor, ToolQuery } from '../repositories';
+import { useAuthContext } from '../contexts/AuthContext';
+import { FirebaseTool, FirebaseCategory, ToolInput, FirestoreQueryResult, SortOption, ToolStatus } from '../../types';
+import {
+  CategoryNode,
+  buildCategoryTree,
+  flattenCategoryTree,
+  getCategoryNamesWithDescendants
+} from '../utils/categoryTree';
+import { toToolInput } from '../utils/toolDiff';
+import { assertToolContentAllowed } from './useContentFilter';
 
 /**
- * Firebase에서 도구 목록을 실시간으로 가져오고 관리하는 훅
+ * useTools 옵션
+ */
+export interface UseToolsOptions {
+  // 지정하면 서버 커서 기반 페이지 모드로 동작 (실시간 구독 대신 필요한 만큼만 조회)
+  pageSize?: number;
+}
+
+/**
+ * 저장소에서 도구 목록을 가져오고 관리하는 훅
+ * - 기본: 전체 목록 실시간 구독
+ * - pageSize 지정 시: limit/startAfter 커서로 페이지 단위 조회, loadMore로 다음 페이지 로드
+ * - 상위 카테고리를 선택하면 모든 하위 카테고리의 도구도 함께 조회
  * @param category 필터링할 카테고리 (선택사항)
  * @param sortOrder 정렬 옵션
- * @returns 도구 목록, 로딩 상태, 에러, 도구 추가 함수
+ * @param options 페이지 크기 등 조회 옵션
+ * @returns 도구 목록, 카테고리 목록/트리, 태그 목록, 로딩 상태, 에러, 도구 추가 함수, 페이지 로드 함수
  */
-export function useTools(category?: string, sortOrder: SortOption = 'updated_desc'): FirestoreQueryResult<FirebaseTool> & {
-  addTool: (toolData: ToolInput, userId: string) => Promise<void>;
+export function useTools(
+  category?: string,
+  sortOrder: SortOption = 'updated_desc',
+  options: UseToolsOptions = {}
+): FirestoreQueryResult<FirebaseTool> & {
+  addTool: (toolData: ToolInput, userId: string, status?: ToolStatus) => Promise<void>;
   updateTool: (toolId: string, toolData: ToolInput, userId: string) => Promise<void>;
   deleteTool: (toolId: string, userId: string) => Promise<void>;
   categories: string[];
+  categoryItems: FirebaseCategory[];
+  categoryTree: CategoryNode[];
+  tags: string[];
+  totalCount: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMore: () => Promise<void>;
+  loadAll: () => Promise<void>;
+  refresh: () => Promise<void>;
 } {
+  const { pageSize } = options;
+  const isPaged = !!pageSize && pageSize > 0;
+  const { role } = useAuthContext();
+  // 로컬 데이터 모드에는 보안 규칙이 없으므로 누구나 태그 등록
+  const canCreateTags = getDataSource() === 'local' || role !== null;
+
   const [data, setData] = useState<FirebaseTool[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [categoryList, setCategoryList] = useState<string[]>(['전체']);
+  const [categoryItems, setCategoryItems] = useState<FirebaseCategory[]>([]);
+  const [isCategoriesLoaded, setIsCategoriesLoaded] = useState(false);
+  const [tagList, setTagList] = useState<string[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  // 페이지 모드 상태 (렌더링과 무관한 값은 ref로 관리)
+  const cursorRef = useRef<ToolPageCursor | null>(null);
+  const hasMoreRef = useRef(false);
+  const loadedCountRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+  // 카테고리/정렬 변경 후 늦게 도착한 이전 요청 결과를 무시하기 위한 요청 번호
+  const requestIdRef = useRef(0);
 
   // 카테고리 목록 로드
   useEffect(() => {
     const loadCategories = async () => {
       try {
-        const categoriesCollection = collection(db, 'categories');
-        const categoriesSnapshot = await getDocs(categoriesCollection);
-        
-        const categoryNames: string[] = [];
-        categoriesSnapshot.forEach(doc => {
-          const data = doc.data();
-          if (data.name) {
-            categoryNames.push(data.name);
-          }
-        });
-        
-        // 카테고리 이름 오름차순으로 정렬
-        categoryNames.sort((a, b) => a.localeCompare(b));
-        
-        // '전체' 카테고리를 맨 앞에 추가
-        setCategoryList(['전체', ...categoryNames]);
+        const categories = await getRepository().categories.list();
+        setCategoryItems(categories.filter(category => !!category.name));
       } catch (error) {
         console.error('카테고리 목록 로드 오류:', error);
+      } finally {
+        setIsCategoriesLoaded(true);
       }
     };
     
     loadCategories();
   }, []);
 
-  // 카테고리 및 정렬 옵션 변경 시 데이터 로드
+  // 카테고리 트리 (같은 상위 카테고리 안에서는 표시 순서, 이름순)
+  const categoryTree = useMemo(() => buildCategoryTree(categoryItems), [categoryItems]);
+
+  // 트리 순서로 펼친 카테고리 이름 목록 ('전체'를 맨 앞에 추가)
+  const categoryList = useMemo(
+    () => ['전체', ...flattenCategoryTree(categoryTree).map(node => node.category.name)],
+    [categoryTree]
+  );
+
+  // 선택한 카테고리와 모든 하위 카테고리 이름
+  const categoryFilterKey = useMemo(() => {
+    if (!category || category === '전체') return '';
+    return getCategoryNamesWithDescendants(categoryItems, category).join('\n');
+  }, [category, categoryItems]);
+
+  // 조회 조건 (포함할 카테고리 목록이 실제로 바뀔 때만 새 객체 생성)
+  const toolQuery = useMemo<ToolQuery>(() => ({
+    categories: categoryFilterKey ? categoryFilterKey.split('\n') : undefined,
+    sortOrder
+  }), [categoryFilterKey, sortOrder]);
+
+  // 카테고리 필터가 있으면 하위 카테고리를 알 수 있도록 카테고리 목록을 먼저 불러온 뒤 조회
+  const isQueryReady = !categoryFilterKey || isCategoriesLoaded;
+
+  /**
+   * 태그 목록 조회 (이름 오름차순)
+   */
+  const loadTags = useCallback(async () => {
+    try {
+      const tags = await getRepository().tags.list();
+      setTagList(tags.map(tag => tag.name).filter(Boolean).sort((a, b) => a.localeCompare(b)));
+    } catch (error) {
+      console.error('태그 목록 로드 오류:', error);
+    }
+  }, []);
+
   useEffect(() => {
-    // 이전 구독 취소를 위한 변수
-    let unsubscribe: (() => void) | undefined;
-    
-    // 데이터 로드 함수
-    const loadData = async () => {
-      try {
-        setIsLoading(true);
-        
-        console.log('🔍 useTools: Firebase 데이터 조회 시작', { category, sortOrder });
-
-        // 기본 쿼리 - 인덱스 문제를 방지하기 위해 단순하게 구성
-        let toolsQuery: Query<DocumentData>;
-        
-        // 에러 방지를 위해 try-catch 블록으로 쿼리 생성 과정 감싸기
-        try {
-          // 인덱스 오류를 방지하기 위한 임시 해결책
-          // 카테고리 필터링이 있는 경우에도 정렬을 적용하지 않고 기본 쿼리만 사용
-          if (category && category !== '전체') {
-            console.log('📂 카테고리 필터 적용 (인덱스 오류 방지 모드):', category);
-            
-            // 카테고리로만 필터링하는 단순 쿼리 사용
-            toolsQuery = query(
-              collection(db, 'tools'),
-              where('category', '==', category)
-            );
-          } else {
-            // 카테고리 필터링이 없는 경우
-            console.log('📂 전체 카테고리 조회');
-            
-            // 정렬 옵션만 적용
-            switch (sortOrder) {
-              case 'rating_desc':
-                toolsQuery = query(
-                  collection(db, 'tools'),
-                  orderBy('averageRating', 'desc')
-                );
-                break;
-              case 'rating_asc':
-                toolsQuery = query(
-                  collection(db, 'tools'),
-                  orderBy('averageRating', 'asc')
-                );
-                break;
-              case 'name_asc':
-                toolsQuery = query(
-                  collection(db, 'tools'),
-                  orderBy('name', 'asc')
-                );
-                break;
-              case 'name_desc':
-                toolsQuery = query(
-                  collection(db, 'tools'),
-                  orderBy('name', 'desc')
-                );
-                break;
-              case 'created_desc':
-                toolsQuery = query(
-                  collection(db, 'tools'),
-                  orderBy('createdAt', 'desc')
-                );
-                break;
-              case 'created_asc':
-                toolsQuery = query(
-                  collection(db, 'tools'),
-                  orderBy('createdAt', 'asc')
-                );
-                break;
-              case 'updated_desc':
-                toolsQuery = query(
-                  collection(db, 'tools'),
-                  orderBy('updatedAt', 'desc')
-                );
-                break;
-              case 'updated_asc':
-                toolsQuery = query(
-                  collection(db, 'tools'),
-                  orderBy('updatedAt', 'asc')
-                );
-                break;
-              default:
-                // 기본값: 업데이트 날짜 내림차순
-                toolsQuery = query(
-                  collection(db, 'tools'),
-                  orderBy('updatedAt', 'desc')
-                );
-            }
-          }
-
-          // 실시간 구독 설정
-          try {
-            console.log('🔄 실시간 구독 설정 시도');
-            
-            unsubscribe = onSnapshot(
-              toolsQuery,
-              (snapshot) => {
-                console.log('📊 useTools: Firebase 응답 받음, 문서 수:', snapshot.size);
-                const tools: FirebaseTool[] = [];
-                
-                snapshot.forEach((doc) => {
-                  const data = doc.data();
-                  tools.push({
-                    id: doc.id,
-                    name: data.name,
-                    category: data.category,
-                    url: data.url,
-                    description: data.description,
-                    memo: data.memo,
-                    plan: data.plan,
-                    averageRating: data.averageRating || 0,
-                    ratingCount: data.ratingCount || 0,
-                    createdAt: data.createdAt?.toDate() || new Date(),
-                    updatedAt: data.updatedAt?.toDate() || new Date(),
-                    createdBy: data.createdBy
-                  });
-                });
-                
-                // 카테고리 필터링인 경우 클라이언트 측에서 정렬 적용
-                if (category && category !== '전체') {
-                  console.log('📊 클라이언트 측에서 정렬 적용:', sortOrder);
-                  tools.sort((a, b) => {
-                    switch (sortOrder) {
-                      case 'rating_desc':
-                        return b.averageRating - a.averageRating;
-                      case 'rating_asc':
-                        return a.averageRating - b.averageRating;
-                      case 'name_asc':
-                        return a.name.localeCompare(b.name);
-                      case 'name_desc':
-                        return b.name.localeCompare(a.name);
-                      case 'created_desc':
-                        return b.createdAt.getTime() - a.createdAt.getTime();
-                      case 'created_asc':
-                        return a.createdAt.getTime() - b.createdAt.getTime();
-                      case 'updated_desc':
-                        return b.updatedAt.getTime() - a.updatedAt.getTime();
-                      case 'updated_asc':
-                        return a.updatedAt.getTime() - b.updatedAt.getTime();
-                      default:
-                        return b.updatedAt.getTime() - a.updatedAt.getTime();
-                    }
-                  });
-                }
-                
-                setData(tools);
-                setIsLoading(false);
-                setError(null);
-              },
-              (error) => {
-                console.error('❌ 실시간 구독 실패:', error);
-                
-                // 실시간 구독이 실패하면 일회성 쿼리로 폴백
-                console.log('🔄 일회성 쿼리로 폴백');
-                fetchDataOnce(toolsQuery);
-              }
-            );
-          } catch (error: any) {
-            console.error('❌ 실시간 구독 설정 실패:', error);
-            
-            // 실시간 구독 설정이 실패하면 일회성 쿼리로 폴백
-            console.log('🔄 일회성 쿼리로 폴백');
-            fetchDataOnce(toolsQuery);
-          }
-          
-        } catch (error: any) {
-          // 쿼리 생성 과정에서 오류 발생 시
-          console.error('❌ 쿼리 생성 실패:', error);
-          // 기본 쿼리로 폴백 (인덱스 없이도 작동하는 가장 기본적인 쿼리)
-          console.log('🔄 가장 기본적인 쿼리로 폴백');
-          
-          toolsQuery = query(
-            collection(db, 'tools')
-          );
-          
-          // 폴백 쿼리로 데이터 조회
-          fetchDataOnce(toolsQuery);
-        }
-        
-      } catch (error: any) {
-        console.error('❌ 도구 목록 쿼리 설정 실패:', error);
-        setError('도구 목록을 불러오는 중 오류가 발생했습니다. 다시 시도해주세요.');
+    loadTags();
+  }, [loadTags]);
+
+  /**
+   * 도구에 새로 입력한 태그를 태그 목록에 등록
+   * 태그 생성은 관리 역할 사용자만 가능하므로 일반 사용자의 새 태그는 도구를 승인할 때 등록됩니다.
+   * 태그 등록 실패는 도구 저장 실패로 처리하지 않음
+   */
+  const registerTags = async (tags: string[]) => {
+    if (!canCreateTags) return;
+    try {
+      const added = await getRepository().tags.ensure(tags);
+      if (added.length > 0) {
+        console.log('🏷️ 새 태그 등록:', added);
+        await loadTags();
+      }
+    } catch (error) {
+      console.error('❌ 태그 등록 실패:', error);
+    }
+  };
+
+  /**
+   * 전체 도구 수 조회 (집계 쿼리 사용)
+   */
+  const loadTotalCount = useCallback(async (requestId: number) => {
+    try {
+      const count = await getRepository().tools.count(toolQuery);
+      if (requestId === requestIdRef.current) {
+        setTotalCount(count);
+      }
+    } catch (error) {
+      console.error('❌ 도구 수 집계 실패:', error);
+    }
+  }, [toolQuery]);
+
+  /**
+   * 페이지 모드: 처음부터 지정한 개수만큼 다시 조회
+   * @param size 조회할 도구 수
+   */
+  const loadFirstPage = useCallback(async (size: number) => {
+    const requestId = ++requestIdRef.current;
+    console.log('🔍 useTools: 첫 페이지 조회 시작', { ...toolQuery, size });
+
+    try {
+      const page = await getRepository().tools.listPage(toolQuery, size);
+      if (requestId !== requestIdRef.current) return;
+
+      cursorRef.current = page.cursor;
+      hasMoreRef.current = page.hasMore;
+      loadedCountRef.current = page.tools.length;
+      setData(page.tools);
+      setHasMore(page.hasMore);
+      setError(null);
+    } catch (error: any) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('❌ 도구 페이지 조회 실패:', error);
+      setError(`데이터 로딩 중 오류가 발생했습니다. (${error.message || '알 수 없는 오류'})`);
+    } finally {
+      if (requestId === requestIdRef.current) {
         setIsLoading(false);
-        
-        // 에러 발생 시에도 이전 데이터 유지
-        if (data.length === 0) {
-          setData([]);
-        }
       }
-    };
-    
-    // 일회성 쿼리로 데이터 가져오기
-    const fetchDataOnce = async (toolsQuery: Query<DocumentData>) => {
-      try {
-        console.log('📥 일회성 쿼리 실행');
-        const snapshot = await getDocs(toolsQuery);
-        
-        console.log('📊 일회성 쿼리 응답 받음, 문서 수:', snapshot.size);
-        const tools: FirebaseTool[] = [];
-        
-        snapshot.forEach((doc) => {
-          const data = doc.data() as any;
-          tools.push({
-            id: doc.id,
-            name: data.name,
-            category: data.category,
-            url: data.url,
-            description: data.description,
-            memo: data.memo,
-            plan: data.plan,
-            averageRating: data.averageRating || 0,
-            ratingCount: data.ratingCount || 0,
-            createdAt: data.createdAt?.toDate() || new Date(),
-            updatedAt: data.updatedAt?.toDate() || new Date(),
-            createdBy: data.createdBy
-          });
-        });
-        
+    }
+
+    loadTotalCount(requestId);
+  }, [toolQuery, loadTotalCount]);
+
+  // 페이지 모드: 카테고리 및 정렬 옵션 변경 시 첫 페이지부터 다시 로드
+  useEffect(() => {
+    if (!isPaged || !isQueryReady) return;
+
+    setIsLoading(true);
+    cursorRef.current = null;
+    hasMoreRef.current = false;
+    loadedCountRef.current = 0;
+    loadingMoreRef.current = false;
+    setIsLoadingMore(false);
+    loadFirstPage(pageSize);
+  }, [isPaged, isQueryReady, pageSize, loadFirstPage]);
+
+  // 실시간 모드: 카테고리 및 정렬 옵션 변경 시 데이터 로드
+  useEffect(() => {
+    if (isPaged || !isQueryReady) return;
+
+    setIsLoading(true);
+    console.log('🔍 useTools: 도구 목록 조회 시작', toolQuery);
+
+    // 실시간 구독 설정 (Firestore 구현은 구독 실패 시 일회성 쿼리로 폴백)
+    const unsubscribe = getRepository().tools.subscribe(
+      toolQuery,
+      (tools) => {
+        console.log('📊 useTools: 응답 받음, 문서 수:', tools.length);
         setData(tools);
+        setTotalCount(tools.length);
         setIsLoading(false);
         setError(null);
-      } catch (error: any) {
-        console.error('❌ 일회성 쿼리 실패:', error);
+      },
+      (error) => {
+        console.error('❌ 도구 목록 조회 실패:', error);
         // 에러가 발생해도 이전 데이터를 유지하고 로딩 상태만 종료
         setError(`데이터 로딩 중 오류가 발생했습니다. (${error.message || '알 수 없는 오류'})`);
         setIsLoading(false);
-        
-        // 에러가 발생했지만 이전 데이터를 계속 보여주기 위해 data 상태를 비우지 않음
-        // 기존 데이터가 없을 경우에만 빈 배열 설정
-        if (data.length === 0) {
-          setData([]);
-        }
       }
-    };
-    
-    // 데이터 로드 시작
-    loadData();
+    );
     
     // 컴포넌트 언마운트 시 구독 해제
     return () => {
-      if (unsubscribe) {
-        console.log('🔄 Firebase 구독 해제');
-        unsubscribe();
-      }
+      console.log('🔄 도구 목록 구독 해제');
+      unsubscribe();
     };
-  }, [category, sortOrder]);
+  }, [isPaged, isQueryReady, toolQuery]);
+
+  /**
+   * 페이지 모드: 다음 페이지 로드
+   */
+  const loadMore = useCallback(async (): Promise<void> => {
+    if (!isPaged || !hasMoreRef.current || loadingMoreRef.current) return;
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+
+    try {
+      const page = await getRepository().tools.listPage(toolQuery, pageSize, cursorRef.current);
+      if (requestId !== requestIdRef.current) return;
+
+      console.log('📄 useTools: 다음 페이지 로드, 문서 수:', page.tools.length);
+      cursorRef.current = page.cursor;
+      hasMoreRef.current = page.hasMore;
+      loadedCountRef.current += page.tools.length;
+      setData(prev => [...prev, ...page.tools]);
+      setHasMore(page.hasMore);
+    } catch (error: any) {
+      console.error('❌ 다음 페이지 로드 실패:', error);
+      setError(`데이터 로딩 중 오류가 발생했습니다. (${error.message || '알 수 없는 오류'})`);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        loadingMoreRef.current = false;
+        setIsLoadingMore(false);
+      }
+    }
+  }, [isPaged, toolQuery, pageSize]);
 
   /**
-   * 새로운 도구를 Firestore에 추가
+   * 페이지 모드: 남은 페이지를 모두 로드 (검색 등 클라이언트 필터 적용 시 사용)
+   */
+  const loadAll = useCallback(async (): Promise<void> => {
+    const requestId = requestIdRef.current;
+    while (isPaged && hasMoreRef.current && requestId === requestIdRef.current) {
+      if (loadingMoreRef.current) {
+        // 진행 중인 로드가 끝날 때까지 대기
+        await new Promise(resolve => setTimeout(resolve, 50));
+        continue;
+      }
+      await loadMore();
+    }
+  }, [isPaged, loadMore]);
+
+  /**
+   * 페이지 모드: 지금까지 로드한 범위를 다시 조회 (도구 추가/수정/삭제 후 사용)
+   * 실시간 모드에서는 구독으로 자동 갱신되므로 아무 작업도 하지 않음
+   */
+  const refresh = useCallback(async (): Promise<void> => {
+    if (!isPaged) return;
+    await loadFirstPage(Math.max(loadedCountRef.current, pageSize));
+  }, [isPaged, pageSize, loadFirstPage]);
+
+  /**
+   * 새로운 도구를 저장소에 추가
+   * 검토 대기 상태로 추가한 도구는 관리자가 승인하기 전까지 목록에 나타나지 않습니다.
    * @param toolData 추가할 도구 정보
    * @param userId 도구를 추가하는 사용자 ID
+   * @param status 처음 검토 상태 (기본값: 'pending')
    */
-  const addTool = async (toolData: ToolInput, userId: string): Promise<void> => {
+  const addTool = async (toolData: ToolInput, userId: string, status: ToolStatus = 'pending'): Promise<void> => {
     try {
-      const newTool = {
-        ...toolData,
-        averageRating: 0,
-        ratingCount: 0,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-        createdBy: userId
-      };
-
-      await addDoc(collection(db, 'tools'), newTool);
-      console.log('✅ 새 도구 추가 완료:', toolData.name);
+      // 검토 대기로 추가하는 도구만 금칙어와 링크 수 검사 (관리자와 신뢰 사용자는 바로 공개)
+      if (status === 'pending') {
+        await assertToolContentAllowed(toolData);
+      }
+      await getRepository().tools.add(toolData, userId, status);
+      console.log(status === 'approved' ? '✅ 새 도구 추가 완료:' : '📝 새 도구 검토 요청 완료:', toolData.name);
+      await registerTags(toolData.tags);
+      await refresh();
       
     } catch (error: any) {
       console.error('❌ 도구 추가 실패:', error);
@@ -338,24 +317,21 @@ export function useTools(category?: string, sortOrder: SortOption = 'updated_des
   };
 
   /**
-   * 기존 도구를 Firestore에서 수정
+   * 기존 도구를 저장소에서 수정
    * @param toolId 수정할 도구 ID
    * @param toolData 수정할 도구 정보
    * @param userId 도구를 수정하는 사용자 ID
    */
   const updateTool = async (toolId: string, toolData: ToolInput, userId: string): Promise<void> => {
     try {
-      // 도구 문서 참조
-      const toolRef = doc(db, 'tools', toolId);
-      
-      // 수정할 데이터 준비 (평점 관련 필드는 제외)
-      const updatedTool = {
-        ...toolData,
-        updatedAt: serverTimestamp()
-      };
-
-      await updateDoc(toolRef, updatedTool);
+      // 승인된 도구에 금칙어나 링크를 추가하지 못하도록 바뀐 이름/설명/메모 검사
+      const current = await getRepository().tools.get(toolId);
+      await assertToolContentAllowed(toolData, current ? toToolInput(current) : undefined);
+      // 평점 관련 필드는 저장소에서 변경하지 않음
+      await getRepository().tools.update(toolId, toolData, userId);
       console.log('✅ 도구 수정 완료:', toolData.name);
+      await registerTags(toolData.tags);
+      await refresh();
       
     } catch (error: any) {
       console.error('❌ 도구 수정 실패:', error);
@@ -364,17 +340,15 @@ export function useTools(category?: string, sortOrder: SortOption = 'updated_des
   };
 
   /**
-   * 기존 도구를 Firestore에서 삭제
+   * 기존 도구를 저장소에서 삭제
    * @param toolId 삭제할 도구 ID
    * @param userId 도구를 삭제하는 사용자 ID
    */
-  const deleteTool = async (toolId: string, userId: string): Promise<void> => {
+  const deleteTool = async (toolId: string, _userId: string): Promise<void> => {
     try {
-      // 도구 문서 참조
-      const toolRef = doc(db, 'tools', toolId);
-      
-      await deleteDoc(toolRef);
+      await getRepository().tools.remove(toolId);
       console.log('✅ 도구 삭제 완료:', toolId);
+      await refresh();
       
     } catch (error: any) {
       console.error('❌ 도구 삭제 실패:', error);
@@ -382,8 +356,6 @@ export function useTools(category?: string, sortOrder: SortOption = 'updated_des
     }
   };
 
-  // 사용 가능한 카테고리 목록 추출 부분 제거
-
   return {
     data,
     isLoading,
@@ -391,7 +363,16 @@ export function useTools(category?: string, sortOrder: SortOption = 'updated_des
     addTool,
     updateTool,
     deleteTool,
-    categories: categoryList
+    categories: categoryList,
+    categoryItems,
+    categoryTree,
+    tags: tagList,
+    totalCount,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    loadAll,
+    refresh
   };
 }
 
@@ -416,54 +397,26 @@ export function useTool(toolId: string): {
       return;
     }
 
-    try {
-      // 특정 도구 문서 실시간 구독
-      const toolQuery = query(
-        collection(db, 'tools'),
-        where('__name__', '==', toolId)
-      );
-
-      const unsubscribe = onSnapshot(
-        toolQuery,
-        (snapshot) => {
-          if (!snapshot.empty) {
-            const doc = snapshot.docs[0];
-            const docData = doc.data();
-            
-            setData({
-              id: doc.id,
-              name: docData.name,
-              category: docData.category,
-              url: docData.url,
-              description: docData.description,
-              memo: docData.memo,
-              plan: docData.plan,
-              averageRating: docData.averageRating || 0,
-              ratingCount: docData.ratingCount || 0,
-              createdAt: docData.createdAt?.toDate() || new Date(),
-              updatedAt: docData.updatedAt?.toDate() || new Date(),
-              createdBy: docData.createdBy
-            });
-            setIsLoading(false);
-          } else {
-            setError('도구를 찾을 수 없습니다.');
-            setIsLoading(false);
-          }
-        },
-        (error) => {
-          console.error('❌ 도구 조회 실패:', error);
-          setError('도구 정보를 불러오는 중 오류가 발생했습니다.');
-          setIsLoading(false);
+    // 특정 도구 문서 실시간 구독
+    const unsubscribe = getRepository().tools.subscribeOne(
+      toolId,
+      (tool) => {
+        if (tool) {
+          setData(tool);
+          setError(null);
+        } else {
+          setError('도구를 찾을 수 없습니다.');
         }
-      );
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('❌ 도구 조회 실패:', error);
+        setError('도구 정보를 불러오는 중 오류가 발생했습니다.');
+        setIsLoading(false);
+      }
+    );
 
-      return () => unsubscribe();
-      
-    } catch (error: any) {
-      console.error('❌ 도구 쿼리 설정 실패:', error);
-      setError(error.message || '도구 정보 설정 중 오류가 발생했습니다.');
-      setIsLoading(false);
-    }
+    return () => unsubscribe();
   }, [toolId]);
 
   return {
@@ -471,4 +424,62 @@ export function useTool(toolId: string): {
     isLoading,
     error
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * 슬러그로 도구를 찾아 useTool로 실시간 구독하는 훅 (도구 상세 페이지용)
+ * 슬러그로 찾지 못하면 도구 ID로도 조회하므로 ID 기반 링크도 동작합니다.
+ * @param slug URL의 도구 슬러그 또는 도구 ID
+ * @returns 도구 정보, 로딩 상태, 에러
+ */
+export function useToolBySlug(slug: string): {
+  data: FirebaseTool | null;
+  isLoading: boolean;
+  error: string | null;
+} {
+  const [toolId, setToolId] = useState<string | null>(null);
+  const [isResolving, setIsResolving] = useState(true);
+  const [resolveError, setResolveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+    setIsResolving(true);
+    setResolveError(null);
+
+    const resolveToolId = async () => {
+      try {
+        const { tools } = getRepository();
+        const tool = (await tools.getBySlug(slug)) || (await tools.get(slug));
+        if (!isActive) return;
+
+        setToolId(tool ? tool.id : null);
+        if (!tool) {
+          setResolveError('도구를 찾을 수 없습니다.');
+        }
+      } catch (error) {
+        console.error('❌ 슬러그로 도구 조회 실패:', error);
+        if (isActive) {
+          setToolId(null);
+          setResolveError('도구 정보를 불러오는 중 오류가 발생했습니다.');
+        }
+      } finally {
+        if (isActive) {
+          setIsResolving(false);
+        }
+      }
+    };
+
+    resolveToolId();
+    return () => {
+      isActive = false;
+    };
+  }, [slug]);
+
+  const { data, isLoading, error } = useTool(toolId || '');
+
+  return {
+    data: toolId ? data : null,
+    isLoading: isResolving || (!!toolId && isLoading),
+    error: resolveError || (toolId ? error : null)
+  };
+}
@@ -0,0 +1,102 @@
+// 관리자 사용자 관리 훅
+import { useState, useEffect, useCallback } from 'react';
+import { getRepository } from '../repositories';
+import { FirestoreQueryResult, UserContentKind, UserRole, UserSummary } from '../../types';
+
+/**
+ * 사용자 목록과 사용자별 작성 수, 마지막 활동을 불러오는 훅
+ * 여러 컬렉션을 모아 집계하므로 실시간 구독 대신 작업이 끝날 때마다 다시 불러옵니다.
+ * @returns 사용자 목록, 로딩 상태, 에러, 역할 지정/게시 정지/콘텐츠 일괄 삭제 함수
+ */
+export function useUserSummaries(): FirestoreQueryResult<UserSummary> & {
+  refresh: () => Promise<void>;
+  setUserRole: (userId: string, role: UserRole | null) => Promise<void>;
+  suspendUser: (userId: string, reason: string, suspendedBy: string) => Promise<void>;
+  unsuspendUser: (userId: string) => Promise<void>;
+  removeUserContent: (userId: string, kinds: UserContentKind[]) => Promise<Record<UserContentKind, number>>;
+} {
+  const [data, setData] = useState<UserSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setData(await getRepository().users.listSummaries());
+      setError(null);
+    } catch (error: any) {
+      console.error('❌ 사용자 목록 조회 실패:', error);
+      setError(error.message || '사용자 목록을 불러오는 중 오류가 발생했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * 관리 역할 지정 (null이면 해제)
+   */
+  const setUserRole = useCallback(async (userId: string, role: UserRole | null): Promise<void> => {
+    try {
+      await getRepository().users.setRole(userId, role);
+      console.log('✅ 관리 역할 변경 완료:', userId, role);
+    } catch (error: any) {
+      console.error('❌ 관리 역할 변경 실패:', error);
+      throw new Error(error.message || '역할을 변경하는 중 오류가 발생했습니다.');
+    }
+    await refresh();
+  }, [refresh]);
+
+  /**
+   * 게시 정지
+   */
+  const suspendUser = useCallback(async (userId: string, reason: string, suspendedBy: string): Promise<void> => {
+    try {
+      await getRepository().users.suspend(userId, reason, suspendedBy);
+      console.log('🚫 게시 정지 완료:', userId);
+    } catch (error: any) {
+      console.error('❌ 게시 정지 실패:', error);
+      throw new Error(error.message || '게시를 정지하는 중 오류가 발생했습니다.');
+    }
+    await refresh();
+  }, [refresh]);
+
+  /**
+   * 게시 정지 해제
+   */
+  const unsuspendUser = useCallback(async (userId: string): Promise<void> => {
+    try {
+      await getRepository().users.unsuspend(userId);
+      console.log('✅ 게시 정지 해제 완료:', userId);
+    } catch (error: any) {
+      console.error('❌ 게시 정지 해제 실패:', error);
+      throw new Error(error.message || '게시 정지를 해제하는 중 오류가 발생했습니다.');
+    }
+    await refresh();
+  }, [refresh]);
+
+  /**
+   * 사용자가 작성한 콘텐츠 일괄 삭제
+   * @returns 종류별 삭제한 문서 수
+   */
+  const removeUserContent = useCallback(async (
+    userId: string,
+    kinds: UserContentKind[]
+  ): Promise<Record<UserContentKind, number>> => {
+    let removedCounts: Record<UserContentKind, number>;
+    try {
+      removedCounts = await getRepository().users.removeContent(userId, kinds);
+      console.log('🗑️ 사용자 콘텐츠 일괄 삭제 완료:', userId, removedCounts);
+    } catch (error: any) {
+      console.error('❌ 사용자 콘텐츠 일괄 삭제 실패:', error);
+      throw new Error(error.message || '콘텐츠를 삭제하는 중 오류가 발생했습니다.');
+    }
+    await refresh();
+    return removedCounts;
+  }, [refresh]);
+
+  return { data, isLoading, error, refresh, setUserRole, suspendUser, unsuspendUser, removeUserContent };
+}
@@ -14,7 +14,12 @@ const firebaseConfig = {
 };
 
 // Firebase 앱 초기화
-export const app = initializeApp(firebaseConfig);
+// 설정이 없는 경우(로컬 데이터 모드)에도 모듈 로드 시 getAuth가 예외를 던지지 않도록 임시 값을 사용
+export const app = initializeApp({
+  ...firebaseConfig,
+  apiKey: firebaseConfig.apiKey || 'local-placeholder-key',
+  projectId: firebaseConfig.projectId || 'local-placeholder'
+});
 
 // Firestore 데이터베이스 인스턴스
 export const db = getFirestore(app);
@@ -0,0 +1,1392 @@
+// Firestore 기반 저장소 구현
+import {
+  Firestore,
+  collection,
+  query,
+  orderBy,
+  where,
+  onSnapshot,
+  addDoc,
+  doc,
+  getDoc,
+  getDocs,
+  getCountFromServer,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  writeBatch,
+  serverTimestamp,
+  limit as firestoreLimit,
+  startAfter,
+  Query,
+  DocumentData,
+  DocumentSnapshot,
+  QueryConstraint,
+  WriteBatch
+} from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import {
+  FirebaseTool,
+  FirebaseRating,
+  FirebaseComment,
+  FirebaseCommentReport,
+  FirebaseBookmark,
+  FirebaseCategory,
+  FirebaseTag,
+  FirebaseEditSuggestion,
+  FirebaseToolRevision,
+  FirebaseAuditLog,
+  FirebaseUser,
+  UserSuspension,
+  UserContentKind,
+  RateLimitKind,
+  ToolInput,
+  ToolRevisionAction,
+  CategoryInput,
+  SortOption
+} from '../../types';
+import { sortTools, toNameSortKey } from '../utils/toolSort';
+import { readRatingSummary } from '../utils/ratingAggregate';
+import { toSlug, createUniqueSlug } from '../utils/slug';
+import { normalizeTags, uniqueTags, tagKey } from '../utils/tags';
+import { getParentIdAfterMerge } from '../utils/categoryTree';
+import { normalizePricing, pricingFromPlan } from '../utils/pricing';
+import { normalizeLinkHealth } from '../utils/linkHealth';
+import { normalizeToolStatus, getStatusFilter } from '../utils/toolStatus';
+import { diffToolFields, getChangedFields, mergeToolInput, pickFieldChanges, toToolInput } from '../utils/toolDiff';
+import { getRoleFromClaims } from '../utils/roles';
+import { normalizeModerationStatus } from '../utils/commentModeration';
+import { createEmptyContentCounts, summarizeUsers } from '../utils/userActivity';
+import { normalizeContentFilterSettings } from '../utils/contentFilter';
+import { consumeRateLimit, normalizeRateLimitWindow, toRateLimitedDocId } from '../utils/rateLimit';
+import {
+  DataRepository,
+  ToolRepository,
+  RatingRepository,
+  CommentRepository,
+  CommentReportRepository,
+  BookmarkRepository,
+  CategoryRepository,
+  TagRepository,
+  EditSuggestionRepository,
+  ToolRevisionRepository,
+  AuditLogRepository,
+  UserRepository,
+  SettingsRepository,
+  ToolQuery,
+  ToolPage
+} from './types';
+
+// 배치 작업당 최대 문서 수 (Firestore 제한)
+const MAX_BATCH_SIZE = 500;
+
+// 변경 이력과 함께 수정하는 배치당 최대 도구 수
+// 이력 생성 규칙이 도구마다 getAfter()를 호출하는데, 배치 쓰기 전체의 문서 접근 호출은 20회로 제한됨
+// (게시 정지 확인 등 다른 규칙 호출을 위한 여유를 둠)
+const MAX_REVISION_BATCH_TOOLS = 15;
+
+// Cloud Functions 리전 (functions/src/index.ts의 setGlobalOptions와 같게 유지)
+const FUNCTIONS_REGION = 'asia-northeast3';
+
+// 정렬 옵션별 Firestore 정렬 필드
+// 이름순은 대소문자 구분 없이 정렬하도록 소문자로 저장한 nameLower 사용 (compareTools의 이름 비교와 같은 순서)
+const SORT_FIELDS: Record<SortOption, [string, 'asc' | 'desc']> = {
+  rating_desc: ['averageRating', 'desc'],
+  rating_asc: ['averageRating', 'asc'],
+  name_asc: ['nameLower', 'asc'],
+  name_desc: ['nameLower', 'desc'],
+  created_desc: ['createdAt', 'desc'],
+  created_asc: ['createdAt', 'asc'],
+  updated_desc: ['updatedAt', 'desc'],
+  updated_asc: ['updatedAt', 'asc']
+};
+
+/**
+ * 이름을 바꾸는 쓰기에 함께 저장할 이름 정렬 키 (이름이 바뀌지 않으면 빈 객체)
+ */
+const toNameSortFields = (name: string | undefined): { nameLower?: string } =>
+  name !== undefined ? { nameLower: toNameSortKey(name) } : {};
+
+/**
+ * Firestore 문서를 FirebaseTool로 변환
+ */
+const toTool = (snapshot: DocumentSnapshot<DocumentData>): FirebaseTool => {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    // 슬러그가 없는 기존 문서는 이름으로 계산
+    slug: data.slug || toSlug(data.name || ''),
+    tags: Array.isArray(data.tags) ? data.tags : [],
+    name: data.name,
+    category: data.category,
+    url: data.url,
+    description: data.description,
+    memo: data.memo,
+    // 아직 마이그레이션하지 않은 문서는 요금제 문자열(plan)에서 변환
+    pricing: data.pricing !== undefined ? normalizePricing(data.pricing) : pricingFromPlan(data.plan),
+    ...readRatingSummary(data),
+    commentCount: data.commentCount || 0,
+    bookmarkCount: data.bookmarkCount || 0,
+    linkHealth: normalizeLinkHealth(data.linkHealth),
+    status: normalizeToolStatus(data.status),
+    rejectionReason: data.rejectionReason || null,
+    reviewedBy: data.reviewedBy || null,
+    reviewedAt: data.reviewedAt?.toDate() || null,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date(),
+    createdBy: data.createdBy
+  };
+};
+
+/**
+ * Firestore 문서를 FirebaseRating으로 변환
+ */
+const toRating = (snapshot: DocumentSnapshot<DocumentData>): FirebaseRating => {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    toolId: data.toolId,
+    userId: data.userId,
+    rating: data.rating,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date()
+  };
+};
+
+/**
+ * Firestore 문서를 FirebaseComment로 변환
+ */
+const toComment = (snapshot: DocumentSnapshot<DocumentData>): FirebaseComment => {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    toolId: data.toolId,
+    userId: data.userId,
+    userName: data.userName,
+    userPhotoURL: data.userPhotoURL || null,
+    content: data.content,
+    parentId: data.parentId || null,
+    reportCount: data.reportCount || 0,
+    moderationStatus: normalizeModerationStatus(data.moderationStatus),
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date()
+  };
+};
+
+/**
+ * Firestore 문서를 FirebaseCommentReport로 변환
+ */
+const toCommentReport = (snapshot: DocumentSnapshot<DocumentData>): FirebaseCommentReport => {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    commentId: data.commentId,
+    toolId: data.toolId,
+    commentAuthorId: data.commentAuthorId,
+    reporterId: data.reporterId,
+    reason: data.reason || 'other',
+    detail: data.detail || '',
+    createdAt: data.createdAt?.toDate() || new Date()
+  };
+};
+
+/**
+ * Firestore 문서를 FirebaseBookmark로 변환
+ */
+const toBookmark = (snapshot: DocumentSnapshot<DocumentData>): FirebaseBookmark => {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    toolId: data.toolId,
+    userId: data.userId,
+    createdAt: data.createdAt?.toDate() || new Date()
+  };
+};
+
+/**
+ * Firestore 문서를 FirebaseCategory로 변환
+ */
+const toCategory = (snapshot: DocumentSnapshot<DocumentData>): FirebaseCategory => {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    name: data.name,
+    parentId: data.parentId || null,
+    order: typeof data.order === 'number' ? data.order : 0,
+    icon: data.icon || '',
+    description: data.description || '',
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date()
+  };
+};
+
+/**
+ * Firestore 문서를 FirebaseTag로 변환
+ */
+const toTag = (snapshot: DocumentSnapshot<DocumentData>): FirebaseTag => {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    name: data.name,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date()
+  };
+};
+
+/**
+ * Firestore 문서를 FirebaseEditSuggestion으로 변환
+ */
+const toEditSuggestion = (snapshot: DocumentSnapshot<DocumentData>): FirebaseEditSuggestion => {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    toolId: data.toolId,
+    toolName: data.toolName || '',
+    toolOwnerId: data.toolOwnerId,
+    userId: data.userId,
+    userName: data.userName || '',
+    message: data.message || '',
+    changes: data.changes || {},
+    status: data.status || 'pending',
+    appliedFields: Array.isArray(data.appliedFields) ? data.appliedFields : [],
+    reviewNote: data.reviewNote || null,
+    reviewedBy: data.reviewedBy || null,
+    reviewedAt: data.reviewedAt?.toDate() || null,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date()
+  };
+};
+
+/**
+ * Firestore 문서를 FirebaseToolRevision으로 변환
+ */
+const toToolRevision = (snapshot: DocumentSnapshot<DocumentData>): FirebaseToolRevision => {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    toolId: data.toolId,
+    action: data.action || 'update',
+    fields: data.fields,
+    changes: data.changes || {},
+    authorId: data.authorId,
+    sourceId: data.sourceId || null,
+    createdAt: data.createdAt?.toDate() || new Date()
+  };
+};
+
+/**
+ * Firestore 문서를 FirebaseAuditLog로 변환
+ */
+const toAuditLog = (snapshot: DocumentSnapshot<DocumentData>): FirebaseAuditLog => {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    actorId: data.actorId || '',
+    action: data.action,
+    targetType: data.targetType || 'admin',
+    targetId: data.targetId ?? null,
+    targetName: data.targetName || '',
+    before: data.before ?? null,
+    after: data.after ?? null,
+    createdAt: data.createdAt?.toDate() || new Date()
+  };
+};
+
+/**
+ * Firestore 문서를 FirebaseUser로 변환
+ */
+const toUser = (snapshot: DocumentSnapshot<DocumentData>): FirebaseUser => {
+  const data = snapshot.data() || {};
+  return {
+    uid: snapshot.id,
+    displayName: data.displayName || null,
+    email: data.email || null,
+    photoURL: data.photoURL || null,
+    role: getRoleFromClaims({ role: data.role }),
+    createdAt: data.createdAt?.toDate() || new Date()
+  };
+};
+
+/**
+ * Firestore 문서를 UserSuspension으로 변환
+ */
+const toSuspension = (snapshot: DocumentSnapshot<DocumentData>): UserSuspension => {
+  const data = snapshot.data() || {};
+  return {
+    userId: snapshot.id,
+    reason: data.reason || '',
+    suspendedBy: data.suspendedBy || '',
+    createdAt: data.createdAt?.toDate() || new Date()
+  };
+};
+
+/**
+ * 변경 이력 기록 정보
+ */
+interface RevisionEntry {
+  action: ToolRevisionAction;
+  before: ToolInput | null; // 변경 전 필드 값 (등록이면 null)
+  after: ToolInput;
+  authorId: string;
+  sourceId?: string;
+}
+
+/**
+ * 변경 이력 문서를 배치에 추가 (바뀐 필드가 없으면 기록하지 않음)
+ * @returns 기록했으면 true
+ */
+const addRevision = (db: Firestore, batch: WriteBatch, toolId: string, entry: RevisionEntry): boolean => {
+  const changes = entry.before ? diffToolFields(entry.before, entry.after) : {};
+  if (entry.before && getChangedFields(changes).length === 0) return false;
+
+  batch.set(doc(collection(db, 'tools', toolId, 'revisions')), {
+    toolId,
+    action: entry.action,
+    fields: entry.after,
+    changes,
+    authorId: entry.authorId,
+    sourceId: entry.sourceId ?? null,
+    createdAt: serverTimestamp()
+  });
+  return true;
+};
+
+/**
+ * 작성 수 제한 카운터(rateLimits/{uid}) 갱신을 배치에 추가 (제한을 넘으면 에러)
+ * 보안 규칙은 같은 쓰기에서 카운터의 lastAt이 서버 시각으로 갱신되었는지, 새 문서 ID가 갱신된 순번과 맞는지 확인합니다.
+ * @returns 같은 배치에서 만들 문서의 ID
+ */
+const addRateLimitWrite = async (db: Firestore, batch: WriteBatch, userId: string, kind: RateLimitKind): Promise<string> => {
+  const rateLimitRef = doc(db, 'rateLimits', userId);
+  const [settingsSnap, rateLimitSnap] = await Promise.all([
+    getDoc(doc(db, 'settings', 'contentFilter')),
+    getDoc(rateLimitRef)
+  ]);
+  const { isNewWindow, window } = consumeRateLimit(
+    normalizeRateLimitWindow(rateLimitSnap.get(kind)),
+    kind,
+    normalizeContentFilterSettings(settingsSnap.data())
+  );
+
+  // 이어지는 구간은 저장된 시작 시각을 그대로 기록해야 규칙의 비교를 통과
+  batch.set(rateLimitRef, {
+    [kind]: {
+      windowStart: isNewWindow ? serverTimestamp() : rateLimitSnap.get(kind).windowStart,
+      count: window.count,
+      seq: window.seq,
+      lastAt: serverTimestamp()
+    }
+  }, { merge: true });
+  return toRateLimitedDocId(userId, window.seq);
+};
+
+// Firestore 'in' 조건에 넣을 수 있는 최대 값 개수
+const MAX_IN_VALUES = 30;
+
+/**
+ * 조회 조건의 카테고리 목록 (null이면 전체)
+ */
+const getCategoryFilter = ({ category, categories }: ToolQuery): string[] | null => {
+  if (categories && categories.length > 0) return categories;
+  if (category && category !== '전체') return [category];
+  return null;
+};
+
+/**
+ * 카테고리 조건 생성 (값이 너무 많아 'in' 조건을 쓸 수 없으면 null을 반환하고 클라이언트에서 필터링)
+ */
+const toCategoryConstraint = (categoryNames: string[]) => {
+  if (categoryNames.length === 1) return where('category', '==', categoryNames[0]);
+  if (categoryNames.length <= MAX_IN_VALUES) return where('category', 'in', categoryNames);
+  return null;
+};
+
+/**
+ * 검토 상태, 등록자 조건 생성
+ * 보안 규칙은 승인되지 않은 도구를 관리자와 등록한 사용자에게만 보여 주므로
+ * 일반 조회는 반드시 승인 상태 조건을 포함해야 합니다.
+ */
+const toFilterConstraints = ({ status, createdBy }: ToolQuery): QueryConstraint[] => {
+  const statusFilter = getStatusFilter(status);
+  return [
+    ...(statusFilter ? [where('status', '==', statusFilter)] : []),
+    ...(createdBy ? [where('createdBy', '==', createdBy)] : [])
+  ];
+};
+
+/**
+ * Firestore 도구 저장소 생성
+ */
+const createToolRepository = (db: Firestore): ToolRepository => {
+  const toolsCollection = collection(db, 'tools');
+
+  /**
+   * 조회 조건에 맞는 쿼리 생성
+   * 카테고리 필터가 있으면 복합 인덱스 오류를 피하기 위해 정렬 없이 필터만 적용
+   */
+  const buildQuery = (toolQuery: ToolQuery): Query<DocumentData> => {
+    const filters = toFilterConstraints(toolQuery);
+    const categoryFilter = getCategoryFilter(toolQuery);
+    if (categoryFilter) {
+      const constraint = toCategoryConstraint(categoryFilter);
+      return query(toolsCollection, ...filters, ...(constraint ? [constraint] : []));
+    }
+    const [field, direction] = SORT_FIELDS[toolQuery.sortOrder || 'updated_desc'] || SORT_FIELDS.updated_desc;
+    return query(toolsCollection, ...filters, orderBy(field, direction));
+  };
+
+  /**
+   * 카테고리 필터 쿼리는 정렬되지 않은 상태로 오므로 클라이언트에서 정렬
+   * ('in' 조건을 쓸 수 없을 만큼 카테고리가 많으면 여기서 필터링)
+   */
+  const finalize = (tools: FirebaseTool[], toolQuery: ToolQuery): FirebaseTool[] => {
+    const categoryFilter = getCategoryFilter(toolQuery);
+    if (categoryFilter) {
+      const categoryNames = new Set(categoryFilter);
+      return sortTools(tools.filter(tool => categoryNames.has(tool.category)), toolQuery.sortOrder || 'updated_desc');
+    }
+    return tools;
+  };
+
+  const list = async (toolQuery: ToolQuery = {}): Promise<FirebaseTool[]> => {
+    const snapshot = await getDocs(buildQuery(toolQuery));
+    return finalize(snapshot.docs.map(toTool), toolQuery);
+  };
+
+  /**
+   * 전체 목록을 가져와 오프셋 기준으로 자르는 페이지 조회 (복합 인덱스가 없을 때의 폴백)
+   * 이 경우 커서는 다음 페이지의 시작 오프셋(number)입니다.
+   */
+  const listPageByOffset = async (toolQuery: ToolQuery, pageSize: number, offset: number): Promise<ToolPage> => {
+    const tools = await list(toolQuery);
+    const nextOffset = offset + pageSize;
+    return {
+      tools: tools.slice(offset, nextOffset),
+      cursor: nextOffset,
+      hasMore: nextOffset < tools.length
+    };
+  };
+
+  return {
+    subscribe(toolQuery, onNext, onError) {
+      const toolsQuery = buildQuery(toolQuery);
+      let isActive = true;
+
+      const unsubscribe = onSnapshot(
+        toolsQuery,
+        (snapshot) => {
+          console.log('📊 Firestore 도구 응답 받음, 문서 수:', snapshot.size);
+          onNext(finalize(snapshot.docs.map(toTool), toolQuery));
+        },
+        async (error) => {
+          console.error('❌ 실시간 구독 실패, 일회성 쿼리로 폴백:', error);
+          try {
+            const tools = await list(toolQuery);
+            if (isActive) onNext(tools);
+          } catch (fallbackError: any) {
+            if (isActive) onError(fallbackError);
+          }
+        }
+      );
+
+      return () => {
+        isActive = false;
+        unsubscribe();
+      };
+    },
+
+    subscribeOne(toolId, onNext, onError) {
+      return onSnapshot(
+        doc(db, 'tools', toolId),
+        (snapshot) => onNext(snapshot.exists() ? toTool(snapshot) : null),
+        onError
+      );
+    },
+
+    list,
+
+    async listPage(toolQuery, pageSize, cursor = null) {
+      // 오프셋 폴백 모드로 전환된 이후의 페이지
+      if (typeof cursor === 'number') {
+        return listPageByOffset(toolQuery, pageSize, cursor);
+      }
+
+      const { sortOrder = 'updated_desc' } = toolQuery;
+      const categoryFilter = getCategoryFilter(toolQuery);
+      const categoryConstraint = categoryFilter ? toCategoryConstraint(categoryFilter) : null;
+      if (categoryFilter && !categoryConstraint) {
+        return listPageByOffset(toolQuery, pageSize, 0);
+      }
+
+      const [field, direction] = SORT_FIELDS[sortOrder] || SORT_FIELDS.updated_desc;
+      const constraints = [
+        ...toFilterConstraints(toolQuery),
+        ...(categoryConstraint ? [categoryConstraint] : []),
+        orderBy(field, direction),
+        ...(cursor ? [startAfter(cursor as DocumentSnapshot<DocumentData>)] : []),
+        // 다음 페이지 존재 여부 확인을 위해 1개 더 조회
+        firestoreLimit(pageSize + 1)
+      ];
+
+      try {
+        const snapshot = await getDocs(query(toolsCollection, ...constraints));
+        const pageDocs = snapshot.docs.slice(0, pageSize);
+        console.log('📄 Firestore 도구 페이지 조회, 문서 수:', pageDocs.length);
+        return {
+          tools: pageDocs.map(toTool),
+          cursor: pageDocs.length > 0 ? pageDocs[pageDocs.length - 1] : null,
+          hasMore: snapshot.docs.length > pageSize
+        };
+      } catch (error) {
+        // 첫 페이지에서 인덱스 오류가 나면 오프셋 방식으로 폴백
+        if (cursor) throw error;
+        console.error('❌ 커서 페이지 조회 실패, 오프셋 방식으로 폴백:', error);
+        return listPageByOffset(toolQuery, pageSize, 0);
+      }
+    },
+
+    async count(toolQuery = {}) {
+      const categoryFilter = getCategoryFilter(toolQuery);
+      const categoryConstraint = categoryFilter ? toCategoryConstraint(categoryFilter) : null;
+      if (categoryFilter && !categoryConstraint) {
+        return (await list(toolQuery)).length;
+      }
+
+      const countQuery = query(
+        toolsCollection,
+        ...toFilterConstraints(toolQuery),
+        ...(categoryConstraint ? [categoryConstraint] : [])
+      );
+      const snapshot = await getCountFromServer(countQuery);
+      return snapshot.data().count;
+    },
+
+    async get(toolId) {
+      const snapshot = await getDoc(doc(db, 'tools', toolId));
+      return snapshot.exists() ? toTool(snapshot) : null;
+    },
+
+    // 상세 페이지용 조회이므로 승인된 도구만 찾음
+    async getBySlug(slug) {
+      const approved = where('status', '==', 'approved');
+      const snapshot = await getDocs(query(toolsCollection, where('slug', '==', slug), approved, firestoreLimit(1)));
+      if (!snapshot.empty) return toTool(snapshot.docs[0]);
+
+      // 슬러그 필드가 없는 기존 문서는 이름으로 만든 슬러그와 비교
+      const allSnapshot = await getDocs(query(toolsCollection, approved));
+      const legacyDoc = allSnapshot.docs.find(toolDoc =>
+        !toolDoc.data().slug && toSlug(toolDoc.data().name || '') === slug
+      );
+      return legacyDoc ? toTool(legacyDoc) : null;
+    },
+
+    async add(toolData, userId, status = 'pending') {
+      // 검토 대기 도구는 일반 사용자가 조회할 수 없으므로 슬러그 예약 문서(slugs/{slug})로 중복 확인
+      const slug = await createUniqueSlug(toolData.name, async (candidate) =>
+        (await getDoc(doc(db, 'slugs', candidate))).exists()
+      );
+      // 도구 문서, 슬러그 예약, 등록 이력을 함께 커밋 (같은 슬러그를 동시에 예약하면 한쪽은 규칙에서 거부됨)
+      // 검토 대기로 추가하는 일반 사용자만 하루 등록 요청 수 제한 (문서 ID는 카운터 순번)
+      const batch = writeBatch(db);
+      const toolRef = status === 'pending'
+        ? doc(toolsCollection, await addRateLimitWrite(db, batch, userId, 'tools'))
+        : doc(toolsCollection);
+      const fields = toToolInput({ ...toolData, tags: normalizeTags(toolData.tags) });
+      batch.set(doc(db, 'slugs', slug), {
+        toolId: toolRef.id,
+        createdBy: userId,
+        createdAt: serverTimestamp()
+      });
+      batch.set(toolRef, {
+        ...toolData,
+        ...toNameSortFields(toolData.name),
+        tags: fields.tags,
+        slug,
+        averageRating: 0,
+        ratingCount: 0,
+        ratingSum: 0,
+        ratingHistogram: {},
+        commentCount: 0,
+        bookmarkCount: 0,
+        status,
+        rejectionReason: null,
+        reviewedBy: null,
+        reviewedAt: null,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+        createdBy: userId
+      });
+      addRevision(db, batch, toolRef.id, { action: 'create', before: null, after: fields, authorId: userId });
+      await batch.commit();
+      return toolRef.id;
+    },
+
+    async update(toolId, toolData, authorId) {
+      const toolRef = doc(db, 'tools', toolId);
+      const snapshot = await getDoc(toolRef);
+      if (!snapshot.exists()) {
+        throw new Error(`도구 문서를 찾을 수 없습니다: ${toolId}`);
+      }
+      const before = toToolInput(toTool(snapshot));
+      const after = mergeToolInput(before, toolData);
+
+      const batch = writeBatch(db);
+      batch.update(toolRef, {
+        ...toolData,
+        ...toNameSortFields(toolData.name),
+        ...(toolData.tags ? { tags: after.tags } : {}),
+        updatedAt: serverTimestamp()
+      });
+      addRevision(db, batch, toolId, { action: 'update', before, after, authorId });
+      await batch.commit();
+    },
+
+    async remove(toolId) {
+      await deleteDoc(doc(db, 'tools', toolId));
+    },
+
+    async removeAll() {
+      const snapshot = await getDocs(toolsCollection);
+      const docs = snapshot.docs;
+
+      // 배치 크기 제한에 맞춰 나누어 삭제
+      for (let start = 0; start < docs.length; start += MAX_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        docs.slice(start, start + MAX_BATCH_SIZE).forEach(toolDoc => batch.delete(toolDoc.ref));
+        await batch.commit();
+      }
+    },
+
+    async touch(toolId) {
+      await updateDoc(doc(db, 'tools', toolId), {
+        updatedAt: serverTimestamp()
+      });
+    },
+
+    async review(toolId, status, reviewerId, reason) {
+      await updateDoc(doc(db, 'tools', toolId), {
+        status,
+        rejectionReason: status === 'rejected' ? reason?.trim() || null : null,
+        reviewedBy: reviewerId,
+        reviewedAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+    },
+
+    async resolveLinkHealth(toolId, change) {
+      const toolRef = doc(db, 'tools', toolId);
+      if (!change) {
+        await updateDoc(toolRef, { linkHealth: null });
+        return;
+      }
+
+      const snapshot = await getDoc(toolRef);
+      if (!snapshot.exists()) {
+        throw new Error(`도구 문서를 찾을 수 없습니다: ${toolId}`);
+      }
+      const before = toToolInput(toTool(snapshot));
+      const batch = writeBatch(db);
+      batch.update(toolRef, { linkHealth: null, url: change.url, updatedAt: serverTimestamp() });
+      addRevision(db, batch, toolId, {
+        action: 'update',
+        before,
+        after: { ...before, url: change.url },
+        authorId: change.authorId
+      });
+      await batch.commit();
+    },
+
+    async reassignCategory(fromCategory, toCategory, authorId, onProgress) {
+      if (fromCategory === toCategory) return 0;
+
+      // 옮긴 도구는 조회 조건에서 빠지므로 남은 도구가 없을 때까지 배치 크기만큼 조회 후 커밋
+      // 도구마다 변경 이력도 함께 기록하므로 규칙의 문서 접근 호출 제한에 맞춰 나눔
+      let movedCount = 0;
+      for (;;) {
+        const snapshot = await getDocs(query(
+          toolsCollection,
+          where('category', '==', fromCategory),
+          firestoreLimit(MAX_REVISION_BATCH_TOOLS)
+        ));
+        if (snapshot.empty) break;
+
+        const batch = writeBatch(db);
+        snapshot.docs.forEach(toolDoc => {
+          const before = toToolInput(toTool(toolDoc));
+          batch.update(toolDoc.ref, {
+            category: toCategory,
+            updatedAt: serverTimestamp()
+          });
+          addRevision(db, batch, toolDoc.id, {
+            action: 'bulk',
+            before,
+            after: { ...before, category: toCategory },
+            authorId
+          });
+        });
+        await batch.commit();
+
+        movedCount += snapshot.size;
+        onProgress?.(movedCount);
+      }
+      return movedCount;
+    },
+
+    async replaceTag(fromTag, toTag, authorId, onProgress) {
+      // 태그는 대소문자를 무시하고 비교하므로 array-contains 대신 전체 도구를 조회해 대상 선택
+      const fromKey = tagKey(fromTag);
+      const affected = (await list({ status: 'all' }))
+        .filter(tool => tool.tags.some(tag => tagKey(tag) === fromKey));
+
+      // 도구마다 변경 이력도 함께 기록하므로 규칙의 문서 접근 호출 제한에 맞춰 나눔
+      let updatedCount = 0;
+      for (let start = 0; start < affected.length; start += MAX_REVISION_BATCH_TOOLS) {
+        const chunk = affected.slice(start, start + MAX_REVISION_BATCH_TOOLS);
+        const batch = writeBatch(db);
+        chunk.forEach(tool => {
+          const before = toToolInput(tool);
+          const tags = normalizeTags(before.tags.flatMap(tag =>
+            tagKey(tag) !== fromKey ? [tag] : toTag ? [toTag] : []
+          ));
+          batch.update(doc(db, 'tools', tool.id), {
+            tags,
+            updatedAt: serverTimestamp()
+          });
+          addRevision(db, batch, tool.id, {
+            action: 'bulk',
+            before,
+            after: { ...before, tags },
+            authorId
+          });
+        });
+        await batch.commit();
+
+        updatedCount += chunk.length;
+        onProgress?.(updatedCount);
+      }
+      return updatedCount;
+    }
+  };
+};
+
+/**
+ * Firestore 평점 저장소 생성
+ */
+const createRatingRepository = (db: Firestore): RatingRepository => {
+  const ratingsCollection = collection(db, 'ratings');
+
+  return {
+    subscribeByTool(toolId, onNext, onError) {
+      // 인덱스 없이 작동하도록 단일 필드 필터만 사용
+      return onSnapshot(
+        query(ratingsCollection, where('toolId', '==', toolId)),
+        (snapshot) => onNext(snapshot.docs.map(toRating)),
+        onError
+      );
+    },
+
+    subscribeByUser(userId, onNext, onError) {
+      return onSnapshot(
+        query(ratingsCollection, where('userId', '==', userId)),
+        (snapshot) => onNext(snapshot.docs.map(toRating)),
+        onError
+      );
+    },
+
+    async listByTool(toolId) {
+      const snapshot = await getDocs(query(ratingsCollection, where('toolId', '==', toolId)));
+      return snapshot.docs.map(toRating);
+    },
+
+    // 도구 문서의 평점 집계 값(평균, 개수, 합계, 분포)은 Cloud Functions 트리거(functions/)가 트랜잭션으로 갱신
+    async add(toolId, userId, rating) {
+      const docRef = await addDoc(ratingsCollection, {
+        toolId,
+        userId,
+        rating,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+      return docRef.id;
+    },
+
+    async update(ratingId, rating) {
+      await updateDoc(doc(db, 'ratings', ratingId), {
+        rating,
+        updatedAt: serverTimestamp()
+      });
+    },
+
+    async remove(ratingId) {
+      await deleteDoc(doc(db, 'ratings', ratingId));
+    }
+  };
+};
+
+/**
+ * Firestore 댓글 저장소 생성
+ */
+const createCommentRepository = (db: Firestore): CommentRepository => {
+  const commentsCollection = collection(db, 'comments');
+
+  return {
+    subscribeByTool(toolId, onNext, onError, options = {}) {
+      const commentsQuery = options.topLevelOnly
+        ? query(commentsCollection, where('toolId', '==', toolId), where('parentId', '==', null))
+        : query(commentsCollection, where('toolId', '==', toolId));
+
+      return onSnapshot(
+        commentsQuery,
+        (snapshot) => onNext(snapshot.docs.map(toComment)),
+        onError
+      );
+    },
+
+    // 단일 필드 범위 조건만 사용하고 정렬은 클라이언트에서 처리
+    subscribeReported(onNext, onError) {
+      return onSnapshot(
+        query(commentsCollection, where('reportCount', '>', 0)),
+        (snapshot) => onNext(
+          snapshot.docs.map(toComment).sort((a, b) => b.reportCount - a.reportCount || b.createdAt.getTime() - a.createdAt.getTime())
+        ),
+        onError
+      );
+    },
+
+    async listReplies(parentId) {
+      const snapshot = await getDocs(query(commentsCollection, where('parentId', '==', parentId)));
+      return snapshot.docs.map(toComment);
+    },
+
+    async listRecentByUser(userId, count) {
+      const snapshot = await getDocs(query(
+        commentsCollection,
+        where('userId', '==', userId),
+        orderBy('createdAt', 'desc'),
+        firestoreLimit(count)
+      ));
+      return snapshot.docs.map(toComment);
+    },
+
+    // 댓글과 작성 수 제한 카운터를 함께 커밋 (문서 ID는 카운터 순번)
+    async add(comment) {
+      const batch = writeBatch(db);
+      const commentRef = doc(commentsCollection, await addRateLimitWrite(db, batch, comment.userId, 'comments'));
+      batch.set(commentRef, {
+        ...comment,
+        reportCount: 0,
+        moderationStatus: 'visible',
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+      await batch.commit();
+      return commentRef.id;
+    },
+
+    async update(commentId, content) {
+      await updateDoc(doc(db, 'comments', commentId), {
+        content,
+        updatedAt: serverTimestamp()
+      });
+    },
+
+    // 댓글 내용을 바꾸지 않으므로 updatedAt은 갱신하지 않음
+    async moderate(commentId, status) {
+      await updateDoc(doc(db, 'comments', commentId), { moderationStatus: status });
+    },
+
+    async remove(commentId) {
+      await deleteDoc(doc(db, 'comments', commentId));
+    }
+  };
+};
+
+/**
+ * Firestore 댓글 신고 저장소 생성
+ */
+const createCommentReportRepository = (db: Firestore): CommentReportRepository => {
+  const reportsCollection = collection(db, 'commentReports');
+
+  return {
+    subscribeByComment(commentId, onNext, onError) {
+      return onSnapshot(
+        query(reportsCollection, where('commentId', '==', commentId)),
+        (snapshot) => onNext(
+          snapshot.docs.map(toCommentReport).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        ),
+        onError
+      );
+    },
+
+    // 문서 ID를 '댓글 ID_신고자 UID'로 고정해 중복 신고를 막음 (신고 수는 Cloud Functions 트리거가 갱신)
+    async add(report) {
+      const reportRef = doc(db, 'commentReports', `${report.commentId}_${report.reporterId}`);
+      if ((await getDoc(reportRef)).exists()) {
+        throw new Error('이미 신고한 댓글입니다.');
+      }
+      await setDoc(reportRef, {
+        ...report,
+        detail: report.detail.trim(),
+        createdAt: serverTimestamp()
+      });
+    },
+
+    async removeByComment(commentId) {
+      const snapshot = await getDocs(query(reportsCollection, where('commentId', '==', commentId)));
+      const docs = snapshot.docs;
+
+      for (let start = 0; start < docs.length; start += MAX_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        docs.slice(start, start + MAX_BATCH_SIZE).forEach(reportDoc => batch.delete(reportDoc.ref));
+        await batch.commit();
+      }
+    }
+  };
+};
+
+/**
+ * Firestore 북마크 저장소 생성
+ */
+const createBookmarkRepository = (db: Firestore): BookmarkRepository => {
+  const bookmarksCollection = collection(db, 'bookmarks');
+
+  // 복합 인덱스(orderBy + where)를 사용하지 않고 단일 필드 인덱스만 사용
+  const byUser = (userId: string) => query(
+    bookmarksCollection,
+    where('userId', '==', userId),
+    firestoreLimit(100)
+  );
+
+  return {
+    subscribeByUser(userId, onNext, onError) {
+      return onSnapshot(
+        byUser(userId),
+        (snapshot) => onNext(snapshot.docs.map(toBookmark)),
+        onError
+      );
+    },
+
+    async listByUser(userId) {
+      const snapshot = await getDocs(byUser(userId));
+      return snapshot.docs.map(toBookmark);
+    },
+
+    async find(userId, toolId) {
+      const snapshot = await getDocs(query(
+        bookmarksCollection,
+        where('userId', '==', userId),
+        where('toolId', '==', toolId),
+        firestoreLimit(1)
+      ));
+      return snapshot.empty ? null : toBookmark(snapshot.docs[0]);
+    },
+
+    async add(userId, toolId) {
+      const docRef = await addDoc(bookmarksCollection, {
+        userId,
+        toolId,
+        createdAt: serverTimestamp()
+      });
+      return docRef.id;
+    },
+
+    async remove(bookmarkId) {
+      await deleteDoc(doc(db, 'bookmarks', bookmarkId));
+    }
+  };
+};
+
+/**
+ * Firestore 카테고리 저장소 생성
+ */
+const createCategoryRepository = (db: Firestore): CategoryRepository => {
+  const categoriesCollection = collection(db, 'categories');
+
+  const list = async () => {
+    const snapshot = await getDocs(categoriesCollection);
+    return snapshot.docs.map(toCategory).filter(category => !!category.name);
+  };
+
+  return {
+    list,
+
+    async add(categoryData: CategoryInput) {
+      const docRef = await addDoc(categoriesCollection, {
+        ...categoryData,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+      return docRef.id;
+    },
+
+    async update(categoryId, categoryData) {
+      await updateDoc(doc(db, 'categories', categoryId), {
+        ...categoryData,
+        updatedAt: serverTimestamp()
+      });
+    },
+
+    async rename(categoryId, name) {
+      await updateDoc(doc(db, 'categories', categoryId), {
+        name,
+        updatedAt: serverTimestamp()
+      });
+    },
+
+    async remove(categoryId) {
+      const categories = await list();
+      const target = categories.find(category => category.id === categoryId);
+
+      // 하위 카테고리를 한 단계 위로 옮기고 카테고리 삭제를 한 번에 커밋
+      const batch = writeBatch(db);
+      categories
+        .filter(category => category.parentId === categoryId)
+        .forEach(child => batch.update(doc(db, 'categories', child.id), {
+          parentId: target?.parentId || null,
+          updatedAt: serverTimestamp()
+        }));
+      batch.delete(doc(db, 'categories', categoryId));
+      await batch.commit();
+    },
+
+    async merge(sourceId, targetId) {
+      const categories = await list();
+      const source = categories.find(category => category.id === sourceId);
+      if (!source) return;
+
+      // 하위 카테고리를 대상 카테고리 아래로 옮기고 원본 삭제를 한 번에 커밋
+      const batch = writeBatch(db);
+      categories
+        .filter(category => category.parentId === sourceId)
+        .forEach(child => batch.update(doc(db, 'categories', child.id), {
+          parentId: getParentIdAfterMerge(categories, child.id, source, targetId),
+          updatedAt: serverTimestamp()
+        }));
+      batch.delete(doc(db, 'categories', sourceId));
+      await batch.commit();
+    }
+  };
+};
+
+/**
+ * Firestore 태그 저장소 생성
+ */
+const createTagRepository = (db: Firestore): TagRepository => {
+  const tagsCollection = collection(db, 'tags');
+
+  const list = async () => {
+    const snapshot = await getDocs(tagsCollection);
+    return snapshot.docs.map(toTag).filter(tag => !!tag.name);
+  };
+
+  const add = async (name: string) => {
+    const docRef = await addDoc(tagsCollection, {
+      name,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    return docRef.id;
+  };
+
+  return {
+    list,
+    add,
+
+    async rename(tagId, name) {
+      await updateDoc(doc(db, 'tags', tagId), {
+        name,
+        updatedAt: serverTimestamp()
+      });
+    },
+
+    async remove(tagId) {
+      await deleteDoc(doc(db, 'tags', tagId));
+    },
+
+    async ensure(names) {
+      const existingKeys = new Set((await list()).map(tag => tagKey(tag.name)));
+      const missing = uniqueTags(names).filter(name => !existingKeys.has(tagKey(name)));
+      await Promise.all(missing.map(add));
+      return missing;
+    }
+  };
+};
+
+/**
+ * Firestore 수정 제안 저장소 생성
+ */
+const createEditSuggestionRepository = (db: Firestore): EditSuggestionRepository => {
+  const suggestionsCollection = collection(db, 'editSuggestions');
+
+  return {
+    // 동등 조건만 사용해 복합 인덱스 없이 조회하고, 정렬은 클라이언트에서 처리
+    subscribe(suggestionQuery, onNext, onError) {
+      const constraints = (['toolId', 'toolOwnerId', 'userId', 'status'] as const)
+        .filter(field => suggestionQuery[field] !== undefined)
+        .map(field => where(field, '==', suggestionQuery[field]));
+
+      return onSnapshot(
+        query(suggestionsCollection, ...constraints),
+        (snapshot) => onNext(
+          snapshot.docs.map(toEditSuggestion).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        ),
+        onError
+      );
+    },
+
+    async add(suggestion) {
+      const docRef = await addDoc(suggestionsCollection, {
+        ...suggestion,
+        status: 'pending',
+        appliedFields: [],
+        reviewNote: null,
+        reviewedBy: null,
+        reviewedAt: null,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+      return docRef.id;
+    },
+
+    async accept(suggestionId, fields, reviewerId) {
+      const snapshot = await getDoc(doc(db, 'editSuggestions', suggestionId));
+      if (!snapshot.exists()) {
+        throw new Error('수정 제안을 찾을 수 없습니다.');
+      }
+      const suggestion = toEditSuggestion(snapshot);
+      if (suggestion.status !== 'pending') {
+        throw new Error('이미 검토된 수정 제안입니다.');
+      }
+
+      const appliedFields = fields.filter(field => suggestion.changes[field] !== undefined);
+      if (appliedFields.length === 0) {
+        throw new Error('반영할 필드를 선택해주세요.');
+      }
+      const toolData = pickFieldChanges(suggestion.changes, appliedFields);
+
+      const toolRef = doc(db, 'tools', suggestion.toolId);
+      const toolSnapshot = await getDoc(toolRef);
+      if (!toolSnapshot.exists()) {
+        throw new Error('제안 대상 도구를 찾을 수 없습니다.');
+      }
+      const before = toToolInput(toTool(toolSnapshot));
+      const after = mergeToolInput(before, toolData);
+
+      // 도구 수정, 변경 이력, 제안 상태 변경을 한 번에 커밋
+      const batch = writeBatch(db);
+      batch.update(toolRef, {
+        ...toolData,
+        ...toNameSortFields(toolData.name),
+        ...(toolData.tags ? { tags: after.tags } : {}),
+        updatedAt: serverTimestamp()
+      });
+      addRevision(db, batch, suggestion.toolId, {
+        action: 'suggestion',
+        before,
+        after,
+        authorId: reviewerId,
+        sourceId: suggestionId
+      });
+      batch.update(snapshot.ref, {
+        status: 'accepted',
+        appliedFields,
+        reviewedBy: reviewerId,
+        reviewedAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+      await batch.commit();
+    },
+
+    async reject(suggestionId, reviewerId, note) {
+      await updateDoc(doc(db, 'editSuggestions', suggestionId), {
+        status: 'rejected',
+        reviewNote: note?.trim() || null,
+        reviewedBy: reviewerId,
+        reviewedAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+    },
+
+    async remove(suggestionId) {
+      await deleteDoc(doc(db, 'editSuggestions', suggestionId));
+    }
+  };
+};
+
+/**
+ * Firestore 도구 변경 이력 저장소 생성
+ */
+const createToolRevisionRepository = (db: Firestore): ToolRevisionRepository => ({
+  subscribe(toolId, onNext, onError) {
+    return onSnapshot(
+      query(collection(db, 'tools', toolId, 'revisions'), orderBy('createdAt', 'desc')),
+      (snapshot) => onNext(snapshot.docs.map(toToolRevision)),
+      onError
+    );
+  },
+
+  async revert(toolId, revisionId, authorId) {
+    const toolRef = doc(db, 'tools', toolId);
+    const [toolSnapshot, revisionSnapshot] = await Promise.all([
+      getDoc(toolRef),
+      getDoc(doc(db, 'tools', toolId, 'revisions', revisionId))
+    ]);
+    if (!toolSnapshot.exists()) {
+      throw new Error(`도구 문서를 찾을 수 없습니다: ${toolId}`);
+    }
+    if (!revisionSnapshot.exists()) {
+      throw new Error(`변경 이력을 찾을 수 없습니다: ${revisionId}`);
+    }
+
+    const before = toToolInput(toTool(toolSnapshot));
+    const after = toToolRevision(revisionSnapshot).fields;
+    const batch = writeBatch(db);
+    if (!addRevision(db, batch, toolId, { action: 'revert', before, after, authorId, sourceId: revisionId })) {
+      throw new Error('이미 해당 시점과 같은 내용입니다.');
+    }
+    batch.update(toolRef, { ...after, ...toNameSortFields(after.name), updatedAt: serverTimestamp() });
+    await batch.commit();
+  }
+});
+
+/**
+ * Firestore 감사 로그 저장소 생성
+ */
+const createAuditLogRepository = (db: Firestore): AuditLogRepository => {
+  const auditLogsCollection = collection(db, 'adminLogs');
+
+  return {
+    subscribe(maxCount, onNext, onError) {
+      return onSnapshot(
+        query(auditLogsCollection, orderBy('createdAt', 'desc'), firestoreLimit(maxCount)),
+        (snapshot) => onNext(snapshot.docs.map(toAuditLog)),
+        onError
+      );
+    },
+
+    async add(log) {
+      const docRef = await addDoc(auditLogsCollection, {
+        ...log,
+        createdAt: serverTimestamp()
+      });
+      return docRef.id;
+    }
+  };
+};
+
+// 콘텐츠 종류별 컬렉션과 작성자 UID 필드
+const USER_CONTENT_SOURCES: Record<UserContentKind, { collectionName: string; userField: string }> = {
+  tools: { collectionName: 'tools', userField: 'createdBy' },
+  ratings: { collectionName: 'ratings', userField: 'userId' },
+  comments: { collectionName: 'comments', userField: 'userId' },
+  editSuggestions: { collectionName: 'editSuggestions', userField: 'userId' }
+};
+
+/**
+ * Firestore 사용자 관리 저장소 생성
+ * 관리 화면 전용이므로 사용자와 콘텐츠 컬렉션 전체를 읽어 클라이언트에서 집계합니다.
+ */
+const createUserRepository = (db: Firestore): UserRepository => ({
+  async listSummaries() {
+    const [users, tools, ratings, comments, editSuggestions, suspensions] = await Promise.all([
+      getDocs(collection(db, 'users')).then(snapshot => snapshot.docs.map(toUser)),
+      getDocs(collection(db, 'tools')).then(snapshot => snapshot.docs.map(toTool)),
+      getDocs(collection(db, 'ratings')).then(snapshot => snapshot.docs.map(toRating)),
+      getDocs(collection(db, 'comments')).then(snapshot => snapshot.docs.map(toComment)),
+      getDocs(collection(db, 'editSuggestions')).then(snapshot => snapshot.docs.map(toEditSuggestion)),
+      getDocs(collection(db, 'suspensions')).then(snapshot => snapshot.docs.map(toSuspension))
+    ]);
+    return summarizeUsers(users, { tools, ratings, comments, editSuggestions }, suspensions);
+  },
+
+  // 커스텀 클레임은 클라이언트에서 바꿀 수 없으므로 Cloud Function(functions/src/roles.ts)에 위임
+  async setRole(userId, role) {
+    const setUserRole = httpsCallable<{ userId: string; role: string | null }, void>(
+      getFunctions(db.app, FUNCTIONS_REGION),
+      'setUserRole'
+    );
+    await setUserRole({ userId, role });
+  },
+
+  async suspend(userId, reason, suspendedBy) {
+    await setDoc(doc(db, 'suspensions', userId), {
+      reason: reason.trim(),
+      suspendedBy,
+      createdAt: serverTimestamp()
+    });
+  },
+
+  async unsuspend(userId) {
+    await deleteDoc(doc(db, 'suspensions', userId));
+  },
+
+  // 평점/댓글 집계 값과 삭제한 도구의 하위 데이터는 Cloud Functions 트리거가 정리
+  async removeContent(userId, kinds) {
+    const removedCounts = createEmptyContentCounts();
+
+    for (const kind of kinds) {
+      const { collectionName, userField } = USER_CONTENT_SOURCES[kind];
+      const snapshot = await getDocs(query(collection(db, collectionName), where(userField, '==', userId)));
+      const docs = snapshot.docs;
+
+      for (let start = 0; start < docs.length; start += MAX_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        docs.slice(start, start + MAX_BATCH_SIZE).forEach(contentDoc => batch.delete(contentDoc.ref));
+        await batch.commit();
+      }
+      removedCounts[kind] = docs.length;
+    }
+
+    return removedCounts;
+  }
+});
+
+/**
+ * Firestore 설정 저장소 생성 (settings 컬렉션, 문서 ID는 설정 종류)
+ */
+const createSettingsRepository = (db: Firestore): SettingsRepository => {
+  const contentFilterRef = doc(db, 'settings', 'contentFilter');
+
+  return {
+    async getContentFilter() {
+      const snapshot = await getDoc(contentFilterRef);
+      return normalizeContentFilterSettings(snapshot.data());
+    },
+
+    subscribeContentFilter(onNext, onError) {
+      return onSnapshot(
+        contentFilterRef,
+        (snapshot) => onNext(normalizeContentFilterSettings(snapshot.data())),
+        onError
+      );
+    },
+
+    async updateContentFilter(settings, updatedBy) {
+      await setDoc(contentFilterRef, {
+        ...settings,
+        updatedBy,
+        updatedAt: serverTimestamp()
+      });
+    }
+  };
+};
+
+/**
+ * Firestore를 사용하는 저장소 묶음 생성
+ * @param db Firestore 인스턴스
+ */
+export const createFirestoreRepository = (db: Firestore): DataRepository => ({
+  source: 'firestore',
+  tools: createToolRepository(db),
+  ratings: createRatingRepository(db),
+  comments: createCommentRepository(db),
+  commentReports: createCommentReportRepository(db),
+  bookmarks: createBookmarkRepository(db),
+  categories: createCategoryRepository(db),
+  tags: createTagRepository(db),
+  editSuggestions: createEditSuggestionRepository(db),
+  toolRevisions: createToolRevisionRepository(db),
+  auditLogs: createAuditLogRepository(db),
+  users: createUserRepository(db),
+  settings: createSettingsRepository(db)
+});
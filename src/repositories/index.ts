@@ -0,0 +1,49 @@
+// 데이터 저장소 진입점
+// VITE_DATA_SOURCE 환경 변수 또는 Firebase 설정 여부에 따라 사용할 구현체를 선택합니다.
+import { db, isFirebaseConfigured } from '../lib/firebase';
+import { createFirestoreRepository } from './firestoreRepository';
+import { createLocalRepository, LocalSeedData } from './localRepository';
+import { DataRepository, DataSourceType } from './types';
+import seedData from '../data/seed.json';
+
+export * from './types';
+export { createFirestoreRepository } from './firestoreRepository';
+export { createLocalRepository } from './localRepository';
+export type { LocalSeedData, LocalRepositoryOptions } from './localRepository';
+
+let repository: DataRepository | null = null;
+
+/**
+ * 사용할 데이터 소스 결정
+ * - VITE_DATA_SOURCE가 지정되면 해당 값을 사용
+ * - 지정되지 않으면 Firebase 설정이 있을 때 firestore, 없으면 local
+ */
+export const getDataSource = (): DataSourceType => {
+  const configured = import.meta.env.VITE_DATA_SOURCE;
+  if (configured === 'firestore' || configured === 'local') {
+    return configured;
+  }
+  return isFirebaseConfigured() ? 'firestore' : 'local';
+};
+
+/**
+ * 앱 전체에서 공유하는 저장소 인스턴스 반환
+ */
+export const getRepository = (): DataRepository => {
+  if (!repository) {
+    const source = getDataSource();
+    repository = source === 'firestore'
+      ? createFirestoreRepository(db)
+      : createLocalRepository({ seed: seedData as LocalSeedData });
+    console.log('🗄️ 데이터 저장소 초기화:', source);
+  }
+  return repository;
+};
+
+/**
+ * 저장소 인스턴스 교체 (테스트나 스토리북 등에서 사용)
+ * @param nextRepository 사용할 저장소, null이면 다음 호출 시 다시 생성
+ */
+export const setRepository = (nextRepository: DataRepository | null): void => {
+  repository = nextRepository;
+};
@@ -0,0 +1,1106 @@
+// 메모리 + localStorage 기반 저장소 구현 (오프라인 데모 및 로컬 개발용)
+import {
+  FirebaseTool,
+  FirebaseRating,
+  FirebaseComment,
+  FirebaseCommentReport,
+  FirebaseBookmark,
+  FirebaseCategory,
+  FirebaseTag,
+  FirebaseEditSuggestion,
+  FirebaseToolRevision,
+  FirebaseAuditLog,
+  FirebaseUser,
+  UserSuspension,
+  ContentFilterSettings,
+  RateLimitKind,
+  RateLimitWindow,
+  ToolInput,
+  ToolRevisionAction
+} from '../../types';
+import { sortTools } from '../utils/toolSort';
+import { toSlug } from '../utils/slug';
+import { normalizeTags, uniqueTags, tagKey } from '../utils/tags';
+import { getParentIdAfterMerge } from '../utils/categoryTree';
+import { normalizePricing, pricingFromPlan } from '../utils/pricing';
+import { normalizeLinkHealth } from '../utils/linkHealth';
+import { normalizeToolStatus, getStatusFilter } from '../utils/toolStatus';
+import { diffToolFields, getChangedFields, mergeToolInput, pickFieldChanges, toToolInput } from '../utils/toolDiff';
+import { applyRatingChange, readRatingSummary, RatingChange } from '../utils/ratingAggregate';
+import { createEmptyContentCounts, summarizeUsers } from '../utils/userActivity';
+import { applyCommentReport, normalizeModerationStatus } from '../utils/commentModeration';
+import { DEFAULT_CONTENT_FILTER_SETTINGS, normalizeContentFilterSettings } from '../utils/contentFilter';
+import { consumeRateLimit } from '../utils/rateLimit';
+import { DataRepository, ToolQuery, Unsubscribe } from './types';
+
+/**
+ * 시드 JSON 파일 형식
+ * 날짜 필드는 ISO 문자열이며 생략 가능합니다.
+ */
+export interface LocalSeedData {
+  // parent는 상위 카테고리 이름
+  categories?: { name: string; parent?: string; order?: number; icon?: string; description?: string }[];
+  tags?: { name: string }[];
+  tools?: Array<Omit<FirebaseTool, 'id' | 'slug' | 'tags' | 'pricing' | 'averageRating' | 'ratingCount' | 'ratingSum' | 'ratingHistogram' | 'commentCount' | 'bookmarkCount' | 'linkHealth' | 'status' | 'rejectionReason' | 'reviewedBy' | 'reviewedAt' | 'createdAt' | 'updatedAt' | 'createdBy'> & {
+    id?: string;
+    tags?: string[];
+    pricing?: unknown;
+    plan?: string | null; // 이전 형식의 요금제 문자열 (pricing이 없을 때 변환)
+    averageRating?: number;
+    ratingCount?: number;
+    createdAt?: string;
+    updatedAt?: string;
+    createdBy?: string;
+  }>;
+}
+
+/**
+ * 로컬 저장소 생성 옵션
+ */
+export interface LocalRepositoryOptions {
+  seed?: LocalSeedData;
+  storageKey?: string | null; // null이면 localStorage에 저장하지 않음 (메모리 전용)
+}
+
+/**
+ * 메모리에 보관하는 전체 데이터
+ */
+interface LocalState {
+  tools: FirebaseTool[];
+  ratings: FirebaseRating[];
+  comments: FirebaseComment[];
+  commentReports: FirebaseCommentReport[];
+  bookmarks: FirebaseBookmark[];
+  categories: FirebaseCategory[];
+  tags: FirebaseTag[];
+  editSuggestions: FirebaseEditSuggestion[];
+  toolRevisions: FirebaseToolRevision[];
+  auditLogs: FirebaseAuditLog[];
+  users: FirebaseUser[]; // 역할을 지정한 사용자 (로컬 모드에는 로그인 기록이 없음)
+  suspensions: UserSuspension[];
+  contentFilter: ContentFilterSettings;
+  rateLimits: Record<string, Partial<Record<RateLimitKind, RateLimitWindow>>>; // 사용자 UID별 작성 수 제한 구간
+}
+
+const DEFAULT_STORAGE_KEY = 'techToolkitHub.localData.v1';
+
+// 직렬화 시 Date로 복원해야 하는 필드
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'reviewedAt', 'windowStart', 'lastAt'];
+
+/**
+ * 고유 ID 생성
+ */
+const createId = (prefix: string): string =>
+  `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+
+/**
+ * JSON 파싱 시 날짜 문자열을 Date로 복원
+ */
+const reviveDates = (key: string, value: unknown) => {
+  if (DATE_FIELDS.includes(key) && typeof value === 'string') {
+    return new Date(value);
+  }
+  return value;
+};
+
+/**
+ * 사용한 슬러그 목록과 겹치지 않는 슬러그 생성 (생성한 슬러그는 목록에 추가)
+ */
+const uniqueSlugSync = (name: string, usedSlugs: Set<string>): string => {
+  const base = toSlug(name);
+  let slug = base;
+  for (let suffix = 2; usedSlugs.has(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  usedSlugs.add(slug);
+  return slug;
+};
+
+/**
+ * 시드 데이터를 내부 상태로 변환
+ */
+const stateFromSeed = (seed: LocalSeedData = {}): LocalState => {
+  const now = new Date();
+  const usedSlugs = new Set<string>();
+  const tools: FirebaseTool[] = (seed.tools || []).map(tool => ({
+    id: tool.id || createId('tool'),
+    slug: uniqueSlugSync(tool.name, usedSlugs),
+    tags: normalizeTags(tool.tags),
+    name: tool.name,
+    category: tool.category,
+    url: tool.url,
+    description: tool.description,
+    memo: tool.memo || '',
+    pricing: normalizePricing(tool.pricing) ?? pricingFromPlan(tool.plan),
+    ...readRatingSummary(tool),
+    commentCount: 0,
+    bookmarkCount: 0,
+    linkHealth: null,
+    // 시드 도구는 검토를 거친 데이터로 보고 바로 공개
+    status: 'approved',
+    rejectionReason: null,
+    reviewedBy: null,
+    reviewedAt: null,
+    createdAt: tool.createdAt ? new Date(tool.createdAt) : now,
+    updatedAt: tool.updatedAt ? new Date(tool.updatedAt) : now,
+    createdBy: tool.createdBy || 'system'
+  }));
+
+  // 시드에 카테고리가 없으면 도구 데이터에서 추출
+  const seedCategories: NonNullable<LocalSeedData['categories']> = seed.categories
+    || [...new Set(tools.map(tool => tool.category))].map(name => ({ name }));
+  const categoryIds = new Map(seedCategories.map(category => [category.name, createId('category')]));
+  const categories: FirebaseCategory[] = seedCategories.map((category, index) => ({
+    id: categoryIds.get(category.name)!,
+    name: category.name,
+    parentId: (category.parent && categoryIds.get(category.parent)) || null,
+    order: category.order ?? index,
+    icon: category.icon || '',
+    description: category.description || '',
+    createdAt: now,
+    updatedAt: now
+  }));
+
+  // 시드에 태그 목록이 없으면 도구 태그에서 추출
+  const tagNames = seed.tags
+    ? seed.tags.map(tag => tag.name)
+    : uniqueTags(tools.flatMap(tool => tool.tags));
+
+  return {
+    tools,
+    ratings: [],
+    comments: [],
+    commentReports: [],
+    bookmarks: [],
+    categories,
+    tags: tagNames.map(name => ({
+      id: createId('tag'),
+      name,
+      createdAt: now,
+      updatedAt: now
+    })),
+    editSuggestions: [],
+    toolRevisions: [],
+    auditLogs: [],
+    users: [],
+    suspensions: [],
+    contentFilter: DEFAULT_CONTENT_FILTER_SETTINGS,
+    rateLimits: {}
+  };
+};
+
+/**
+ * 메모리 + localStorage를 사용하는 저장소 묶음 생성
+ * 변경 사항은 즉시 구독자에게 전달되며, storageKey가 있으면 localStorage에 저장됩니다.
+ * @param options 시드 데이터 및 저장 키
+ */
+export const createLocalRepository = (options: LocalRepositoryOptions = {}): DataRepository => {
+  const storageKey = options.storageKey === undefined ? DEFAULT_STORAGE_KEY : options.storageKey;
+  const storage = storageKey && typeof window !== 'undefined' ? window.localStorage : null;
+  const listeners = new Set<() => void>();
+
+  /**
+   * 저장된 데이터를 불러오거나 시드로 초기화
+   */
+  const loadState = (): LocalState => {
+    if (storage && storageKey) {
+      try {
+        const saved = storage.getItem(storageKey);
+        if (saved) {
+          const parsed = JSON.parse(saved, reviveDates) as LocalState;
+          // 이전 버전에서 저장된 도구에는 슬러그, 태그, 평점 합계/분포, 댓글/북마크 수가 없을 수 있으므로 보정
+          // 카테고리에도 계층 정보(상위, 순서, 아이콘, 설명)가 없을 수 있음
+          // 요금제 문자열(plan)로 저장된 도구는 가격 정보(pricing)로 변환
+          // 검토 기능 도입 전에 저장된 도구는 승인된 것으로 취급
+          // 수정 제안, 변경 이력, 감사 로그, 사용자 관리, 댓글 신고, 콘텐츠 필터 기능 도입 전에 저장된 데이터에는 해당 목록이 없음
+          const usedSlugs = new Set(parsed.tools.map(tool => tool.slug).filter(Boolean));
+          const now = new Date();
+          return {
+            ...parsed,
+            categories: parsed.categories.map((category, index) => ({
+              ...category,
+              parentId: category.parentId ?? null,
+              order: category.order ?? index,
+              icon: category.icon ?? '',
+              description: category.description ?? ''
+            })),
+            tags: parsed.tags || uniqueTags(parsed.tools.flatMap(tool => tool.tags || [])).map(name => ({
+              id: createId('tag'),
+              name,
+              createdAt: now,
+              updatedAt: now
+            })),
+            comments: parsed.comments.map(comment => ({
+              ...comment,
+              reportCount: comment.reportCount ?? 0,
+              moderationStatus: normalizeModerationStatus(comment.moderationStatus)
+            })),
+            commentReports: parsed.commentReports || [],
+            editSuggestions: parsed.editSuggestions || [],
+            toolRevisions: parsed.toolRevisions || [],
+            auditLogs: parsed.auditLogs || [],
+            users: parsed.users || [],
+            suspensions: parsed.suspensions || [],
+            contentFilter: normalizeContentFilterSettings(parsed.contentFilter),
+            rateLimits: parsed.rateLimits || {},
+            tools: parsed.tools.map(({ plan, ...tool }: FirebaseTool & { plan?: string | null }) => ({
+              ...tool,
+              pricing: tool.pricing !== undefined ? normalizePricing(tool.pricing) : pricingFromPlan(plan),
+              slug: tool.slug || uniqueSlugSync(tool.name, usedSlugs),
+              tags: tool.tags || [],
+              ...readRatingSummary(tool),
+              commentCount: tool.commentCount ?? parsed.comments.filter(comment => comment.toolId === tool.id).length,
+              bookmarkCount: tool.bookmarkCount ?? parsed.bookmarks.filter(bookmark => bookmark.toolId === tool.id).length,
+              linkHealth: normalizeLinkHealth(tool.linkHealth),
+              status: normalizeToolStatus(tool.status),
+              rejectionReason: tool.rejectionReason ?? null,
+              reviewedBy: tool.reviewedBy ?? null,
+              reviewedAt: tool.reviewedAt ?? null
+            }))
+          };
+        }
+      } catch (error) {
+        console.error('❌ 로컬 데이터 로드 실패, 시드 데이터로 초기화:', error);
+      }
+    }
+    return stateFromSeed(options.seed);
+  };
+
+  let state = loadState();
+
+  /**
+   * 상태 변경 후 저장 및 구독자 알림
+   */
+  const commit = (nextState: LocalState) => {
+    state = nextState;
+    if (storage && storageKey) {
+      try {
+        storage.setItem(storageKey, JSON.stringify(state));
+      } catch (error) {
+        console.error('❌ 로컬 데이터 저장 실패:', error);
+      }
+    }
+    listeners.forEach(listener => listener());
+  };
+
+  /**
+   * 상태 변화를 구독하는 헬퍼
+   * Firestore onSnapshot과 같이 최초 1회 비동기로 결과를 전달합니다.
+   */
+  const watch = <T>(select: () => T, onNext: (value: T) => void, onError: (error: Error) => void): Unsubscribe => {
+    let isActive = true;
+    const emit = () => {
+      if (!isActive) return;
+      try {
+        onNext(select());
+      } catch (error: any) {
+        onError(error);
+      }
+    };
+    listeners.add(emit);
+    queueMicrotask(emit);
+    return () => {
+      isActive = false;
+      listeners.delete(emit);
+    };
+  };
+
+  /**
+   * 존재하지 않는 문서에 접근할 때 발생하는 에러
+   */
+  const notFound = (kind: string, id: string) => new Error(`${kind} 문서를 찾을 수 없습니다: ${id}`);
+
+  /**
+   * 게시 정지된 사용자가 콘텐츠를 작성하려 하면 에러 (Firestore에서는 보안 규칙이 거부)
+   */
+  const assertNotSuspended = (userId: string) => {
+    if (state.suspensions.some(suspension => suspension.userId === userId)) {
+      throw new Error('게시가 정지된 사용자입니다.');
+    }
+  };
+
+  /**
+   * 작성 1건을 반영한 작성 수 제한 구간 반환 (제한을 넘으면 에러, Firestore에서는 보안 규칙이 거부)
+   */
+  const withRateLimit = (userId: string, kind: RateLimitKind): LocalState['rateLimits'] => {
+    const userLimits = state.rateLimits[userId] || {};
+    const { window } = consumeRateLimit(userLimits[kind], kind, state.contentFilter);
+    return { ...state.rateLimits, [userId]: { ...userLimits, [kind]: window } };
+  };
+
+  /**
+   * 평점 변경을 도구의 집계 값에 반영한 도구 목록 반환
+   */
+  const withRatingChange = (toolId: string, change: RatingChange): FirebaseTool[] =>
+    state.tools.map(tool =>
+      tool.id === toolId
+        ? { ...tool, ...applyRatingChange(readRatingSummary(tool), change), updatedAt: new Date() }
+        : tool
+    );
+
+  /**
+   * 댓글/북마크 수 변경을 도구에 반영한 도구 목록 반환
+   * Firestore에서는 Cloud Functions 트리거가 담당하는 작업 (updatedAt은 변경하지 않음)
+   */
+  const withCounterChange = (
+    toolId: string,
+    field: 'commentCount' | 'bookmarkCount',
+    delta: number
+  ): FirebaseTool[] =>
+    state.tools.map(tool =>
+      tool.id === toolId ? { ...tool, [field]: Math.max(0, (tool[field] || 0) + delta) } : tool
+    );
+
+  /**
+   * 변경 이력을 추가한 이력 목록 반환 (바뀐 필드가 없으면 그대로 반환)
+   * @param before 변경 전 필드 값 (등록이면 null)
+   */
+  const withRevision = (
+    revisions: FirebaseToolRevision[],
+    toolId: string,
+    action: ToolRevisionAction,
+    before: ToolInput | null,
+    after: ToolInput,
+    authorId: string,
+    sourceId: string | null = null
+  ): FirebaseToolRevision[] => {
+    const changes = before ? diffToolFields(before, after) : {};
+    if (before && getChangedFields(changes).length === 0) return revisions;
+    return [...revisions, {
+      id: createId('revision'),
+      toolId,
+      action,
+      fields: after,
+      changes,
+      authorId,
+      sourceId,
+      createdAt: new Date()
+    }];
+  };
+
+  const selectTools = ({ category, categories, sortOrder = 'updated_desc', status, createdBy }: ToolQuery = {}) => {
+    const categoryNames = categories && categories.length > 0
+      ? new Set(categories)
+      : category && category !== '전체' ? new Set([category]) : null;
+    const statusFilter = getStatusFilter(status);
+    const filtered = state.tools.filter(tool =>
+      (!categoryNames || categoryNames.has(tool.category)) &&
+      (!statusFilter || tool.status === statusFilter) &&
+      (!createdBy || tool.createdBy === createdBy)
+    );
+    return sortTools(filtered, sortOrder);
+  };
+
+  const repository: DataRepository = {
+    source: 'local',
+
+    tools: {
+      subscribe(toolQuery, onNext, onError) {
+        return watch(() => selectTools(toolQuery), onNext, onError);
+      },
+
+      subscribeOne(toolId, onNext, onError) {
+        return watch(() => state.tools.find(tool => tool.id === toolId) || null, onNext, onError);
+      },
+
+      async list(toolQuery = {}) {
+        return selectTools(toolQuery);
+      },
+
+      async listPage(toolQuery, pageSize, cursor = null) {
+        // 로컬 구현의 커서는 다음 페이지의 시작 오프셋
+        const offset = typeof cursor === 'number' ? cursor : 0;
+        const tools = selectTools(toolQuery);
+        const nextOffset = offset + pageSize;
+        return {
+          tools: tools.slice(offset, nextOffset),
+          cursor: nextOffset,
+          hasMore: nextOffset < tools.length
+        };
+      },
+
+      async count(toolQuery = {}) {
+        return selectTools(toolQuery).length;
+      },
+
+      async get(toolId) {
+        return state.tools.find(tool => tool.id === toolId) || null;
+      },
+
+      async getBySlug(slug) {
+        return state.tools.find(tool => tool.slug === slug && tool.status === 'approved') || null;
+      },
+
+      async add(toolData, userId, status = 'pending') {
+        assertNotSuspended(userId);
+        // 검토 대기로 추가하는 일반 사용자만 하루 등록 요청 수 제한
+        const rateLimits = status === 'pending' ? withRateLimit(userId, 'tools') : state.rateLimits;
+        const now = new Date();
+        const id = createId('tool');
+        const fields = toToolInput({ ...toolData, tags: normalizeTags(toolData.tags) });
+        commit({
+          ...state,
+          tools: [...state.tools, {
+            ...toolData,
+            tags: fields.tags,
+            id,
+            slug: uniqueSlugSync(toolData.name, new Set(state.tools.map(tool => tool.slug))),
+            averageRating: 0,
+            ratingCount: 0,
+            ratingSum: 0,
+            ratingHistogram: {},
+            commentCount: 0,
+            bookmarkCount: 0,
+            linkHealth: null,
+            status,
+            rejectionReason: null,
+            reviewedBy: null,
+            reviewedAt: null,
+            createdAt: now,
+            updatedAt: now,
+            createdBy: userId
+          }],
+          toolRevisions: withRevision(state.toolRevisions, id, 'create', null, fields, userId),
+          rateLimits
+        });
+        return id;
+      },
+
+      async update(toolId, toolData, authorId) {
+        const current = state.tools.find(tool => tool.id === toolId);
+        if (!current) throw notFound('도구', toolId);
+        const before = toToolInput(current);
+        const after = mergeToolInput(before, toolData);
+        commit({
+          ...state,
+          tools: state.tools.map(tool =>
+            tool.id === toolId
+              ? {
+                ...tool,
+                ...toolData,
+                ...(toolData.tags ? { tags: after.tags } : {}),
+                updatedAt: new Date()
+              }
+              : tool
+          ),
+          toolRevisions: withRevision(state.toolRevisions, toolId, 'update', before, after, authorId)
+        });
+      },
+
+      async remove(toolId) {
+        // 도구에 딸린 평점/댓글/댓글 신고/북마크/수정 제안/변경 이력도 함께 삭제 (Firestore에서는 Cloud Functions 트리거가 담당)
+        commit({
+          ...state,
+          tools: state.tools.filter(tool => tool.id !== toolId),
+          ratings: state.ratings.filter(rating => rating.toolId !== toolId),
+          comments: state.comments.filter(comment => comment.toolId !== toolId),
+          commentReports: state.commentReports.filter(report => report.toolId !== toolId),
+          bookmarks: state.bookmarks.filter(bookmark => bookmark.toolId !== toolId),
+          editSuggestions: state.editSuggestions.filter(suggestion => suggestion.toolId !== toolId),
+          toolRevisions: state.toolRevisions.filter(revision => revision.toolId !== toolId)
+        });
+      },
+
+      async removeAll() {
+        commit({ ...state, tools: [], ratings: [], comments: [], commentReports: [], bookmarks: [], editSuggestions: [], toolRevisions: [] });
+      },
+
+      async touch(toolId) {
+        commit({
+          ...state,
+          tools: state.tools.map(tool =>
+            tool.id === toolId ? { ...tool, updatedAt: new Date() } : tool
+          )
+        });
+      },
+
+      async review(toolId, status, reviewerId, reason) {
+        if (!state.tools.some(tool => tool.id === toolId)) throw notFound('도구', toolId);
+        const now = new Date();
+        commit({
+          ...state,
+          tools: state.tools.map(tool =>
+            tool.id === toolId
+              ? {
+                ...tool,
+                status,
+                rejectionReason: status === 'rejected' ? reason?.trim() || null : null,
+                reviewedBy: reviewerId,
+                reviewedAt: now,
+                updatedAt: now
+              }
+              : tool
+          )
+        });
+      },
+
+      async resolveLinkHealth(toolId, change) {
+        const current = state.tools.find(tool => tool.id === toolId);
+        if (!current) throw notFound('도구', toolId);
+        const before = toToolInput(current);
+        commit({
+          ...state,
+          tools: state.tools.map(tool =>
+            tool.id === toolId
+              ? { ...tool, linkHealth: null, ...(change ? { url: change.url, updatedAt: new Date() } : {}) }
+              : tool
+          ),
+          toolRevisions: change
+            ? withRevision(state.toolRevisions, toolId, 'update', before, { ...before, url: change.url }, change.authorId)
+            : state.toolRevisions
+        });
+      },
+
+      async reassignCategory(fromCategory, toCategory, authorId, onProgress) {
+        if (fromCategory === toCategory) return 0;
+        const movedTools = state.tools.filter(tool => tool.category === fromCategory);
+        const movedCount = movedTools.length;
+        if (movedCount === 0) return 0;
+
+        // 로컬 저장소는 한 번의 상태 변경으로 모두 옮김
+        const now = new Date();
+        commit({
+          ...state,
+          tools: state.tools.map(tool =>
+            tool.category === fromCategory ? { ...tool, category: toCategory, updatedAt: now } : tool
+          ),
+          toolRevisions: movedTools.reduce((revisions, tool) => {
+            const before = toToolInput(tool);
+            return withRevision(revisions, tool.id, 'bulk', before, { ...before, category: toCategory }, authorId);
+          }, state.toolRevisions)
+        });
+        onProgress?.(movedCount);
+        return movedCount;
+      },
+
+      async replaceTag(fromTag, toTag, authorId, onProgress) {
+        const fromKey = tagKey(fromTag);
+        const replaceTags = (tags: string[]) => normalizeTags(tags.flatMap(tag =>
+          tagKey(tag) !== fromKey ? [tag] : toTag ? [toTag] : []
+        ));
+        const affected = state.tools.filter(tool => tool.tags.some(tag => tagKey(tag) === fromKey));
+        if (affected.length === 0) return 0;
+
+        // 로컬 저장소는 한 번의 상태 변경으로 모두 수정
+        const now = new Date();
+        const affectedIds = new Set(affected.map(tool => tool.id));
+        commit({
+          ...state,
+          tools: state.tools.map(tool =>
+            affectedIds.has(tool.id) ? { ...tool, tags: replaceTags(tool.tags), updatedAt: now } : tool
+          ),
+          toolRevisions: affected.reduce((revisions, tool) => {
+            const before = toToolInput(tool);
+            return withRevision(revisions, tool.id, 'bulk', before, { ...before, tags: replaceTags(before.tags) }, authorId);
+          }, state.toolRevisions)
+        });
+        onProgress?.(affected.length);
+        return affected.length;
+      }
+    },
+
+    ratings: {
+      subscribeByTool(toolId, onNext, onError) {
+        return watch(() => state.ratings.filter(rating => rating.toolId === toolId), onNext, onError);
+      },
+
+      subscribeByUser(userId, onNext, onError) {
+        return watch(() => state.ratings.filter(rating => rating.userId === userId), onNext, onError);
+      },
+
+      async listByTool(toolId) {
+        return state.ratings.filter(rating => rating.toolId === toolId);
+      },
+
+      async add(toolId, userId, rating) {
+        if (!state.tools.some(tool => tool.id === toolId)) throw notFound('도구', toolId);
+        assertNotSuspended(userId);
+        const now = new Date();
+        const id = createId('rating');
+        commit({
+          ...state,
+          tools: withRatingChange(toolId, { added: rating }),
+          ratings: [...state.ratings, { id, toolId, userId, rating, createdAt: now, updatedAt: now }]
+        });
+        return id;
+      },
+
+      async update(ratingId, rating) {
+        const previous = state.ratings.find(item => item.id === ratingId);
+        if (!previous) throw notFound('평점', ratingId);
+        assertNotSuspended(previous.userId);
+        commit({
+          ...state,
+          tools: withRatingChange(previous.toolId, { removed: previous.rating, added: rating }),
+          ratings: state.ratings.map(item =>
+            item.id === ratingId ? { ...item, rating, updatedAt: new Date() } : item
+          )
+        });
+      },
+
+      async remove(ratingId) {
+        const previous = state.ratings.find(item => item.id === ratingId);
+        if (!previous) return;
+        commit({
+          ...state,
+          tools: withRatingChange(previous.toolId, { removed: previous.rating }),
+          ratings: state.ratings.filter(item => item.id !== ratingId)
+        });
+      }
+    },
+
+    comments: {
+      subscribeByTool(toolId, onNext, onError, queryOptions = {}) {
+        return watch(
+          () => state.comments.filter(comment =>
+            comment.toolId === toolId && (!queryOptions.topLevelOnly || comment.parentId === null)
+          ),
+          onNext,
+          onError
+        );
+      },
+
+      subscribeReported(onNext, onError) {
+        return watch(
+          () => state.comments
+            .filter(comment => comment.reportCount > 0)
+            .sort((a, b) => b.reportCount - a.reportCount || b.createdAt.getTime() - a.createdAt.getTime()),
+          onNext,
+          onError
+        );
+      },
+
+      async listReplies(parentId) {
+        return state.comments.filter(comment => comment.parentId === parentId);
+      },
+
+      async listRecentByUser(userId, count) {
+        return state.comments
+          .filter(comment => comment.userId === userId)
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+          .slice(0, count);
+      },
+
+      async add(comment) {
+        assertNotSuspended(comment.userId);
+        const rateLimits = withRateLimit(comment.userId, 'comments');
+        const now = new Date();
+        const id = createId('comment');
+        commit({
+          ...state,
+          tools: withCounterChange(comment.toolId, 'commentCount', 1),
+          comments: [...state.comments, { ...comment, id, reportCount: 0, moderationStatus: 'visible', createdAt: now, updatedAt: now }],
+          rateLimits
+        });
+        return id;
+      },
+
+      async update(commentId, content) {
+        const previous = state.comments.find(comment => comment.id === commentId);
+        if (!previous) throw notFound('댓글', commentId);
+        assertNotSuspended(previous.userId);
+        commit({
+          ...state,
+          comments: state.comments.map(comment =>
+            comment.id === commentId ? { ...comment, content, updatedAt: new Date() } : comment
+          )
+        });
+      },
+
+      async moderate(commentId, status) {
+        if (!state.comments.some(comment => comment.id === commentId)) throw notFound('댓글', commentId);
+        commit({
+          ...state,
+          comments: state.comments.map(comment =>
+            comment.id === commentId ? { ...comment, moderationStatus: status } : comment
+          )
+        });
+      },
+
+      async remove(commentId) {
+        const previous = state.comments.find(comment => comment.id === commentId);
+        if (!previous) return;
+        commit({
+          ...state,
+          tools: withCounterChange(previous.toolId, 'commentCount', -1),
+          comments: state.comments.filter(comment => comment.id !== commentId)
+        });
+      }
+    },
+
+    commentReports: {
+      subscribeByComment(commentId, onNext, onError) {
+        return watch(
+          () => state.commentReports
+            .filter(report => report.commentId === commentId)
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+          onNext,
+          onError
+        );
+      },
+
+      // 신고 수 증가와 자동 숨김도 함께 처리 (Firestore에서는 Cloud Functions 트리거가 담당)
+      async add(report) {
+        const comment = state.comments.find(item => item.id === report.commentId);
+        if (!comment) throw notFound('댓글', report.commentId);
+        assertNotSuspended(report.reporterId);
+        if (comment.userId === report.reporterId) throw new Error('자신의 댓글은 신고할 수 없습니다.');
+        const id = `${report.commentId}_${report.reporterId}`;
+        if (state.commentReports.some(item => item.id === id)) throw new Error('이미 신고한 댓글입니다.');
+
+        commit({
+          ...state,
+          comments: state.comments.map(item =>
+            item.id === report.commentId ? { ...item, ...applyCommentReport(item) } : item
+          ),
+          commentReports: [...state.commentReports, { ...report, detail: report.detail.trim(), id, createdAt: new Date() }]
+        });
+      },
+
+      async removeByComment(commentId) {
+        commit({ ...state, commentReports: state.commentReports.filter(report => report.commentId !== commentId) });
+      }
+    },
+
+    bookmarks: {
+      subscribeByUser(userId, onNext, onError) {
+        return watch(() => state.bookmarks.filter(bookmark => bookmark.userId === userId), onNext, onError);
+      },
+
+      async listByUser(userId) {
+        return state.bookmarks.filter(bookmark => bookmark.userId === userId);
+      },
+
+      async find(userId, toolId) {
+        return state.bookmarks.find(bookmark => bookmark.userId === userId && bookmark.toolId === toolId) || null;
+      },
+
+      async add(userId, toolId) {
+        const id = createId('bookmark');
+        commit({
+          ...state,
+          tools: withCounterChange(toolId, 'bookmarkCount', 1),
+          bookmarks: [...state.bookmarks, { id, userId, toolId, createdAt: new Date() }]
+        });
+        return id;
+      },
+
+      async remove(bookmarkId) {
+        const previous = state.bookmarks.find(bookmark => bookmark.id === bookmarkId);
+        if (!previous) return;
+        commit({
+          ...state,
+          tools: withCounterChange(previous.toolId, 'bookmarkCount', -1),
+          bookmarks: state.bookmarks.filter(bookmark => bookmark.id !== bookmarkId)
+        });
+      }
+    },
+
+    categories: {
+      async list() {
+        return state.categories;
+      },
+
+      async add(categoryData) {
+        const now = new Date();
+        const id = createId('category');
+        commit({
+          ...state,
+          categories: [...state.categories, { id, ...categoryData, createdAt: now, updatedAt: now }]
+        });
+        return id;
+      },
+
+      async update(categoryId, categoryData) {
+        if (!state.categories.some(category => category.id === categoryId)) throw notFound('카테고리', categoryId);
+        commit({
+          ...state,
+          categories: state.categories.map(category =>
+            category.id === categoryId ? { ...category, ...categoryData, updatedAt: new Date() } : category
+          )
+        });
+      },
+
+      async rename(categoryId, name) {
+        if (!state.categories.some(category => category.id === categoryId)) throw notFound('카테고리', categoryId);
+        commit({
+          ...state,
+          categories: state.categories.map(category =>
+            category.id === categoryId ? { ...category, name, updatedAt: new Date() } : category
+          )
+        });
+      },
+
+      async remove(categoryId) {
+        // 하위 카테고리는 삭제한 카테고리의 상위 카테고리로 옮김
+        const target = state.categories.find(category => category.id === categoryId);
+        const now = new Date();
+        commit({
+          ...state,
+          categories: state.categories
+            .filter(category => category.id !== categoryId)
+            .map(category => category.parentId === categoryId
+              ? { ...category, parentId: target?.parentId || null, updatedAt: now }
+              : category
+            )
+        });
+      },
+
+      async merge(sourceId, targetId) {
+        const source = state.categories.find(category => category.id === sourceId);
+        if (!source) return;
+        const now = new Date();
+        commit({
+          ...state,
+          categories: state.categories
+            .filter(category => category.id !== sourceId)
+            .map(category => category.parentId === sourceId
+              ? { ...category, parentId: getParentIdAfterMerge(state.categories, category.id, source, targetId), updatedAt: now }
+              : category
+            )
+        });
+      }
+    },
+
+    tags: {
+      async list() {
+        return state.tags;
+      },
+
+      async add(name) {
+        const now = new Date();
+        const id = createId('tag');
+        commit({
+          ...state,
+          tags: [...state.tags, { id, name, createdAt: now, updatedAt: now }]
+        });
+        return id;
+      },
+
+      async rename(tagId, name) {
+        if (!state.tags.some(tag => tag.id === tagId)) throw notFound('태그', tagId);
+        commit({
+          ...state,
+          tags: state.tags.map(tag =>
+            tag.id === tagId ? { ...tag, name, updatedAt: new Date() } : tag
+          )
+        });
+      },
+
+      async remove(tagId) {
+        commit({ ...state, tags: state.tags.filter(tag => tag.id !== tagId) });
+      },
+
+      async ensure(names) {
+        const existingKeys = new Set(state.tags.map(tag => tagKey(tag.name)));
+        const missing = uniqueTags(names).filter(name => !existingKeys.has(tagKey(name)));
+        if (missing.length > 0) {
+          const now = new Date();
+          commit({
+            ...state,
+            tags: [...state.tags, ...missing.map(name => ({ id: createId('tag'), name, createdAt: now, updatedAt: now }))]
+          });
+        }
+        return missing;
+      }
+    },
+
+    editSuggestions: {
+      subscribe(suggestionQuery, onNext, onError) {
+        const fields = (['toolId', 'toolOwnerId', 'userId', 'status'] as const)
+          .filter(field => suggestionQuery[field] !== undefined);
+        return watch(
+          () => state.editSuggestions
+            .filter(suggestion => fields.every(field => suggestion[field] === suggestionQuery[field]))
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+          onNext,
+          onError
+        );
+      },
+
+      async add(suggestion) {
+        if (!state.tools.some(tool => tool.id === suggestion.toolId)) throw notFound('도구', suggestion.toolId);
+        assertNotSuspended(suggestion.userId);
+        const now = new Date();
+        const id = createId('suggestion');
+        commit({
+          ...state,
+          editSuggestions: [...state.editSuggestions, {
+            ...suggestion,
+            id,
+            status: 'pending',
+            appliedFields: [],
+            reviewNote: null,
+            reviewedBy: null,
+            reviewedAt: null,
+            createdAt: now,
+            updatedAt: now
+          }]
+        });
+        return id;
+      },
+
+      async accept(suggestionId, fields, reviewerId) {
+        const suggestion = state.editSuggestions.find(item => item.id === suggestionId);
+        if (!suggestion) throw notFound('수정 제안', suggestionId);
+        if (suggestion.status !== 'pending') throw new Error('이미 검토된 수정 제안입니다.');
+        const current = state.tools.find(tool => tool.id === suggestion.toolId);
+        if (!current) throw notFound('도구', suggestion.toolId);
+
+        const appliedFields = fields.filter(field => suggestion.changes[field] !== undefined);
+        if (appliedFields.length === 0) throw new Error('반영할 필드를 선택해주세요.');
+        const toolData = pickFieldChanges(suggestion.changes, appliedFields);
+        const before = toToolInput(current);
+        const after = mergeToolInput(before, toolData);
+
+        const now = new Date();
+        commit({
+          ...state,
+          tools: state.tools.map(tool =>
+            tool.id === suggestion.toolId
+              ? {
+                ...tool,
+                ...toolData,
+                ...(toolData.tags ? { tags: after.tags } : {}),
+                updatedAt: now
+              }
+              : tool
+          ),
+          toolRevisions: withRevision(state.toolRevisions, suggestion.toolId, 'suggestion', before, after, reviewerId, suggestionId),
+          editSuggestions: state.editSuggestions.map(item =>
+            item.id === suggestionId
+              ? { ...item, status: 'accepted', appliedFields, reviewedBy: reviewerId, reviewedAt: now, updatedAt: now }
+              : item
+          )
+        });
+      },
+
+      async reject(suggestionId, reviewerId, note) {
+        if (!state.editSuggestions.some(item => item.id === suggestionId)) throw notFound('수정 제안', suggestionId);
+        const now = new Date();
+        commit({
+          ...state,
+          editSuggestions: state.editSuggestions.map(item =>
+            item.id === suggestionId
+              ? { ...item, status: 'rejected', reviewNote: note?.trim() || null, reviewedBy: reviewerId, reviewedAt: now, updatedAt: now }
+              : item
+          )
+        });
+      },
+
+      async remove(suggestionId) {
+        commit({ ...state, editSuggestions: state.editSuggestions.filter(item => item.id !== suggestionId) });
+      }
+    },
+
+    toolRevisions: {
+      subscribe(toolId, onNext, onError) {
+        // 이력은 기록한 순서대로 쌓이므로 뒤집으면 최근 이력부터
+        return watch(
+          () => state.toolRevisions.filter(revision => revision.toolId === toolId).reverse(),
+          onNext,
+          onError
+        );
+      },
+
+      async revert(toolId, revisionId, authorId) {
+        const current = state.tools.find(tool => tool.id === toolId);
+        if (!current) throw notFound('도구', toolId);
+        const revision = state.toolRevisions.find(item => item.id === revisionId && item.toolId === toolId);
+        if (!revision) throw notFound('변경 이력', revisionId);
+
+        const before = toToolInput(current);
+        const toolRevisions = withRevision(state.toolRevisions, toolId, 'revert', before, revision.fields, authorId, revisionId);
+        if (toolRevisions === state.toolRevisions) throw new Error('이미 해당 시점과 같은 내용입니다.');
+        commit({
+          ...state,
+          tools: state.tools.map(tool =>
+            tool.id === toolId ? { ...tool, ...revision.fields, updatedAt: new Date() } : tool
+          ),
+          toolRevisions
+        });
+      }
+    },
+
+    auditLogs: {
+      subscribe(maxCount, onNext, onError) {
+        // 로그는 기록한 순서대로 쌓이므로 뒤집으면 최근 로그부터
+        return watch(() => state.auditLogs.slice(-maxCount).reverse(), onNext, onError);
+      },
+
+      async add(log) {
+        const id = createId('audit');
+        commit({ ...state, auditLogs: [...state.auditLogs, { ...log, id, createdAt: new Date() }] });
+        return id;
+      }
+    },
+
+    users: {
+      async listSummaries() {
+        return summarizeUsers(state.users, state, state.suspensions);
+      },
+
+      async setRole(userId, role) {
+        const existing = state.users.find(user => user.uid === userId);
+        commit({
+          ...state,
+          users: existing
+            ? state.users.map(user => (user.uid === userId ? { ...user, role } : user))
+            : [...state.users, { uid: userId, displayName: null, email: null, photoURL: null, role, createdAt: new Date() }]
+        });
+      },
+
+      async suspend(userId, reason, suspendedBy) {
+        commit({
+          ...state,
+          suspensions: [
+            ...state.suspensions.filter(suspension => suspension.userId !== userId),
+            { userId, reason: reason.trim(), suspendedBy, createdAt: new Date() }
+          ]
+        });
+      },
+
+      async unsuspend(userId) {
+        commit({ ...state, suspensions: state.suspensions.filter(suspension => suspension.userId !== userId) });
+      },
+
+      // 종류별 삭제 메서드를 그대로 사용해 평점 집계, 댓글 수, 도구 하위 데이터 정리를 함께 처리
+      async removeContent(userId, kinds) {
+        const removedCounts = createEmptyContentCounts();
+
+        for (const kind of kinds) {
+          if (kind === 'tools') {
+            const toolIds = state.tools.filter(tool => tool.createdBy === userId).map(tool => tool.id);
+            for (const toolId of toolIds) await repository.tools.remove(toolId);
+            removedCounts.tools = toolIds.length;
+          } else {
+            const ids = state[kind].filter(item => item.userId === userId).map(item => item.id);
+            for (const id of ids) await repository[kind].remove(id);
+            removedCounts[kind] = ids.length;
+          }
+        }
+
+        return removedCounts;
+      }
+    },
+
+    settings: {
+      async getContentFilter() {
+        return state.contentFilter;
+      },
+
+      subscribeContentFilter(onNext, onError) {
+        return watch(() => state.contentFilter, onNext, onError);
+      },
+
+      async updateContentFilter(settings, updatedBy) {
+        commit({
+          ...state,
+          contentFilter: normalizeContentFilterSettings({ ...settings, updatedBy, updatedAt: new Date() })
+        });
+      }
+    }
+  };
+
+  return repository;
+};
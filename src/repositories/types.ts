@@ -0,0 +1,439 @@
+// 데이터 저장소(Repository) 인터페이스 정의
+// 훅과 유틸리티는 Firestore를 직접 호출하지 않고 이 인터페이스를 통해 데이터에 접근합니다.
+import {
+  FirebaseTool,
+  FirebaseRating,
+  FirebaseComment,
+  FirebaseCommentReport,
+  FirebaseBookmark,
+  FirebaseCategory,
+  FirebaseTag,
+  FirebaseEditSuggestion,
+  FirebaseToolRevision,
+  FirebaseAuditLog,
+  EditSuggestionStatus,
+  ToolField,
+  CategoryInput,
+  ToolInput,
+  SortOption,
+  ToolStatus,
+  UserRole,
+  UserSummary,
+  UserContentKind,
+  ContentFilterInput,
+  ContentFilterSettings
+} from '../../types';
+
+/**
+ * 구독 해제 함수
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * 데이터 소스 종류
+ * - firestore: Firebase Firestore 사용
+ * - local: 브라우저 메모리 + localStorage 사용 (오프라인 데모/로컬 개발용)
+ */
+export type DataSourceType = 'firestore' | 'local';
+
+/**
+ * 도구 목록 조회 조건
+ */
+export interface ToolQuery {
+  category?: string;
+  // 지정하면 category 대신 이 카테고리 중 하나에 속한 도구를 조회 (상위 카테고리 선택 시 하위 카테고리 포함)
+  categories?: string[];
+  sortOrder?: SortOption;
+  // 검토 상태 (기본값: 'approved', 'all'이면 상태와 관계없이 조회 - 관리자와 등록한 사용자 본인만 가능)
+  status?: ToolStatus | 'all';
+  // 지정하면 이 사용자가 등록한 도구만 조회 (내 등록 요청 목록)
+  createdBy?: string;
+}
+
+/**
+ * 페이지 조회 커서
+ * 구현체마다 형식이 다르므로(Firestore 문서 스냅샷, 로컬 오프셋 등) 호출 측에서는 그대로 전달만 합니다.
+ */
+export type ToolPageCursor = unknown;
+
+/**
+ * 도구 페이지 조회 결과
+ */
+export interface ToolPage {
+  tools: FirebaseTool[];
+  cursor: ToolPageCursor | null; // 다음 페이지 조회 시 전달할 커서
+  hasMore: boolean;
+}
+
+/**
+ * 댓글 조회 옵션
+ */
+export interface CommentQueryOptions {
+  topLevelOnly?: boolean; // true이면 최상위 댓글(parentId === null)만 조회
+}
+
+/**
+ * 새 댓글 저장용 데이터
+ */
+export type NewComment = Omit<FirebaseComment, 'id' | 'reportCount' | 'moderationStatus' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * 새 댓글 신고 입력 데이터 (ID와 신고 시각은 저장소에서 생성)
+ */
+export type NewCommentReport = Omit<FirebaseCommentReport, 'id' | 'createdAt'>;
+
+/**
+ * 수정 제안 조회 조건 (지정한 조건을 모두 만족하는 제안)
+ * 보안 규칙상 관리자가 아니면 toolOwnerId 또는 userId에 본인 UID를 지정해야 합니다.
+ */
+export interface EditSuggestionQuery {
+  toolId?: string;
+  toolOwnerId?: string;
+  userId?: string;
+  status?: EditSuggestionStatus;
+}
+
+/**
+ * 새 수정 제안 저장용 데이터
+ */
+export type NewEditSuggestion = Pick<
+  FirebaseEditSuggestion,
+  'toolId' | 'toolName' | 'toolOwnerId' | 'userId' | 'userName' | 'message' | 'changes'
+>;
+
+/**
+ * 도구 저장소
+ * 도구 내용(ToolInput 필드)을 바꾸는 작업은 같은 커밋 안에서 변경 이력(tools/{toolId}/revisions)을 함께 기록합니다.
+ */
+export interface ToolRepository {
+  subscribe(
+    toolQuery: ToolQuery,
+    onNext: (tools: FirebaseTool[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  subscribeOne(
+    toolId: string,
+    onNext: (tool: FirebaseTool | null) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  list(toolQuery?: ToolQuery): Promise<FirebaseTool[]>;
+  listPage(toolQuery: ToolQuery, pageSize: number, cursor?: ToolPageCursor | null): Promise<ToolPage>;
+  count(toolQuery?: ToolQuery): Promise<number>;
+  get(toolId: string): Promise<FirebaseTool | null>;
+  getBySlug(slug: string): Promise<FirebaseTool | null>;
+  /**
+   * 도구 추가
+   * @param status 처음 검토 상태 (기본값: 'pending', 신뢰할 수 있는 사용자와 관리자만 'approved'로 바로 공개)
+   * 검토 대기로 추가하면 사용자별 하루 등록 요청 수 제한을 넘을 때 에러
+   */
+  add(toolData: ToolInput, userId: string, status?: ToolStatus): Promise<string>;
+  /**
+   * 도구 수정 (바뀐 필드가 있으면 변경 이력 기록)
+   * @param authorId 수정한 사용자 UID
+   */
+  update(toolId: string, toolData: Partial<ToolInput>, authorId: string): Promise<void>;
+  remove(toolId: string): Promise<void>;
+  removeAll(): Promise<void>;
+  touch(toolId: string): Promise<void>;
+  /**
+   * 등록 요청 검토 (관리자 전용)
+   * @param status 승인 또는 거부
+   * @param reviewerId 검토한 관리자 UID
+   * @param reason 거부 사유 (승인하면 무시하고 기존 사유를 지움)
+   */
+  review(toolId: string, status: Exclude<ToolStatus, 'pending'>, reviewerId: string, reason?: string): Promise<void>;
+  /**
+   * 링크 점검 결과를 처리 완료로 표시 (점검 결과 삭제)
+   * @param change 주소 이동을 반영할 때 전달하면 도구 주소도 새 주소로 바꾸고 변경 이력 기록 (authorId: 바꾼 사용자 UID)
+   */
+  resolveLinkHealth(toolId: string, change?: { url: string; authorId: string }): Promise<void>;
+  /**
+   * 한 카테고리에 속한 도구를 다른 카테고리로 일괄 이동 (배치 단위로 나누어 커밋)
+   * 이미 옮긴 도구는 조회 조건에서 빠지므로, 중단된 뒤 다시 호출하면 남은 도구부터 이어서 처리합니다.
+   * @param authorId 작업한 관리자 UID (변경 이력 기록용)
+   * @param onProgress 배치가 커밋될 때마다 지금까지 옮긴 도구 수를 전달
+   * @returns 옮긴 도구 수
+   */
+  reassignCategory(
+    fromCategory: string,
+    toCategory: string,
+    authorId: string,
+    onProgress?: (movedCount: number) => void
+  ): Promise<number>;
+  /**
+   * 한 태그를 사용하는 도구의 태그를 일괄 변경 (배치 단위로 나누어 커밋, 대소문자 무시)
+   * 이미 바꾼 도구는 대상에서 빠지므로, 중단된 뒤 다시 호출하면 남은 도구부터 이어서 처리합니다.
+   * @param fromTag 대상 태그 이름
+   * @param toTag 바꿀 태그 이름 (null이면 태그 제거)
+   * @param authorId 작업한 관리자 UID (변경 이력 기록용)
+   * @param onProgress 배치가 커밋될 때마다 지금까지 수정한 도구 수를 전달
+   * @returns 수정한 도구 수
+   */
+  replaceTag(
+    fromTag: string,
+    toTag: string | null,
+    authorId: string,
+    onProgress?: (updatedCount: number) => void
+  ): Promise<number>;
+}
+
+/**
+ * 도구 변경 이력 저장소
+ * 이력은 도구를 바꾸는 저장소 작업이 기록하며, 여기서는 조회와 되돌리기만 제공합니다.
+ */
+export interface ToolRevisionRepository {
+  /**
+   * 도구의 변경 이력 구독 (최근 이력부터)
+   */
+  subscribe(
+    toolId: string,
+    onNext: (revisions: FirebaseToolRevision[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  /**
+   * 도구를 지정한 이력 시점의 필드 값으로 되돌림 (되돌리기도 새 이력으로 기록)
+   * @param authorId 되돌린 사용자 UID
+   */
+  revert(toolId: string, revisionId: string, authorId: string): Promise<void>;
+}
+
+/**
+ * 평점 저장소
+ * 도구 문서의 평점 집계 값(평균, 개수, 합계, 분포)은 평점 변경에 맞춰 저장소 측에서 갱신됩니다.
+ * (Firestore: Cloud Functions 트리거, 로컬: 같은 상태 변경 안에서 반영)
+ */
+export interface RatingRepository {
+  subscribeByTool(
+    toolId: string,
+    onNext: (ratings: FirebaseRating[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  subscribeByUser(
+    userId: string,
+    onNext: (ratings: FirebaseRating[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  listByTool(toolId: string): Promise<FirebaseRating[]>;
+  add(toolId: string, userId: string, rating: number): Promise<string>;
+  update(ratingId: string, rating: number): Promise<void>;
+  remove(ratingId: string): Promise<void>;
+}
+
+/**
+ * 댓글 저장소
+ */
+export interface CommentRepository {
+  subscribeByTool(
+    toolId: string,
+    onNext: (comments: FirebaseComment[]) => void,
+    onError: (error: Error) => void,
+    options?: CommentQueryOptions
+  ): Unsubscribe;
+  /**
+   * 신고된 댓글 구독 (신고 수가 많은 댓글부터)
+   */
+  subscribeReported(
+    onNext: (comments: FirebaseComment[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  listReplies(parentId: string): Promise<FirebaseComment[]>;
+  /**
+   * 사용자가 최근에 작성한 댓글 (반복 게시 검사용, 최신순)
+   */
+  listRecentByUser(userId: string, count: number): Promise<FirebaseComment[]>;
+  /**
+   * 댓글 추가 (사용자별 작성 수 제한을 넘으면 에러)
+   */
+  add(comment: NewComment): Promise<string>;
+  update(commentId: string, content: string): Promise<void>;
+  /**
+   * 관리자 검토 결과 기록 (숨김 또는 복원)
+   */
+  moderate(commentId: string, status: 'hidden' | 'restored'): Promise<void>;
+  remove(commentId: string): Promise<void>;
+}
+
+/**
+ * 댓글 신고 저장소
+ * 신고 수 집계와 자동 숨김은 Firestore에서는 Cloud Functions 트리거가, 로컬에서는 저장소가 처리합니다.
+ */
+export interface CommentReportRepository {
+  /**
+   * 댓글의 신고 내역 구독 (최근 신고부터)
+   */
+  subscribeByComment(
+    commentId: string,
+    onNext: (reports: FirebaseCommentReport[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  /**
+   * 신고 추가 (같은 사용자가 같은 댓글을 다시 신고하면 에러)
+   */
+  add(report: NewCommentReport): Promise<void>;
+  removeByComment(commentId: string): Promise<void>;
+}
+
+/**
+ * 북마크 저장소
+ */
+export interface BookmarkRepository {
+  subscribeByUser(
+    userId: string,
+    onNext: (bookmarks: FirebaseBookmark[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  listByUser(userId: string): Promise<FirebaseBookmark[]>;
+  find(userId: string, toolId: string): Promise<FirebaseBookmark | null>;
+  add(userId: string, toolId: string): Promise<string>;
+  remove(bookmarkId: string): Promise<void>;
+}
+
+/**
+ * 카테고리 저장소
+ */
+export interface CategoryRepository {
+  list(): Promise<FirebaseCategory[]>;
+  add(categoryData: CategoryInput): Promise<string>;
+  update(categoryId: string, categoryData: Partial<CategoryInput>): Promise<void>;
+  rename(categoryId: string, name: string): Promise<void>;
+  /**
+   * 카테고리 삭제 (하위 카테고리는 삭제한 카테고리의 상위 카테고리로 옮김)
+   */
+  remove(categoryId: string): Promise<void>;
+  /**
+   * 카테고리를 다른 카테고리에 병합 (하위 카테고리를 대상 카테고리 아래로 옮기고 원본 삭제)
+   * 도구 이동은 포함하지 않으므로 tools.reassignCategory를 먼저 호출합니다.
+   */
+  merge(sourceId: string, targetId: string): Promise<void>;
+}
+
+/**
+ * 태그 저장소
+ * 도구 문서에는 태그 이름을 저장하고, 이 저장소는 자동완성과 필터에 쓸 태그 목록을 관리합니다.
+ */
+export interface TagRepository {
+  list(): Promise<FirebaseTag[]>;
+  add(name: string): Promise<string>;
+  rename(tagId: string, name: string): Promise<void>;
+  remove(tagId: string): Promise<void>;
+  /**
+   * 목록에 없는 태그만 추가 (도구 저장 시 새로 입력한 태그 등록용)
+   * @returns 새로 추가한 태그 이름
+   */
+  ensure(names: string[]): Promise<string[]>;
+}
+
+/**
+ * 수정 제안 저장소
+ */
+export interface EditSuggestionRepository {
+  /**
+   * 조건에 맞는 제안 구독 (최근 제안부터)
+   */
+  subscribe(
+    suggestionQuery: EditSuggestionQuery,
+    onNext: (suggestions: FirebaseEditSuggestion[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  add(suggestion: NewEditSuggestion): Promise<string>;
+  /**
+   * 제안 반영: 선택한 필드의 제안 값을 도구에 적용하고 제안을 반영 완료로 표시 (변경 이력과 함께 한 번에 커밋)
+   * @param fields 반영할 필드 (제안한 필드의 일부만 지정하면 부분 반영)
+   * @param reviewerId 검토한 사용자 UID (도구 작성자 또는 관리자)
+   */
+  accept(suggestionId: string, fields: ToolField[], reviewerId: string): Promise<void>;
+  /**
+   * 제안 거부
+   * @param note 거부 사유 (제안한 사용자에게 표시)
+   */
+  reject(suggestionId: string, reviewerId: string, note?: string): Promise<void>;
+  remove(suggestionId: string): Promise<void>;
+}
+
+/**
+ * 새 감사 로그 입력 데이터 (ID와 기록 시각은 저장소에서 생성)
+ */
+export type NewAuditLog = Omit<FirebaseAuditLog, 'id' | 'createdAt'>;
+
+/**
+ * 관리 작업 감사 로그 저장소
+ * 로그는 추가만 가능하며 수정하거나 삭제할 수 없습니다.
+ */
+export interface AuditLogRepository {
+  /**
+   * 최근 감사 로그 구독 (최근 로그부터)
+   * @param maxCount 가져올 최대 로그 수
+   */
+  subscribe(
+    maxCount: number,
+    onNext: (logs: FirebaseAuditLog[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  add(log: NewAuditLog): Promise<string>;
+}
+
+/**
+ * 사용자 관리 저장소 (관리자 사용자 관리 화면용)
+ */
+export interface UserRepository {
+  /**
+   * 사용자 목록과 사용자별 작성 수, 마지막 활동, 게시 정지 상태 조회
+   * 사용자 문서가 없는 작성자도 포함합니다.
+   */
+  listSummaries(): Promise<UserSummary[]>;
+  /**
+   * 관리 역할 지정 (null이면 해제)
+   * Firestore 모드에서는 커스텀 클레임을 바꾸는 Cloud Function(setUserRole)을 호출합니다.
+   */
+  setRole(userId: string, role: UserRole | null): Promise<void>;
+  /**
+   * 게시 정지 (정지된 사용자는 도구 등록, 평점, 댓글, 수정 제안을 작성할 수 없음)
+   * @param suspendedBy 정지한 관리자 UID
+   */
+  suspend(userId: string, reason: string, suspendedBy: string): Promise<void>;
+  unsuspend(userId: string): Promise<void>;
+  /**
+   * 사용자가 작성한 콘텐츠 일괄 삭제 (스팸 정리용)
+   * @param kinds 삭제할 콘텐츠 종류
+   * @returns 종류별 삭제한 문서 수
+   */
+  removeContent(userId: string, kinds: UserContentKind[]): Promise<Record<UserContentKind, number>>;
+}
+
+/**
+ * 설정 저장소 (관리자가 수정하는 사이트 설정)
+ */
+export interface SettingsRepository {
+  /**
+   * 콘텐츠 필터 설정 조회 (설정 문서가 없으면 기본값)
+   */
+  getContentFilter(): Promise<ContentFilterSettings>;
+  subscribeContentFilter(
+    onNext: (settings: ContentFilterSettings) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  /**
+   * 콘텐츠 필터 설정 저장
+   * @param updatedBy 수정한 관리자 UID
+   */
+  updateContentFilter(settings: ContentFilterInput, updatedBy: string): Promise<void>;
+}
+
+/**
+ * 앱 전체에서 사용하는 저장소 묶음
+ */
+export interface DataRepository {
+  source: DataSourceType;
+  tools: ToolRepository;
+  ratings: RatingRepository;
+  comments: CommentRepository;
+  commentReports: CommentReportRepository;
+  bookmarks: BookmarkRepository;
+  categories: CategoryRepository;
+  tags: TagRepository;
+  editSuggestions: EditSuggestionRepository;
+  toolRevisions: ToolRevisionRepository;
+  auditLogs: AuditLogRepository;
+  users: UserRepository;
+  settings: SettingsRepository;
+}
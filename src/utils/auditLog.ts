@@ -0,0 +1,154 @@
+/**
+ * 감사 로그 유틸리티
+ * 작업 표시 이름, 변경 요약 생성, 로그 필터링과 CSV 변환에 사용합니다.
+ */
+import { AuditAction, AuditTargetType, FirebaseAuditLog, ToolInput } from '../../types';
+import { TOOL_FIELDS, TOOL_FIELD_LABELS, diffToolFields, formatToolFieldValue, getChangedFields } from './toolDiff';
+
+// 작업 표시 이름
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'admin.login': '관리자 로그인',
+  'admin.logout': '관리자 로그아웃',
+  'tool.update': '도구 수정',
+  'tool.delete': '도구 삭제',
+  'tool.import': '도구 가져오기',
+  'tool.approve': '등록 승인',
+  'tool.reject': '등록 거부',
+  'tool.revert': '도구 되돌리기',
+  'tool.applyFinalUrl': '이동한 주소 반영',
+  'tool.dismissLinkHealth': '링크 점검 무시',
+  'category.create': '카테고리 추가',
+  'category.update': '카테고리 수정',
+  'category.reorder': '카테고리 순서 변경',
+  'category.rename': '카테고리 이름 변경',
+  'category.merge': '카테고리 병합',
+  'category.delete': '카테고리 삭제',
+  'tag.create': '태그 추가',
+  'tag.rename': '태그 이름 변경',
+  'tag.merge': '태그 병합',
+  'tag.delete': '태그 삭제',
+  'editSuggestion.accept': '수정 제안 반영',
+  'editSuggestion.reject': '수정 제안 거부',
+  'editSuggestion.delete': '수정 제안 삭제',
+  'user.setRole': '역할 변경',
+  'user.suspend': '게시 정지',
+  'user.unsuspend': '게시 정지 해제',
+  'user.removeContent': '작성 콘텐츠 일괄 삭제',
+  'comment.hide': '댓글 숨김',
+  'comment.restore': '댓글 복원',
+  'comment.delete': '신고된 댓글 삭제',
+  'settings.updateContentFilter': '콘텐츠 필터 변경'
+};
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[];
+
+// 대상 종류 표시 이름
+export const AUDIT_TARGET_LABELS: Record<AuditTargetType, string> = {
+  admin: '관리자',
+  tool: '도구',
+  category: '카테고리',
+  tag: '태그',
+  editSuggestion: '수정 제안',
+  user: '사용자',
+  comment: '댓글',
+  settings: '설정'
+};
+
+export const AUDIT_TARGET_TYPES = Object.keys(AUDIT_TARGET_LABELS) as AuditTargetType[];
+
+/**
+ * 감사 로그 필터 조건
+ */
+export interface AuditLogFilter {
+  targetType: AuditTargetType | 'all';
+  action: AuditAction | 'all';
+  search: string; // 대상 이름/ID, 작업자, 변경 요약에서 검색
+  from: string; // 시작 날짜 (YYYY-MM-DD, 비우면 제한 없음)
+  to: string; // 종료 날짜 (YYYY-MM-DD, 해당 날짜 포함)
+}
+
+export const EMPTY_AUDIT_LOG_FILTER: AuditLogFilter = {
+  targetType: 'all',
+  action: 'all',
+  search: '',
+  from: '',
+  to: ''
+};
+
+/**
+ * 작업 종류에서 대상 종류 추출 ('tool.delete' → 'tool')
+ */
+export const getAuditTargetType = (action: AuditAction): AuditTargetType =>
+  action.split('.')[0] as AuditTargetType;
+
+/**
+ * 도구 필드 값을 한 줄 요약으로 변환 (예: "이름: ChatGPT; URL: https://...")
+ * @param fields 요약할 필드 (기본값: 비어 있지 않은 모든 필드)
+ */
+export const summarizeToolFields = (tool: ToolInput, fields: readonly (keyof ToolInput)[] = TOOL_FIELDS): string =>
+  fields
+    .map(field => [field, formatToolFieldValue(field, tool[field])] as const)
+    .filter(([, value]) => value !== '')
+    .map(([field, value]) => `${TOOL_FIELD_LABELS[field]}: ${value}`)
+    .join('; ');
+
+/**
+ * 도구 수정 전후 값에서 바뀐 필드만 요약 (바뀐 필드가 없으면 null)
+ */
+export const summarizeToolChanges = (before: ToolInput, after: ToolInput): { before: string; after: string } | null => {
+  const fields = getChangedFields(diffToolFields(before, after));
+  if (fields.length === 0) return null;
+  return {
+    before: summarizeToolFields(before, fields),
+    after: summarizeToolFields(after, fields)
+  };
+};
+
+/**
+ * 필터 조건에 맞는 감사 로그만 반환
+ */
+export const filterAuditLogs = (logs: readonly FirebaseAuditLog[], filter: AuditLogFilter): FirebaseAuditLog[] => {
+  const search = filter.search.trim().toLowerCase();
+  const from = filter.from ? new Date(`${filter.from}T00:00:00`) : null;
+  const to = filter.to ? new Date(`${filter.to}T23:59:59.999`) : null;
+
+  return logs.filter(log =>
+    (filter.targetType === 'all' || log.targetType === filter.targetType) &&
+    (filter.action === 'all' || log.action === filter.action) &&
+    (!from || log.createdAt >= from) &&
+    (!to || log.createdAt <= to) &&
+    (!search || [log.targetName, log.targetId, log.actorId, log.before, log.after, AUDIT_ACTION_LABELS[log.action]]
+      .some(value => value?.toLowerCase().includes(search)))
+  );
+};
+
+// 스프레드시트가 수식으로 해석하는 셀 시작 문자
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * CSV 셀 값 이스케이프 (쉼표, 따옴표, 줄바꿈이 있으면 따옴표로 감쌈)
+ * 도구 이름 등 사용자 입력이 엑셀에서 수식으로 실행되지 않도록 수식 시작 문자 앞에 '를 붙입니다.
+ */
+const escapeCsvValue = (value: string): string => {
+  const safeValue = CSV_FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safeValue) ? `"${safeValue.replace(/"/g, '""')}"` : safeValue;
+};
+
+/**
+ * 감사 로그를 CSV 문자열로 변환
+ * 엑셀에서 한글이 깨지지 않도록 BOM을 붙입니다.
+ */
+export const auditLogsToCsv = (logs: readonly FirebaseAuditLog[]): string => {
+  const header = ['시각', '작업자', '작업', '대상 종류', '대상 ID', '대상 이름', '변경 전', '변경 후'];
+  const rows = logs.map(log => [
+    log.createdAt.toISOString(),
+    log.actorId,
+    AUDIT_ACTION_LABELS[log.action] || log.action,
+    AUDIT_TARGET_LABELS[log.targetType] || log.targetType,
+    log.targetId || '',
+    log.targetName,
+    log.before || '',
+    log.after || ''
+  ]);
+  return '\uFEFF' + [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+};
@@ -0,0 +1,161 @@
+/**
+ * 카테고리 일괄 작업 유틸리티 (이름 변경, 병합, 삭제 후 도구 재지정)
+ * 도구 이동은 배치 단위로 커밋되고, 진행 중인 작업은 localStorage에 기록해 중단되면 이어서 실행할 수 있습니다.
+ */
+import { CategoryInput, FirebaseCategory } from '../../types';
+import { getRepository } from '../repositories';
+
+// 진행 중인 작업 저장 키
+const PENDING_OPERATION_KEY = 'techToolkitHub.pendingCategoryOperation.v1';
+
+/**
+ * 카테고리 작업 종류
+ * - rename: 이름 변경 (도구의 카테고리 이름도 함께 변경)
+ * - merge: 다른 카테고리에 병합 (도구와 하위 카테고리를 대상으로 옮기고 원본 삭제)
+ * - delete: 삭제 (도구는 지정한 카테고리로 옮기고, 하위 카테고리는 한 단계 위로 이동)
+ */
+export type CategoryOperationType = 'rename' | 'merge' | 'delete';
+
+/**
+ * 카테고리 작업 정보
+ */
+export interface CategoryOperation {
+  type: CategoryOperationType;
+  categoryId: string;
+  categoryName: string; // 작업 시작 시점의 카테고리 이름
+  targetId: string | null; // merge/delete: 도구를 옮길 카테고리 ID
+  targetName: string | null; // rename: 새 이름, merge/delete: 도구를 옮길 카테고리 이름 (옮길 도구가 없으면 null)
+  changes?: Partial<CategoryInput>; // rename과 함께 저장할 다른 필드 (상위 카테고리, 순서 등)
+  startedAt: string;
+}
+
+/**
+ * 카테고리 작업 미리보기 (영향받는 도구와 하위 카테고리 수)
+ */
+export interface CategoryOperationPreview {
+  toolCount: number; // 카테고리를 옮기거나 이름이 바뀌는 도구 수
+  childCount: number; // 위치가 바뀌는 하위 카테고리 수
+  targetToolCount: number | null; // 대상 카테고리에 이미 있는 도구 수
+}
+
+/**
+ * 카테고리 작업 진행 상황
+ */
+export interface CategoryOperationProgress {
+  movedCount: number;
+  totalCount: number;
+}
+
+/**
+ * 작업 설명 문구
+ */
+export const describeCategoryOperation = (operation: CategoryOperation): string => {
+  switch (operation.type) {
+    case 'rename':
+      return `'${operation.categoryName}' → '${operation.targetName}' 이름 변경`;
+    case 'merge':
+      return `'${operation.categoryName}'을(를) '${operation.targetName}'에 병합`;
+    case 'delete':
+      return operation.targetName
+        ? `'${operation.categoryName}' 삭제 (도구는 '${operation.targetName}'(으)로 이동)`
+        : `'${operation.categoryName}' 삭제`;
+  }
+};
+
+/**
+ * 작업 전 영향받는 도구 수와 하위 카테고리 수 조회
+ */
+export const previewCategoryOperation = async (
+  categories: readonly FirebaseCategory[],
+  operation: CategoryOperation
+): Promise<CategoryOperationPreview> => {
+  const { tools } = getRepository();
+  const [toolCount, targetToolCount] = await Promise.all([
+    tools.count({ category: operation.categoryName, status: 'all' }),
+    operation.type !== 'rename' && operation.targetName
+      ? tools.count({ category: operation.targetName, status: 'all' })
+      : Promise.resolve(null)
+  ]);
+
+  return {
+    toolCount,
+    childCount: operation.type === 'rename'
+      ? 0
+      : categories.filter(category => category.parentId === operation.categoryId).length,
+    targetToolCount
+  };
+};
+
+/**
+ * 진행 중인(완료되지 않은) 작업 조회
+ */
+export const loadPendingCategoryOperation = (): CategoryOperation | null => {
+  try {
+    const saved = localStorage.getItem(PENDING_OPERATION_KEY);
+    return saved ? JSON.parse(saved) as CategoryOperation : null;
+  } catch (error) {
+    console.warn('⚠️ 진행 중인 카테고리 작업을 읽지 못했습니다:', error);
+    localStorage.removeItem(PENDING_OPERATION_KEY);
+    return null;
+  }
+};
+
+/**
+ * 진행 중인 작업 기록 삭제 (작업 취소)
+ */
+export const clearPendingCategoryOperation = (): void => {
+  localStorage.removeItem(PENDING_OPERATION_KEY);
+};
+
+/**
+ * 카테고리 작업 실행
+ * 같은 작업을 다시 실행해도 결과가 같으므로, 중단된 작업은 loadPendingCategoryOperation으로 읽어 그대로 다시 실행하면 됩니다.
+ * @param totalCount 진행률 표시에 사용할 전체 도구 수 (미리보기 결과)
+ * @param authorId 작업을 실행하는 관리자 ID (도구 변경 이력에 기록)
+ */
+export const runCategoryOperation = async (
+  operation: CategoryOperation,
+  totalCount: number,
+  authorId: string,
+  onProgress?: (progress: CategoryOperationProgress) => void
+): Promise<number> => {
+  const repository = getRepository();
+  localStorage.setItem(PENDING_OPERATION_KEY, JSON.stringify(operation));
+
+  const reportProgress = (movedCount: number) =>
+    onProgress?.({ movedCount, totalCount: Math.max(totalCount, movedCount) });
+  reportProgress(0);
+
+  let movedCount = 0;
+  const existing = (await repository.categories.list())
+    .find(category => category.id === operation.categoryId);
+
+  if (operation.type === 'rename') {
+    if (!operation.targetName) throw new Error('새 카테고리 이름이 없습니다.');
+
+    // 카테고리 이름을 먼저 바꿔 작업 중 새로 등록되는 도구가 새 이름을 쓰게 함
+    if (existing) {
+      await repository.categories.update(operation.categoryId, {
+        ...operation.changes,
+        name: operation.targetName
+      });
+    }
+    movedCount = await repository.tools.reassignCategory(operation.categoryName, operation.targetName, authorId, reportProgress);
+  } else {
+    // 도구를 모두 옮긴 뒤 카테고리를 정리 (중단되어도 원본 카테고리가 남아 있어 다시 실행 가능)
+    if (operation.targetName) {
+      movedCount = await repository.tools.reassignCategory(operation.categoryName, operation.targetName, authorId, reportProgress);
+    }
+    if (existing) {
+      if (operation.type === 'merge' && operation.targetId) {
+        await repository.categories.merge(operation.categoryId, operation.targetId);
+      } else {
+        await repository.categories.remove(operation.categoryId);
+      }
+    }
+  }
+
+  clearPendingCategoryOperation();
+  console.log('✅ 카테고리 작업 완료:', describeCategoryOperation(operation), `(도구 ${movedCount}개)`);
+  return movedCount;
+};
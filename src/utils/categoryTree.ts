@@ -0,0 +1,142 @@
+/**
+ * 카테고리 계층 유틸리티
+ * 카테고리 문서의 parentId로 트리를 구성하고, 상위 카테고리 선택 시 포함할 하위 카테고리를 계산합니다.
+ */
+import { FirebaseCategory } from '../../types';
+
+/**
+ * 카테고리 트리 노드
+ */
+export interface CategoryNode {
+  category: FirebaseCategory;
+  children: CategoryNode[];
+  depth: number; // 최상위 0부터 시작
+}
+
+/**
+ * 같은 상위 카테고리 안에서의 표시 순서 (order 오름차순, 같으면 이름순)
+ */
+export const compareCategories = (a: FirebaseCategory, b: FirebaseCategory): number =>
+  a.order - b.order || a.name.localeCompare(b.name);
+
+/**
+ * 카테고리 목록을 트리로 변환
+ * 상위 카테고리가 없어졌거나 순환 참조가 있는 카테고리는 최상위로 표시합니다.
+ */
+export const buildCategoryTree = (categories: readonly FirebaseCategory[]): CategoryNode[] => {
+  const ids = new Set(categories.map(category => category.id));
+  const childrenByParent = new Map<string | null, FirebaseCategory[]>();
+  categories.forEach(category => {
+    const parentId = category.parentId && ids.has(category.parentId) && category.parentId !== category.id
+      ? category.parentId
+      : null;
+    childrenByParent.set(parentId, [...(childrenByParent.get(parentId) || []), category]);
+  });
+
+  const visited = new Set<string>();
+  const buildNodes = (parentId: string | null, depth: number): CategoryNode[] =>
+    [...(childrenByParent.get(parentId) || [])]
+      .sort(compareCategories)
+      .filter(category => !visited.has(category.id))
+      .map(category => {
+        visited.add(category.id);
+        return { category, depth, children: buildNodes(category.id, depth + 1) };
+      });
+
+  const roots = buildNodes(null, 0);
+
+  // 순환 참조로 최상위에서 닿지 않는 카테고리는 최상위에 추가
+  categories
+    .filter(category => !visited.has(category.id))
+    .sort(compareCategories)
+    .forEach(category => {
+      if (visited.has(category.id)) return;
+      visited.add(category.id);
+      roots.push({ category, depth: 0, children: buildNodes(category.id, 1) });
+    });
+
+  return roots;
+};
+
+/**
+ * 트리를 표시 순서대로 펼친 목록 (깊이 우선)
+ */
+export const flattenCategoryTree = (nodes: readonly CategoryNode[]): CategoryNode[] =>
+  nodes.flatMap(node => [node, ...flattenCategoryTree(node.children)]);
+
+/**
+ * 특정 카테고리의 모든 하위 카테고리 ID (자신 제외)
+ */
+export const getDescendantIds = (categories: readonly FirebaseCategory[], categoryId: string): Set<string> => {
+  const descendants = new Set<string>();
+  const queue = [categoryId];
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    categories.forEach(category => {
+      if (category.parentId === parentId && category.id !== categoryId && !descendants.has(category.id)) {
+        descendants.add(category.id);
+        queue.push(category.id);
+      }
+    });
+  }
+  return descendants;
+};
+
+/**
+ * 카테고리 필터에 포함할 카테고리 이름 (자신과 모든 하위 카테고리)
+ * 목록에 없는 이름이면 그 이름만 반환합니다.
+ */
+export const getCategoryNamesWithDescendants = (
+  categories: readonly FirebaseCategory[],
+  categoryName: string
+): string[] => {
+  const target = categories.find(category => category.name === categoryName);
+  if (!target) return [categoryName];
+
+  const descendantIds = getDescendantIds(categories, target.id);
+  return [
+    target.name,
+    ...categories.filter(category => descendantIds.has(category.id)).map(category => category.name)
+  ];
+};
+
+/**
+ * 상위 카테고리부터 해당 카테고리까지의 경로 (이동 경로 표시용)
+ */
+export const getCategoryPath = (categories: readonly FirebaseCategory[], categoryName: string): FirebaseCategory[] => {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const path: FirebaseCategory[] = [];
+  let current = categories.find(category => category.name === categoryName);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * 상위 카테고리로 지정할 수 있는지 확인 (자기 자신이나 하위 카테고리를 상위로 지정하면 순환)
+ */
+export const canSetParent = (
+  categories: readonly FirebaseCategory[],
+  categoryId: string,
+  parentId: string | null
+): boolean => {
+  if (!parentId) return true;
+  if (parentId === categoryId) return false;
+  return !getDescendantIds(categories, categoryId).has(parentId);
+};
+
+/**
+ * 카테고리 병합 시 원본 카테고리의 하위 카테고리가 옮겨갈 상위 카테고리 ID
+ * 대상 카테고리 자신이나 대상을 하위에 둔 카테고리는 대상 아래로 옮기면 순환이 생기므로 원본의 상위 카테고리로 올립니다.
+ */
+export const getParentIdAfterMerge = (
+  categories: readonly FirebaseCategory[],
+  childId: string,
+  source: FirebaseCategory,
+  targetId: string
+): string | null =>
+  childId === targetId || getDescendantIds(categories, childId).has(targetId)
+    ? source.parentId
+    : targetId;
@@ -0,0 +1,66 @@
+/**
+ * 댓글 신고/검토 유틸리티
+ * 신고 사유와 검토 상태 표시 이름, 신고 누적 자동 숨김 계산에 사용합니다.
+ * 자동 숨김 기준은 functions/src/reports.ts와 같게 유지해야 합니다.
+ */
+import { CommentModerationStatus, CommentReportReason, FirebaseComment } from '../../types';
+
+// 신고가 이 수 이상 쌓이면 관리자 검토 전까지 자동으로 숨김
+export const COMMENT_REPORT_HIDE_THRESHOLD = 3;
+
+// 신고 추가 설명 최대 길이
+export const COMMENT_REPORT_DETAIL_MAX_LENGTH = 500;
+
+// 신고 사유 표시 이름
+export const COMMENT_REPORT_REASON_LABELS: Record<CommentReportReason, string> = {
+  spam: '스팸/광고',
+  abuse: '욕설/비방',
+  inappropriate: '부적절한 내용',
+  other: '기타'
+};
+
+export const COMMENT_REPORT_REASONS = Object.keys(COMMENT_REPORT_REASON_LABELS) as CommentReportReason[];
+
+// 검토 상태 표시 이름
+export const COMMENT_MODERATION_STATUS_LABELS: Record<CommentModerationStatus, string> = {
+  visible: '표시 중',
+  autoHidden: '자동 숨김',
+  hidden: '숨김',
+  restored: '복원됨'
+};
+
+/**
+ * 저장된 검토 상태 정규화 (필드가 없는 기존 문서는 visible)
+ */
+export const normalizeModerationStatus = (value: unknown): CommentModerationStatus =>
+  value === 'autoHidden' || value === 'hidden' || value === 'restored' ? value : 'visible';
+
+/**
+ * 다른 사용자에게 숨기는 댓글인지 확인
+ */
+export const isCommentHidden = (comment: Pick<FirebaseComment, 'moderationStatus'>): boolean =>
+  comment.moderationStatus === 'autoHidden' || comment.moderationStatus === 'hidden';
+
+/**
+ * 신고 1건을 반영한 신고 수와 검토 상태 계산
+ * 관리자가 검토하지 않은(visible) 댓글만 기준 이상이 되면 자동 숨김합니다.
+ */
+export const applyCommentReport = (
+  comment: Pick<FirebaseComment, 'reportCount' | 'moderationStatus'>
+): Pick<FirebaseComment, 'reportCount' | 'moderationStatus'> => {
+  const reportCount = (comment.reportCount || 0) + 1;
+  return {
+    reportCount,
+    moderationStatus: comment.moderationStatus === 'visible' && reportCount >= COMMENT_REPORT_HIDE_THRESHOLD
+      ? 'autoHidden'
+      : comment.moderationStatus
+  };
+};
+
+/**
+ * 감사 로그와 목록에 표시할 댓글 요약 (예: "홍길동: 댓글 내용 앞부분...")
+ */
+export const summarizeComment = (comment: Pick<FirebaseComment, 'userName' | 'content'>, maxLength = 50): string => {
+  const content = comment.content.length > maxLength ? `${comment.content.slice(0, maxLength)}...` : comment.content;
+  return `${comment.userName}: ${content}`;
+};
@@ -0,0 +1,215 @@
+/**
+ * 콘텐츠 필터 유틸리티
+ * 금칙어, 링크 수, 반복 게시 검사와 관리자 설정 정규화에 사용합니다.
+ * 작성 수 제한 기본값은 firestore.rules와 같게 유지해야 합니다.
+ */
+import { ContentFilterInput, ContentFilterSettings, ToolInput } from '../../types';
+
+// 관리자가 설정할 수 있는 값의 범위 (firestore.rules의 settings 검증과 동일)
+export const CONTENT_FILTER_LIMITS = {
+  blockedWordCount: 500,
+  blockedWordLength: 30,
+  maxLinks: { min: 0, max: 20 },
+  commentsPerMinute: { min: 1, max: 60 },
+  toolsPerDay: { min: 1, max: 100 }
+} as const;
+
+// 설정 문서가 없을 때 사용하는 기본값
+export const DEFAULT_CONTENT_FILTER_SETTINGS: ContentFilterSettings = {
+  blockedWords: ['씨발', '병신', '개새끼', 'fuck', 'shit', '카지노', '바카라', '토토사이트', 'casino', 'viagra'],
+  maxLinks: 2,
+  blockRepeatedContent: true,
+  commentsPerMinute: 5,
+  toolsPerDay: 5,
+  updatedBy: null,
+  updatedAt: null
+};
+
+// 반복 게시 검사에 사용하는 최근 댓글 수
+export const REPEATED_CONTENT_LOOKBACK = 5;
+
+// 콘텐츠 필터로 검사하는 도구 필드
+const TOOL_TEXT_FIELDS = ['name', 'description', 'memo'] as const;
+
+// 링크로 취급하는 문자열 (http/https 주소와 www.로 시작하는 주소)
+const LINK_PATTERN = /(?:https?:\/\/|www\.)[^\s]+/gi;
+
+// 영문 단어 단위 비교에 사용하는 토큰 (라틴 문자와 숫자의 연속, 한글과 기호는 경계로 취급)
+const LATIN_TOKEN_PATTERN = /[\p{Script=Latin}\p{N}]+/gu;
+const LATIN_WORD_PATTERN = /^[\p{Script=Latin}\p{N}]+$/u;
+
+/**
+ * 비교용 문자열 (전각/반각 통일, 소문자, 글자와 숫자 외 문자 제거)
+ * "씨 발", "ＦＵＣＫ"처럼 띄어 쓰거나 기호를 섞어도 같은 문자열이 됩니다.
+ */
+export const toMatchText = (text: string): string =>
+  text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * 영문 단어 토큰 목록 (전각/반각 통일, 소문자)
+ */
+const toLatinTokens = (text: string): string[] =>
+  text.normalize('NFKC').toLowerCase().match(LATIN_TOKEN_PATTERN) || [];
+
+/**
+ * 한 글자씩 띄어 쓰거나 기호로 나눈 부분을 이어 붙인 문자열 목록
+ * "f u c k", "f.u.c.k"처럼 의도적으로 나눠 쓴 단어를 찾는 데 사용합니다.
+ */
+const toSpelledOutWords = (tokens: string[]): string[] => {
+  const words: string[] = [];
+  let letters = '';
+  [...tokens, ''].forEach(token => {
+    if (token.length === 1) {
+      letters += token;
+      return;
+    }
+    if (letters.length > 1) words.push(letters);
+    letters = '';
+  });
+  return words;
+};
+
+/**
+ * 범위 안의 정수로 보정 (숫자가 아니면 기본값)
+ */
+const clampInteger = (value: unknown, range: { min: number; max: number }, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(range.max, Math.max(range.min, Math.round(value)))
+    : fallback;
+
+/**
+ * 금칙어 목록 정규화 (공백 제거, 소문자, 중복/빈 값 제거, 최대 개수와 길이 제한)
+ */
+export const normalizeBlockedWords = (words: unknown): string[] => {
+  if (!Array.isArray(words)) return [];
+  const normalized = words
+    .filter((word): word is string => typeof word === 'string')
+    .map(word => word.trim().toLowerCase().slice(0, CONTENT_FILTER_LIMITS.blockedWordLength))
+    .filter(word => toMatchText(word).length > 0);
+  return [...new Set(normalized)].slice(0, CONTENT_FILTER_LIMITS.blockedWordCount);
+};
+
+/**
+ * 저장된 설정 정규화 (없는 필드는 기본값, 범위를 벗어난 값은 범위 안으로)
+ */
+export const normalizeContentFilterSettings = (data: Record<string, any> | null | undefined): ContentFilterSettings => {
+  if (!data) return DEFAULT_CONTENT_FILTER_SETTINGS;
+  const defaults = DEFAULT_CONTENT_FILTER_SETTINGS;
+  return {
+    blockedWords: Array.isArray(data.blockedWords) ? normalizeBlockedWords(data.blockedWords) : defaults.blockedWords,
+    maxLinks: clampInteger(data.maxLinks, CONTENT_FILTER_LIMITS.maxLinks, defaults.maxLinks),
+    blockRepeatedContent: typeof data.blockRepeatedContent === 'boolean' ? data.blockRepeatedContent : defaults.blockRepeatedContent,
+    commentsPerMinute: clampInteger(data.commentsPerMinute, CONTENT_FILTER_LIMITS.commentsPerMinute, defaults.commentsPerMinute),
+    toolsPerDay: clampInteger(data.toolsPerDay, CONTENT_FILTER_LIMITS.toolsPerDay, defaults.toolsPerDay),
+    updatedBy: data.updatedBy || null,
+    updatedAt: data.updatedAt instanceof Date ? data.updatedAt : data.updatedAt?.toDate?.() || null
+  };
+};
+
+/**
+ * 수정용 입력값만 추출
+ */
+export const toContentFilterInput = (settings: ContentFilterSettings): ContentFilterInput => ({
+  blockedWords: settings.blockedWords,
+  maxLinks: settings.maxLinks,
+  blockRepeatedContent: settings.blockRepeatedContent,
+  commentsPerMinute: settings.commentsPerMinute,
+  toolsPerDay: settings.toolsPerDay
+});
+
+/**
+ * 감사 로그에 남길 설정 요약 (예: "금칙어 10개, 링크 2개, 반복 차단, 댓글 5개/분, 도구 5개/일")
+ */
+export const summarizeContentFilter = (settings: ContentFilterInput): string => [
+  `금칙어 ${settings.blockedWords.length}개`,
+  `링크 ${settings.maxLinks}개`,
+  settings.blockRepeatedContent ? '반복 차단' : '반복 허용',
+  `댓글 ${settings.commentsPerMinute}개/분`,
+  `도구 ${settings.toolsPerDay}개/일`
+].join(', ');
+
+/**
+ * 글에 포함된 금칙어 목록
+ * 영문 금칙어는 단어 단위로 비교해 "publish it"처럼 단어 경계를 넘는 우연한 일치는 무시하고,
+ * 한 글자씩 나눠 쓴 경우만 이어 붙여 비교합니다. 한글 금칙어는 조사가 붙으므로 공백과 기호를 뺀 전체 글에서 찾습니다.
+ */
+export const findBlockedWords = (text: string, blockedWords: string[]): string[] => {
+  const target = toMatchText(text);
+  if (!target) return [];
+
+  const tokens = toLatinTokens(text);
+  const tokenText = ` ${tokens.join(' ')} `;
+  const spelledOutWords = toSpelledOutWords(tokens);
+
+  return blockedWords.filter(word => {
+    const key = toMatchText(word);
+    if (!key) return false;
+    if (!LATIN_WORD_PATTERN.test(key)) return target.includes(key);
+
+    // 여러 단어로 된 금칙어는 연속된 단어와 비교
+    const phrase = toLatinTokens(word).join(' ');
+    return tokenText.includes(` ${phrase} `) || spelledOutWords.some(letters => letters.includes(key));
+  });
+};
+
+/**
+ * 글에 포함된 링크 수
+ */
+export const countLinks = (text: string): number => (text.match(LINK_PATTERN) || []).length;
+
+/**
+ * 최근에 작성한 글과 같은 내용인지 확인 (공백, 기호, 대소문자 차이는 무시)
+ */
+export const isRepeatedContent = (text: string, recentContents: string[]): boolean => {
+  const target = toMatchText(text);
+  return target.length > 0 && recentContents.some(content => toMatchText(content) === target);
+};
+
+/**
+ * 콘텐츠 필터 검사
+ * @param text 검사할 글 (여러 필드는 줄바꿈으로 이어서 전달)
+ * @param settings 콘텐츠 필터 설정
+ * @param recentContents 반복 게시 검사에 사용할 같은 사용자의 최근 글 (생략하면 검사하지 않음)
+ * @returns 통과하면 null, 아니면 사용자에게 보여 줄 에러 메시지
+ */
+export const checkContent = (
+  text: string,
+  settings: ContentFilterSettings,
+  recentContents?: string[]
+): string | null => {
+  if (findBlockedWords(text, settings.blockedWords).length > 0) {
+    return '사용할 수 없는 단어가 포함되어 있습니다.';
+  }
+
+  const linkCount = countLinks(text);
+  if (linkCount > settings.maxLinks) {
+    return settings.maxLinks === 0
+      ? '링크를 포함할 수 없습니다.'
+      : `링크는 ${settings.maxLinks}개까지 포함할 수 있습니다. (현재 ${linkCount}개)`;
+  }
+
+  if (settings.blockRepeatedContent && recentContents && isRepeatedContent(text, recentContents)) {
+    return '같은 내용을 반복해서 작성할 수 없습니다.';
+  }
+
+  return null;
+};
+
+/**
+ * 도구 추가/수정/수정 제안의 콘텐츠 필터 검사 (이름, 설명, 메모)
+ * 수정이면 바뀐 필드만 검사해, 카테고리나 태그만 바꾸는 작업은 기존 내용 때문에 막히지 않습니다.
+ * @param toolData 저장할 도구 정보 (수정 제안 반영처럼 일부 필드만 전달 가능)
+ * @param settings 콘텐츠 필터 설정
+ * @param before 수정 전 도구 정보 (추가면 생략)
+ * @returns 통과하면 null, 아니면 사용자에게 보여 줄 에러 메시지
+ */
+export const checkToolContent = (
+  toolData: Partial<ToolInput>,
+  settings: ContentFilterSettings,
+  before?: Partial<ToolInput>
+): string | null => {
+  const changedTexts = TOOL_TEXT_FIELDS
+    .filter(field => typeof toolData[field] === 'string' && (!before || toolData[field] !== before[field]))
+    .map(field => toolData[field] as string);
+  return changedTexts.length > 0 ? checkContent(changedTexts.join('\n'), settings) : null;
+};
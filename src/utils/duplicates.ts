@@ -0,0 +1,161 @@
+/**
+ * 중복 도구 감지 유틸리티
+ * URL을 정규화(스킴, www, 끝 슬래시, 추적 파라미터 제거)해 비교하고, 이름은 편집 거리로 유사도를 계산해
+ * 이미 등록된 도구와 겹칠 가능성이 높은 항목을 찾습니다. (도구 추가 모달, 관리자 JSON 가져오기 공용)
+ */
+import { editDistance } from './searchIndex';
+
+/**
+ * 중복 비교 대상 (등록된 도구는 상세 페이지 링크용 slug 포함)
+ */
+export interface DuplicateCandidate {
+  name: string;
+  url: string;
+  slug?: string;
+}
+
+/**
+ * 중복으로 판단한 이유
+ * - url: 정규화한 URL이 같음 (이름에 도메인을 입력한 경우 포함)
+ * - name: 이름이 같거나 매우 비슷함
+ */
+export type DuplicateReason = 'url' | 'name';
+
+/**
+ * 중복 의심 항목
+ */
+export interface DuplicateMatch<T extends DuplicateCandidate = DuplicateCandidate> {
+  tool: T;
+  reasons: DuplicateReason[];
+  score: number; // 유사도 (0 ~ 1, URL 일치는 1)
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  url: '같은 주소',
+  name: '비슷한 이름'
+};
+
+// 비교에서 제외할 추적용 쿼리 파라미터
+const TRACKING_PARAM_PATTERN = /^(utm_\w+|ref|ref_src|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|yclid|_ga|_gl)$/i;
+
+// 이름을 중복으로 볼 최소 유사도
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+// 한쪽 이름이 다른 쪽을 포함할 때의 유사도 (예: 'Notion'과 'Notion AI')
+const CONTAINED_NAME_SCORE = 0.85;
+
+// 포함 관계와 오타 비교를 적용할 최소 이름 길이 (짧은 이름은 정확히 같을 때만 중복)
+const MIN_FUZZY_NAME_LENGTH = 4;
+
+// 스킴 없이 입력한 도메인 (예: 'chat.openai.com', 'figma.com/design')
+const DOMAIN_PATTERN = /^[\p{L}\p{N}-]+(\.[\p{L}\p{N}-]+)+(\/\S*)?$/u;
+
+/**
+ * 비교용 URL 정규화
+ * 스킴, 'www.', 끝 슬래시, 해시, 추적 파라미터를 제거하고 나머지 쿼리 파라미터는 정렬합니다.
+ * @example normalizeUrl('https://www.Figma.com/?utm_source=x') // 'figma.com'
+ * @example normalizeUrl('chat.openai.com/') // 'chat.openai.com'
+ */
+export const normalizeUrl = (url: string): string => {
+  const trimmed = url.trim();
+  if (!trimmed) return '';
+
+  let parsed: URL;
+  try {
+    parsed = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return trimmed.toLowerCase().replace(/^[a-z][a-z\d+.-]*:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '');
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\d*\./, '');
+  const port = parsed.port ? `:${parsed.port}` : '';
+  const path = parsed.pathname.replace(/\/+$/, '');
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAM_PATTERN.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const search = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `${host}${port}${path}${search}`;
+};
+
+/**
+ * 비교용 이름 정규화 (소문자, 공백/기호 제거)
+ * @example normalizeToolName('Chat GPT') // 'chatgpt'
+ */
+export const normalizeToolName = (name: string): string =>
+  name.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+/**
+ * 두 이름의 유사도 (0 ~ 1)
+ * 정규화한 이름이 같으면 1, 한쪽이 다른 쪽을 포함하면 0.85, 그 외에는 편집 거리 기준으로 계산합니다.
+ */
+export const getNameSimilarity = (a: string, b: string): number => {
+  const left = normalizeToolName(a);
+  const right = normalizeToolName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (Math.min(left.length, right.length) < MIN_FUZZY_NAME_LENGTH) return 0;
+
+  const distanceScore = 1 - editDistance(left, right) / Math.max(left.length, right.length);
+  const containedScore = left.includes(right) || right.includes(left) ? CONTAINED_NAME_SCORE : 0;
+  return Math.max(distanceScore, containedScore);
+};
+
+/**
+ * 이름에 도메인을 입력한 경우 비교용 URL로 변환
+ */
+const nameAsUrl = (name: string): string | null => {
+  const trimmed = name.trim();
+  return DOMAIN_PATTERN.test(trimmed) ? normalizeUrl(trimmed) : null;
+};
+
+/**
+ * 두 항목의 중복 여부 판단
+ * @returns 중복이 아니면 null
+ */
+const compareCandidates = <T extends DuplicateCandidate>(
+  candidate: DuplicateCandidate,
+  tool: T
+): DuplicateMatch<T> | null => {
+  const candidateUrls = [normalizeUrl(candidate.url), nameAsUrl(candidate.name)].filter(Boolean);
+  const toolUrls = [normalizeUrl(tool.url), nameAsUrl(tool.name)].filter(Boolean);
+  const isSameUrl = candidateUrls.some(url => toolUrls.includes(url));
+
+  const nameScore = getNameSimilarity(candidate.name, tool.name);
+  const isSimilarName = nameScore >= NAME_SIMILARITY_THRESHOLD;
+
+  if (!isSameUrl && !isSimilarName) return null;
+
+  const reasons: DuplicateReason[] = [];
+  if (isSameUrl) reasons.push('url');
+  if (isSimilarName) reasons.push('name');
+
+  return { tool, reasons, score: isSameUrl ? 1 : nameScore };
+};
+
+/**
+ * 등록된 도구 중 입력한 도구와 중복일 가능성이 높은 항목 찾기
+ * @param candidate 새로 등록하려는 도구의 이름과 URL
+ * @param tools 비교할 도구 목록
+ * @param limit 최대 결과 수
+ * @returns 유사도 내림차순 목록
+ */
+export const findDuplicateTools = <T extends DuplicateCandidate>(
+  candidate: DuplicateCandidate,
+  tools: readonly T[],
+  limit = 5
+): DuplicateMatch<T>[] => {
+  if (!candidate.name.trim() && !candidate.url.trim()) return [];
+
+  return tools
+    .map(tool => compareCandidates(candidate, tool))
+    .filter((match): match is DuplicateMatch<T> => match !== null)
+    .sort((a, b) => b.score - a.score || a.tool.name.localeCompare(b.tool.name, 'ko'))
+    .slice(0, limit);
+};
+
+/**
+ * 중복 이유 표시 (예: '같은 주소, 비슷한 이름')
+ */
+export const formatDuplicateReasons = (reasons: DuplicateReason[]): string =>
+  reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(', ');
@@ -2,21 +2,20 @@
  * 도구 데이터 JSON 내보내기/가져오기 유틸리티
  * 사용자가 도구 데이터를 JSON 파일로 내보내거나 가져올 수 있도록 지원
  */
-import { FirebaseTool, ToolInput } from '../../types';
-import { db } from '../lib/firebase';
-import { 
-  collection, 
-  getDocs, 
-  addDoc, 
-  serverTimestamp, 
-  updateDoc, 
-  doc, 
-  getDoc, 
-  deleteDoc, 
-  writeBatch,
-  QueryDocumentSnapshot,
-  DocumentData
-} from 'firebase/firestore';
+import { ToolInput } from '../../types';
+import { getRepository } from '../repositories';
+import { normalizeTags } from './tags';
+import { normalizePricing, pricingFromPlan } from './pricing';
+import { DuplicateCandidate, DuplicateMatch, findDuplicateTools } from './duplicates';
+
+/**
+ * 가져올 파일에서 중복으로 의심되는 도구
+ * matches에는 등록된 도구와 파일 안의 앞선 항목이 함께 포함됩니다.
+ */
+export interface ImportDuplicate {
+  tool: ToolInput;
+  matches: DuplicateMatch[];
+}
 
 /**
  * 모든 도구 데이터를 JSON 형식으로 내보내는 함수
@@ -24,33 +23,8 @@ import {
  */
 export const exportToolsToJson = async (): Promise<string> => {
   try {
-    // Firestore에서 모든 도구 가져오기
-    const toolsCollection = collection(db, 'tools');
-    const toolsSnapshot = await getDocs(toolsCollection);
-    
-    const toolsData: FirebaseTool[] = [];
-    
-    toolsSnapshot.forEach(doc => {
-      const data = doc.data();
-      
-      // 날짜 객체를 ISO 문자열로 변환 (JSON 직렬화를 위해)
-      const tool: FirebaseTool = {
-        id: doc.id,
-        name: data.name,
-        category: data.category,
-        url: data.url,
-        description: data.description,
-        memo: data.memo,
-        plan: data.plan,
-        averageRating: data.averageRating || 0,
-        ratingCount: data.ratingCount || 0,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        updatedAt: data.updatedAt?.toDate() || new Date(),
-        createdBy: data.createdBy
-      };
-      
-      toolsData.push(tool);
-    });
+    // 저장소에서 공개된(승인된) 도구 가져오기 (내보낸 파일은 정적 페이지 생성에도 사용되므로 검토 중인 도구 제외)
+    const toolsData = await getRepository().tools.list();
     
     // JSON으로 직렬화할 수 있도록 날짜 객체를 문자열로 변환
     const toolsForExport = toolsData.map(tool => ({
@@ -67,12 +41,10 @@ export const exportToolsToJson = async (): Promise<string> => {
 };
 
 /**
- * JSON 파일을 다운로드하는 함수
- * @param jsonString JSON 문자열
- * @param fileName 파일 이름
+ * 문자열을 파일로 다운로드
  */
-export const downloadJsonFile = (jsonString: string, fileName: string = 'tools.json'): void => {
-  const blob = new Blob([jsonString], { type: 'application/json' });
+const downloadFile = (content: string, fileName: string, type: string): void => {
+  const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
   
   const a = document.createElement('a');
@@ -83,14 +55,37 @@ export const downloadJsonFile = (jsonString: string, fileName: string = 'tools.j
   URL.revokeObjectURL(url);
 };
 
+/**
+ * JSON 파일을 다운로드하는 함수
+ * @param jsonString JSON 문자열
+ * @param fileName 파일 이름
+ */
+export const downloadJsonFile = (jsonString: string, fileName: string = 'tools.json'): void => {
+  downloadFile(jsonString, fileName, 'application/json');
+};
+
+/**
+ * CSV 파일 다운로드
+ * @param csvString CSV 문자열
+ * @param fileName 파일 이름
+ */
+export const downloadCsvFile = (csvString: string, fileName: string): void => {
+  downloadFile(csvString, fileName, 'text/csv;charset=utf-8');
+};
+
 /**
  * JSON 문자열에서 도구 데이터 가져오기
  * @param jsonString JSON 문자열
- * @returns 파싱된 도구 데이터
+ * @param existingTools 중복 검사에 사용할 등록된 도구 목록
+ * @returns 파싱된 도구 데이터와 중복 의심 항목
  */
-export const parseToolsFromJson = (jsonString: string): {
+export const parseToolsFromJson = (
+  jsonString: string,
+  existingTools: readonly DuplicateCandidate[] = []
+): {
   validTools: ToolInput[];
   invalidEntries: any[];
+  duplicates: ImportDuplicate[];
 } => {
   try {
     const parsedData = JSON.parse(jsonString);
@@ -101,6 +96,7 @@ export const parseToolsFromJson = (jsonString: string): {
     
     const validTools: ToolInput[] = [];
     const invalidEntries: any[] = [];
+    const duplicates: ImportDuplicate[] = [];
     
     parsedData.forEach((item: any) => {
       // 필수 필드 검증
@@ -116,16 +112,26 @@ export const parseToolsFromJson = (jsonString: string): {
           url: item.url,
           description: item.description,
           memo: typeof item.memo === 'string' ? item.memo : '',
-          plan: typeof item.plan === 'string' ? item.plan : null
+          // 이전 형식으로 내보낸 파일은 요금제 문자열(plan)을 가격 정보로 변환
+          pricing: item.pricing !== undefined ? normalizePricing(item.pricing) : pricingFromPlan(item.plan),
+          tags: Array.isArray(item.tags)
+            ? normalizeTags(item.tags.filter((tag: unknown): tag is string => typeof tag === 'string'))
+            : []
         };
         
+        // 등록된 도구와 파일 안의 앞선 항목 모두와 비교
+        const matches = findDuplicateTools<DuplicateCandidate>(toolInput, [...existingTools, ...validTools]);
+        if (matches.length > 0) {
+          duplicates.push({ tool: toolInput, matches });
+        }
+        
         validTools.push(toolInput);
       } else {
         invalidEntries.push(item);
       }
     });
     
-    return { validTools, invalidEntries };
+    return { validTools, invalidEntries, duplicates };
   } catch (error) {
     console.error('JSON 파싱 오류:', error);
     throw new Error('JSON 데이터를 파싱하는 중 오류가 발생했습니다.');
@@ -133,7 +139,7 @@ export const parseToolsFromJson = (jsonString: string): {
 };
 
 /**
- * JSON에서 가져온 도구 데이터를 Firebase에 저장
+ * JSON에서 가져온 도구 데이터를 저장소에 저장
  * @param tools 도구 데이터 배열
  * @param userId 사용자 ID
  * @param mode 가져오기 모드 ('append': 기존 데이터에 추가, 'replace': 기존 데이터 삭제 후 추가)
@@ -145,66 +151,21 @@ export const importToolsToFirebase = async (
   mode: 'append' | 'replace' = 'append'
 ): Promise<{ success: number; failed: number }> => {
   try {
-    // 'replace' 모드인 경우 기존 도구 데이터 삭제
+    const repository = getRepository();
+
+    // 'replace' 모드인 경우 기존 도구 데이터 삭제 (Firestore 구현은 500개 단위 배치로 삭제)
     if (mode === 'replace') {
-      // 배치 작업 생성 (최대 500개 작업까지 지원)
-      const batch = writeBatch(db);
-      
-      // 기존 도구 가져오기
-      const toolsCollection = collection(db, 'tools');
-      const toolsSnapshot = await getDocs(toolsCollection);
-      
-      // 도구 수가 많으면 여러 배치로 나누어 삭제해야 함
-      const MAX_BATCH_SIZE = 500;
-      
-      if (toolsSnapshot.size <= MAX_BATCH_SIZE) {
-        // 한 번의 배치로 삭제 가능한 경우
-        toolsSnapshot.forEach(doc => {
-          batch.delete(doc.ref);
-        });
-        
-        // 배치 작업 실행
-        await batch.commit();
-      } else {
-        // 여러 배치로 나누어 삭제
-        let batchCount = 0;
-        let currentBatch = writeBatch(db);
-        
-        // 배열로 변환하여 인덱스와 함께 사용
-        const docsArray = toolsSnapshot.docs;
-        
-        docsArray.forEach((doc, index) => {
-          currentBatch.delete(doc.ref);
-          batchCount++;
-          
-          if (batchCount >= MAX_BATCH_SIZE || index === docsArray.length - 1) {
-            // 배치 실행 및 새 배치 생성
-            currentBatch.commit();
-            currentBatch = writeBatch(db);
-            batchCount = 0;
-          }
-        });
-      }
+      await repository.tools.removeAll();
     }
     
     // 도구 추가
     let successCount = 0;
     let failCount = 0;
     
-    const toolsCollection = collection(db, 'tools');
-    
     for (const tool of tools) {
       try {
-        const timestamp = serverTimestamp();
-        
-        await addDoc(toolsCollection, {
-          ...tool,
-          averageRating: 0,
-          ratingCount: 0,
-          createdAt: timestamp,
-          updatedAt: timestamp,
-          createdBy: userId
-        });
+        // 관리자가 가져온 도구는 검토를 거친 것으로 보고 바로 공개
+        await repository.tools.add(tool, userId, 'approved');
         
         successCount++;
       } catch (error) {
@@ -213,6 +174,13 @@ export const importToolsToFirebase = async (
       }
     }
     
+    // 가져온 도구의 태그를 태그 목록에 등록
+    try {
+      await repository.tags.ensure(tools.flatMap(tool => tool.tags));
+    } catch (error) {
+      console.error('태그 등록 오류:', error);
+    }
+    
     return {
       success: successCount,
       failed: failCount
@@ -0,0 +1,60 @@
+/**
+ * 한글 처리 유틸리티
+ * 완성형 음절을 자모로 분해하거나 초성을 추출해 입력 중인 한글과 오타를 비교할 수 있게 합니다.
+ */
+
+// 완성형 한글 음절 범위 (가 ~ 힣)
+const SYLLABLE_START = 0xac00;
+const SYLLABLE_END = 0xd7a3;
+
+const CHOSEONG = ['ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+const JUNGSEONG = ['ㅏ', 'ㅐ', 'ㅑ', 'ㅒ', 'ㅓ', 'ㅔ', 'ㅕ', 'ㅖ', 'ㅗ', 'ㅘ', 'ㅙ', 'ㅚ', 'ㅛ', 'ㅜ', 'ㅝ', 'ㅞ', 'ㅟ', 'ㅠ', 'ㅡ', 'ㅢ', 'ㅣ'];
+const JONGSEONG = ['', 'ㄱ', 'ㄲ', 'ㄳ', 'ㄴ', 'ㄵ', 'ㄶ', 'ㄷ', 'ㄹ', 'ㄺ', 'ㄻ', 'ㄼ', 'ㄽ', 'ㄾ', 'ㄿ', 'ㅀ', 'ㅁ', 'ㅂ', 'ㅄ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+
+// 겹받침/겹모음은 입력 순서대로 나누어 비교 (예: '값' 입력 중 '갑ㅅ' 상태도 같은 자모열이 되도록)
+const COMPOUND_JAMO: Record<string, string> = {
+  'ㄳ': 'ㄱㅅ', 'ㄵ': 'ㄴㅈ', 'ㄶ': 'ㄴㅎ', 'ㄺ': 'ㄹㄱ', 'ㄻ': 'ㄹㅁ', 'ㄼ': 'ㄹㅂ', 'ㄽ': 'ㄹㅅ',
+  'ㄾ': 'ㄹㅌ', 'ㄿ': 'ㄹㅍ', 'ㅀ': 'ㄹㅎ', 'ㅄ': 'ㅂㅅ',
+  'ㅘ': 'ㅗㅏ', 'ㅙ': 'ㅗㅐ', 'ㅚ': 'ㅗㅣ', 'ㅝ': 'ㅜㅓ', 'ㅞ': 'ㅜㅔ', 'ㅟ': 'ㅜㅣ', 'ㅢ': 'ㅡㅣ'
+};
+
+/**
+ * 완성형 한글 음절인지 확인
+ */
+const isSyllable = (code: number): boolean => code >= SYLLABLE_START && code <= SYLLABLE_END;
+
+/**
+ * 한글 문자열을 자모 단위로 분해 (한글이 아닌 문자는 그대로 유지)
+ * @example decomposeHangul('챗봇') // 'ㅊㅐㅅㅂㅗㅅ'
+ */
+export const decomposeHangul = (text: string): string => {
+  let result = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (isSyllable(code)) {
+      const offset = code - SYLLABLE_START;
+      const jamo = CHOSEONG[Math.floor(offset / 588)]
+        + JUNGSEONG[Math.floor((offset % 588) / 28)]
+        + JONGSEONG[offset % 28];
+      result += Array.from(jamo, part => COMPOUND_JAMO[part] || part).join('');
+    } else {
+      result += COMPOUND_JAMO[char] || char;
+    }
+  }
+  return result;
+};
+
+/**
+ * 한글 음절을 초성으로 변환 (한글 음절이 아닌 문자는 그대로 유지하므로 길이가 같음)
+ * @example getChoseong('챗봇') // 'ㅊㅂ'
+ */
+export const getChoseong = (text: string): string =>
+  Array.from(text, char => {
+    const code = char.charCodeAt(0);
+    return isSyllable(code) ? CHOSEONG[Math.floor((code - SYLLABLE_START) / 588)] : char;
+  }).join('');
+
+/**
+ * 초성(자음)으로만 이루어진 문자열인지 확인 (예: 'ㅊㅂ')
+ */
+export const isChoseongOnly = (text: string): boolean => /^[ㄱ-ㅎ]+$/.test(text);
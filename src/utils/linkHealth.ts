@@ -0,0 +1,89 @@
+/**
+ * 링크 점검 유틸리티
+ * 점검 상태 표시 이름, 응답 결과로 상태 판정, 저장된 점검 결과 정규화를 담당합니다.
+ * (scripts/check-links.ts, 관리자 링크 점검 화면 공용)
+ */
+import { LinkHealth, LinkStatus } from '../../types';
+import { normalizeUrl } from './duplicates';
+
+/**
+ * 점검 상태 표시 이름
+ */
+export const LINK_STATUS_LABELS: Record<LinkStatus, string> = {
+  ok: '정상',
+  redirected: '주소 이동',
+  broken: '연결 오류',
+  blocked: '확인 불가'
+};
+
+export const LINK_STATUSES = Object.keys(LINK_STATUS_LABELS) as LinkStatus[];
+
+// 봇 차단, 로그인 요구, 요청 제한처럼 사이트는 살아 있지만 자동 점검으로 확인할 수 없는 응답
+const BLOCKED_HTTP_STATUSES = [401, 403, 429];
+
+/**
+ * 점검 응답으로 링크 상태 판정
+ * @param url 도구에 저장된 주소
+ * @param finalUrl 리디렉션을 따라간 최종 주소
+ * @param httpStatus 최종 응답 상태 코드 (연결 실패 시 null)
+ */
+export const classifyLink = (url: string, finalUrl: string | null, httpStatus: number | null): LinkStatus => {
+  if (httpStatus === null) return 'broken';
+  if (BLOCKED_HTTP_STATUSES.includes(httpStatus)) return 'blocked';
+  if (httpStatus >= 400) return 'broken';
+  return finalUrl && isMovedUrl(url, finalUrl) ? 'redirected' : 'ok';
+};
+
+/**
+ * 최종 주소가 원래 주소와 실질적으로 다른지 확인
+ * 끝 슬래시, www, 추적 파라미터 차이는 같은 주소로 보고, http → https 전환은 이동으로 봅니다.
+ */
+export const isMovedUrl = (url: string, finalUrl: string): boolean => {
+  if (normalizeUrl(url) !== normalizeUrl(finalUrl)) return true;
+  try {
+    return new URL(url).protocol !== new URL(finalUrl).protocol;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 관리자가 확인해야 하는 점검 결과인지 확인
+ */
+export const needsLinkAttention = (linkHealth: LinkHealth | null): linkHealth is LinkHealth =>
+  !!linkHealth && linkHealth.status !== 'ok';
+
+/**
+ * 저장된 점검 시각을 Date로 변환 (Firestore Timestamp, Date, ISO 문자열)
+ */
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return value;
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  if (typeof value === 'string') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+/**
+ * 저장된 점검 결과를 검증해 정규화
+ * 상태나 점검 시각이 올바르지 않으면 null을 반환합니다.
+ */
+export const normalizeLinkHealth = (value: unknown): LinkHealth | null => {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Record<string, unknown>;
+  const lastCheckedAt = toDate(data.lastCheckedAt);
+  if (!LINK_STATUSES.includes(data.status as LinkStatus) || !lastCheckedAt) return null;
+
+  return {
+    status: data.status as LinkStatus,
+    httpStatus: typeof data.httpStatus === 'number' ? data.httpStatus : null,
+    finalUrl: typeof data.finalUrl === 'string' && data.finalUrl ? data.finalUrl : null,
+    responseTimeMs: typeof data.responseTimeMs === 'number' ? data.responseTimeMs : null,
+    error: typeof data.error === 'string' && data.error ? data.error : null,
+    lastCheckedAt
+  };
+};
@@ -0,0 +1,106 @@
+/**
+ * 링크 요청 유틸리티
+ * 도구 URL에 요청을 보내 리디렉션을 직접 따라가고, 최종 상태 코드와 주소, 응답 시간을 구합니다.
+ * 저장은 하지 않으므로 scripts/check-links.ts에서 결과를 linkHealth 필드에 기록합니다.
+ */
+import { LinkStatus } from '../../types';
+import { classifyLink } from './linkHealth';
+
+/**
+ * 링크 점검 결과 (저장 전)
+ */
+export interface ProbeResult {
+  status: LinkStatus;
+  httpStatus: number | null;
+  finalUrl: string | null;
+  responseTimeMs: number | null;
+  error: string | null;
+}
+
+/**
+ * 링크 요청 옵션
+ */
+export interface ProbeOptions {
+  /** 요청 하나의 제한 시간 (기본 10초) */
+  timeoutMs?: number;
+  /** 따라갈 최대 리디렉션 횟수 (기본 5회) */
+  maxRedirects?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_REDIRECTS = 5;
+
+const REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; TechToolkitHub-LinkChecker/1.0)',
+  Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8'
+};
+
+// HEAD 요청을 지원하지 않거나 거부하는 서버의 응답 (GET으로 다시 요청)
+const HEAD_UNSUPPORTED_STATUSES = [403, 405, 501];
+
+/**
+ * 요청 한 번 수행 (리디렉션은 따라가지 않음)
+ * HEAD를 지원하지 않는 서버는 GET으로 다시 요청하고, 본문은 읽지 않습니다.
+ */
+const request = async (url: string, timeoutMs: number): Promise<Response> => {
+  const options = { redirect: 'manual' as const, headers: REQUEST_HEADERS };
+  const headResponse = await fetch(url, { ...options, method: 'HEAD', signal: AbortSignal.timeout(timeoutMs) });
+  if (!HEAD_UNSUPPORTED_STATUSES.includes(headResponse.status)) {
+    return headResponse;
+  }
+
+  const getResponse = await fetch(url, { ...options, method: 'GET', signal: AbortSignal.timeout(timeoutMs) });
+  await getResponse.body?.cancel();
+  return getResponse;
+};
+
+/**
+ * URL 하나 점검 (리디렉션을 직접 따라가며 최종 주소 기록)
+ * 연결 실패, 제한 시간 초과, 리디렉션 초과는 예외 대신 broken 결과로 반환합니다.
+ */
+export const probeLink = async (url: string, options: ProbeOptions = {}): Promise<ProbeResult> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const startedAt = Date.now();
+  let currentUrl = url;
+
+  try {
+    for (let redirects = 0; redirects <= maxRedirects; redirects++) {
+      const response = await request(currentUrl, timeoutMs);
+      const location = response.headers.get('location');
+
+      if (response.status >= 300 && response.status < 400 && location) {
+        currentUrl = new URL(location, currentUrl).toString();
+        continue;
+      }
+
+      const finalUrl = currentUrl !== url ? currentUrl : null;
+      return {
+        status: classifyLink(url, finalUrl, response.status),
+        httpStatus: response.status,
+        finalUrl,
+        responseTimeMs: Date.now() - startedAt,
+        error: null
+      };
+    }
+
+    return {
+      status: 'broken',
+      httpStatus: null,
+      finalUrl: currentUrl,
+      responseTimeMs: Date.now() - startedAt,
+      error: `리디렉션이 ${maxRedirects}회를 넘었습니다.`
+    };
+  } catch (error: any) {
+    const isTimeout = error?.name === 'TimeoutError' || error?.name === 'AbortError';
+    return {
+      status: 'broken',
+      httpStatus: null,
+      finalUrl: currentUrl !== url ? currentUrl : null,
+      responseTimeMs: isTimeout ? null : Date.now() - startedAt,
+      error: isTimeout
+        ? `${timeoutMs / 1000}초 안에 응답하지 않았습니다.`
+        : error?.cause?.code || error?.message || '알 수 없는 오류'
+    };
+  }
+};
@@ -0,0 +1,233 @@
+/**
+ * Markdown 파서 유틸리티
+ * 댓글과 도구 설명에 쓰는 Markdown 일부(굵게, 목록, 인라인/블록 코드, 자동 링크)만 문법 트리로 변환합니다.
+ * - HTML 태그는 해석하지 않으므로 모든 글자는 React 텍스트로 출력됩니다.
+ * - 링크 주소는 http/https만 허용하고 나머지는 일반 텍스트로 남깁니다.
+ * - 텍스트 노드는 원문 위치(offset)를 함께 가져 검색어 강조 구간을 그대로 적용할 수 있습니다.
+ */
+
+/**
+ * 인라인 노드 (text/code/link의 text는 원문의 offset 위치부터 그대로 잘라낸 문자열)
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string; offset: number }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'code'; text: string; offset: number }
+  | { type: 'link'; href: string; text: string; offset: number }
+  | { type: 'break' };
+
+/**
+ * 블록 노드
+ */
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] }
+  | { type: 'codeBlock'; language: string; text: string; offset: number };
+
+// 작성 화면에 보여 주는 지원 문법 안내
+export const MARKDOWN_SYNTAX_HINT = '**굵게**, `코드`, ``` 코드 블록, - 목록, 1. 번호 목록을 쓸 수 있고 http(s) 주소는 링크로 바뀝니다.';
+
+// 인라인 문법 (앞의 문법이 우선: 코드, 굵게, <주소>, 주소)
+const INLINE_PATTERN = /`([^`\n]+)`|\*\*(?=\S)([^\n]*?\S)\*\*|<(https?:\/\/[^\s<>]+)>|((?:https?:\/\/|www\.)[^\s<>`]+)/gi;
+const FENCE_PATTERN = /^\s{0,3}```\s*([^`\s]*)\s*$/;
+const BULLET_ITEM_PATTERN = /^(\s{0,3}[-*+]\s+)(\S.*)$/;
+const ORDERED_ITEM_PATTERN = /^(\s{0,3}(\d{1,9})[.)]\s+)(\S.*)$/;
+const CODE_LANGUAGE_PATTERN = /^[\w+#.-]{1,20}$/;
+
+// 주소 끝에 붙어 있어도 링크에 포함하지 않는 문장 부호
+const TRAILING_PUNCTUATION = /[.,:;!?'"*]+$/;
+
+/**
+ * 안전한 링크 주소로 변환 (http/https가 아니거나 올바른 주소가 아니면 null)
+ */
+export const toSafeHref = (url: string): string | null => {
+  const candidate = /^www\./i.test(url) ? `https://${url}` : url;
+  try {
+    const parsed = new URL(candidate);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 본문 주소에서 끝의 문장 부호와 짝이 맞지 않는 닫는 괄호 제거
+ */
+const trimBareUrl = (url: string): string => {
+  let trimmed = url.replace(TRAILING_PUNCTUATION, '');
+  while (trimmed.endsWith(')') && (trimmed.match(/\(/g) || []).length < (trimmed.match(/\)/g) || []).length) {
+    trimmed = trimmed.slice(0, -1).replace(TRAILING_PUNCTUATION, '');
+  }
+  return trimmed;
+};
+
+/**
+ * 한 줄의 인라인 문법 해석
+ * @param line 해석할 문자열 (줄바꿈 없음)
+ * @param offset 원문에서 line이 시작하는 위치
+ */
+const parseInline = (line: string, offset: number): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let cursor = 0;
+
+  const pushText = (end: number) => {
+    if (end <= cursor) return;
+    const last = nodes[nodes.length - 1];
+    // 링크로 바꾸지 못한 주소처럼 이어지는 텍스트는 한 노드로 합침
+    if (last?.type === 'text' && last.offset + last.text.length === offset + cursor) {
+      last.text += line.slice(cursor, end);
+    } else {
+      nodes.push({ type: 'text', text: line.slice(cursor, end), offset: offset + cursor });
+    }
+    cursor = end;
+  };
+
+  for (const match of line.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index < cursor) continue;
+    const [whole, code, strong, angleUrl, bareUrl] = match;
+
+    if (code !== undefined) {
+      pushText(index);
+      nodes.push({ type: 'code', text: code, offset: offset + index + 1 });
+      cursor = index + whole.length;
+    } else if (strong !== undefined) {
+      pushText(index);
+      nodes.push({ type: 'strong', children: parseInline(strong, offset + index + 2) });
+      cursor = index + whole.length;
+    } else if (angleUrl !== undefined) {
+      const href = toSafeHref(angleUrl);
+      if (!href) continue;
+      pushText(index);
+      nodes.push({ type: 'link', href, text: angleUrl, offset: offset + index + 1 });
+      cursor = index + whole.length;
+    } else if (bareUrl !== undefined) {
+      const url = trimBareUrl(bareUrl);
+      const href = url.length > 4 ? toSafeHref(url) : null;
+      if (!href) continue;
+      pushText(index);
+      nodes.push({ type: 'link', href, text: url, offset: offset + index });
+      cursor = index + url.length;
+    }
+  }
+
+  pushText(line.length);
+  return nodes;
+};
+
+/**
+ * 원문을 줄 단위로 나누고 각 줄의 시작 위치 기록 (줄 끝의 \r은 제외)
+ */
+const splitLines = (source: string): { text: string; offset: number }[] => {
+  let offset = 0;
+  return source.split('\n').map(raw => {
+    const line = { text: raw.endsWith('\r') ? raw.slice(0, -1) : raw, offset };
+    offset += raw.length + 1;
+    return line;
+  });
+};
+
+/**
+ * Markdown 문자열을 블록 목록으로 변환
+ * 빈 줄은 문단과 목록을 나누고, 들여 쓴 줄은 바로 앞 목록 항목에 이어 붙입니다.
+ * 닫지 않은 코드 블록은 글 끝까지 코드로 취급합니다.
+ */
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = splitLines(source);
+  const blocks: MarkdownBlock[] = [];
+  // 이어 붙일 수 있는 현재 문단이나 목록 (빈 줄, 코드 블록을 만나면 끊김)
+  let current: MarkdownBlock | null = null;
+
+  const appendLine = (children: MarkdownInline[], text: string, offset: number) => {
+    if (children.length > 0) children.push({ type: 'break' });
+    children.push(...parseInline(text, offset));
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const { text, offset } = lines[i];
+
+    if (!text.trim()) {
+      current = null;
+      continue;
+    }
+
+    const fence = text.match(FENCE_PATTERN);
+    if (fence) {
+      const contentLines: { text: string; offset: number }[] = [];
+      while (i + 1 < lines.length && !FENCE_PATTERN.test(lines[i + 1].text)) {
+        contentLines.push(lines[++i]);
+      }
+      i++; // 닫는 줄 건너뜀
+      while (contentLines.length > 0 && !contentLines[contentLines.length - 1].text.trim()) {
+        contentLines.pop();
+      }
+      const first = contentLines[0];
+      const last = contentLines[contentLines.length - 1];
+      blocks.push({
+        type: 'codeBlock',
+        language: CODE_LANGUAGE_PATTERN.test(fence[1]) ? fence[1] : '',
+        text: first ? source.slice(first.offset, last.offset + last.text.length) : '',
+        offset: first ? first.offset : offset + text.length
+      });
+      current = null;
+      continue;
+    }
+
+    const bullet = text.match(BULLET_ITEM_PATTERN);
+    const ordered = bullet ? null : text.match(ORDERED_ITEM_PATTERN);
+    if (bullet || ordered) {
+      const isOrdered = !!ordered;
+      const marker = bullet ? bullet[1] : ordered![1];
+      const content = bullet ? bullet[2] : ordered![3];
+      if (current?.type !== 'list' || current.ordered !== isOrdered) {
+        current = { type: 'list', ordered: isOrdered, start: ordered ? Number(ordered[2]) : 1, items: [] };
+        blocks.push(current);
+      }
+      current.items.push(parseInline(content, offset + marker.length));
+      continue;
+    }
+
+    if (current?.type === 'list' && /^\s/.test(text)) {
+      const leading = text.length - text.trimStart().length;
+      appendLine(current.items[current.items.length - 1], text.trimStart(), offset + leading);
+      continue;
+    }
+
+    if (current?.type !== 'paragraph') {
+      current = { type: 'paragraph', children: [] };
+      blocks.push(current);
+    }
+    appendLine(current.children, text, offset);
+  }
+
+  return blocks;
+};
+
+/**
+ * 인라인 노드의 글자만 이어 붙임 (줄바꿈은 공백)
+ */
+const inlineToText = (nodes: MarkdownInline[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'strong':
+      return inlineToText(node.children);
+    case 'break':
+      return ' ';
+    default:
+      return node.text;
+  }
+}).join('');
+
+/**
+ * Markdown 기호를 뺀 평문 (목록 미리보기, 메타 설명 등 한 줄 요약용)
+ * 블록 사이와 목록 항목 사이는 줄바꿈으로 구분합니다.
+ */
+export const toPlainText = (source: string): string => parseMarkdown(source).map(block => {
+  switch (block.type) {
+    case 'paragraph':
+      return inlineToText(block.children);
+    case 'list':
+      return block.items.map(item => inlineToText(item)).join('\n');
+    case 'codeBlock':
+      return block.text;
+  }
+}).join('\n');
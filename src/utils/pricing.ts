@@ -0,0 +1,158 @@
+/**
+ * 가격 정보 유틸리티
+ * 가격 모델/결제 주기 표시 이름, 입력값 정규화, 이전 요금제 문자열(plan) 변환을 담당합니다.
+ */
+import { BillingPeriod, Pricing, PricingModel } from '../../types';
+
+/**
+ * 가격 모델 표시 이름 (선택 목록 순서)
+ */
+export const PRICING_MODEL_LABELS: Record<PricingModel, string> = {
+  free: '무료',
+  freemium: '부분 무료',
+  'open-source': '오픈소스',
+  paid: '유료',
+  enterprise: '기업용'
+};
+
+export const PRICING_MODELS = Object.keys(PRICING_MODEL_LABELS) as PricingModel[];
+
+/**
+ * 결제 주기 표시 이름
+ */
+export const BILLING_PERIOD_LABELS: Record<BillingPeriod, string> = {
+  monthly: '월',
+  yearly: '연',
+  'one-time': '1회',
+  usage: '사용량 기준'
+};
+
+export const BILLING_PERIODS = Object.keys(BILLING_PERIOD_LABELS) as BillingPeriod[];
+
+// 시작 가격 입력에서 선택할 수 있는 통화
+export const CURRENCIES = ['USD', 'KRW', 'EUR', 'JPY'];
+
+// 비용 없이 쓸 수 있는 가격 모델 ('무료 도구만 표시' 필터, 통계 기준)
+const FREE_PRICING_MODELS: PricingModel[] = ['free', 'open-source'];
+
+// 이전 요금제 문자열 → 가격 모델 (소문자, 공백 제거 후 비교)
+const LEGACY_PLAN_MODELS: Record<string, PricingModel> = {
+  무료: 'free',
+  free: 'free',
+  프리미엄: 'freemium',
+  부분무료: 'freemium',
+  부분유료: 'freemium',
+  freemium: 'freemium',
+  유료: 'paid',
+  paid: 'paid',
+  오픈소스: 'open-source',
+  'open-source': 'open-source',
+  opensource: 'open-source',
+  기업플랜: 'enterprise',
+  기업용: 'enterprise',
+  enterprise: 'enterprise'
+};
+
+/**
+ * 가격 모델만 지정한 가격 정보 생성
+ */
+export const createPricing = (model: PricingModel): Pricing => ({
+  model,
+  hasFreeTrial: false,
+  startingPrice: null,
+  currency: null,
+  billingPeriod: null
+});
+
+/**
+ * 비용 없이 쓸 수 있는 도구인지 확인
+ */
+export const isFreePricing = (pricing: Pricing | null | undefined): boolean =>
+  !!pricing && FREE_PRICING_MODELS.includes(pricing.model);
+
+/**
+ * 가격 모델 이름 또는 표시 이름을 가격 모델로 변환 (검색 쿼리, 이전 요금제 문자열 공용)
+ * @returns 알 수 없는 값이면 null
+ */
+export const parsePricingModel = (value: string): PricingModel | null =>
+  LEGACY_PLAN_MODELS[value.trim().toLowerCase().replace(/\s+/g, '')] ?? null;
+
+/**
+ * 이전 요금제 문자열(plan)을 가격 정보로 변환
+ * @returns 비어 있거나 알 수 없는 값이면 null
+ */
+export const pricingFromPlan = (plan: unknown): Pricing | null => {
+  if (typeof plan !== 'string' || !plan.trim()) return null;
+  const model = parsePricingModel(plan);
+  return model ? createPricing(model) : null;
+};
+
+/**
+ * 도구의 가격 정보 (이전 형식 도구는 요금제 문자열에서 변환)
+ */
+export const getToolPricing = (tool: { pricing?: Pricing | null; plan?: string | null }): Pricing | null =>
+  tool.pricing !== undefined ? tool.pricing : pricingFromPlan(tool.plan);
+
+/**
+ * 저장된 값이나 가져온 JSON의 가격 정보를 검증해 정규화
+ * 가격 모델이 올바르지 않으면 null, 나머지 필드는 잘못된 값을 비웁니다.
+ */
+export const normalizePricing = (value: unknown): Pricing | null => {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Record<string, unknown>;
+  if (typeof data.model !== 'string' || !PRICING_MODELS.includes(data.model as PricingModel)) return null;
+
+  const startingPrice = typeof data.startingPrice === 'number' && Number.isFinite(data.startingPrice) && data.startingPrice >= 0
+    ? data.startingPrice
+    : null;
+  const currency = typeof data.currency === 'string' && /^[A-Z]{3}$/.test(data.currency)
+    ? data.currency
+    : null;
+
+  return {
+    model: data.model as PricingModel,
+    hasFreeTrial: data.hasFreeTrial === true,
+    startingPrice,
+    currency: startingPrice !== null ? currency || 'USD' : null,
+    billingPeriod: startingPrice !== null && BILLING_PERIODS.includes(data.billingPeriod as BillingPeriod)
+      ? data.billingPeriod as BillingPeriod
+      : null
+  };
+};
+
+/**
+ * 시작 가격 표시 (예: '$20/월', '₩9,900/연')
+ * @returns 시작 가격이 없으면 null
+ */
+export const formatStartingPrice = (pricing: Pricing): string | null => {
+  if (pricing.startingPrice === null) return null;
+
+  let amount: string;
+  try {
+    amount = new Intl.NumberFormat('ko-KR', {
+      style: 'currency',
+      currency: pricing.currency || 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2
+    }).format(pricing.startingPrice);
+  } catch {
+    amount = `${pricing.startingPrice.toLocaleString('ko-KR')} ${pricing.currency || ''}`.trim();
+  }
+
+  if (!pricing.billingPeriod) return amount;
+  return pricing.billingPeriod === 'usage'
+    ? `${amount} (${BILLING_PERIOD_LABELS.usage})`
+    : `${amount}/${BILLING_PERIOD_LABELS[pricing.billingPeriod]}`;
+};
+
+/**
+ * 가격 정보 요약 (예: '부분 무료 · $20/월부터 · 무료 체험')
+ */
+export const formatPricing = (pricing: Pricing): string => {
+  const startingPrice = formatStartingPrice(pricing);
+  return [
+    PRICING_MODEL_LABELS[pricing.model],
+    ...(startingPrice ? [`${startingPrice}부터`] : []),
+    ...(pricing.hasFreeTrial ? ['무료 체험'] : [])
+  ].join(' · ');
+};
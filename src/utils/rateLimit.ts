@@ -0,0 +1,81 @@
+/**
+ * 작성 수 제한 유틸리티
+ * 사용자별 댓글/도구 작성 수를 고정 구간(1분, 1일)으로 세어 제한합니다.
+ * Firestore에서는 rateLimits/{uid} 문서에 같은 구간을 기록하고 firestore.rules가 검증합니다.
+ * 한 번의 카운터 갱신으로 여러 문서를 만들지 못하도록 새 문서 ID는 누적 작성 순번으로 정합니다.
+ */
+import { ContentFilterSettings, RateLimitKind, RateLimitWindow } from '../../types';
+
+// 대상별 구간 길이와 제한 수 설정 (구간 길이는 firestore.rules와 동일)
+export const RATE_LIMIT_RULES: Record<RateLimitKind, {
+  windowMs: number;
+  settingKey: 'commentsPerMinute' | 'toolsPerDay';
+  describe: (max: number) => string;
+}> = {
+  comments: {
+    windowMs: 60 * 1000,
+    settingKey: 'commentsPerMinute',
+    describe: (max) => `댓글은 1분에 ${max}개까지 작성할 수 있습니다.`
+  },
+  tools: {
+    windowMs: 24 * 60 * 60 * 1000,
+    settingKey: 'toolsPerDay',
+    describe: (max) => `도구는 하루에 ${max}개까지 등록 요청할 수 있습니다.`
+  }
+};
+
+/**
+ * 남은 대기 시간 표시 (예: "30초", "5분", "3시간")
+ */
+const formatRetryAfter = (ms: number): string => {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  if (seconds < 60) return `${seconds}초`;
+  if (seconds < 60 * 60) return `${Math.ceil(seconds / 60)}분`;
+  return `${Math.ceil(seconds / 3600)}시간`;
+};
+
+/**
+ * 저장된 구간 값 정규화 (형식이 맞지 않으면 undefined)
+ */
+export const normalizeRateLimitWindow = (value: any): RateLimitWindow | undefined => {
+  if (!value || typeof value.count !== 'number') return undefined;
+  const toDate = (date: any): Date | null => date instanceof Date ? date : date?.toDate?.() || null;
+  const windowStart = toDate(value.windowStart);
+  const lastAt = toDate(value.lastAt);
+  // 순번 도입 전에 기록된 구간은 0부터 시작
+  const seq = typeof value.seq === 'number' ? value.seq : 0;
+  return windowStart && lastAt ? { windowStart, count: value.count, lastAt, seq } : undefined;
+};
+
+/**
+ * 작성 수 제한을 받는 문서의 ID (firestore.rules의 consumesRateLimit과 같은 형식)
+ * @example toRateLimitedDocId('uid', 3) // 'uid_3'
+ */
+export const toRateLimitedDocId = (userId: string, seq: number): string => `${userId}_${seq}`;
+
+/**
+ * 작성 1건을 반영한 다음 구간 계산 (제한을 넘으면 에러)
+ * @param current 현재 구간 (기록이 없으면 undefined)
+ * @returns isNewWindow: 새 구간을 시작하는지 (Firestore에서는 시작 시각을 서버 시각으로 기록)
+ */
+export const consumeRateLimit = (
+  current: RateLimitWindow | undefined,
+  kind: RateLimitKind,
+  settings: ContentFilterSettings,
+  now: Date = new Date()
+): { isNewWindow: boolean; window: RateLimitWindow } => {
+  const rule = RATE_LIMIT_RULES[kind];
+  const max = settings[rule.settingKey];
+  const windowEnd = current ? current.windowStart.getTime() + rule.windowMs : 0;
+  const seq = (current?.seq || 0) + 1;
+
+  if (!current || now.getTime() >= windowEnd) {
+    return { isNewWindow: true, window: { windowStart: now, count: 1, lastAt: now, seq } };
+  }
+
+  if (current.count >= max) {
+    throw new Error(`${rule.describe(max)} ${formatRetryAfter(windowEnd - now.getTime())} 후 다시 시도해주세요.`);
+  }
+
+  return { isNewWindow: false, window: { windowStart: current.windowStart, count: current.count + 1, lastAt: now, seq } };
+};
@@ -0,0 +1,98 @@
+/**
+ * 평점 집계 유틸리티
+ * 평점 추가/수정/삭제 시 도구 문서의 누적 합계, 개수, 분포를 증분 방식으로 갱신합니다.
+ */
+import { RatingHistogram } from '../../types';
+
+/**
+ * 도구 문서에 저장되는 평점 집계 값
+ */
+export interface RatingSummary {
+  averageRating: number;
+  ratingCount: number;
+  ratingSum: number;
+  ratingHistogram: RatingHistogram;
+}
+
+/**
+ * 평점 변경 내용
+ * - 추가: added만 지정
+ * - 수정: removed(이전 값)와 added(새 값) 지정
+ * - 삭제: removed만 지정
+ */
+export interface RatingChange {
+  added?: number;
+  removed?: number;
+}
+
+// 0.5점 단위 평점 값 (0.5 ~ 5.0)
+export const RATING_STEPS = Array.from({ length: 10 }, (_, index) => (index + 1) * 0.5);
+
+/**
+ * 평점 값을 분포 키로 변환 (예: 4.5 → '4.5', 5 → '5.0')
+ */
+export const toHistogramKey = (rating: number): string => rating.toFixed(1);
+
+/**
+ * 합계와 개수로 평균 평점 계산 (소수점 첫째자리까지)
+ */
+const calculateAverage = (sum: number, count: number): number =>
+  count > 0 ? Math.round((sum / count) * 10) / 10 : 0;
+
+/**
+ * 도구 문서 데이터에서 평점 집계 값 읽기
+ * ratingSum이 없는 기존 문서는 평균 × 개수로 합계를 추정합니다.
+ * @param data 도구 문서 데이터
+ */
+export const readRatingSummary = (data: Record<string, any> = {}): RatingSummary => {
+  const ratingCount = data.ratingCount || 0;
+  const averageRating = data.averageRating || 0;
+  return {
+    averageRating,
+    ratingCount,
+    ratingSum: typeof data.ratingSum === 'number' ? data.ratingSum : averageRating * ratingCount,
+    ratingHistogram: { ...(data.ratingHistogram || {}) }
+  };
+};
+
+/**
+ * 평점 변경을 집계 값에 반영
+ * @param summary 현재 집계 값
+ * @param change 추가/제거된 평점
+ * @returns 새 집계 값
+ */
+export const applyRatingChange = (summary: RatingSummary, { added, removed }: RatingChange): RatingSummary => {
+  let { ratingCount, ratingSum } = summary;
+  const ratingHistogram = { ...summary.ratingHistogram };
+
+  if (removed !== undefined) {
+    const key = toHistogramKey(removed);
+    ratingCount = Math.max(0, ratingCount - 1);
+    ratingSum = ratingCount > 0 ? ratingSum - removed : 0;
+    ratingHistogram[key] = Math.max(0, (ratingHistogram[key] || 0) - 1);
+  }
+
+  if (added !== undefined) {
+    const key = toHistogramKey(added);
+    ratingCount += 1;
+    ratingSum += added;
+    ratingHistogram[key] = (ratingHistogram[key] || 0) + 1;
+  }
+
+  return {
+    averageRating: calculateAverage(ratingSum, ratingCount),
+    ratingCount,
+    ratingSum,
+    ratingHistogram
+  };
+};
+
+/**
+ * 평점 목록 전체로 집계 값 계산 (데이터 보정 스크립트 등에서 사용)
+ * @param ratings 평점 값 목록
+ */
+export const summarizeRatings = (ratings: number[]): RatingSummary =>
+  ratings.reduce<RatingSummary>(
+    (summary, rating) => applyRatingChange(summary, { added: rating }),
+    { averageRating: 0, ratingCount: 0, ratingSum: 0, ratingHistogram: {} }
+  );
@@ -0,0 +1,49 @@
+/**
+ * 관리 역할 유틸리티
+ * 역할 표시 이름, 커스텀 클레임에서 역할 읽기, 역할별 관리 권한 확인을 담당합니다.
+ * 권한 구분은 firestore.rules의 hasRole 검사와 같게 유지해야 합니다.
+ */
+import { UserRole } from '../../types';
+
+/**
+ * 역할 표시 이름
+ */
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  admin: '관리자',
+  moderator: '운영자',
+  editor: '편집자'
+};
+
+export const USER_ROLES = Object.keys(USER_ROLE_LABELS) as UserRole[];
+
+/**
+ * 관리자 페이지 메뉴
+ */
+export type AdminTab = 'tools' | 'categories' | 'tags' | 'links' | 'suggestions' | 'reports' | 'users' | 'filters' | 'audit';
+
+/**
+ * 관리 권한 (메뉴 접근과 메뉴 안의 개별 작업)
+ */
+export type AdminPermission = AdminTab | 'tools.delete' | 'tools.import' | 'review' | 'users.role';
+
+// 역할별 권한 (관리자는 모든 권한)
+const ROLE_PERMISSIONS: Record<UserRole, readonly AdminPermission[]> = {
+  admin: ['tools', 'tools.delete', 'tools.import', 'review', 'categories', 'tags', 'links', 'suggestions', 'reports', 'users', 'users.role', 'filters', 'audit'],
+  moderator: ['tools', 'tools.delete', 'review', 'suggestions', 'reports', 'users'],
+  editor: ['tools', 'categories', 'tags', 'links']
+};
+
+/**
+ * 역할에 권한이 있는지 확인 (역할이 없으면 항상 false)
+ */
+export const hasPermission = (role: UserRole | null, permission: AdminPermission): boolean =>
+  role !== null && ROLE_PERMISSIONS[role].includes(permission);
+
+/**
+ * 커스텀 클레임에서 역할 읽기
+ * 역할 도입 전의 admin: true 클레임은 관리자 역할로 취급합니다.
+ */
+export const getRoleFromClaims = (claims: Record<string, unknown>): UserRole | null => {
+  if (USER_ROLES.includes(claims.role as UserRole)) return claims.role as UserRole;
+  return claims.admin === true ? 'admin' : null;
+};
@@ -0,0 +1,336 @@
+/**
+ * 도구 검색 인덱스
+ * 도구의 이름/카테고리/설명/메모를 단어 단위로 역색인하고, 자모 n-gram으로 후보 단어를 찾아
+ * 필드 가중치와 일치 정도에 따라 순위를 매깁니다.
+ * - 한글은 자모 단위로 비교하므로 입력 중인 글자('챗ㅂ')와 초성 검색('ㅊㅂ')도 일치로 처리
+ * - 단어 길이에 따라 1~2글자의 오타(삽입/삭제/치환/인접 문자 바뀜)를 허용
+ * - 일치한 위치(MatchRange)를 함께 반환해 화면에서 강조 표시에 사용
+ */
+import { FirebaseTool } from '../../types';
+import { decomposeHangul, getChoseong, isChoseongOnly } from './hangul';
+
+/**
+ * 검색 대상 필드
+ */
+export type SearchField = 'name' | 'category' | 'description' | 'memo';
+
+// 필드별 가중치 (이름 > 카테고리 > 설명 > 메모)
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 10,
+  category: 5,
+  description: 3,
+  memo: 2
+};
+
+const SEARCH_FIELDS = Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[];
+
+/**
+ * 필드 텍스트에서 일치한 구간 (end는 포함하지 않음)
+ */
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 필드별 일치 구간
+ */
+export type SearchMatches = Partial<Record<SearchField, MatchRange[]>>;
+
+/**
+ * 검색 결과 항목
+ */
+export interface SearchResult<T> {
+  item: T;
+  score: number;
+  matches: SearchMatches;
+}
+
+/**
+ * 검색 인덱스
+ */
+export interface SearchIndex<T> {
+  /**
+   * 검색어의 모든 단어가 일치하는 항목을 점수 내림차순으로 반환
+   * @param query 검색어 (공백으로 구분된 단어는 AND 조건)
+   */
+  search(query: string): SearchResult<T>[];
+}
+
+type SearchableTool = Pick<FirebaseTool, SearchField>;
+
+/**
+ * 텍스트에서 추출한 단어와 원문 위치
+ */
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * 단어가 등장한 문서와 위치
+ */
+interface Posting {
+  doc: number;
+  field: SearchField;
+  start: number;
+}
+
+/**
+ * 색인된 단어 (같은 단어는 한 번만 저장)
+ */
+interface IndexedWord {
+  text: string;
+  jamo: string;
+  choseong: string;
+  postings: Posting[];
+}
+
+/**
+ * 검색어 단어
+ */
+interface QueryTerm {
+  text: string;
+  jamo: string;
+  isChoseong: boolean;
+}
+
+/**
+ * 단어 하나에 대한 일치 결과
+ */
+interface WordMatch {
+  quality: number; // 일치 정도 (0 ~ 1)
+  offset: number; // 단어 안에서 일치가 시작되는 위치
+  length: number;
+}
+
+// 한글 묶음과 그 외 문자/숫자 묶음을 분리 (예: 'AI챗봇' → 'ai', '챗봇')
+const WORD_PATTERN = /[가-힣ㄱ-ㅎㅏ-ㅣ]+|[^\s\p{P}\p{S}가-힣ㄱ-ㅎㅏ-ㅣ]+/gu;
+
+// 한 글자 검색어용 접두어 색인 키 표시
+const PREFIX_MARK = '^';
+
+/**
+ * 텍스트를 소문자 단어 목록으로 분리
+ * @param text 원문
+ * @returns 단어와 원문에서의 위치
+ */
+export const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(WORD_PATTERN), match => {
+    const start = match.index ?? 0;
+    return { text: match[0].toLowerCase(), start, end: start + match[0].length };
+  });
+
+/**
+ * 문자열을 bigram 목록으로 변환 (한 글자면 그대로)
+ */
+const toGrams = (value: string): string[] => {
+  if (value.length < 2) return [value];
+  const grams: string[] = [];
+  for (let index = 0; index < value.length - 1; index++) {
+    grams.push(value.slice(index, index + 2));
+  }
+  return grams;
+};
+
+/**
+ * 자모 길이에 따라 허용할 오타 수
+ */
+const allowedTypos = (jamoLength: number): number => {
+  if (jamoLength < 4) return 0;
+  if (jamoLength < 8) return 1;
+  return 2;
+};
+
+/**
+ * 두 문자열의 편집 거리 (인접 문자 바뀜을 1회로 계산)
+ */
+export const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+};
+
+/**
+ * 검색어 단어와 색인된 단어 비교
+ * 정확히 일치 > 접두어 > 초성 > 부분 문자열 > 오타 허용 순으로 높은 점수를 줍니다.
+ */
+const matchWord = (term: QueryTerm, word: IndexedWord): WordMatch | null => {
+  if (word.text === term.text) {
+    return { quality: 1, offset: 0, length: word.text.length };
+  }
+
+  // 자모 접두어 비교로 입력 중인 글자도 일치 처리 (예: '챗ㅂ' → '챗봇')
+  if (word.text.startsWith(term.text) || word.jamo.startsWith(term.jamo)) {
+    return { quality: 0.8, offset: 0, length: Math.min(term.text.length, word.text.length) };
+  }
+
+  if (term.isChoseong) {
+    const index = word.choseong.indexOf(term.text);
+    if (index >= 0) {
+      return { quality: index === 0 ? 0.7 : 0.5, offset: index, length: term.text.length };
+    }
+  }
+
+  const index = word.text.indexOf(term.text);
+  if (index > 0) {
+    return { quality: 0.6, offset: index, length: term.text.length };
+  }
+
+  const maxTypos = allowedTypos(term.jamo.length);
+  if (maxTypos > 0 && word.jamo.length >= term.jamo.length - maxTypos) {
+    // 단어 전체 또는 검색어와 같은 길이의 접두어와 비교 (예: 'chatgtp' ↔ 'chatgpt', '챗봉' ↔ '챗봇을')
+    const distance = Math.min(
+      editDistance(term.jamo, word.jamo),
+      editDistance(term.jamo, word.jamo.slice(0, term.jamo.length))
+    );
+    if (distance <= maxTypos) {
+      return { quality: 0.4 * (1 - distance / (maxTypos + 1)), offset: 0, length: word.text.length };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * 겹치거나 맞닿은 구간을 합쳐 정렬된 목록으로 반환
+ */
+const mergeRanges = (ranges: MatchRange[]): MatchRange[] => {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  return sorted.reduce<MatchRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * 도구 목록으로 검색 인덱스 생성
+ * @param items 검색 대상 도구 목록
+ */
+export const createSearchIndex = <T extends SearchableTool>(items: readonly T[]): SearchIndex<T> => {
+  const words = new Map<string, IndexedWord>();
+  // 자모 bigram → 단어, 초성 bigram → 단어
+  const gramIndex = new Map<string, Set<IndexedWord>>();
+  const choseongIndex = new Map<string, Set<IndexedWord>>();
+
+  const addGram = (index: Map<string, Set<IndexedWord>>, gram: string, word: IndexedWord) => {
+    const bucket = index.get(gram);
+    if (bucket) {
+      bucket.add(word);
+    } else {
+      index.set(gram, new Set([word]));
+    }
+  };
+
+  items.forEach((item, doc) => {
+    SEARCH_FIELDS.forEach(field => {
+      tokenize(item[field] || '').forEach(token => {
+        let word = words.get(token.text);
+        if (!word) {
+          word = {
+            text: token.text,
+            jamo: decomposeHangul(token.text),
+            choseong: getChoseong(token.text),
+            postings: []
+          };
+          words.set(token.text, word);
+
+          const indexedWord = word;
+          toGrams(word.jamo).forEach(gram => addGram(gramIndex, gram, indexedWord));
+          toGrams(word.choseong).forEach(gram => addGram(choseongIndex, gram, indexedWord));
+          addGram(gramIndex, PREFIX_MARK + word.jamo[0], indexedWord);
+          addGram(choseongIndex, PREFIX_MARK + word.choseong[0], indexedWord);
+        }
+        word.postings.push({ doc, field, start: token.start });
+      });
+    });
+  });
+
+  /**
+   * 검색어 단어와 n-gram을 공유하는 후보 단어 조회
+   */
+  const findCandidates = (term: QueryTerm): Set<IndexedWord> => {
+    const candidates = new Set<IndexedWord>();
+    const collect = (index: Map<string, Set<IndexedWord>>, value: string) => {
+      const grams = value.length < 2 ? [PREFIX_MARK + value] : toGrams(value);
+      grams.forEach(gram => index.get(gram)?.forEach(word => candidates.add(word)));
+    };
+
+    collect(gramIndex, term.jamo);
+    if (term.isChoseong) {
+      collect(choseongIndex, term.text);
+    }
+    return candidates;
+  };
+
+  return {
+    search(query) {
+      const terms = [...new Set(tokenize(query.normalize('NFC')).map(token => token.text))]
+        .map<QueryTerm>(text => ({ text, jamo: decomposeHangul(text), isChoseong: isChoseongOnly(text) }));
+      if (terms.length === 0) return [];
+
+      const scores = new Map<number, { score: number; matchedTerms: number; ranges: Map<SearchField, MatchRange[]> }>();
+
+      terms.forEach(term => {
+        // 문서 → 필드별 최고 일치 정도
+        const termHits = new Map<number, Map<SearchField, number>>();
+
+        findCandidates(term).forEach(word => {
+          const match = matchWord(term, word);
+          if (!match) return;
+
+          word.postings.forEach(({ doc, field, start }) => {
+            const fieldHits = termHits.get(doc) || new Map<SearchField, number>();
+            fieldHits.set(field, Math.max(fieldHits.get(field) || 0, match.quality));
+            termHits.set(doc, fieldHits);
+
+            const entry = scores.get(doc) || { score: 0, matchedTerms: 0, ranges: new Map() };
+            const fieldRanges = entry.ranges.get(field) || [];
+            fieldRanges.push({ start: start + match.offset, end: start + match.offset + match.length });
+            entry.ranges.set(field, fieldRanges);
+            scores.set(doc, entry);
+          });
+        });
+
+        termHits.forEach((fieldHits, doc) => {
+          const entry = scores.get(doc)!;
+          fieldHits.forEach((quality, field) => {
+            entry.score += SEARCH_FIELD_WEIGHTS[field] * quality;
+          });
+          entry.matchedTerms += 1;
+        });
+      });
+
+      const results: SearchResult<T>[] = [];
+      scores.forEach((entry, doc) => {
+        if (entry.matchedTerms < terms.length) return;
+
+        const matches: SearchMatches = {};
+        entry.ranges.forEach((ranges, field) => {
+          matches[field] = mergeRanges(ranges);
+        });
+        results.push({ item: items[doc], score: entry.score, matches });
+      });
+
+      return results.sort((a, b) => b.score - a.score);
+    }
+  };
+};
@@ -0,0 +1,475 @@
+/**
+ * 검색 쿼리 문법 파서
+ * 검색창에 입력한 `category:"AI 챗봇" rating:>=4 plan:무료 -image sort:created` 형식의 쿼리를
+ * 기존 필터 상태(카테고리/무료/가격/북마크/정렬)와 숫자 비교·제외 조건으로 변환합니다.
+ *
+ * 문법
+ * - `필드:값` / `필드:"공백 포함 값"`: 필드 조건
+ * - `-필드:값`: 조건 제외 (category, plan, 숫자 필드)
+ * - `plan:값`: 가격 모델 (무료, 부분무료, 오픈소스, 유료, 기업용 또는 free, freemium, open-source, paid, enterprise)
+ * - `-단어` / `-"구문"`: 검색어와 일치하는 도구 제외
+ * - 숫자 필드 값: `>=4`, `>4`, `<=3`, `<3`, `=5`, `3..4.5`(범위), `4`(= `>=4`)
+ * - 그 외 단어: 검색 인덱스로 전달되는 자유 검색어
+ */
+import { FirebaseTool, PricingModel, SortOption } from '../../types';
+import { PRICING_MODELS, PRICING_MODEL_LABELS, parsePricingModel } from './pricing';
+
+/**
+ * 숫자 비교 연산자
+ */
+export type NumericOperator = '>=' | '>' | '<=' | '<' | '=';
+
+/**
+ * 숫자 필드 조건 (예: rating:>=4 → averageRating >= 4)
+ */
+export interface NumericFilter {
+  field: 'averageRating' | 'ratingCount' | 'commentCount';
+  operator: NumericOperator;
+  value: number;
+  negated: boolean;
+}
+
+/**
+ * 쿼리 오류 (위치는 입력 문자열 기준, end 미포함)
+ */
+export interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * 파싱된 검색 쿼리
+ * 필터 상태 값은 쿼리에 지정된 경우에만 설정됩니다.
+ */
+export interface ParsedSearchQuery {
+  text: string; // 검색 인덱스에 전달할 자유 검색어
+  excludedTerms: string[];
+  category?: string;
+  excludedCategories: string[];
+  freeOnly?: boolean;
+  pricingModels?: PricingModel[]; // plan:무료 외의 가격 모델 조건 (가격 필터 상태로 반영)
+  excludedPricingModels: PricingModel[];
+  freeTrialOnly?: boolean;
+  bookmarkedOnly?: boolean;
+  sortOrder?: SortOption;
+  numericFilters: NumericFilter[];
+  errors: SearchQueryError[];
+}
+
+/**
+ * 파싱/자동완성에 필요한 정보
+ */
+export interface SearchQueryContext {
+  categories: string[];
+}
+
+/**
+ * 자동완성 후보
+ */
+export interface QuerySuggestion {
+  label: string;
+  description: string;
+  insertText: string;
+}
+
+/**
+ * 자동완성 결과 (입력 문자열의 replaceStart ~ replaceEnd 구간을 후보로 교체)
+ */
+export interface QuerySuggestions {
+  suggestions: QuerySuggestion[];
+  replaceStart: number;
+  replaceEnd: number;
+}
+
+type QueryFieldName = 'category' | 'rating' | 'reviews' | 'comments' | 'plan' | 'is' | 'sort';
+
+interface QueryFieldDefinition {
+  name: QueryFieldName;
+  aliases: string[];
+  description: string;
+  negatable: boolean;
+  values?: (context: SearchQueryContext) => string[];
+}
+
+// 정렬 값 → SortOption (SortOption 원래 값도 그대로 허용)
+const SORT_VALUES: Record<string, SortOption> = {
+  rating: 'rating_desc',
+  'rating-asc': 'rating_asc',
+  name: 'name_asc',
+  'name-desc': 'name_desc',
+  created: 'created_desc',
+  'created-asc': 'created_asc',
+  updated: 'updated_desc',
+  'updated-asc': 'updated_asc'
+};
+
+const SORT_OPTIONS: SortOption[] = [
+  'rating_desc', 'rating_asc', 'name_asc', 'name_desc',
+  'created_desc', 'created_asc', 'updated_desc', 'updated_asc'
+];
+
+// 숫자 필드 → 도구 필드
+const NUMERIC_FIELDS: Partial<Record<QueryFieldName, NumericFilter['field']>> = {
+  rating: 'averageRating',
+  reviews: 'ratingCount',
+  comments: 'commentCount'
+};
+
+const PLAN_VALUES = PRICING_MODELS.map(model => PRICING_MODEL_LABELS[model].replace(/\s+/g, ''));
+
+export const QUERY_FIELDS: QueryFieldDefinition[] = [
+  {
+    name: 'category',
+    aliases: ['cat', '카테고리'],
+    description: '카테고리',
+    negatable: true,
+    values: ({ categories }) => categories.filter(category => category !== '전체')
+  },
+  { name: 'rating', aliases: ['평점'], description: '평균 평점 (예: >=4, 3..4.5)', negatable: true },
+  { name: 'reviews', aliases: ['평가수'], description: '평가 수 (예: >=10)', negatable: true },
+  { name: 'comments', aliases: ['댓글수'], description: '댓글 수 (예: >0)', negatable: true },
+  { name: 'plan', aliases: ['요금제', 'pricing', '가격'], description: '가격 모델', negatable: true, values: () => PLAN_VALUES },
+  { name: 'is', aliases: [], description: '상태 (free, trial, bookmarked)', negatable: false, values: () => ['free', 'trial', 'bookmarked'] },
+  { name: 'sort', aliases: ['정렬'], description: '정렬 기준', negatable: false, values: () => Object.keys(SORT_VALUES) }
+];
+
+/**
+ * 필드 이름 또는 별칭으로 필드 정의 조회
+ */
+const findField = (name: string): QueryFieldDefinition | undefined => {
+  const lowerName = name.toLowerCase();
+  return QUERY_FIELDS.find(field => field.name === lowerName || field.aliases.includes(lowerName));
+};
+
+/**
+ * 쿼리를 구성하는 토큰
+ */
+interface QueryToken {
+  start: number;
+  end: number;
+  negated: boolean;
+  field?: string;
+  value: string;
+  unterminatedQuote: boolean;
+}
+
+/**
+ * 따옴표로 감싼 값 읽기
+ * @returns 값과 닫는 따옴표 다음 위치
+ */
+const readQuoted = (input: string, start: number): { value: string; end: number; unterminated: boolean } => {
+  const closing = input.indexOf('"', start + 1);
+  if (closing < 0) {
+    return { value: input.slice(start + 1), end: input.length, unterminated: true };
+  }
+  return { value: input.slice(start + 1, closing), end: closing + 1, unterminated: false };
+};
+
+/**
+ * 입력 문자열을 토큰으로 분리
+ */
+const tokenizeQuery = (input: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    const negated = input[index] === '-' && index + 1 < input.length && !/\s/.test(input[index + 1]);
+    if (negated) index++;
+
+    if (input[index] === '"') {
+      const quoted = readQuoted(input, index);
+      tokens.push({ start, end: quoted.end, negated, value: quoted.value, unterminatedQuote: quoted.unterminated });
+      index = quoted.end;
+      continue;
+    }
+
+    // 공백 또는 콜론까지 읽어 필드 이름 후보 확인
+    let wordEnd = index;
+    while (wordEnd < input.length && !/[\s:"]/.test(input[wordEnd])) wordEnd++;
+
+    if (input[wordEnd] === ':' && wordEnd > index) {
+      const field = input.slice(index, wordEnd);
+      const valueStart = wordEnd + 1;
+      if (input[valueStart] === '"') {
+        const quoted = readQuoted(input, valueStart);
+        tokens.push({ start, end: quoted.end, negated, field, value: quoted.value, unterminatedQuote: quoted.unterminated });
+        index = quoted.end;
+      } else {
+        let valueEnd = valueStart;
+        while (valueEnd < input.length && !/\s/.test(input[valueEnd])) valueEnd++;
+        tokens.push({ start, end: valueEnd, negated, field, value: input.slice(valueStart, valueEnd), unterminatedQuote: false });
+        index = valueEnd;
+      }
+      continue;
+    }
+
+    let end = wordEnd;
+    while (end < input.length && !/\s/.test(input[end])) end++;
+    tokens.push({ start, end, negated, value: input.slice(index, end), unterminatedQuote: false });
+    index = end;
+  }
+
+  return tokens;
+};
+
+/**
+ * 숫자 조건 값 파싱 (범위 값은 두 개의 조건으로 변환)
+ * @returns 조건 목록, 형식이 잘못되면 null
+ */
+const parseNumericValue = (value: string): { operator: NumericOperator; value: number }[] | null => {
+  const range = value.match(/^(\d+(?:\.\d+)?)\.\.(\d+(?:\.\d+)?)$/);
+  if (range) {
+    return [
+      { operator: '>=', value: Number(range[1]) },
+      { operator: '<=', value: Number(range[2]) }
+    ];
+  }
+
+  const comparison = value.match(/^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)$/);
+  if (comparison) {
+    return [{ operator: (comparison[1] as NumericOperator) || '>=', value: Number(comparison[2]) }];
+  }
+
+  return null;
+};
+
+/**
+ * 검색 쿼리 파싱
+ * 잘못된 조건은 건너뛰고 errors에 기록하므로, 나머지 조건은 그대로 사용할 수 있습니다.
+ * @param input 검색창 입력값
+ * @param context 카테고리 목록 등 검증에 필요한 정보
+ */
+export const parseSearchQuery = (input: string, context: SearchQueryContext): ParsedSearchQuery => {
+  const result: ParsedSearchQuery = {
+    text: '',
+    excludedTerms: [],
+    excludedCategories: [],
+    excludedPricingModels: [],
+    numericFilters: [],
+    errors: []
+  };
+  const textParts: string[] = [];
+
+  const addError = (token: QueryToken, message: string) => {
+    result.errors.push({ message, start: token.start, end: token.end });
+  };
+
+  tokenizeQuery(input).forEach(token => {
+    if (token.unterminatedQuote) {
+      addError(token, '닫는 따옴표(")가 없습니다.');
+      return;
+    }
+
+    // 자유 검색어
+    if (token.field === undefined) {
+      if (!token.value.trim()) return;
+      if (token.negated) {
+        result.excludedTerms.push(token.value);
+      } else {
+        textParts.push(token.value);
+      }
+      return;
+    }
+
+    const field = findField(token.field);
+    if (!field) {
+      addError(
+        token,
+        `알 수 없는 필드 "${token.field}"입니다. 사용 가능한 필드: ${QUERY_FIELDS.map(item => item.name).join(', ')}`
+      );
+      return;
+    }
+
+    if (!token.value) {
+      addError(token, `"${field.name}:" 뒤에 값을 입력해주세요.`);
+      return;
+    }
+
+    if (token.negated && !field.negatable) {
+      addError(token, `"${field.name}" 조건은 제외(-)할 수 없습니다.`);
+      return;
+    }
+
+    const numericField = NUMERIC_FIELDS[field.name];
+    if (numericField) {
+      const conditions = parseNumericValue(token.value);
+      if (!conditions) {
+        addError(token, `"${token.value}"은(는) 올바른 숫자 조건이 아닙니다. 예: ${field.name}:>=4, ${field.name}:3..5`);
+        return;
+      }
+      if (field.name === 'rating' && conditions.some(condition => condition.value > 5)) {
+        addError(token, '평점은 0 ~ 5 사이로 입력해주세요.');
+        return;
+      }
+      conditions.forEach(condition => {
+        result.numericFilters.push({ field: numericField, ...condition, negated: token.negated });
+      });
+      return;
+    }
+
+    const lowerValue = token.value.toLowerCase();
+
+    switch (field.name) {
+      case 'category': {
+        const category = context.categories.find(item => item.toLowerCase() === lowerValue);
+        if (!category) {
+          addError(token, `알 수 없는 카테고리 "${token.value}"입니다.`);
+          return;
+        }
+        if (token.negated) {
+          result.excludedCategories.push(category);
+        } else {
+          result.category = category;
+        }
+        return;
+      }
+
+      case 'plan': {
+        const model = parsePricingModel(token.value);
+        if (!model) {
+          addError(token, `지원하지 않는 가격 모델 "${token.value}"입니다. 사용 가능한 값: ${PLAN_VALUES.join(', ')}`);
+          return;
+        }
+        if (token.negated) {
+          result.excludedPricingModels.push(model);
+        } else if (model === 'free') {
+          result.freeOnly = true;
+        } else {
+          result.pricingModels = [...(result.pricingModels || []), model];
+        }
+        return;
+      }
+
+      case 'is': {
+        if (lowerValue === 'free') {
+          result.freeOnly = true;
+        } else if (lowerValue === 'trial') {
+          result.freeTrialOnly = true;
+        } else if (lowerValue === 'bookmarked') {
+          result.bookmarkedOnly = true;
+        } else {
+          addError(token, `"is:${token.value}"은(는) 지원하지 않습니다. 사용 가능한 값: free, trial, bookmarked`);
+        }
+        return;
+      }
+
+      case 'sort': {
+        const sortOrder = SORT_VALUES[lowerValue]
+          || SORT_OPTIONS.find(option => option === lowerValue);
+        if (!sortOrder) {
+          addError(token, `지원하지 않는 정렬 "${token.value}"입니다. 사용 가능한 값: ${Object.keys(SORT_VALUES).join(', ')}`);
+          return;
+        }
+        result.sortOrder = sortOrder;
+        return;
+      }
+    }
+  });
+
+  result.text = textParts.join(' ');
+  return result;
+};
+
+/**
+ * 숫자 조건 비교
+ */
+const compareNumber = (actual: number, operator: NumericOperator, expected: number): boolean => {
+  switch (operator) {
+    case '>=': return actual >= expected;
+    case '>': return actual > expected;
+    case '<=': return actual <= expected;
+    case '<': return actual < expected;
+    case '=': return actual === expected;
+  }
+};
+
+/**
+ * 검색어 외의 쿼리 조건(숫자 비교, 카테고리/가격 모델 제외)을 도구에 적용
+ * 카테고리/무료/가격 모델/무료 체험/북마크/정렬은 기존 필터 상태로 반영되므로 여기서 다루지 않습니다.
+ * @param tool 검사할 도구
+ * @param query 파싱된 쿼리
+ */
+export const matchesQueryFilters = (tool: FirebaseTool, query: ParsedSearchQuery): boolean => {
+  if (query.excludedCategories.includes(tool.category)) return false;
+  if (tool.pricing && query.excludedPricingModels.includes(tool.pricing.model)) return false;
+
+  return query.numericFilters.every(filter => {
+    const matched = compareNumber(tool[filter.field] || 0, filter.operator, filter.value);
+    return filter.negated ? !matched : matched;
+  });
+};
+
+/**
+ * 쿼리에 검색어 외의 조건이 있는지 확인
+ */
+export const hasQueryFilters = (query: ParsedSearchQuery): boolean =>
+  query.excludedTerms.length > 0
+  || query.excludedCategories.length > 0
+  || query.excludedPricingModels.length > 0
+  || query.numericFilters.length > 0;
+
+/**
+ * 커서 위치의 토큰에 맞는 자동완성 후보 계산
+ * - 필드 이름 입력 중: 필드 목록 (예: 'ra' → 'rating:')
+ * - 필드 값 입력 중: 해당 필드의 값 목록 (예: 'sort:cr' → 'sort:created')
+ * @param input 검색창 입력값
+ * @param caret 커서 위치
+ * @param context 카테고리 목록 등
+ */
+export const getQuerySuggestions = (input: string, caret: number, context: SearchQueryContext): QuerySuggestions => {
+  // 커서 앞쪽의 현재 단어 범위 (따옴표 안의 공백은 단어에 포함)
+  let start = caret;
+  let inQuote = (input.slice(0, caret).match(/"/g) || []).length % 2 === 1;
+  while (start > 0) {
+    const char = input[start - 1];
+    if (char === '"') inQuote = !inQuote;
+    if (!inQuote && /\s/.test(char)) break;
+    start--;
+  }
+  let end = caret;
+  while (end < input.length && !/\s/.test(input[end])) end++;
+
+  const empty: QuerySuggestions = { suggestions: [], replaceStart: start, replaceEnd: end };
+  const word = input.slice(start, caret);
+  const prefix = word.startsWith('-') ? '-' : '';
+  const body = word.slice(prefix.length);
+  if (!body) return empty;
+
+  const colonIndex = body.indexOf(':');
+
+  // 필드 이름 자동완성
+  if (colonIndex < 0) {
+    const lowerBody = body.toLowerCase();
+    const suggestions = QUERY_FIELDS
+      .filter(field => !prefix || field.negatable)
+      .filter(field => [field.name, ...field.aliases].some(name => name.startsWith(lowerBody) && name !== lowerBody))
+      .map(field => ({
+        label: `${field.name}:`,
+        description: field.description,
+        insertText: `${prefix}${field.name}:`
+      }));
+    return { ...empty, suggestions };
+  }
+
+  // 필드 값 자동완성
+  const field = findField(body.slice(0, colonIndex));
+  if (!field?.values) return empty;
+
+  const fieldName = body.slice(0, colonIndex);
+  const typedValue = body.slice(colonIndex + 1).replace(/^"/, '').replace(/"$/, '').toLowerCase();
+  const suggestions = field.values(context)
+    .filter(value => value.toLowerCase().startsWith(typedValue) && value.toLowerCase() !== typedValue)
+    .map(value => ({
+      label: value,
+      description: field.description,
+      insertText: `${prefix}${fieldName}:${/\s/.test(value) ? `"${value}"` : value} `
+    }));
+  return { ...empty, suggestions };
+};
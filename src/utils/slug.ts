@@ -0,0 +1,47 @@
+/**
+ * 도구 슬러그 유틸리티
+ * 도구 이름으로 URL 경로(/tools/:slug)에 쓸 슬러그를 만들고, 상세/카테고리 페이지 경로를 제공합니다.
+ * 슬러그는 도구 생성 시 한 번 저장하므로 이후 이름이 바뀌어도 링크가 유지됩니다.
+ */
+
+/**
+ * 이름을 슬러그로 변환 (한글은 그대로 유지)
+ * @example toSlug('Stable Diffusion') // 'stable-diffusion'
+ * @example toSlug('뤼튼 (Wrtn)') // '뤼튼-wrtn'
+ */
+export const toSlug = (name: string): string => {
+  const slug = name
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'tool';
+};
+
+/**
+ * 이미 사용 중인 슬러그와 겹치지 않도록 번호를 붙인 슬러그 생성
+ * @param name 도구 이름
+ * @param isTaken 슬러그 사용 여부 확인 함수
+ * @example 'chatgpt'가 있으면 'chatgpt-2'
+ */
+export const createUniqueSlug = async (
+  name: string,
+  isTaken: (slug: string) => boolean | Promise<boolean>
+): Promise<string> => {
+  const base = toSlug(name);
+  let candidate = base;
+  for (let suffix = 2; await isTaken(candidate); suffix++) {
+    candidate = `${base}-${suffix}`;
+  }
+  return candidate;
+};
+
+/**
+ * 도구 상세 페이지 경로
+ */
+export const toolDetailPath = (slug: string): string => `/tools/${encodeURIComponent(slug)}`;
+
+/**
+ * 카테고리 페이지 경로 (빌드 시 정적 HTML로 생성되며, 앱에서는 카테고리 필터 목록으로 이동)
+ */
+export const categoryPagePath = (category: string): string => `/categories/${encodeURIComponent(category)}`;
@@ -0,0 +1,129 @@
+/**
+ * 도구 태그 유틸리티
+ * 태그 이름 정규화, 태그 필터(AND/OR) 일치 여부, 자동완성 후보 계산을 담당합니다.
+ */
+import { decomposeHangul, getChoseong, isChoseongOnly } from './hangul';
+
+// 도구 하나에 지정할 수 있는 최대 태그 수
+export const MAX_TAGS_PER_TOOL = 10;
+
+// 태그 이름 최대 길이
+export const MAX_TAG_LENGTH = 20;
+
+/**
+ * 태그 필터 조건
+ * - and: 선택한 태그를 모두 가진 도구
+ * - or: 선택한 태그 중 하나라도 가진 도구
+ */
+export type TagMatchMode = 'and' | 'or';
+
+/**
+ * 태그 이름 정규화 (앞의 '#'과 쉼표 제거, 공백 정리, 길이 제한)
+ * @example normalizeTag('  #코드  생성 ') // '코드 생성'
+ */
+export const normalizeTag = (tag: string): string =>
+  tag
+    .normalize('NFC')
+    .replace(/^#+/, '')
+    .replace(/,/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_TAG_LENGTH);
+
+/**
+ * 태그 비교용 키 (대소문자 무시)
+ */
+export const tagKey = (tag: string): string => normalizeTag(tag).toLowerCase();
+
+/**
+ * 태그 이름 목록 정리 (정규화 후 빈 값과 대소문자만 다른 중복 제거, 처음 나온 표기 유지)
+ */
+export const uniqueTags = (tags: readonly string[] | null | undefined): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  (tags || []).forEach(tag => {
+    const normalized = normalizeTag(tag);
+    const key = normalized.toLowerCase();
+    if (!normalized || seen.has(key)) return;
+    seen.add(key);
+    result.push(normalized);
+  });
+  return result;
+};
+
+/**
+ * 도구에 저장할 태그 목록 정규화 (중복 제거 후 최대 개수 제한)
+ */
+export const normalizeTags = (tags: readonly string[] | null | undefined): string[] =>
+  uniqueTags(tags).slice(0, MAX_TAGS_PER_TOOL);
+
+/**
+ * 도구 태그가 선택한 태그 조건과 일치하는지 확인
+ * @param toolTags 도구의 태그 목록
+ * @param selectedTags 필터로 선택한 태그 (비어 있으면 항상 일치)
+ * @param mode AND/OR 조건
+ */
+export const matchesTags = (
+  toolTags: readonly string[] | undefined,
+  selectedTags: readonly string[],
+  mode: TagMatchMode
+): boolean => {
+  if (selectedTags.length === 0) return true;
+  const keys = new Set((toolTags || []).map(tagKey));
+  return mode === 'and'
+    ? selectedTags.every(tag => keys.has(tagKey(tag)))
+    : selectedTags.some(tag => keys.has(tagKey(tag)));
+};
+
+/**
+ * 도구 목록에서 태그별 사용 횟수 계산
+ * @returns 태그 비교 키 → 사용 횟수
+ */
+export const countTags = (tools: readonly { tags?: string[] }[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  tools.forEach(tool => {
+    (tool.tags || []).forEach(tag => {
+      const key = tagKey(tag);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+  });
+  return counts;
+};
+
+/**
+ * 입력 중인 텍스트로 태그 자동완성 후보 계산
+ * 접두어 일치(자모 단위, 예: '챗ㅂ' → '챗봇')를 먼저, 초성/부분 일치를 다음 순서로 정렬합니다.
+ * @param input 입력 중인 텍스트
+ * @param candidates 전체 태그 목록
+ * @param exclude 이미 선택한 태그 (후보에서 제외)
+ * @param limit 최대 후보 수
+ */
+export const suggestTags = (
+  input: string,
+  candidates: readonly string[],
+  exclude: readonly string[] = [],
+  limit: number = 8
+): string[] => {
+  const query = tagKey(input);
+  const excluded = new Set(exclude.map(tagKey));
+  const available = candidates.filter(tag => !excluded.has(tagKey(tag)));
+  if (!query) return available.slice(0, limit);
+
+  const queryJamo = decomposeHangul(query);
+  const isChoseongQuery = isChoseongOnly(query.replace(/\s/g, ''));
+
+  const ranked = available
+    .map(tag => {
+      const key = tagKey(tag);
+      if (key.startsWith(query) || decomposeHangul(key).startsWith(queryJamo)) return { tag, rank: 0 };
+      if (isChoseongQuery && getChoseong(key).replace(/\s/g, '').includes(query.replace(/\s/g, ''))) return { tag, rank: 1 };
+      if (key.includes(query)) return { tag, rank: 2 };
+      return null;
+    })
+    .filter((entry): entry is { tag: string; rank: number } => entry !== null);
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank || a.tag.localeCompare(b.tag))
+    .slice(0, limit)
+    .map(entry => entry.tag);
+};
@@ -0,0 +1,181 @@
+/**
+ * 도구 필드 비교 유틸리티
+ * 수정 제안과 변경 이력의 필드별 변경 내용 계산, 값 표시, 단어 단위 차이 강조에 사용합니다.
+ */
+import { EditSuggestionStatus, FirebaseTool, Pricing, ToolField, ToolFieldChanges, ToolInput, ToolRevisionAction } from '../../types';
+import { formatPricing, normalizePricing } from './pricing';
+import { normalizeTags, tagKey } from './tags';
+
+/**
+ * 필드 표시 이름 (표시 순서)
+ */
+export const TOOL_FIELD_LABELS: Record<ToolField, string> = {
+  name: '이름',
+  category: '카테고리',
+  url: 'URL',
+  description: '설명',
+  memo: '메모',
+  tags: '태그',
+  pricing: '가격 정보'
+};
+
+export const TOOL_FIELDS = Object.keys(TOOL_FIELD_LABELS) as ToolField[];
+
+// 수정 제안 사유와 검토 메모의 최대 길이 (보안 규칙과 동일)
+export const MAX_SUGGESTION_MESSAGE_LENGTH = 500;
+
+// 수정 제안 상태 표시 이름
+export const EDIT_SUGGESTION_STATUS_LABELS: Record<EditSuggestionStatus, string> = {
+  pending: '검토 대기',
+  accepted: '반영됨',
+  rejected: '거부됨'
+};
+
+// 변경 이력 종류 표시 이름
+export const TOOL_REVISION_ACTION_LABELS: Record<ToolRevisionAction, string> = {
+  create: '등록',
+  update: '수정',
+  suggestion: '수정 제안 반영',
+  revert: '되돌리기',
+  bulk: '일괄 변경'
+};
+
+/**
+ * 단어 단위 비교 결과 조각
+ */
+export interface TextDiffSegment {
+  text: string;
+  changed: boolean; // 반대쪽에 없는 부분이면 true
+}
+
+/**
+ * 도구(또는 도구 입력 데이터)에서 수정 가능한 필드만 추출
+ */
+export const toToolInput = (tool: FirebaseTool | ToolInput): ToolInput => ({
+  name: tool.name,
+  category: tool.category,
+  url: tool.url,
+  description: tool.description,
+  memo: tool.memo || '',
+  pricing: tool.pricing,
+  tags: tool.tags
+});
+
+/**
+ * 두 필드 값이 같은지 비교
+ * 문자열은 앞뒤 공백, 태그는 순서와 대소문자를 무시합니다.
+ */
+export const isSameFieldValue = <K extends ToolField>(field: K, a: ToolInput[K], b: ToolInput[K]): boolean => {
+  if (field === 'tags') {
+    const keys = (tags: unknown) => normalizeTags(tags as string[]).map(tagKey).sort().join('\n');
+    return keys(a) === keys(b);
+  }
+  if (field === 'pricing') {
+    return JSON.stringify(normalizePricing(a)) === JSON.stringify(normalizePricing(b));
+  }
+  return String(a ?? '').trim() === String(b ?? '').trim();
+};
+
+/**
+ * 현재 필드 값에 수정 데이터를 합친 변경 후 필드 값 (태그 정규화)
+ */
+export const mergeToolInput = (current: ToolInput, toolData: Partial<ToolInput>): ToolInput => ({
+  ...current,
+  ...toolData,
+  ...(toolData.tags ? { tags: normalizeTags(toolData.tags) } : {})
+});
+
+/**
+ * 현재 값과 새 값을 비교해 바뀐 필드만 담은 변경 내용 생성
+ */
+export const diffToolFields = (current: ToolInput, next: ToolInput): ToolFieldChanges => {
+  const changes: Record<string, { before: unknown; after: unknown }> = {};
+  TOOL_FIELDS.forEach(field => {
+    if (!isSameFieldValue(field, current[field], next[field])) {
+      changes[field] = { before: current[field], after: next[field] };
+    }
+  });
+  return changes as ToolFieldChanges;
+};
+
+/**
+ * 변경 내용에 포함된 필드 (표시 순서)
+ */
+export const getChangedFields = (changes: ToolFieldChanges): ToolField[] =>
+  TOOL_FIELDS.filter(field => changes[field] !== undefined);
+
+/**
+ * 필드 목록을 표시 이름으로 나열 (예: "이름, URL")
+ */
+export const formatFieldLabels = (fields: readonly ToolField[]): string =>
+  fields.map(field => TOOL_FIELD_LABELS[field]).join(', ');
+
+/**
+ * 선택한 필드의 새 값만 모아 도구 수정 데이터 생성
+ */
+export const pickFieldChanges = (changes: ToolFieldChanges, fields: readonly ToolField[]): Partial<ToolInput> => {
+  const picked: Record<string, unknown> = {};
+  fields.forEach(field => {
+    const change = changes[field];
+    if (change) picked[field] = change.after;
+  });
+  return picked as Partial<ToolInput>;
+};
+
+/**
+ * 필드 값을 화면 표시용 문자열로 변환
+ */
+export const formatToolFieldValue = (field: ToolField, value: unknown): string => {
+  if (field === 'pricing') {
+    return value ? formatPricing(value as Pricing) : '';
+  }
+  if (field === 'tags') {
+    return normalizeTags(value as string[]).join(', ');
+  }
+  return typeof value === 'string' ? value : '';
+};
+
+/**
+ * 두 문자열을 단어 단위로 비교해 양쪽에서 달라진 부분 표시 (최장 공통 부분열 기준)
+ * 도구 필드는 짧으므로 O(n·m) 계산으로 충분합니다.
+ */
+export const diffText = (before: string, after: string): { before: TextDiffSegment[]; after: TextDiffSegment[] } => {
+  const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lengths[i][j]: a[i:]와 b[j:]의 최장 공통 부분열 길이
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const left: TextDiffSegment[] = [];
+  const right: TextDiffSegment[] = [];
+  // 인접한 같은 종류의 조각은 하나로 합침
+  const push = (segments: TextDiffSegment[], text: string, changed: boolean) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed) {
+      last.text += text;
+    } else {
+      segments.push({ text, changed });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push(left, a[i++], false);
+      push(right, b[j++], false);
+    } else if (j >= b.length || (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      push(left, a[i++], true);
+    } else {
+      push(right, b[j++], true);
+    }
+  }
+
+  return { before: left, after: right };
+};
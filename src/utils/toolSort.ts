@@ -0,0 +1,64 @@
+/**
+ * 도구 정렬 유틸리티
+ * SortOption에 따른 비교 로직을 한 곳에서 관리합니다.
+ */
+import { FirebaseTool, SortOption } from '../../types';
+
+/**
+ * 이름 정렬 키 (앞뒤 공백 제거, 소문자)
+ * Firestore에는 nameLower 필드로 저장하고 이름순 페이지 조회의 정렬 기준으로 사용합니다.
+ */
+export const toNameSortKey = (name: string): string => (name || '').trim().toLowerCase();
+
+/**
+ * 유니코드 코드 포인트 순서로 비교 (Firestore의 문자열 정렬 순서와 같음)
+ * 커서로 나눠 가져온 페이지를 다시 정렬해도 서버 순서가 바뀌지 않도록 localeCompare 대신 사용합니다.
+ */
+const compareCodePoints = (a: string, b: string): number => {
+  const left = Array.from(a);
+  const right = Array.from(b);
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const diff = left[i].codePointAt(0)! - right[i].codePointAt(0)!;
+    if (diff !== 0) return diff;
+  }
+  return left.length - right.length;
+};
+
+/**
+ * 정렬 옵션에 따라 두 도구를 비교
+ * @param a 비교할 도구
+ * @param b 비교할 도구
+ * @param sortOrder 정렬 옵션
+ * @returns Array.prototype.sort 비교 결과
+ */
+export const compareTools = (a: FirebaseTool, b: FirebaseTool, sortOrder: SortOption): number => {
+  switch (sortOrder) {
+    case 'rating_desc':
+      return b.averageRating - a.averageRating;
+    case 'rating_asc':
+      return a.averageRating - b.averageRating;
+    case 'name_asc':
+      return compareCodePoints(toNameSortKey(a.name), toNameSortKey(b.name));
+    case 'name_desc':
+      return compareCodePoints(toNameSortKey(b.name), toNameSortKey(a.name));
+    case 'created_desc':
+      return b.createdAt.getTime() - a.createdAt.getTime();
+    case 'created_asc':
+      return a.createdAt.getTime() - b.createdAt.getTime();
+    case 'updated_desc':
+      return b.updatedAt.getTime() - a.updatedAt.getTime();
+    case 'updated_asc':
+      return a.updatedAt.getTime() - b.updatedAt.getTime();
+    default:
+      return b.updatedAt.getTime() - a.updatedAt.getTime();
+  }
+};
+
+/**
+ * 정렬된 새 배열을 반환 (원본 배열은 변경하지 않음)
+ * @param tools 도구 목록
+ * @param sortOrder 정렬 옵션
+ */
+export const sortTools = (tools: FirebaseTool[], sortOrder: SortOption): FirebaseTool[] => {
+  return [...tools].sort((a, b) => compareTools(a, b, sortOrder));
+};
@@ -0,0 +1,33 @@
+/**
+ * 도구 검토 상태 유틸리티
+ * 검토 상태 표시 이름, 저장된 상태 정규화, 조회 조건의 상태 필터 해석을 담당합니다.
+ */
+import { ToolStatus } from '../../types';
+
+/**
+ * 검토 상태 표시 이름
+ */
+export const TOOL_STATUS_LABELS: Record<ToolStatus, string> = {
+  pending: '검토 대기',
+  approved: '승인',
+  rejected: '거부'
+};
+
+export const TOOL_STATUSES = Object.keys(TOOL_STATUS_LABELS) as ToolStatus[];
+
+// 거부 사유 최대 길이 (firestore.rules와 동일)
+export const MAX_REJECTION_REASON_LENGTH = 500;
+
+/**
+ * 저장된 검토 상태 정규화
+ * 검토 기능 도입 전에 등록되어 상태가 없는 도구는 승인된 것으로 취급합니다.
+ */
+export const normalizeToolStatus = (value: unknown): ToolStatus =>
+  TOOL_STATUSES.includes(value as ToolStatus) ? value as ToolStatus : 'approved';
+
+/**
+ * 조회 조건의 상태 필터 (null이면 상태와 관계없이 전체)
+ * 지정하지 않으면 공개 목록과 같이 승인된 도구만 조회합니다.
+ */
+export const getStatusFilter = (status: ToolStatus | 'all' | undefined): ToolStatus | null =>
+  status === 'all' ? null : status || 'approved';
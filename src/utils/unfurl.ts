@@ -0,0 +1,47 @@
+/**
+ * URL 메타데이터 자동 입력 유틸리티
+ * /api/unfurl 로 페이지의 제목, 설명, 이미지, 파비콘을 가져와 도구 입력값 후보를 만듭니다.
+ */
+import { UrlMetadata } from '../../types';
+
+// 도구 추가 폼의 입력 길이 제한과 맞춤
+const MAX_NAME_LENGTH = 50;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// 페이지 제목에서 사이트 이름과 설명을 구분하는 기호 (예: 'Figma: The Collaborative Interface Design Tool')
+const TITLE_SEPARATOR_PATTERN = /\s+[|·•–—-]\s+|:\s+/;
+
+/**
+ * URL 메타데이터 조회
+ * @param url 조회할 도구 주소
+ * @param signal 요청 취소용 신호
+ * @throws 서버가 보낸 오류 메시지를 담은 Error
+ */
+export const fetchUrlMetadata = async (url: string, signal?: AbortSignal): Promise<UrlMetadata> => {
+  const response = await fetch(`/api/unfurl?url=${encodeURIComponent(url)}`, { signal });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok || !body) {
+    throw new Error(body?.error || '페이지 정보를 가져오지 못했습니다.');
+  }
+  return body as UrlMetadata;
+};
+
+/**
+ * 메타데이터로 도구 이름 후보 만들기
+ * og:site_name이 있으면 사용하고, 없으면 페이지 제목의 첫 부분을 사용합니다.
+ */
+export const suggestToolName = (metadata: UrlMetadata): string => {
+  const name = metadata.siteName || (metadata.title || '').split(TITLE_SEPARATOR_PATTERN)[0];
+  return name.trim().slice(0, MAX_NAME_LENGTH);
+};
+
+/**
+ * 메타데이터로 도구 설명 후보 만들기 (설명이 없으면 페이지 제목 사용)
+ */
+export const suggestToolDescription = (metadata: UrlMetadata): string => {
+  const description = (metadata.description || metadata.title || '').trim();
+  return description.length > MAX_DESCRIPTION_LENGTH
+    ? `${description.slice(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd()}…`
+    : description;
+};
@@ -0,0 +1,154 @@
+/**
+ * 사용자 활동 유틸리티
+ * 관리자 사용자 목록에 표시할 사용자별 작성 수, 마지막 활동 시각 계산과 목록 필터링에 사용합니다.
+ */
+import {
+  FirebaseComment,
+  FirebaseEditSuggestion,
+  FirebaseRating,
+  FirebaseTool,
+  FirebaseUser,
+  UserContentKind,
+  UserRole,
+  UserSummary,
+  UserSuspension
+} from '../../types';
+
+// 콘텐츠 종류 표시 이름
+export const USER_CONTENT_LABELS: Record<UserContentKind, string> = {
+  tools: '도구',
+  ratings: '평점',
+  comments: '댓글',
+  editSuggestions: '수정 제안'
+};
+
+export const USER_CONTENT_KINDS = Object.keys(USER_CONTENT_LABELS) as UserContentKind[];
+
+/**
+ * 종류별 개수가 모두 0인 객체 생성
+ */
+export const createEmptyContentCounts = (): Record<UserContentKind, number> => ({
+  tools: 0,
+  ratings: 0,
+  comments: 0,
+  editSuggestions: 0
+});
+
+/**
+ * 사용자별 활동을 계산할 콘텐츠 (도구는 검토 상태와 관계없이 모두 포함)
+ */
+export interface UserContents {
+  tools: FirebaseTool[];
+  ratings: FirebaseRating[];
+  comments: FirebaseComment[];
+  editSuggestions: FirebaseEditSuggestion[];
+}
+
+/**
+ * 콘텐츠 종류별 작성자 UID, 작성자 이름, 활동 시각 읽기
+ */
+const toActivities = ({ tools, ratings, comments, editSuggestions }: UserContents) => [
+  ...tools.map(tool => ({ kind: 'tools' as const, userId: tool.createdBy, userName: null, at: tool.updatedAt })),
+  ...ratings.map(rating => ({ kind: 'ratings' as const, userId: rating.userId, userName: null, at: rating.updatedAt })),
+  ...comments.map(comment => ({ kind: 'comments' as const, userId: comment.userId, userName: comment.userName, at: comment.updatedAt })),
+  ...editSuggestions.map(suggestion => ({
+    kind: 'editSuggestions' as const,
+    userId: suggestion.userId,
+    userName: suggestion.userName,
+    at: suggestion.createdAt
+  }))
+];
+
+/**
+ * 사용자 목록 요약 생성
+ * 사용자 문서가 없는 작성자(로그인 기록 이전 데이터 등)는 댓글/수정 제안의 작성자 이름으로 항목을 만듭니다.
+ * 게시 정지된 사용자는 작성한 콘텐츠가 없어도 포함합니다.
+ * @returns 마지막 활동이 최근인 사용자부터 (활동이 없는 사용자는 가입 순으로 마지막)
+ */
+export const summarizeUsers = (
+  users: FirebaseUser[],
+  contents: UserContents,
+  suspensions: UserSuspension[]
+): UserSummary[] => {
+  const suspensionMap = new Map(suspensions.map(suspension => [suspension.userId, suspension]));
+  const summaries = new Map<string, UserSummary>();
+  const registeredUserIds = new Set(users.map(user => user.uid));
+
+  const createSummary = (user: FirebaseUser): UserSummary => ({
+    ...user,
+    suspension: suspensionMap.get(user.uid) || null,
+    contentCounts: createEmptyContentCounts(),
+    lastActiveAt: null
+  });
+
+  users.forEach(user => summaries.set(user.uid, createSummary(user)));
+  // 콘텐츠를 모두 삭제한 정지 사용자도 정지를 해제할 수 있도록 목록에 포함
+  suspensions
+    .filter(suspension => !summaries.has(suspension.userId))
+    .forEach(suspension => summaries.set(suspension.userId, createSummary({
+      uid: suspension.userId,
+      displayName: null,
+      email: null,
+      photoURL: null,
+      role: null,
+      createdAt: suspension.createdAt
+    })));
+
+  toActivities(contents).forEach(({ kind, userId, userName, at }) => {
+    if (!userId) return;
+
+    let summary = summaries.get(userId);
+    if (!summary) {
+      summary = createSummary({ uid: userId, displayName: null, email: null, photoURL: null, role: null, createdAt: at });
+      summaries.set(userId, summary);
+    }
+
+    summary.contentCounts[kind]++;
+    if (!summary.displayName && userName) summary.displayName = userName;
+    // 사용자 문서가 없으면 가장 오래된 활동 시각을 가입 시각으로 사용
+    if (!registeredUserIds.has(userId) && at < summary.createdAt) summary.createdAt = at;
+    if (!summary.lastActiveAt || at > summary.lastActiveAt) summary.lastActiveAt = at;
+  });
+
+  return Array.from(summaries.values()).sort((a, b) => {
+    if (a.lastActiveAt && b.lastActiveAt) return b.lastActiveAt.getTime() - a.lastActiveAt.getTime();
+    if (a.lastActiveAt || b.lastActiveAt) return a.lastActiveAt ? -1 : 1;
+    return b.createdAt.getTime() - a.createdAt.getTime();
+  });
+};
+
+/**
+ * 사용자가 작성한 콘텐츠 수 합계
+ */
+export const getTotalContentCount = (summary: UserSummary): number =>
+  USER_CONTENT_KINDS.reduce((total, kind) => total + summary.contentCounts[kind], 0);
+
+/**
+ * 사용자 목록 필터 조건
+ */
+export interface UserFilter {
+  search: string; // 이름, 이메일, UID에서 검색
+  role: UserRole | 'none' | 'all'; // none: 역할 없는 사용자
+  suspendedOnly: boolean;
+}
+
+export const EMPTY_USER_FILTER: UserFilter = {
+  search: '',
+  role: 'all',
+  suspendedOnly: false
+};
+
+/**
+ * 조건에 맞는 사용자만 남기기
+ */
+export const filterUserSummaries = (summaries: UserSummary[], filter: UserFilter): UserSummary[] => {
+  const keyword = filter.search.trim().toLowerCase();
+
+  return summaries.filter(summary => {
+    if (filter.role !== 'all' && (summary.role ?? 'none') !== filter.role) return false;
+    if (filter.suspendedOnly && !summary.suspension) return false;
+    if (!keyword) return true;
+    return [summary.displayName, summary.email, summary.uid]
+      .some(value => value?.toLowerCase().includes(keyword));
+  });
+};
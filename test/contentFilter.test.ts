@@ -0,0 +1,49 @@
+/**
+ * 도구 콘텐츠 필터 검사 테스트
+ * 도구 수정과 수정 제안에서 바뀐 이름/설명/메모만 금칙어와 링크 수를 검사하는지 확인합니다.
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ToolInput } from '../types';
+import { DEFAULT_CONTENT_FILTER_SETTINGS, checkToolContent } from '../src/utils/contentFilter';
+
+const settings = { ...DEFAULT_CONTENT_FILTER_SETTINGS, blockedWords: ['casino'], maxLinks: 1 };
+
+const approvedTool: ToolInput = {
+  name: 'Figma',
+  category: '디자인',
+  url: 'https://www.figma.com',
+  description: '협업 디자인 도구',
+  memo: '',
+  pricing: null,
+  tags: ['디자인']
+};
+
+describe('checkToolContent', () => {
+  it('새 도구는 이름, 설명, 메모를 모두 검사한다', () => {
+    assert.equal(checkToolContent(approvedTool, settings), null);
+    assert.notEqual(checkToolContent({ ...approvedTool, memo: 'Casino 보너스' }, settings), null);
+  });
+
+  it('수정으로 설명에 금칙어를 넣으면 막는다', () => {
+    const updated = { ...approvedTool, description: '최고의 C.A.S.I.N.O 사이트' };
+    assert.notEqual(checkToolContent(updated, settings, approvedTool), null);
+  });
+
+  it('수정으로 허용 개수보다 많은 링크를 넣으면 막는다', () => {
+    const updated = { ...approvedTool, memo: 'https://a.example www.b.example' };
+    assert.notEqual(checkToolContent(updated, settings, approvedTool), null);
+  });
+
+  it('이름/설명/메모가 그대로면 카테고리와 태그 수정은 통과한다', () => {
+    // 금칙어가 나중에 추가돼도 기존 내용 때문에 다른 필드를 수정하지 못하면 안 됨
+    const legacyTool = { ...approvedTool, description: 'casino 리뷰 사이트 분석 도구' };
+    const updated = { ...legacyTool, category: '분석', tags: ['분석'] };
+    assert.equal(checkToolContent(updated, settings, legacyTool), null);
+  });
+
+  it('수정 제안 반영처럼 일부 필드만 전달하면 전달한 필드만 검사한다', () => {
+    assert.equal(checkToolContent({ tags: ['casino'] }, settings), null);
+    assert.notEqual(checkToolContent({ name: 'casino' }, settings), null);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * 링크 요청 유틸리티 테스트
+ * 로컬 HTTP 서버로 정상, 리디렉션, 오류, HEAD 미지원, 응답 없음 상황을 재현합니다.
+ */
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { probeLink } from '../src/utils/linkProbe';
+
+// 응답 없음 테스트에 쓰는 짧은 제한 시간
+const TIMEOUT_MS = 300;
+
+/**
+ * 경로별 응답을 정하는 테스트 서버
+ */
+const createFixtureServer = (): Server => createServer((req, res) => {
+  switch (req.url) {
+    case '/ok':
+      res.writeHead(200, { 'Content-Type': 'text/html' }).end('<p>ok</p>');
+      return;
+    case '/moved':
+      res.writeHead(301, { Location: '/new-home' }).end();
+      return;
+    case '/new-home':
+      res.writeHead(200).end('new');
+      return;
+    case '/missing':
+      res.writeHead(404).end();
+      return;
+    case '/no-head':
+      // HEAD는 거부하고 GET만 허용하는 서버
+      res.writeHead(req.method === 'HEAD' ? 405 : 200).end();
+      return;
+    case '/loop':
+      res.writeHead(302, { Location: '/loop' }).end();
+      return;
+    case '/hang':
+      // 응답하지 않음 (테스트 종료 시 연결을 닫음)
+      return;
+    default:
+      res.writeHead(500).end();
+  }
+});
+
+describe('링크 요청', () => {
+  let server: Server;
+  let baseUrl = '';
+
+  before(async () => {
+    server = createFixtureServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('200 응답은 정상으로 판정하고 최종 주소를 남기지 않는다', async () => {
+    const result = await probeLink(`${baseUrl}/ok`);
+    assert.equal(result.status, 'ok');
+    assert.equal(result.httpStatus, 200);
+    assert.equal(result.finalUrl, null);
+    assert.equal(result.error, null);
+    assert.equal(typeof result.responseTimeMs, 'number');
+  });
+
+  it('301 리디렉션을 따라가 최종 주소와 상태를 기록한다', async () => {
+    const result = await probeLink(`${baseUrl}/moved`);
+    assert.equal(result.status, 'redirected');
+    assert.equal(result.httpStatus, 200);
+    assert.equal(result.finalUrl, `${baseUrl}/new-home`);
+  });
+
+  it('404 응답은 연결 오류로 판정한다', async () => {
+    const result = await probeLink(`${baseUrl}/missing`);
+    assert.equal(result.status, 'broken');
+    assert.equal(result.httpStatus, 404);
+    assert.equal(result.finalUrl, null);
+  });
+
+  it('HEAD에 405로 응답하면 GET으로 다시 요청한다', async () => {
+    const result = await probeLink(`${baseUrl}/no-head`);
+    assert.equal(result.status, 'ok');
+    assert.equal(result.httpStatus, 200);
+  });
+
+  it('리디렉션이 최대 횟수를 넘으면 연결 오류로 판정한다', async () => {
+    const result = await probeLink(`${baseUrl}/loop`, { maxRedirects: 2 });
+    assert.equal(result.status, 'broken');
+    assert.equal(result.httpStatus, null);
+    assert.match(result.error || '', /2회/);
+  });
+
+  it('제한 시간 안에 응답하지 않으면 연결 오류로 판정한다', async () => {
+    const startedAt = Date.now();
+    const result = await probeLink(`${baseUrl}/hang`, { timeoutMs: TIMEOUT_MS });
+    assert.equal(result.status, 'broken');
+    assert.equal(result.httpStatus, null);
+    assert.equal(result.responseTimeMs, null);
+    assert.match(result.error || '', /응답하지 않았습니다/);
+    assert.ok(Date.now() - startedAt < TIMEOUT_MS * 10);
+  });
+
+  it('연결할 수 없는 주소는 오류 코드를 기록한다', async () => {
+    // 열었다 닫은 포트는 연결이 거부됨
+    const closedServer = createServer();
+    await new Promise<void>(resolve => closedServer.listen(0, '127.0.0.1', resolve));
+    const { port } = closedServer.address() as AddressInfo;
+    await new Promise<void>(resolve => closedServer.close(() => resolve()));
+
+    const result = await probeLink(`http://127.0.0.1:${port}/`, { timeoutMs: TIMEOUT_MS });
+    assert.equal(result.status, 'broken');
+    assert.equal(result.httpStatus, null);
+    assert.equal(result.error, 'ECONNREFUSED');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * 카테고리 도구 일괄 이동 규칙 테스트
+ * 도구마다 변경 이력을 함께 기록하므로, 배치 쓰기의 규칙 문서 접근 호출 제한(20회)을 넘지 않는지 확인합니다.
+ */
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { collection, doc, getDocs, query, serverTimestamp, where, writeBatch } from 'firebase/firestore';
+import { connectAs, createTestEnvironment } from './setup';
+import { createFirestoreRepository } from '../../src/repositories/firestoreRepository';
+
+// 문서 접근 호출 제한(20회)을 넘는 도구 수
+const TOOL_COUNT = 25;
+
+describe('카테고리 도구 일괄 이동', () => {
+  let testEnv: RulesTestEnvironment;
+
+  before(async () => {
+    testEnv = await createTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      const batch = db.batch();
+      for (let i = 0; i < TOOL_COUNT; i++) {
+        batch.set(db.collection('tools').doc(`tool-${i}`), {
+          name: `도구 ${i}`,
+          category: '이전 카테고리',
+          url: `https://tool-${i}.example.com`,
+          description: '',
+          memo: '',
+          tags: [],
+          pricing: null,
+          status: 'approved',
+          createdBy: 'owner',
+          createdAt: new Date(),
+          updatedAt: new Date()
+        });
+      }
+      await batch.commit();
+    });
+  });
+
+  after(() => testEnv.cleanup());
+
+  it(`도구 ${TOOL_COUNT}개를 변경 이력과 함께 모두 옮긴다`, async () => {
+    const { db, close } = connectAs('editor-1', { role: 'editor' });
+    try {
+      const repository = createFirestoreRepository(db);
+      const movedCount = await repository.tools.reassignCategory('이전 카테고리', '새 카테고리', 'editor-1');
+      assert.equal(movedCount, TOOL_COUNT);
+
+      const moved = await getDocs(query(collection(db, 'tools'), where('category', '==', '새 카테고리')));
+      assert.equal(moved.size, TOOL_COUNT);
+      const revisions = await getDocs(collection(db, 'tools', 'tool-0', 'revisions'));
+      assert.equal(revisions.size, 1);
+      assert.equal(revisions.docs[0].data().action, 'bulk');
+    } finally {
+      await close();
+    }
+  });
+
+  it('변경 이력을 기록하는 도구가 20개를 넘는 한 배치는 규칙에서 거부된다', async () => {
+    const { db, close } = connectAs('editor-1', { role: 'editor' });
+    try {
+      const batch = writeBatch(db);
+      for (let i = 0; i < 21; i++) {
+        const toolRef = doc(db, 'tools', `tool-${i}`);
+        batch.update(toolRef, { category: '새 카테고리', updatedAt: serverTimestamp() });
+        batch.set(doc(collection(toolRef, 'revisions')), {
+          toolId: toolRef.id,
+          action: 'bulk',
+          fields: {},
+          changes: {},
+          authorId: 'editor-1',
+          sourceId: null,
+          createdAt: serverTimestamp()
+        });
+      }
+      await assert.rejects(batch.commit(), /PERMISSION_DENIED|permission/i);
+    } finally {
+      await close();
+    }
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * 보안 규칙 테스트 공통 설정
+ * Firestore 에뮬레이터에 firestore.rules를 올리고, 사용자 토큰으로 접속한 클라이언트로 저장소 코드를 그대로 실행합니다.
+ * `npm run test:rules`가 `firebase emulators:exec`로 에뮬레이터를 띄운 뒤 FIRESTORE_EMULATOR_HOST를 지정해 실행합니다.
+ */
+import { readFileSync } from 'node:fs';
+import { initializeTestEnvironment, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { deleteApp, initializeApp } from 'firebase/app';
+import { connectFirestoreEmulator, Firestore, getFirestore } from 'firebase/firestore';
+
+// 실제 프로젝트와 겹치지 않는 에뮬레이터 전용(demo-) 프로젝트 ID
+export const PROJECT_ID = 'demo-tech-toolkit-hub';
+
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+if (!emulatorHost) {
+  throw new Error('FIRESTORE_EMULATOR_HOST가 없습니다. `npm run test:rules`(Firestore 에뮬레이터)로 실행하세요.');
+}
+const [host, port] = emulatorHost.split(':');
+
+/**
+ * 규칙 테스트 환경 생성 (데이터 준비는 withSecurityRulesDisabled로 규칙 없이 기록)
+ */
+export const createTestEnvironment = (): Promise<RulesTestEnvironment> =>
+  initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { rules: readFileSync('firestore.rules', 'utf8'), host, port: Number(port) }
+  });
+
+let appCount = 0;
+
+/**
+ * 사용자 토큰(커스텀 클레임 포함)으로 접속한 클라이언트 Firestore
+ * @param uid 사용자 UID
+ * @param claims 커스텀 클레임 (예: { role: 'editor' })
+ */
+export const connectAs = (uid: string, claims: Record<string, unknown> = {}): { db: Firestore; close: () => Promise<void> } => {
+  const app = initializeApp({ projectId: PROJECT_ID, apiKey: 'demo-api-key' }, `rules-test-${++appCount}`);
+  const db = getFirestore(app);
+  connectFirestoreEmulator(db, host, Number(port), { mockUserToken: { sub: uid, user_id: uid, ...claims } });
+  return { db, close: () => deleteApp(app) };
+};
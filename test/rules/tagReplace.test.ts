@@ -0,0 +1,78 @@
+/**
+ * 태그 일괄 변경 규칙 테스트
+ * 도구마다 변경 이력을 함께 기록하므로, 배치 쓰기의 규칙 문서 접근 호출 제한(20회)을 넘지 않는지 확인합니다.
+ */
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { connectAs, createTestEnvironment } from './setup';
+import { createFirestoreRepository } from '../../src/repositories/firestoreRepository';
+
+// 문서 접근 호출 제한(20회)을 넘는 도구 수
+const TOOL_COUNT = 25;
+
+describe('태그 일괄 변경', () => {
+  let testEnv: RulesTestEnvironment;
+
+  before(async () => {
+    testEnv = await createTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      const batch = db.batch();
+      for (let i = 0; i < TOOL_COUNT; i++) {
+        batch.set(db.collection('tools').doc(`tool-${i}`), {
+          name: `도구 ${i}`,
+          category: '디자인',
+          url: `https://tool-${i}.example.com`,
+          description: '',
+          memo: '',
+          // 대소문자만 다른 태그도 같은 태그로 처리
+          tags: [i % 2 === 0 ? 'UI' : 'ui', '협업'],
+          pricing: null,
+          status: 'approved',
+          createdBy: 'owner',
+          createdAt: new Date(),
+          updatedAt: new Date()
+        });
+      }
+      await batch.commit();
+    });
+  });
+
+  after(() => testEnv.cleanup());
+
+  it(`도구 ${TOOL_COUNT}개의 태그를 변경 이력과 함께 모두 바꾼다`, async () => {
+    const { db, close } = connectAs('editor-1', { role: 'editor' });
+    try {
+      const repository = createFirestoreRepository(db);
+      const updatedCount = await repository.tools.replaceTag('UI', '디자인 시스템', 'editor-1');
+      assert.equal(updatedCount, TOOL_COUNT);
+
+      const replaced = await getDocs(query(collection(db, 'tools'), where('tags', 'array-contains', '디자인 시스템')));
+      assert.equal(replaced.size, TOOL_COUNT);
+      const revisions = await getDocs(collection(db, 'tools', 'tool-1', 'revisions'));
+      assert.equal(revisions.size, 1);
+      assert.equal(revisions.docs[0].data().action, 'bulk');
+    } finally {
+      await close();
+    }
+  });
+
+  it('태그를 제거하면 다른 태그는 그대로 둔다', async () => {
+    const { db, close } = connectAs('editor-1', { role: 'editor' });
+    try {
+      const repository = createFirestoreRepository(db);
+      assert.equal(await repository.tools.replaceTag('ui', null, 'editor-1'), TOOL_COUNT);
+
+      const tools = await getDocs(collection(db, 'tools'));
+      tools.docs.forEach(toolDoc => assert.deepEqual(toolDoc.data().tags, ['협업']));
+    } finally {
+      await close();
+    }
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * 태그 생성 규칙 테스트
+ * 태그 목록은 관리 역할 사용자만 만들 수 있고, 게시 정지된 사용자는 역할이 있어도 만들 수 없는지 확인합니다.
+ */
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { addDoc, collection, Firestore, serverTimestamp } from 'firebase/firestore';
+import { connectAs, createTestEnvironment } from './setup';
+
+/**
+ * 클라이언트 태그 저장소와 같은 형식으로 태그 생성
+ */
+const addTag = (db: Firestore, name: string) =>
+  addDoc(collection(db, 'tags'), { name, createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+
+describe('태그 생성', () => {
+  let testEnv: RulesTestEnvironment;
+
+  before(async () => {
+    testEnv = await createTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().collection('suspensions').doc('suspended-editor').set({
+        reason: '스팸 태그 생성',
+        suspendedBy: 'admin-1',
+        createdAt: new Date()
+      });
+    });
+  });
+
+  after(() => testEnv.cleanup());
+
+  it('편집자는 태그를 만들 수 있다', async () => {
+    const { db, close } = connectAs('editor-1', { role: 'editor' });
+    try {
+      await addTag(db, '디자인');
+    } finally {
+      await close();
+    }
+  });
+
+  it('관리 역할이 없는 사용자는 태그를 만들 수 없다', async () => {
+    const { db, close } = connectAs('user-1');
+    try {
+      await assert.rejects(addTag(db, '광고'), /PERMISSION_DENIED|permission/i);
+    } finally {
+      await close();
+    }
+  });
+
+  it('게시 정지된 사용자는 역할이 있어도 태그를 만들 수 없다', async () => {
+    const { db, close } = connectAs('suspended-editor', { role: 'editor' });
+    try {
+      await assert.rejects(addTag(db, '광고'), /PERMISSION_DENIED|permission/i);
+    } finally {
+      await close();
+    }
+  });
+});
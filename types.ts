@@ -5,32 +5,100 @@ export interface AiTool {
   description: string;
   memo: string;
   rating: number;
-  plan: string | null;
+  plan: string | null; // 이전 형식의 요금제 문자열 (Firestore 도구 문서는 pricing 사용)
+}
+
+// 가격 모델
+export type PricingModel = 'free' | 'freemium' | 'paid' | 'open-source' | 'enterprise';
+
+// 결제 주기
+export type BillingPeriod = 'monthly' | 'yearly' | 'one-time' | 'usage';
+
+// 가격 정보
+export interface Pricing {
+  model: PricingModel;
+  hasFreeTrial: boolean; // 무료 체험 제공 여부
+  startingPrice: number | null; // 가장 저렴한 유료 요금 (없거나 알 수 없으면 null)
+  currency: string | null; // 시작 가격의 통화 (ISO 4217, 예: 'USD', 'KRW')
+  billingPeriod: BillingPeriod | null; // 시작 가격의 결제 주기
 }
 
 export type SortOption = 'rating_desc' | 'rating_asc' | 'name_asc' | 'name_desc' | 'created_desc' | 'created_asc' | 'updated_desc' | 'updated_asc';
 
 // Firebase 관련 타입 정의
 
+// 평점 분포 (키: '0.5' ~ '5.0', 값: 해당 평점 개수)
+export type RatingHistogram = Record<string, number>;
+
+// 링크 점검 상태 (ok: 정상, redirected: 다른 주소로 이동, broken: 오류 응답/연결 실패, blocked: 봇 차단 등으로 확인 불가)
+export type LinkStatus = 'ok' | 'redirected' | 'broken' | 'blocked';
+
+// 링크 점검 결과 (scripts/check-links.ts가 기록)
+export interface LinkHealth {
+  status: LinkStatus;
+  httpStatus: number | null; // 마지막 응답 상태 코드 (연결 실패 시 null)
+  finalUrl: string | null; // 리디렉션을 따라간 최종 주소
+  responseTimeMs: number | null; // 리디렉션을 포함한 전체 응답 시간
+  error: string | null; // 연결 실패 사유
+  lastCheckedAt: Date;
+}
+
+// 도구 검토 상태 (pending: 검토 대기, approved: 승인되어 목록에 공개, rejected: 거부)
+export type ToolStatus = 'pending' | 'approved' | 'rejected';
+
 // Firebase Tool 인터페이스 - 기존 AiTool과 호환되면서 Firebase 기능 확장
-export interface FirebaseTool extends Omit<AiTool, 'rating'> {
+export interface FirebaseTool extends Omit<AiTool, 'rating' | 'plan'> {
   id: string;
+  pricing: Pricing | null; // 가격 정보 (알 수 없으면 null)
+  slug: string; // 상세 페이지 URL용 고유 슬러그 (생성 시 이름으로 만들고 이후 변경하지 않음)
+  tags: string[]; // 태그 목록 (카테고리와 별개로 여러 개 지정 가능)
   averageRating: number; // 평균 평점으로 변경
   ratingCount: number; // 평점 개수
+  ratingSum: number; // 평점 합계 (평균 재계산용 누적값)
+  ratingHistogram: RatingHistogram; // 0.5점 단위 평점 분포
+  commentCount: number; // 댓글 수 (Cloud Functions에서 관리)
+  bookmarkCount: number; // 북마크 수 (Cloud Functions에서 관리)
+  linkHealth: LinkHealth | null; // 링크 점검 결과 (점검 전이거나 관리자가 처리했으면 null)
+  status: ToolStatus; // 검토 상태 (승인된 도구만 목록에 표시, 필드가 없는 기존 문서는 승인으로 취급)
+  rejectionReason: string | null; // 거부 사유 (등록한 사용자에게 표시)
+  reviewedBy: string | null; // 검토한 관리자 UID
+  reviewedAt: Date | null; // 검토 시각
   createdAt: Date;
   updatedAt: Date;
   createdBy: string; // 사용자 UID
 }
 
+// 관리 역할 (Firebase Auth 커스텀 클레임 role, admin: 전체 관리, moderator: 등록 검토와 수정 제안 처리, editor: 도구 내용과 카테고리/태그 정리)
+export type UserRole = 'admin' | 'moderator' | 'editor';
+
 // Firebase 사용자 인터페이스
 export interface FirebaseUser {
   uid: string;
   displayName: string | null;
   email: string | null;
   photoURL: string | null;
+  role: UserRole | null; // 관리 역할 표시용 사본 (권한 판단은 커스텀 클레임, 역할 지정 시 함께 기록)
   createdAt: Date;
 }
 
+// 게시 정지 정보 (suspensions 컬렉션, 문서 ID는 사용자 UID, 문서가 있으면 정지 상태)
+export interface UserSuspension {
+  userId: string;
+  reason: string; // 정지 사유 (관리자 화면과 정지된 사용자에게 표시)
+  suspendedBy: string; // 정지한 관리자 UID
+  createdAt: Date;
+}
+
+// 사용자가 작성한 콘텐츠 종류 (스팸 일괄 삭제 단위)
+export type UserContentKind = 'tools' | 'ratings' | 'comments' | 'editSuggestions';
+
+// 관리자 사용자 목록 항목 (사용자 정보, 게시 정지 상태, 콘텐츠 종류별 작성 수, 마지막 활동 시각)
+export interface UserSummary extends FirebaseUser {
+  suspension: UserSuspension | null;
+  contentCounts: Record<UserContentKind, number>;
+  lastActiveAt: Date | null; // 작성한 콘텐츠의 최근 작성/수정 시각 (활동이 없으면 null)
+}
+
 // 사용자 평점 인터페이스
 export interface FirebaseRating {
   id: string;
@@ -41,6 +109,9 @@ export interface FirebaseRating {
   updatedAt: Date;
 }
 
+// 댓글 검토 상태 (visible: 표시, autoHidden: 신고 누적으로 자동 숨김, hidden: 관리자가 숨김, restored: 관리자가 검토 후 복원 - 이후 신고로는 자동 숨김하지 않음)
+export type CommentModerationStatus = 'visible' | 'autoHidden' | 'hidden' | 'restored';
+
 // 댓글 인터페이스 (1단계 답글 지원)
 export interface FirebaseComment {
   id: string;
@@ -50,10 +121,178 @@ export interface FirebaseComment {
   userPhotoURL: string | null; // 사용자 프로필 이미지
   content: string;
   parentId: string | null; // null이면 부모 댓글, 값이 있으면 답글
+  reportCount: number; // 신고 수 (Cloud Functions에서 관리)
+  moderationStatus: CommentModerationStatus; // 필드가 없는 기존 문서는 visible로 취급
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 댓글 신고 사유
+export type CommentReportReason = 'spam' | 'abuse' | 'inappropriate' | 'other';
+
+// 댓글 신고 인터페이스 (commentReports 컬렉션, 문서 ID는 '댓글 ID_신고자 UID'로 사용자당 한 번만 신고)
+export interface FirebaseCommentReport {
+  id: string;
+  commentId: string;
+  toolId: string;
+  commentAuthorId: string; // 신고된 댓글 작성자 UID
+  reporterId: string; // 신고한 사용자 UID
+  reason: CommentReportReason;
+  detail: string; // 추가 설명 (최대 500자, 없으면 빈 문자열)
+  createdAt: Date;
+}
+
+// 북마크 인터페이스
+export interface FirebaseBookmark {
+  id: string;
+  toolId: string;
+  userId: string;
+  createdAt: Date;
+}
+
+// 카테고리 인터페이스 (parentId로 계층 구성)
+export interface FirebaseCategory {
+  id: string;
+  name: string;
+  parentId: string | null; // 상위 카테고리 ID (null이면 최상위)
+  order: number; // 같은 상위 카테고리 안에서의 표시 순서 (오름차순)
+  icon: string; // 표시용 아이콘 (이모지, 없으면 빈 문자열)
+  description: string; // 카테고리 설명
   createdAt: Date;
   updatedAt: Date;
 }
 
+// 태그 인터페이스
+export interface FirebaseTag {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 수정 제안 상태 (pending: 검토 대기, accepted: 반영(일부 반영 포함), rejected: 거부)
+export type EditSuggestionStatus = 'pending' | 'accepted' | 'rejected';
+
+// 수정 가능한 도구 필드
+export type ToolField = keyof ToolInput;
+
+// 필드별 변경 내용 (변경한 필드만 포함, 수정 제안과 변경 이력에서 사용)
+export type ToolFieldChanges = {
+  [K in ToolField]?: {
+    before: ToolInput[K]; // 변경 전 값 (수정 제안: 제안할 때의 값)
+    after: ToolInput[K]; // 변경 후 값 (수정 제안: 제안한 값)
+  };
+};
+
+// 도구 수정 제안 인터페이스 (작성자가 아닌 사용자가 제안하고 작성자나 관리자가 검토)
+export interface FirebaseEditSuggestion {
+  id: string;
+  toolId: string;
+  toolName: string; // 제안할 때의 도구 이름 (목록 표시용)
+  toolOwnerId: string; // 도구 작성자 UID (작성자가 받은 제안 조회용)
+  userId: string; // 제안한 사용자 UID
+  userName: string; // 제안한 사용자 표시 이름
+  message: string; // 제안 사유
+  changes: ToolFieldChanges;
+  status: EditSuggestionStatus;
+  appliedFields: ToolField[]; // 반영한 필드 (일부만 반영하면 changes의 일부)
+  reviewNote: string | null; // 거부 사유 등 검토 메모
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 도구 변경 이력 종류 (create: 등록, update: 수정, suggestion: 수정 제안 반영, revert: 되돌리기, bulk: 관리자 일괄 변경)
+export type ToolRevisionAction = 'create' | 'update' | 'suggestion' | 'revert' | 'bulk';
+
+// 도구 변경 이력 인터페이스 (tools/{toolId}/revisions 하위 컬렉션, 수정 불가)
+export interface FirebaseToolRevision {
+  id: string;
+  toolId: string;
+  action: ToolRevisionAction;
+  fields: ToolInput; // 변경 후 전체 필드 값 (되돌리기에 사용)
+  changes: ToolFieldChanges; // 직전 상태와 비교한 변경 내용 (등록이면 비어 있음)
+  authorId: string; // 변경한 사용자 UID
+  sourceId: string | null; // revert: 되돌린 이력 ID, suggestion: 반영한 수정 제안 ID
+  createdAt: Date;
+}
+
+// 콘텐츠 필터 설정 (settings/contentFilter 문서, 관리자만 수정)
+export interface ContentFilterSettings {
+  blockedWords: string[]; // 금칙어 (대소문자, 공백, 특수문자를 무시하고 비교)
+  maxLinks: number; // 댓글/도구 설명 하나에 허용하는 링크 수
+  blockRepeatedContent: boolean; // 최근에 작성한 댓글과 같은 내용의 댓글 차단
+  commentsPerMinute: number; // 사용자당 1분에 작성할 수 있는 댓글 수
+  toolsPerDay: number; // 사용자당 하루에 등록 요청할 수 있는 도구 수
+  updatedBy: string | null; // 마지막으로 수정한 관리자 UID (기본값이면 null)
+  updatedAt: Date | null;
+}
+
+// 콘텐츠 필터 설정 수정용 입력 타입
+export type ContentFilterInput = Omit<ContentFilterSettings, 'updatedBy' | 'updatedAt'>;
+
+// 작성 수 제한 대상
+export type RateLimitKind = 'comments' | 'tools';
+
+// 작성 수 제한 구간 (rateLimits/{uid} 문서의 대상별 필드)
+export interface RateLimitWindow {
+  windowStart: Date; // 구간 시작 시각 (구간 길이가 지나면 새 구간 시작)
+  count: number; // 구간 안에서 작성한 수
+  lastAt: Date; // 마지막 작성 시각
+  seq: number; // 구간과 관계없이 1씩 늘어나는 누적 작성 순번 (Firestore 문서 ID에 사용)
+}
+
+// 감사 로그 대상 종류
+export type AuditTargetType = 'admin' | 'tool' | 'category' | 'tag' | 'editSuggestion' | 'user' | 'comment' | 'settings';
+
+// 감사 로그 작업 종류 ('대상 종류.작업' 형식)
+export type AuditAction =
+  | 'admin.login'
+  | 'admin.logout'
+  | 'tool.update'
+  | 'tool.delete'
+  | 'tool.import'
+  | 'tool.approve'
+  | 'tool.reject'
+  | 'tool.revert'
+  | 'tool.applyFinalUrl'
+  | 'tool.dismissLinkHealth'
+  | 'category.create'
+  | 'category.update'
+  | 'category.reorder'
+  | 'category.rename'
+  | 'category.merge'
+  | 'category.delete'
+  | 'tag.create'
+  | 'tag.rename'
+  | 'tag.merge'
+  | 'tag.delete'
+  | 'editSuggestion.accept'
+  | 'editSuggestion.reject'
+  | 'editSuggestion.delete'
+  | 'user.setRole'
+  | 'user.suspend'
+  | 'user.unsuspend'
+  | 'user.removeContent'
+  | 'comment.hide'
+  | 'comment.restore'
+  | 'comment.delete'
+  | 'settings.updateContentFilter';
+
+// 관리 작업 감사 로그 인터페이스 (adminLogs 컬렉션, 수정 불가)
+export interface FirebaseAuditLog {
+  id: string;
+  actorId: string; // 작업한 관리자 UID
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string | null; // 대상 문서 ID (여러 문서가 대상이면 null)
+  targetName: string; // 표시용 대상 이름 (작업 당시)
+  before: string | null; // 변경 전 요약
+  after: string | null; // 변경 후 요약
+  createdAt: Date;
+}
+
 // Firestore 쿼리 결과 타입
 export interface FirestoreQueryResult<T> {
   data: T[];
@@ -68,7 +307,17 @@ export interface ToolInput {
   url: string;
   description: string;
   memo: string;
-  plan: string | null;
+  pricing: Pricing | null;
+  tags: string[];
+}
+
+// 카테고리 추가/수정용 입력 타입
+export interface CategoryInput {
+  name: string;
+  parentId: string | null;
+  order: number;
+  icon: string;
+  description: string;
 }
 
 // 댓글 추가용 입력 타입
@@ -77,3 +326,13 @@ export interface CommentInput {
   content: string;
   parentId?: string | null; // 답글인 경우 부모 댓글 ID
 }
+
+// URL 메타데이터 (/api/unfurl 응답, 도구 추가 시 자동 입력에 사용)
+export interface UrlMetadata {
+  url: string; // 리디렉션을 따라간 최종 주소
+  title: string | null;
+  description: string | null;
+  siteName: string | null;
+  image: string | null; // Open Graph 이미지
+  favicon: string | null;
+}
@@ -1,11 +1,25 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+import { handleUnfurlRequest } from './api/_lib/unfurl';
+
+/**
+ * 개발 서버용 /api/unfurl (배포 환경에서는 Vercel 함수 api/unfurl.ts가 처리)
+ */
+const unfurlDevApi = (): Plugin => ({
+  name: 'unfurl-dev-api',
+  configureServer(server) {
+    server.middlewares.use('/api/unfurl', (req, res) => {
+      handleUnfurlRequest(req, res);
+    });
+  }
+});
 
 export default defineConfig(({ mode }) => {
     // 모든 환경 변수 로드 (VITE_ 접두사가 없는 변수도 포함)
     const env = loadEnv(mode, process.cwd(), ['VITE_', '']);
     
     return {
+      plugins: [unfurlDevApi()],
       // 환경 변수를 클라이언트 코드에서 사용할 수 있도록 정의
       define: {
         // Gemini API 키
@@ -17,11 +31,7 @@ export default defineConfig(({ mode }) => {
         'process.env.FIREBASE_PROJECT_ID': JSON.stringify(env.FIREBASE_PROJECT_ID || env.VITE_FIREBASE_PROJECT_ID),
         'process.env.FIREBASE_STORAGE_BUCKET': JSON.stringify(env.FIREBASE_STORAGE_BUCKET || env.VITE_FIREBASE_STORAGE_BUCKET),
         'process.env.FIREBASE_MESSAGING_SENDER_ID': JSON.stringify(env.FIREBASE_MESSAGING_SENDER_ID || env.VITE_FIREBASE_MESSAGING_SENDER_ID),
-        'process.env.FIREBASE_APP_ID': JSON.stringify(env.FIREBASE_APP_ID || env.VITE_FIREBASE_APP_ID),
-        
-        // 관리자 계정 설정
-        'process.env.VITE_ADMIN_ID': JSON.stringify(env.VITE_ADMIN_ID),
-        'process.env.VITE_ADMIN_PW': JSON.stringify(env.VITE_ADMIN_PW)
+        'process.env.FIREBASE_APP_ID': JSON.stringify(env.FIREBASE_APP_ID || env.VITE_FIREBASE_APP_ID)
       },
       resolve: {
         alias: {